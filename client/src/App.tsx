@@ -13,12 +13,21 @@ import Users from "@/pages/Users";
 import PaymentGateways from "@/pages/PaymentGateways";
 import Collaborators from "@/pages/Collaborators";
 import WhatsappInstances from "@/pages/WhatsappInstances";
+import WhatsappMessages from "@/pages/WhatsappMessages";
+import WhatsappInbox from "@/pages/WhatsappInbox";
 import CustomerPlans from "@/pages/CustomerPlans";
 import PriceTables from "@/pages/PriceTables";
 import PublicPricing from "@/pages/PublicPricing";
+import Coupons from "@/pages/Coupons";
+import PaymentReminders from "@/pages/PaymentReminders";
 import Support from "@/pages/Support";
 import SupportTickets from "@/pages/SupportTickets";
+import SupportSlaPolicies from "@/pages/SupportSlaPolicies";
+import SupportRouting from "@/pages/SupportRouting";
+import TicketStatus from "@/pages/TicketStatus";
+import Profile from "@/pages/Profile";
 import Accounting from "@/pages/Accounting";
+import Roles from "@/pages/Roles";
 
 import MockDataGenerator from "@/pages/MockDataGenerator";
 import NotFound from "@/pages/not-found";
@@ -31,6 +40,9 @@ function Router() {
 
   return (
     <Switch>
+      {/* Public: customers look up their ticket with its ID and their email */}
+      <Route path="/ticket-status" component={TicketStatus} />
+      <Route path="/reset-password" component={Login} />
       {!isAuthenticated ? (
         <>
           <Route path="/" component={Landing} />
@@ -44,12 +56,20 @@ function Router() {
           <Route path="/payment-gateways" component={PaymentGateways} />
           <Route path="/collaborators" component={Collaborators} />
           <Route path="/whatsapp-instances" component={WhatsappInstances} />
+          <Route path="/whatsapp-messages" component={WhatsappMessages} />
+          <Route path="/inbox" component={WhatsappInbox} />
           <Route path="/customer-plans" component={CustomerPlans} />
           <Route path="/price-tables" component={PriceTables} />
           <Route path="/public-pricing" component={PublicPricing} />
+          <Route path="/coupons" component={Coupons} />
+          <Route path="/payment-reminders" component={PaymentReminders} />
           <Route path="/support" component={Support} />
           <Route path="/support-tickets" component={SupportTickets} />
+          <Route path="/support-sla" component={SupportSlaPolicies} />
+          <Route path="/support-routing" component={SupportRouting} />
+          <Route path="/profile" component={Profile} />
           <Route path="/accounting" component={Accounting} />
+          <Route path="/roles" component={Roles} />
 
           <Route path="/mock-data" component={MockDataGenerator} />
         </>
@@ -0,0 +1,350 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { Coupon, PriceTable } from '@shared/schema';
+
+const couponFormSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(50),
+  description: z.string().optional(),
+  discountType: z.enum(['percentage', 'fixed']),
+  discountValue: z.string().regex(/^\d+(\.\d{1,2})?$/, 'Enter a positive amount'),
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+  maxRedemptions: z.string().regex(/^\d*$/, 'Enter a whole number').optional(),
+  priceTableIds: z.array(z.number()),
+  planTypes: z.array(z.enum(['3x', '12x'])),
+  isActive: z.boolean().default(true),
+});
+
+type CouponFormData = z.infer<typeof couponFormSchema>;
+
+interface CouponDialogProps {
+  open: boolean;
+  onClose: () => void;
+  coupon?: Coupon | null;
+}
+
+const toDateInput = (date: Date | string | null) => date ? new Date(date).toISOString().split('T')[0] : '';
+
+const emptyCoupon: CouponFormData = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  discountValue: '',
+  validFrom: '',
+  validUntil: '',
+  maxRedemptions: '',
+  priceTableIds: [],
+  planTypes: [],
+  isActive: true,
+};
+
+export function CouponDialog({ open, onClose, coupon }: CouponDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!coupon;
+
+  const { data: priceTables = [] } = useQuery<PriceTable[]>({
+    queryKey: ['/api/price-tables'],
+  });
+
+  const form = useForm<CouponFormData>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues: emptyCoupon,
+  });
+
+  useEffect(() => {
+    if (coupon) {
+      form.reset({
+        code: coupon.code,
+        description: coupon.description || '',
+        discountType: coupon.discountType as 'percentage' | 'fixed',
+        discountValue: coupon.discountValue,
+        validFrom: toDateInput(coupon.validFrom),
+        validUntil: toDateInput(coupon.validUntil),
+        maxRedemptions: coupon.maxRedemptions?.toString() || '',
+        priceTableIds: coupon.priceTableIds,
+        planTypes: coupon.planTypes as ('3x' | '12x')[],
+        isActive: coupon.isActive,
+      });
+    } else {
+      form.reset(emptyCoupon);
+    }
+  }, [coupon, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: CouponFormData) => {
+      const payload = {
+        ...data,
+        description: data.description || null,
+        validFrom: data.validFrom ? new Date(data.validFrom).toISOString() : null,
+        // Valid through the end of the chosen day
+        validUntil: data.validUntil ? new Date(`${data.validUntil}T23:59:59`).toISOString() : null,
+        maxRedemptions: data.maxRedemptions ? parseInt(data.maxRedemptions) : null,
+      };
+      if (isEditing) {
+        return await apiRequest(`/api/coupons/${coupon.id}`, 'PUT', payload);
+      } else {
+        return await apiRequest('/api/coupons', 'POST', payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+      toast({
+        title: 'Success',
+        description: `Coupon ${isEditing ? 'updated' : 'created'} successfully`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${isEditing ? 'update' : 'create'} coupon`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: CouponFormData) => {
+    mutation.mutate(data);
+  };
+
+  const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter((v) => v !== value);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit Coupon' : 'Create New Coupon'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="WELCOME10" className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percentage">Percentage</SelectItem>
+                        <SelectItem value="fixed">Fixed amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discountValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{form.watch('discountType') === 'percentage' ? 'Discount (%)' : 'Discount ($)'}</FormLabel>
+                    <FormControl>
+                      <Input placeholder="10.00" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid From</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="validUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid Until</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxRedemptions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Redemptions</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="priceTableIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price Tables</FormLabel>
+                  <FormDescription>Leave all unchecked to apply to every price table</FormDescription>
+                  <div className="grid grid-cols-2 gap-2">
+                    {priceTables.map((table) => (
+                      <label key={table.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(table.id)}
+                          onCheckedChange={(checked) => field.onChange(toggle(field.value, table.id, !!checked))}
+                        />
+                        {table.title}
+                      </label>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="planTypes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Plan Types</FormLabel>
+                  <FormDescription>Leave both unchecked to apply to 3x and 12x plans</FormDescription>
+                  <div className="flex gap-4">
+                    {(['3x', '12x'] as const).map((planType) => (
+                      <label key={planType} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(planType)}
+                          onCheckedChange={(checked) => field.onChange(toggle(field.value, planType, !!checked))}
+                        />
+                        {planType} Installments
+                      </label>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Active Coupon
+                    </FormLabel>
+                    <div className="text-sm text-muted-foreground">
+                      Inactive coupons cannot be redeemed
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={mutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending ? 'Saving...' : (isEditing ? 'Update' : 'Create')}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
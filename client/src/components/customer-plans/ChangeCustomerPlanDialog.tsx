@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/lib/queryClient";
+import type { ChangeCustomerPlan, CustomerPlanWithDetails, PriceTable } from "@shared/schema";
+import { formatMoney } from "@shared/money";
+
+interface PlanChangeQuote {
+  priceTableId: number;
+  planType: string;
+  amount: string;
+  credit: string;
+  amountDue: string;
+  remainingDays: number;
+}
+
+interface ChangeCustomerPlanDialogProps {
+  open: boolean;
+  onClose: () => void;
+  customerPlan: CustomerPlanWithDetails | null;
+}
+
+async function postChange<T>(planId: number, path: string, change: ChangeCustomerPlan): Promise<T> {
+  const response = await authFetch(`/api/customer-plans/${planId}/${path}`, {
+    method: "POST",
+    body: JSON.stringify(change),
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.message || 'Failed to change customer plan');
+  }
+  return response.json();
+}
+
+export function ChangeCustomerPlanDialog({ open, onClose, customerPlan }: ChangeCustomerPlanDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [priceTableId, setPriceTableId] = useState<number | null>(null);
+  const [planType, setPlanType] = useState<"3x" | "12x">("3x");
+
+  const { data: priceTables = [] } = useQuery<PriceTable[]>({
+    queryKey: ["/api/price-tables"],
+  });
+
+  useEffect(() => {
+    if (customerPlan) {
+      setPriceTableId(null);
+      setPlanType(customerPlan.planType as "3x" | "12x");
+    }
+  }, [customerPlan]);
+
+  const change = priceTableId ? { priceTableId, planType } : null;
+  const currency = priceTables.find(table => table.id === priceTableId)?.currency;
+
+  // Price the change whenever the selection changes
+  const { data: quote, error: quoteError } = useQuery<PlanChangeQuote, Error>({
+    queryKey: ["/api/customer-plans", customerPlan?.id, "change/preview", change],
+    queryFn: () => postChange<PlanChangeQuote>(customerPlan!.id, "change/preview", change!),
+    enabled: open && !!customerPlan && !!change,
+    retry: false,
+  });
+
+  const mutation = useMutation({
+    mutationFn: () => postChange(customerPlan!.id, "change", change!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customer-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting"] });
+      toast({
+        title: "Success",
+        description: "Plan change created. The current plan stays active until the new charge is paid.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change customer plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Change Plan</DialogTitle>
+          <DialogDescription>
+            {customerPlan ? `Move ${customerPlan.customer.name} from ${customerPlan.priceTable.title} (${customerPlan.planType})` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>New Price Table</Label>
+              <Select
+                value={priceTableId?.toString() || ""}
+                onValueChange={(value) => setPriceTableId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select price table" />
+                </SelectTrigger>
+                <SelectContent>
+                  {priceTables.filter(table => table.isActive).map((table) => (
+                    <SelectItem key={table.id} value={table.id.toString()}>
+                      {table.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Plan Type</Label>
+              <Select value={planType} onValueChange={(value) => setPlanType(value as "3x" | "12x")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="3x">3x Installments</SelectItem>
+                  <SelectItem value="12x">12x Installments</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {quoteError && change && (
+            <p className="text-sm text-destructive">{quoteError.message}</p>
+          )}
+
+          {quote && !quoteError && (
+            <div className="rounded-md border p-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">New plan price</span>
+                <span>{formatMoney(quote.amount, currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Credit for {quote.remainingDays} remaining days</span>
+                <span>-{formatMoney(quote.credit, currency)}</span>
+              </div>
+              <div className="flex justify-between font-semibold pt-1 border-t">
+                <span>Amount due</span>
+                <span>{formatMoney(quote.amountDue, currency)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={!quote || !!quoteError || mutation.isPending}
+          >
+            {mutation.isPending ? 'Changing...' : 'Change Plan'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
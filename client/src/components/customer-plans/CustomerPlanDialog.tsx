@@ -10,14 +10,24 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { insertCustomerPlanSchema, type CustomerPlanWithDetails, type User, type PriceTable } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+import { insertCustomerPlanSchema, type CustomerPlanWithDetails, type User, type PriceTable, type PaymentGateway } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 
 const customerPlanFormSchema = insertCustomerPlanSchema.extend({
   payDate: z.string().optional(),
   payExpiration: z.string().optional(),
   planExpirationDate: z.string().optional(),
+  couponCode: z.string().optional(),
 });
 
+interface CouponQuote {
+  code: string;
+  originalAmount: string;
+  discountAmount: string;
+  amount: string;
+}
+
 type CustomerPlanFormData = z.infer<typeof customerPlanFormSchema>;
 
 interface CustomerPlanDialogProps {
@@ -29,6 +39,8 @@ interface CustomerPlanDialogProps {
 export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlanDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [couponQuote, setCouponQuote] = useState<CouponQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
 
   const { data: users = [] } = useQuery<User[]>({
     queryKey: ["/api/users"],
@@ -38,6 +50,11 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
     queryKey: ["/api/price-tables"],
   });
 
+  const { data: paymentGateways = [] } = useQuery<PaymentGateway[]>({
+    queryKey: ["/api/payment-gateways"],
+    enabled: !customerPlan,
+  });
+
   const form = useForm<CustomerPlanFormData>({
     resolver: zodResolver(customerPlanFormSchema),
     defaultValues: {
@@ -45,6 +62,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
       priceTableId: 0,
       planType: "3x",
       amount: "",
+      paymentGatewayId: null,
       payStatus: "pending",
       payDate: "",
       payExpiration: "",
@@ -52,6 +70,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
       payHash: "",
       payLink: "",
       isActive: true,
+      couponCode: "",
     },
   });
 
@@ -69,6 +88,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
 
   // Watch for changes in price table and plan type to auto-calculate amount
   const watchedPriceTableId = form.watch("priceTableId");
+  const selectedCurrency = priceTables.find(table => table.id === watchedPriceTableId)?.currency;
   const watchedPlanType = form.watch("planType");
 
   useEffect(() => {
@@ -80,6 +100,34 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
     }
   }, [watchedPriceTableId, watchedPlanType, priceTables, form, customerPlan]);
 
+  // A coupon is priced for one customer, price table and plan type
+  const watchedCustomerId = form.watch("customerId");
+  useEffect(() => {
+    setCouponQuote(null);
+    setCouponError(null);
+  }, [watchedCustomerId, watchedPriceTableId, watchedPlanType, open]);
+
+  const couponMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await authFetch("/api/coupons/validate", {
+        method: "POST",
+        body: JSON.stringify({ code, customerId: watchedCustomerId, priceTableId: watchedPriceTableId, planType: watchedPlanType }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(body?.message || 'Invalid coupon');
+      return body as CouponQuote;
+    },
+    onSuccess: (quote) => {
+      setCouponQuote(quote);
+      setCouponError(null);
+    },
+    onError: (error: Error) => {
+      setCouponQuote(null);
+      setCouponError(error.message);
+    },
+  });
+
   useEffect(() => {
     if (customerPlan) {
       form.reset({
@@ -87,6 +135,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
         priceTableId: customerPlan.priceTableId,
         planType: customerPlan.planType as "3x" | "12x",
         amount: customerPlan.amount || "",
+        paymentGatewayId: customerPlan.paymentGatewayId,
         payStatus: customerPlan.payStatus as any,
         payDate: customerPlan.payDate ? new Date(customerPlan.payDate).toISOString().split('T')[0] : "",
         payExpiration: customerPlan.payExpiration ? new Date(customerPlan.payExpiration).toISOString().split('T')[0] : "",
@@ -101,6 +150,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
         priceTableId: 0,
         planType: "3x",
         amount: "",
+        paymentGatewayId: null,
         payStatus: "pending",
         payDate: "",
         payExpiration: "",
@@ -108,39 +158,48 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
         payHash: "",
         payLink: "",
         isActive: true,
+        couponCode: "",
       });
     }
   }, [customerPlan, form]);
 
   const mutation = useMutation({
     mutationFn: async (data: CustomerPlanFormData) => {
+      const { couponCode, ...plan } = data;
       const payload = {
-        ...data,
-        payDate: data.payDate ? new Date(data.payDate).toISOString() : null,
-        payExpiration: data.payExpiration ? new Date(data.payExpiration).toISOString() : null,
-        planExpirationDate: data.planExpirationDate ? new Date(data.planExpirationDate).toISOString() : null,
+        ...plan,
+        // Only send a code that was validated; the server prices the plan from it
+        ...(couponQuote ? { couponCode: couponQuote.code } : {}),
+        payDate: plan.payDate ? new Date(plan.payDate).toISOString() : null,
+        payExpiration: plan.payExpiration ? new Date(plan.payExpiration).toISOString() : null,
+        planExpirationDate: plan.planExpirationDate ? new Date(plan.planExpirationDate).toISOString() : null,
       };
 
       if (customerPlan) {
-        const response = await fetch(`/api/customer-plans/${customerPlan.id}`, {
-          method: "PATCH",
+        const response = await authFetch(`/api/customer-plans/${customerPlan.id}`, {
+          method: "PUT",
           body: JSON.stringify(payload),
           headers: { "Content-Type": "application/json" },
         });
         if (!response.ok) throw new Error('Failed to update customer plan');
         return response.json();
       } else {
-        const response = await fetch("/api/customer-plans", {
+        const response = await authFetch("/api/customer-plans", {
           method: "POST",
           body: JSON.stringify(payload),
           headers: { "Content-Type": "application/json" },
         });
-        if (!response.ok) throw new Error('Failed to create customer plan');
+        if (!response.ok) {
+          const error = await response.json().catch(() => null);
+          throw new Error(error?.message || 'Failed to create customer plan');
+        }
         return response.json();
       }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/customer-plans"] });
+      // Paying, refunding or deleting a plan books accounting entries
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting"] });
       toast({
         title: "Success",
         description: `Customer plan ${customerPlan ? 'updated' : 'created'} successfully`,
@@ -251,6 +310,33 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
             </div>
           </div>
 
+          {!customerPlan && (
+            <div className="space-y-2">
+              <Label htmlFor="couponCode">Coupon Code</Label>
+              <div className="flex gap-2">
+                <Input
+                  {...form.register("couponCode")}
+                  placeholder="Optional"
+                  className="uppercase"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={!form.watch("couponCode")?.trim() || !watchedCustomerId || !watchedPriceTableId || couponMutation.isPending}
+                  onClick={() => couponMutation.mutate(form.getValues("couponCode")!.trim())}
+                >
+                  Apply
+                </Button>
+              </div>
+              {couponQuote && (
+                <p className="text-xs text-green-600">
+                  {couponQuote.code} applied: {formatMoney(couponQuote.amount, selectedCurrency)} instead of {formatMoney(couponQuote.originalAmount, selectedCurrency)} (save {formatMoney(couponQuote.discountAmount, selectedCurrency)})
+                </p>
+              )}
+              {couponError && <p className="text-xs text-destructive">{couponError}</p>}
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="payStatus">Payment Status</Label>
@@ -266,6 +352,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
                   <SelectItem value="paid">Paid</SelectItem>
                   <SelectItem value="failed">Failed</SelectItem>
                   <SelectItem value="expired">Expired</SelectItem>
+                  <SelectItem value="refunded">Refunded</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -279,7 +366,33 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
             </div>
           </div>
 
+          {!customerPlan && form.watch("payStatus") === "pending" && (
+            <div className="space-y-2">
+              <Label htmlFor="paymentGatewayId">Payment Gateway</Label>
+              <Select
+                value={form.watch("paymentGatewayId")?.toString() || "default"}
+                onValueChange={(value) => form.setValue("paymentGatewayId", value === "default" ? null : parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select payment gateway" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default active gateway</SelectItem>
+                  {paymentGateways.filter(gateway => gateway.isActive).map((gateway) => (
+                    <SelectItem key={gateway.id} value={gateway.id.toString()}>
+                      {gateway.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The payment link, hash and expiration are generated by the gateway when the plan is created
+              </p>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
+            {customerPlan && (
             <div className="space-y-2">
               <Label htmlFor="payExpiration">Payment Expiration</Label>
               <Input
@@ -287,6 +400,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
                 type="date"
               />
             </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="planExpirationDate">Plan Expiration</Label>
@@ -297,6 +411,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
             </div>
           </div>
 
+          {customerPlan && (
           <div className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="payHash">Payment Hash</Label>
@@ -315,6 +430,7 @@ export function CustomerPlanDialog({ open, onClose, customerPlan }: CustomerPlan
               />
             </div>
           </div>
+          )}
 
           <div className="flex items-center space-x-2">
             <Switch
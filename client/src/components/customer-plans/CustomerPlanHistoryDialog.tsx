@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import type { CustomerPlanHistory, CustomerPlanWithDetails } from "@shared/schema";
+import { format } from "date-fns";
+
+interface CustomerPlanHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  customerPlan: CustomerPlanWithDetails | null;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  payStatus: "Payment",
+  subscriptionStatus: "Subscription",
+};
+
+export function CustomerPlanHistoryDialog({ open, onClose, customerPlan }: CustomerPlanHistoryDialogProps) {
+  const { data: history = [], isLoading } = useQuery<CustomerPlanHistory[]>({
+    queryKey: [`/api/customer-plans/${customerPlan?.id}/history`],
+    enabled: open && !!customerPlan,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Plan History</DialogTitle>
+          <DialogDescription>
+            {customerPlan ? `${customerPlan.priceTable.title} - ${customerPlan.customer.name}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        ) : (
+          <div className="space-y-3 max-h-[400px] overflow-y-auto">
+            {history.map((entry) => (
+              <div key={entry.id} className="flex items-start justify-between gap-4 border-b pb-3 last:border-b-0">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="outline">{FIELD_LABELS[entry.field] ?? entry.field}</Badge>
+                    <span className="text-muted-foreground">{entry.fromStatus ?? "—"}</span>
+                    <span>→</span>
+                    <span className="font-medium">{entry.toStatus}</span>
+                  </div>
+                  {entry.note && <p className="text-xs text-muted-foreground">{entry.note}</p>}
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {entry.createdAt ? format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm') : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Plus, Edit, Trash2, Eye, DollarSign, Users, Calendar, CheckCircle, XCircle, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { CustomerPlanDialog } from "@/components/customer-plans/CustomerPlanDialog";
 import type { CustomerPlanWithDetails } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import { format } from "date-fns";
 
 export function CustomerPlansSection() {
@@ -22,13 +23,7 @@ export function CustomerPlansSection() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/customer-plans/${id}`, {
-        method: "DELETE",
-        headers: { 'x-user-id': '1' },
-      });
-      if (!response.ok) {
-        throw new Error('Failed to delete customer plan');
-      }
+      await apiRequest(`/api/customer-plans/${id}`, "DELETE");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/customer-plans"] });
@@ -138,7 +133,7 @@ export function CustomerPlansSection() {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">R$ {totalRevenue.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(totalRevenue)}</div>
             <p className="text-xs text-muted-foreground">
               From paid plans
             </p>
@@ -195,7 +190,7 @@ export function CustomerPlansSection() {
                     </p>
                     <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
                       <span>Plan: {plan.planType}</span>
-                      <span>Amount: R$ {plan.amount}</span>
+                      <span>Amount: {formatMoney(plan.amount, plan.priceTable.currency)}</span>
                       {plan.payDate && (
                         <span>Paid: {format(new Date(plan.payDate), 'dd/MM/yyyy')}</span>
                       )}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { DashboardCard } from './DashboardCard';
 import { PublicPricingSection } from './PublicPricingSection';
 import { CustomerPlansSection } from './CustomerPlansSection';
+import { SupportSlaSection } from './SupportSlaSection';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
@@ -94,6 +95,8 @@ export function EntrepreneurDashboard() {
             ))}
           </div>
 
+          <SupportSlaSection />
+
           {/* Projects and Chart */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Recent Projects */}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Plus, Edit, Trash2, Copy, DollarSign, Package, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,6 +8,13 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { PriceTableDialog } from "@/components/price-tables/PriceTableDialog";
 import type { PriceTable } from "@shared/schema";
+import { formatMoney, fromCents, installmentAmount, toCents } from "@shared/money";
+
+// Format per-currency cent totals, e.g. "R$ 1.299,00 + US$ 20.00"
+const formatTotals = (totals: Map<string, number>) =>
+  totals.size === 0
+    ? formatMoney(0)
+    : Array.from(totals, ([currency, cents]) => formatMoney(fromCents(cents), currency)).join(" + ");
 
 export function PriceTablesSection() {
   const [selectedPriceTable, setSelectedPriceTable] = useState<PriceTable | null>(null);
@@ -20,13 +27,7 @@ export function PriceTablesSection() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/price-tables/${id}`, {
-        method: "DELETE",
-        headers: { 'x-user-id': '1' },
-      });
-      if (!response.ok) {
-        throw new Error('Failed to delete price table');
-      }
+      await apiRequest(`/api/price-tables/${id}`, "DELETE");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/price-tables"] });
@@ -80,11 +81,17 @@ export function PriceTablesSection() {
   };
 
   const activePlans = priceTables.filter(table => table.isActive);
-  const totalRevenue = priceTables.reduce((sum, table) => {
-    const price3x = parseFloat(table.currentPrice3x) || 0;
-    const price12x = parseFloat(table.currentPrice12x) || 0;
-    return sum + price3x + price12x;
-  }, 0);
+  // Sum in cents per currency: tables priced in different currencies don't add up
+  const totalRevenue = new Map<string, number>();
+  const tablesByCurrency = new Map<string, number>();
+  for (const table of priceTables) {
+    const cents = toCents(table.currentPrice3x) + toCents(table.currentPrice12x);
+    totalRevenue.set(table.currency, (totalRevenue.get(table.currency) ?? 0) + cents);
+    tablesByCurrency.set(table.currency, (tablesByCurrency.get(table.currency) ?? 0) + 1);
+  }
+  const averagePrice = new Map(
+    Array.from(totalRevenue, ([currency, cents]) => [currency, Math.round(cents / tablesByCurrency.get(currency)!)] as const)
+  );
 
   if (isLoading) {
     return (
@@ -137,7 +144,7 @@ export function PriceTablesSection() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              ${priceTables.length ? (totalRevenue / priceTables.length).toFixed(2) : '0.00'}
+              {formatTotals(averagePrice)}
             </div>
             <p className="text-xs text-muted-foreground">
               Across all plans
@@ -151,7 +158,7 @@ export function PriceTablesSection() {
             <CheckCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${totalRevenue.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatTotals(totalRevenue)}</div>
             <p className="text-xs text-muted-foreground">
               Combined pricing
             </p>
@@ -183,21 +190,27 @@ export function PriceTablesSection() {
                     Duration: {priceTable.months} months
                   </div>
                   <div className="text-2xl font-bold text-primary">
-                    3x: ${priceTable.currentPrice3x}
+                    3x: {formatMoney(priceTable.currentPrice3x, priceTable.currency)}
                     {priceTable.oldPrice3x && (
                       <span className="text-sm text-gray-500 line-through ml-2">
-                        ${priceTable.oldPrice3x}
+                        {formatMoney(priceTable.oldPrice3x, priceTable.currency)}
                       </span>
                     )}
                   </div>
+                  <div className="text-sm text-gray-500">
+                    3 installments of {formatMoney(installmentAmount(priceTable.currentPrice3x, "3x"), priceTable.currency)}
+                  </div>
                   <div className="text-xl font-semibold text-secondary">
-                    12x: ${priceTable.currentPrice12x}
+                    12x: {formatMoney(priceTable.currentPrice12x, priceTable.currency)}
                     {priceTable.oldPrice12x && (
                       <span className="text-sm text-gray-500 line-through ml-2">
-                        ${priceTable.oldPrice12x}
+                        {formatMoney(priceTable.oldPrice12x, priceTable.currency)}
                       </span>
                     )}
                   </div>
+                  <div className="text-sm text-gray-500">
+                    12 installments of {formatMoney(installmentAmount(priceTable.currentPrice12x, "12x"), priceTable.currency)}
+                  </div>
                 </div>
                 
                 {priceTable.advantages && priceTable.advantages.length > 0 && (
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import type { PriceTable } from "@shared/schema";
+import { formatMoney, fromCents, installmentAmount, toCents } from "@shared/money";
 
 export function PublicPricingSection() {
   const [is12MonthPlan, setIs12MonthPlan] = useState(false);
@@ -151,25 +152,29 @@ export function PublicPricingSection() {
                 <div className="text-center space-y-4">
                   <div className="space-y-2">
                     {(() => {
+                      const planType = is12MonthPlan ? '12x' : '3x';
                       const currentPrice = is12MonthPlan ? priceTable.currentPrice12x : priceTable.currentPrice3x;
                       const oldPrice = is12MonthPlan ? priceTable.oldPrice12x : priceTable.oldPrice3x;
-                      const hasDiscount = oldPrice && parseFloat(oldPrice) > parseFloat(currentPrice);
+                      const savings = oldPrice ? toCents(oldPrice) - toCents(currentPrice) : 0;
                       
                       return (
                         <>
                           <div className="flex items-center justify-center gap-2">
-                            {hasDiscount && (
+                            {savings > 0 && (
                               <span className="text-xl text-gray-500 line-through">
-                                ${oldPrice}
+                                {formatMoney(oldPrice, priceTable.currency)}
                               </span>
                             )}
                             <span className={`text-4xl font-bold ${isPopular ? 'text-blue-600' : 'text-gray-900 dark:text-white'}`}>
-                              ${currentPrice}
+                              {formatMoney(currentPrice, priceTable.currency)}
                             </span>
                           </div>
-                          {hasDiscount && (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {planType} of {formatMoney(installmentAmount(currentPrice, planType), priceTable.currency)}
+                          </p>
+                          {savings > 0 && (
                             <Badge variant="destructive" className="text-xs">
-                              Save ${(parseFloat(oldPrice!) - parseFloat(currentPrice)).toFixed(2)}
+                              Save {formatMoney(fromCents(savings), priceTable.currency)}
                             </Badge>
                           )}
                         </>
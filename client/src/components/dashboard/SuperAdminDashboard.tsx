@@ -3,6 +3,7 @@ import { DashboardCard } from './DashboardCard';
 import { PriceTablesSection } from './PriceTablesSection';
 import { PublicPricingSection } from './PublicPricingSection';
 import { CustomerPlansSection } from './CustomerPlansSection';
+import { SupportSlaSection } from './SupportSlaSection';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -108,6 +109,8 @@ export function SuperAdminDashboard() {
             ))}
           </div>
 
+          <SupportSlaSection />
+
           {/* Activity and Alerts */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Recent User Activity */}
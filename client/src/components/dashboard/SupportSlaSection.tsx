@@ -0,0 +1,78 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SupportSlaBadge } from "@/components/support-tickets/SupportSlaBadge";
+import type { SupportTicketWithAssignee } from "@shared/schema";
+
+const SLA_REFRESH_MS = 60 * 1000;
+
+// Open tickets about to breach or breaching their SLA, the most urgent first
+export function SupportSlaSection() {
+  const { data: tickets = [], isLoading } = useQuery<SupportTicketWithAssignee[]>({
+    queryKey: ["/api/support-tickets/sla-alerts"],
+    refetchInterval: SLA_REFRESH_MS,
+  });
+
+  const overdue = tickets.filter((ticket) => ticket.sla?.breached).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-yellow-500" />
+            Support SLA
+          </CardTitle>
+          <CardDescription>
+            {tickets.length === 0
+              ? "No tickets at risk"
+              : `${tickets.length} ticket${tickets.length === 1 ? "" : "s"} at risk, ${overdue} overdue`}
+          </CardDescription>
+        </div>
+        <Link href="/support-tickets">
+          <Button variant="outline" size="sm">View Tickets</Button>
+        </Link>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-14 bg-muted rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            Every open ticket is on track.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {tickets.slice(0, 5).map((ticket) => (
+              <div key={ticket.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    #{ticket.ticketId} · {ticket.subject}
+                  </p>
+                  <Badge variant="outline" className="capitalize shrink-0">{ticket.priority}</Badge>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {ticket.sla?.firstResponse && <SupportSlaBadge label="Response" target={ticket.sla.firstResponse} />}
+                  {ticket.sla?.resolution && <SupportSlaBadge label="Resolution" target={ticket.sla.resolution} />}
+                  <span className="text-xs text-muted-foreground">
+                    {ticket.assignee ? ticket.assignee.name : "Unassigned"}
+                  </span>
+                </div>
+              </div>
+            ))}
+            {tickets.length > 5 && (
+              <p className="text-xs text-muted-foreground">and {tickets.length - 5} more</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,44 +1,67 @@
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
 import { useTheme } from '@/contexts/ThemeContext';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { BarChart3, Users, Settings, Shield, Database, FileText, Briefcase, TrendingUp, DollarSign, Calendar, CheckSquare, MessageSquare, Clock, FileIcon, ShoppingCart, Heart, User, CreditCard, Headphones, Star, Menu, X, Wallet, LogOut, Code2, Receipt, Globe, Ticket } from 'lucide-react';
+import { BarChart3, Users, Settings, Shield, Database, FileText, Briefcase, TrendingUp, DollarSign, Calendar, CheckSquare, MessageSquare, Clock, FileIcon, ShoppingCart, Heart, User, CreditCard, Headphones, Star, Menu, X, Wallet, LogOut, Code2, Receipt, Globe, Ticket, Tag, Send, Inbox, Bell, Timer, Shuffle } from 'lucide-react';
 import { Link, useLocation } from 'wouter';
 import type { UserRole, NavigationItem } from '@/lib/types';
 
+// Pages of each role, in menu order. Items with a permission are hidden from
+// users without it.
 const navigationMenus: Record<UserRole, NavigationItem[]> = {
   'super-admin': [
     { icon: 'BarChart3', label: 'Dashboard', href: '/dashboard', active: true },
-    { icon: 'CreditCard', label: 'Customer Plans', href: '/customer-plans' },
-    { icon: 'Users', label: 'User Management', href: '/users' },
-    { icon: 'Wallet', label: 'Payment Gateways', href: '/payment-gateways' },
-    { icon: 'MessageSquare', label: 'WhatsApp Instances', href: '/whatsapp-instances' },
+    { icon: 'CreditCard', label: 'Customer Plans', href: '/customer-plans', permission: 'customer-plans:write' },
+    { icon: 'Users', label: 'User Management', href: '/users', permission: 'users:write' },
+    { icon: 'Shield', label: 'Roles & Permissions', href: '/roles', permission: 'roles:manage' },
+    { icon: 'Wallet', label: 'Payment Gateways', href: '/payment-gateways', permission: 'gateways:read' },
+    { icon: 'MessageSquare', label: 'WhatsApp Instances', href: '/whatsapp-instances', permission: 'whatsapp:manage' },
+    { icon: 'Inbox', label: 'Inbox', href: '/inbox', permission: 'whatsapp:read' },
+    { icon: 'Send', label: 'WhatsApp Messages', href: '/whatsapp-messages', permission: 'whatsapp:read' },
     { icon: 'DollarSign', label: 'Price Tables', href: '/price-tables' },
     { icon: 'Globe', label: 'Public Pricing', href: '/public-pricing' },
-    { icon: 'Receipt', label: 'Accounting', href: '/accounting' },
-    { icon: 'Ticket', label: 'Support Tickets', href: '/support-tickets' },
+    { icon: 'Tag', label: 'Coupons', href: '/coupons', permission: 'coupons:read' },
+    { icon: 'Bell', label: 'Payment Reminders', href: '/payment-reminders', permission: 'reminders:read' },
+    { icon: 'Receipt', label: 'Accounting', href: '/accounting', permission: 'accounting:read' },
+    { icon: 'Ticket', label: 'Support Tickets', href: '/support-tickets', permission: 'tickets:read' },
+    { icon: 'Timer', label: 'Support SLAs', href: '/support-sla', permission: 'support-settings:read' },
+    { icon: 'Shuffle', label: 'Support Routing', href: '/support-routing', permission: 'support-settings:read' },
     { icon: 'Headphones', label: 'Support', href: '/support' },
-    { icon: 'Code2', label: 'Mock Data Generator', href: '/mock-data' }
+    { icon: 'Code2', label: 'Mock Data Generator', href: '/mock-data', permission: 'utilities:hash' }
   ],
   'entrepreneur': [
     { icon: 'BarChart3', label: 'Dashboard', href: '/dashboard', active: true },
-    { icon: 'CreditCard', label: 'Customer Plans', href: '/customer-plans' },
-    { icon: 'Users', label: 'Collaborators', href: '/collaborators' },
-    { icon: 'Wallet', label: 'Payment Gateways', href: '/payment-gateways' },
-    { icon: 'MessageSquare', label: 'WhatsApp Instances', href: '/whatsapp-instances' },
+    { icon: 'CreditCard', label: 'Customer Plans', href: '/customer-plans', permission: 'customer-plans:write' },
+    { icon: 'Users', label: 'Collaborators', href: '/collaborators', permission: 'collaborators:read' },
+    { icon: 'Shield', label: 'Roles & Permissions', href: '/roles', permission: 'roles:manage' },
+    { icon: 'Wallet', label: 'Payment Gateways', href: '/payment-gateways', permission: 'gateways:read' },
+    { icon: 'MessageSquare', label: 'WhatsApp Instances', href: '/whatsapp-instances', permission: 'whatsapp:manage' },
+    { icon: 'Inbox', label: 'Inbox', href: '/inbox', permission: 'whatsapp:read' },
+    { icon: 'Send', label: 'WhatsApp Messages', href: '/whatsapp-messages', permission: 'whatsapp:read' },
     { icon: 'DollarSign', label: 'Price Tables', href: '/price-tables' },
     { icon: 'Globe', label: 'Public Pricing', href: '/public-pricing' },
-    { icon: 'Receipt', label: 'Accounting', href: '/accounting' },
-    { icon: 'Ticket', label: 'Support Tickets', href: '/support-tickets' },
+    { icon: 'Tag', label: 'Coupons', href: '/coupons', permission: 'coupons:read' },
+    { icon: 'Bell', label: 'Payment Reminders', href: '/payment-reminders', permission: 'reminders:read' },
+    { icon: 'Receipt', label: 'Accounting', href: '/accounting', permission: 'accounting:read' },
     { icon: 'Headphones', label: 'Support', href: '/support' }
   ],
   'collaborator': [
     { icon: 'BarChart3', label: 'Dashboard', active: true },
     { icon: 'CheckSquare', label: 'My Tasks' },
     { icon: 'FileIcon', label: 'Projects' },
-    { icon: 'MessageSquare', label: 'Messages' },
+    { icon: 'Inbox', label: 'Inbox', href: '/inbox', permission: 'whatsapp:read' },
+    { icon: 'MessageSquare', label: 'Messages', href: '/whatsapp-messages', permission: 'whatsapp:read' },
+    // Shown once a custom role grants them
+    { icon: 'CreditCard', label: 'Customer Plans', href: '/customer-plans', permission: 'customer-plans:write' },
+    { icon: 'Users', label: 'Collaborators', href: '/collaborators', permission: 'collaborators:read' },
+    { icon: 'Wallet', label: 'Payment Gateways', href: '/payment-gateways', permission: 'gateways:read' },
+    { icon: 'MessageSquare', label: 'WhatsApp Instances', href: '/whatsapp-instances', permission: 'whatsapp:manage' },
+    { icon: 'Tag', label: 'Coupons', href: '/coupons', permission: 'coupons:read' },
+    { icon: 'Bell', label: 'Payment Reminders', href: '/payment-reminders', permission: 'reminders:read' },
+    { icon: 'Receipt', label: 'Accounting', href: '/accounting', permission: 'accounting:read' },
     { icon: 'Headphones', label: 'Support', href: '/support' },
     { icon: 'Calendar', label: 'Calendar' },
     { icon: 'Clock', label: 'Time Tracking' },
@@ -80,7 +103,13 @@ const iconMap = {
   Code2,
   Receipt,
   Globe,
-  Ticket
+  Ticket,
+  Tag,
+  Send,
+  Inbox,
+  Bell,
+  Timer,
+  Shuffle
 };
 
 interface SidebarProps {
@@ -90,12 +119,13 @@ interface SidebarProps {
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const { user, setUserRole, logout } = useAuth();
+  const { can } = usePermissions();
   const { theme } = useTheme();
   const [location] = useLocation();
 
   if (!user) return null;
 
-  const menuItems = navigationMenus[user.role];
+  const menuItems = navigationMenus[user.role].filter((item) => !item.permission || can(item.permission));
 
   const handleRoleChange = (role: UserRole) => {
     setUserRole(role);
@@ -1,8 +1,12 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Menu, Moon, Sun, Bell } from 'lucide-react';
+import { Menu, Moon, Sun, Bell, ShieldCheck } from 'lucide-react';
+import { NotificationPreferencesDialog } from '@/components/notifications/NotificationPreferencesDialog';
+import { MfaSettingsDialog } from '@/components/mfa/MfaSettingsDialog';
 
 const roleTitles = {
   'super-admin': 'Super Admin Dashboard',
@@ -18,6 +22,8 @@ interface TopBarProps {
 export function TopBar({ onMenuClick }: TopBarProps) {
   const { user } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+  const [mfaOpen, setMfaOpen] = useState(false);
 
   const getUserInitials = (name: string) => {
     return name
@@ -58,14 +64,19 @@ export function TopBar({ onMenuClick }: TopBarProps) {
             )}
           </Button>
           
+          {/* Two-factor authentication */}
+          <Button variant="ghost" size="sm" onClick={() => setMfaOpen(true)}>
+            <ShieldCheck className="h-5 w-5" />
+          </Button>
+
           {/* Notifications */}
-          <Button variant="ghost" size="sm" className="relative">
+          <Button variant="ghost" size="sm" className="relative" onClick={() => setPreferencesOpen(true)}>
             <Bell className="h-5 w-5" />
             <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full"></span>
           </Button>
           
           {/* User Profile */}
-          <div className="flex items-center space-x-3">
+          <Link href="/profile" className="flex items-center space-x-3">
             <Avatar className="h-8 w-8">
               <AvatarFallback className="bg-blue-500 text-white">
                 {getUserInitials(user.name)}
@@ -74,9 +85,19 @@ export function TopBar({ onMenuClick }: TopBarProps) {
             <span className="text-gray-700 dark:text-gray-300 hidden md:inline">
               {user.name}
             </span>
-          </div>
+          </Link>
         </div>
       </div>
+
+      <NotificationPreferencesDialog
+        open={preferencesOpen}
+        onClose={() => setPreferencesOpen(false)}
+      />
+
+      <MfaSettingsDialog
+        open={mfaOpen}
+        onClose={() => setMfaOpen(false)}
+      />
     </header>
   );
 }
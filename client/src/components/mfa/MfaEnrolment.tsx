@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface MfaEnrolmentData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface MfaEnrolmentProps {
+  // Pending login token when enrolling before the first sign-in
+  mfaToken?: string;
+  // Called with the enable response once the user saw the recovery codes
+  onComplete: (response: any) => void;
+}
+
+export function MfaCodeInput({ value, onChange, disabled }: { value: string; onChange: (value: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} autoFocus>
+      <InputOTPGroup>
+        {[...Array(6)].map((_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast({ title: 'Copied', description: 'Recovery codes copied to the clipboard' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these codes somewhere safe. Each one signs you in once if you lose your authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+// Scan a new secret, confirm it with a code and show the recovery codes
+export function MfaEnrolment({ mfaToken, onComplete }: MfaEnrolmentProps) {
+  const [code, setCode] = useState('');
+
+  const setupMutation = useMutation<MfaEnrolmentData, Error>({
+    mutationFn: async () => {
+      return await apiRequest('/api/auth/mfa/setup', 'POST', mfaToken ? { mfaToken } : {});
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('/api/auth/mfa/enable', 'POST', { code, ...(mfaToken && { mfaToken }) });
+    },
+    onError: () => setCode(''),
+  });
+
+  // A new secret every time the enrolment is opened
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  if (enableMutation.data) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={enableMutation.data.recoveryCodes} />
+        <Button className="w-full" onClick={() => onComplete(enableMutation.data)}>
+          I saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (setupMutation.isError) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{setupMutation.error.message || 'Failed to start two-factor setup'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!setupMutation.data) {
+    return <div className="h-48 bg-muted rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        enableMutation.mutate();
+      }}
+    >
+      <p className="text-sm text-muted-foreground">
+        Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img src={setupMutation.data.qrCode} alt="Two-factor QR code" className="h-44 w-44 rounded-lg border" />
+      </div>
+      <div className="text-center text-xs text-muted-foreground">
+        Can't scan it? Enter this key instead:
+        <div className="mt-1 font-mono text-sm text-foreground break-all">{setupMutation.data.secret}</div>
+      </div>
+
+      <div className="flex justify-center">
+        <MfaCodeInput value={code} onChange={setCode} disabled={enableMutation.isPending} />
+      </div>
+
+      {enableMutation.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{enableMutation.error.message || 'Invalid code'}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="submit" className="w-full" disabled={code.length !== 6 || enableMutation.isPending}>
+        {enableMutation.isPending ? 'Verifying...' : 'Turn on two-factor'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { MfaCodeInput, MfaEnrolment, RecoveryCodes } from './MfaEnrolment';
+
+interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+type MfaAction = 'enrol' | 'recovery-codes' | 'disable';
+
+interface MfaSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function MfaSettingsDialog({ open, onClose }: MfaSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [action, setAction] = useState<MfaAction | null>(null);
+  const [code, setCode] = useState('');
+
+  const { data: status, isLoading } = useQuery<MfaStatus>({
+    queryKey: ['/api/auth/mfa'],
+    enabled: open,
+  });
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('/api/auth/mfa/recovery-codes', 'POST', { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa'] });
+    },
+    onError: () => setCode(''),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('/api/auth/mfa/disable', 'POST', { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa'] });
+      toast({
+        title: 'Success',
+        description: 'Two-factor authentication turned off',
+      });
+      resetAction();
+    },
+    onError: () => setCode(''),
+  });
+
+  const resetAction = () => {
+    setAction(null);
+    setCode('');
+    recoveryCodesMutation.reset();
+    disableMutation.reset();
+  };
+
+  const handleClose = () => {
+    resetAction();
+    onClose();
+  };
+
+  const renderCodeStep = (label: string, mutation: typeof disableMutation) => (
+    <form
+      className="space-y-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        mutation.mutate();
+      }}
+    >
+      <p className="text-sm text-muted-foreground">Enter the current code from your authenticator app.</p>
+      <div className="flex justify-center">
+        <MfaCodeInput value={code} onChange={setCode} disabled={mutation.isPending} />
+      </div>
+      {mutation.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{mutation.error.message || 'Invalid code'}</AlertDescription>
+        </Alert>
+      )}
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" onClick={resetAction} disabled={mutation.isPending}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={code.length !== 6 || mutation.isPending}>
+          {label}
+        </Button>
+      </div>
+    </form>
+  );
+
+  const renderContent = () => {
+    if (isLoading || !status) {
+      return <div className="h-24 bg-muted rounded-lg animate-pulse" />;
+    }
+
+    if (action === 'enrol') {
+      return (
+        <MfaEnrolment
+          onComplete={() => {
+            queryClient.invalidateQueries({ queryKey: ['/api/auth/mfa'] });
+            toast({
+              title: 'Success',
+              description: 'Two-factor authentication turned on',
+            });
+            resetAction();
+          }}
+        />
+      );
+    }
+
+    if (action === 'recovery-codes') {
+      if (recoveryCodesMutation.data) {
+        return (
+          <div className="space-y-4">
+            <RecoveryCodes codes={recoveryCodesMutation.data.recoveryCodes} />
+            <Button className="w-full" onClick={resetAction}>
+              Done
+            </Button>
+          </div>
+        );
+      }
+      return renderCodeStep('Replace recovery codes', recoveryCodesMutation);
+    }
+
+    if (action === 'disable') {
+      return renderCodeStep('Turn off', disableMutation);
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <div className="text-sm font-medium">Authenticator app</div>
+            <div className="text-xs text-muted-foreground">
+              {status.enabled
+                ? `${status.recoveryCodesLeft} recovery code${status.recoveryCodesLeft === 1 ? '' : 's'} left`
+                : 'A code from your phone is asked for after your password'}
+            </div>
+          </div>
+          <Badge variant={status.enabled ? 'default' : 'outline'}>
+            {status.enabled ? 'On' : 'Off'}
+          </Badge>
+        </div>
+
+        {status.required && (
+          <p className="text-xs text-muted-foreground">Two-factor authentication is required for your role.</p>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          {status.enabled ? (
+            <>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setAction('disable')}>
+                  Turn off
+                </Button>
+              )}
+              <Button onClick={() => setAction('recovery-codes')}>
+                New recovery codes
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => setAction('enrol')}>
+              Set up
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>Protect your account with a code from an authenticator app.</DialogDescription>
+        </DialogHeader>
+
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import type { OptionalEmailNotificationType, UpdateNotificationPreferences } from '@shared/schema';
+
+const typeLabels: Record<OptionalEmailNotificationType, { title: string; description: string }> = {
+  ticket_created: { title: 'Ticket received', description: 'Confirmation when you open a support ticket' },
+  ticket_replied: { title: 'Ticket replies', description: 'New replies on your tickets, or on tickets assigned to you' },
+  ticket_resolved: { title: 'Ticket resolved', description: 'When one of your tickets is resolved' },
+  plan_paid: { title: 'Payment receipts', description: 'When a payment for your plan is received' },
+  plan_expiring: { title: 'Plan renewals', description: 'The pay link to renew a plan that is about to expire' },
+};
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function NotificationPreferencesDialog({ open, onClose }: NotificationPreferencesDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences = [], isLoading } = useQuery<UpdateNotificationPreferences>({
+    queryKey: ['/api/notification-preferences'],
+    enabled: open,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (preference: UpdateNotificationPreferences[number]) => {
+      return await apiRequest('/api/notification-preferences', 'PUT', [preference]);
+    },
+    onSuccess: (updated: UpdateNotificationPreferences) => {
+      queryClient.setQueryData(['/api/notification-preferences'], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update notification preferences',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Email Notifications</DialogTitle>
+          <DialogDescription>Choose which emails you receive.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-14 bg-muted rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {preferences.map((preference) => (
+              <div key={preference.type} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <div className="text-sm font-medium">{typeLabels[preference.type].title}</div>
+                  <div className="text-xs text-muted-foreground">{typeLabels[preference.type].description}</div>
+                </div>
+                <Switch
+                  checked={preference.email}
+                  disabled={mutation.isPending}
+                  onCheckedChange={(email) => mutation.mutate({ type: preference.type, email })}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -37,10 +37,17 @@ const paymentGatewayFormSchema = z.object({
   apiUrl: z.string().url('Invalid API URL'),
   publicKey: z.string().min(1, 'Public key is required'),
   token: z.string().min(1, 'Token is required'),
+  webhookSecret: z.string().optional(),
   email: z.string().email('Invalid email address').optional().or(z.literal('')),
   isActive: z.boolean().default(true),
 });
 
+// Stored credentials are never sent back unmasked, so leaving them blank keeps them
+const editPaymentGatewayFormSchema = paymentGatewayFormSchema.extend({
+  publicKey: z.string(),
+  token: z.string(),
+});
+
 type PaymentGatewayFormData = z.infer<typeof paymentGatewayFormSchema>;
 
 interface PaymentGatewayDialogProps {
@@ -55,13 +62,14 @@ export function PaymentGatewayDialog({ open, onClose, gateway }: PaymentGatewayD
   const isEditing = !!gateway;
 
   const form = useForm<PaymentGatewayFormData>({
-    resolver: zodResolver(paymentGatewayFormSchema),
+    resolver: zodResolver(isEditing ? editPaymentGatewayFormSchema : paymentGatewayFormSchema),
     defaultValues: {
       name: '',
       type: 'asaas',
       apiUrl: '',
       publicKey: '',
       token: '',
+      webhookSecret: '',
       email: '',
       isActive: true,
     },
@@ -73,8 +81,9 @@ export function PaymentGatewayDialog({ open, onClose, gateway }: PaymentGatewayD
         name: gateway.name,
         type: gateway.type as any,
         apiUrl: gateway.apiUrl,
-        publicKey: gateway.publicKey,
-        token: gateway.token,
+        publicKey: '',
+        token: '',
+        webhookSecret: '',
         email: gateway.email || '',
         isActive: gateway.isActive,
       });
@@ -85,6 +94,7 @@ export function PaymentGatewayDialog({ open, onClose, gateway }: PaymentGatewayD
         apiUrl: '',
         publicKey: '',
         token: '',
+        webhookSecret: '',
         email: '',
         isActive: true,
       });
@@ -94,9 +104,19 @@ export function PaymentGatewayDialog({ open, onClose, gateway }: PaymentGatewayD
   const mutation = useMutation({
     mutationFn: async (data: PaymentGatewayFormData) => {
       if (isEditing) {
-        return await apiRequest(`/api/payment-gateways/${gateway.id}`, 'PUT', data);
+        const { publicKey, token, webhookSecret, ...rest } = data;
+        return await apiRequest(`/api/payment-gateways/${gateway.id}`, 'PUT', {
+          ...rest,
+          ...(publicKey && { publicKey }),
+          ...(token && { token }),
+          ...(webhookSecret && { webhookSecret }),
+        });
       } else {
-        return await apiRequest('/api/payment-gateways', 'POST', data);
+        const { webhookSecret, ...rest } = data;
+        return await apiRequest('/api/payment-gateways', 'POST', {
+          ...rest,
+          ...(webhookSecret && { webhookSecret }),
+        });
       }
     },
     onSuccess: () => {
@@ -194,7 +214,7 @@ export function PaymentGatewayDialog({ open, onClose, gateway }: PaymentGatewayD
                   <FormLabel>Public Key</FormLabel>
                   <FormControl>
                     <Input
-                      placeholder="Enter public key"
+                      placeholder={isEditing ? `Leave blank to keep current (${gateway.publicKey})` : 'Enter public key'}
                       {...field}
                     />
                   </FormControl>
@@ -212,7 +232,25 @@ export function PaymentGatewayDialog({ open, onClose, gateway }: PaymentGatewayD
                   <FormControl>
                     <Input
                       type="password"
-                      placeholder="Enter token"
+                      placeholder={isEditing ? `Leave blank to keep current (${gateway.token})` : 'Enter token'}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="webhookSecret"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Webhook Secret</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      placeholder={isEditing && gateway.webhookSecret ? `Leave blank to keep current (${gateway.webhookSecret})` : 'Secret used to verify payment notifications'}
                       {...field}
                     />
                   </FormControl>
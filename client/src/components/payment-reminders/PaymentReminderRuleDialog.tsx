@@ -0,0 +1,236 @@
+import { useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_PAYMENT_REMINDER_TEMPLATE, PAYMENT_REMINDER_PLACEHOLDERS, type PaymentReminderRule } from '@shared/schema';
+
+const ruleFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  trigger: z.enum(['after_creation', 'before_expiration']),
+  offsetHours: z.string().regex(/^\d+$/, 'Enter a whole number of hours'),
+  messageTemplate: z.string().trim().min(1, 'Message is required').max(1024)
+    .refine((template) => template.includes('{{payLink}}'), 'The message must include {{payLink}}'),
+  isActive: z.boolean().default(true),
+});
+
+type RuleFormData = z.infer<typeof ruleFormSchema>;
+
+interface PaymentReminderRuleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  rule?: PaymentReminderRule | null;
+}
+
+const emptyRule: RuleFormData = {
+  name: '',
+  trigger: 'after_creation',
+  offsetHours: '24',
+  messageTemplate: DEFAULT_PAYMENT_REMINDER_TEMPLATE,
+  isActive: true,
+};
+
+export function PaymentReminderRuleDialog({ open, onClose, rule }: PaymentReminderRuleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!rule;
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyRule,
+  });
+
+  useEffect(() => {
+    if (rule) {
+      form.reset({
+        name: rule.name,
+        trigger: rule.trigger as RuleFormData['trigger'],
+        offsetHours: rule.offsetHours.toString(),
+        messageTemplate: rule.messageTemplate,
+        isActive: rule.isActive,
+      });
+    } else {
+      form.reset(emptyRule);
+    }
+  }, [rule, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      const payload = {
+        ...data,
+        offsetHours: parseInt(data.offsetHours),
+      };
+      if (isEditing) {
+        return await apiRequest(`/api/payment-reminder-rules/${rule.id}`, 'PUT', payload);
+      } else {
+        return await apiRequest('/api/payment-reminder-rules', 'POST', payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-reminder-rules'] });
+      toast({
+        title: 'Success',
+        description: `Reminder rule ${isEditing ? 'updated' : 'created'} successfully`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${isEditing ? 'update' : 'create'} reminder rule`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: RuleFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit Reminder Rule' : 'Create Reminder Rule'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Day before expiry" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="offsetHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Hours</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} placeholder="24" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="trigger"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>When</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="after_creation">After the plan is created</SelectItem>
+                        <SelectItem value="before_expiration">Before the pay link expires</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="messageTemplate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea rows={5} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Placeholders: {PAYMENT_REMINDER_PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Active Rule
+                    </FormLabel>
+                    <div className="text-sm text-muted-foreground">
+                      Inactive rules send no reminders
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={mutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending ? 'Saving...' : (isEditing ? 'Update' : 'Create')}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
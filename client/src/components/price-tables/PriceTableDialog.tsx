@@ -26,8 +26,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, authFetch } from "@/lib/queryClient";
 import { insertPriceTableSchema, type PriceTable } from "@shared/schema";
+import { CURRENCIES, formatMoney, installmentAmount, PLAN_INSTALLMENTS } from "@shared/money";
 
 const priceTableFormSchema = insertPriceTableSchema;
 
@@ -53,6 +54,7 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
       oldPrice3x: "",
       currentPrice12x: "",
       oldPrice12x: "",
+      currency: "BRL",
       months: 3,
       image1: "",
       image2: "",
@@ -72,6 +74,7 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
         oldPrice3x: priceTable.oldPrice3x || "",
         currentPrice12x: priceTable.currentPrice12x,
         oldPrice12x: priceTable.oldPrice12x || "",
+        currency: priceTable.currency as PriceTableFormData["currency"],
         months: priceTable.months || 3,
         image1: priceTable.image1 || "",
         image2: priceTable.image2 || "",
@@ -88,6 +91,7 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
         oldPrice3x: "",
         currentPrice12x: "",
         oldPrice12x: "",
+        currency: "BRL",
         months: 3,
         image1: "",
         image2: "",
@@ -109,11 +113,10 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
       const url = isUpdate ? `/api/price-tables/${priceTable.id}` : "/api/price-tables";
       const method = isUpdate ? "PUT" : "POST";
 
-      const response = await fetch(url, {
+      const response = await authFetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
-          'x-user-id': '1', // Super admin
         },
         body: JSON.stringify(payload),
       });
@@ -159,6 +162,12 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
     setAdvantages(advantages.filter((_, i) => i !== index));
   };
 
+  // Prices are plan totals; show what each installment comes to
+  const describeInstallments = (total: string | null | undefined, planType: "3x" | "12x") =>
+    total && /^\d+(\.\d{1,2})?$/.test(total.trim())
+      ? `${PLAN_INSTALLMENTS[planType]} installments of ${formatMoney(installmentAmount(total, planType), form.watch("currency"))}`
+      : "Total for the whole plan";
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -230,30 +239,55 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="months"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Plan Duration (Months)</FormLabel>
-                  <Select onValueChange={(value) => field.onChange(Number(value))} defaultValue={field.value?.toString()}>
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select duration" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value="1">1 Month</SelectItem>
-                      <SelectItem value="3">3 Months</SelectItem>
-                      <SelectItem value="6">6 Months</SelectItem>
-                      <SelectItem value="12">12 Months</SelectItem>
-                      <SelectItem value="24">24 Months</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="months"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Plan Duration (Months)</FormLabel>
+                    <Select onValueChange={(value) => field.onChange(Number(value))} defaultValue={field.value?.toString()}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select duration" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="1">1 Month</SelectItem>
+                        <SelectItem value="3">3 Months</SelectItem>
+                        <SelectItem value="6">6 Months</SelectItem>
+                        <SelectItem value="12">12 Months</SelectItem>
+                        <SelectItem value="24">24 Months</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select currency" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             <div className="space-y-4">
               <FormLabel>Advantages</FormLabel>
@@ -299,12 +333,15 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
                         <FormLabel>Current Price 3x</FormLabel>
                         <FormControl>
                           <Input 
-                            type="text" 
-                            placeholder="89.99" 
+                            type="number" 
+                            step="0.01"
+                            min="0"
+                            placeholder="89.90" 
                             {...field}
                             value={field.value || ""}
                           />
                         </FormControl>
+                        <FormDescription>{describeInstallments(field.value, "3x")}</FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -318,8 +355,10 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
                         <FormLabel>Old Price 3x</FormLabel>
                         <FormControl>
                           <Input 
-                            type="text" 
-                            placeholder="119.99" 
+                            type="number" 
+                            step="0.01"
+                            min="0"
+                            placeholder="119.90" 
                             {...field}
                             value={field.value || ""}
                           />
@@ -343,12 +382,15 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
                         <FormLabel>Current Price 12x</FormLabel>
                         <FormControl>
                           <Input 
-                            type="text" 
-                            placeholder="299.99" 
+                            type="number" 
+                            step="0.01"
+                            min="0"
+                            placeholder="299.90" 
                             {...field}
                             value={field.value || ""}
                           />
                         </FormControl>
+                        <FormDescription>{describeInstallments(field.value, "12x")}</FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -362,8 +404,10 @@ export function PriceTableDialog({ open, onClose, priceTable }: PriceTableDialog
                         <FormLabel>Old Price 12x</FormLabel>
                         <FormControl>
                           <Input 
-                            type="text" 
-                            placeholder="399.99" 
+                            type="number" 
+                            step="0.01"
+                            min="0"
+                            placeholder="399.90" 
                             {...field}
                             value={field.value || ""}
                           />
@@ -0,0 +1,247 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { CustomRole, User } from '@shared/schema';
+import type { Permission } from '@shared/permissions';
+
+export interface PermissionInfo {
+  permission: Permission;
+  description: string;
+  grantable: boolean;
+}
+
+const roleFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim(),
+  permissions: z.array(z.string()).min(1, 'Pick at least one permission'),
+  entrepreneurId: z.string(),
+});
+
+type RoleFormData = z.infer<typeof roleFormSchema>;
+
+interface CustomRoleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  role?: CustomRole | null;
+  // Super-admins pick the tenant a new role belongs to
+  entrepreneurs?: User[];
+}
+
+const emptyRole: RoleFormData = {
+  name: '',
+  description: '',
+  permissions: [],
+  entrepreneurId: '',
+};
+
+export function CustomRoleDialog({ open, onClose, role, entrepreneurs }: CustomRoleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!role;
+  const pickTenant = !isEditing && !!entrepreneurs;
+
+  const { data: catalogue = [] } = useQuery<PermissionInfo[]>({
+    queryKey: ['/api/permissions'],
+    enabled: open,
+  });
+  const grantable = catalogue.filter((info) => info.grantable);
+
+  const form = useForm<RoleFormData>({
+    resolver: zodResolver(roleFormSchema.refine(
+      (data) => !pickTenant || data.entrepreneurId !== '',
+      { message: 'Pick an entrepreneur', path: ['entrepreneurId'] },
+    )),
+    defaultValues: emptyRole,
+  });
+
+  useEffect(() => {
+    if (role) {
+      form.reset({
+        name: role.name,
+        description: role.description ?? '',
+        permissions: role.permissions,
+        entrepreneurId: role.entrepreneurId.toString(),
+      });
+    } else {
+      form.reset(emptyRole);
+    }
+  }, [role, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: RoleFormData) => {
+      const payload = {
+        name: data.name,
+        description: data.description || null,
+        permissions: data.permissions,
+        ...(pickTenant && { entrepreneurId: parseInt(data.entrepreneurId) }),
+      };
+      if (isEditing) {
+        return await apiRequest(`/api/custom-roles/${role.id}`, 'PUT', payload);
+      } else {
+        return await apiRequest('/api/custom-roles', 'POST', payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-roles'] });
+      toast({
+        title: 'Success',
+        description: `Role ${isEditing ? 'updated' : 'created'} successfully`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${isEditing ? 'update' : 'create'} role`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: RoleFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit Role' : 'Create Role'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {pickTenant && (
+              <FormField
+                control={form.control}
+                name="entrepreneurId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Entrepreneur</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select an entrepreneur" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {entrepreneurs.map((entrepreneur) => (
+                          <SelectItem key={entrepreneur.id} value={entrepreneur.id.toString()}>
+                            {entrepreneur.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Billing assistant" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="permissions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Permissions</FormLabel>
+                  <FormDescription>On top of what every collaborator can do</FormDescription>
+                  <div className="space-y-2 rounded-lg border p-3 max-h-72 overflow-y-auto">
+                    {grantable.map((info) => (
+                      <label key={info.permission} className="flex items-start space-x-2 text-sm">
+                        <Checkbox
+                          className="mt-0.5"
+                          checked={field.value.includes(info.permission)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked
+                              ? [...field.value, info.permission]
+                              : field.value.filter((permission) => permission !== info.permission),
+                          )}
+                        />
+                        <span>
+                          <span className="font-mono text-xs">{info.permission}</span>
+                          <span className="block text-muted-foreground">{info.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={mutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending ? 'Saving...' : (isEditing ? 'Update' : 'Create')}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
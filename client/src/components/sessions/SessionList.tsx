@@ -0,0 +1,174 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import type { UserSession } from '@shared/schema';
+
+interface SessionListProps {
+  // Sessions of another user (super-admin); the signed-in user's own otherwise
+  userId?: number;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+// "Chrome on Windows" from a user agent string
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : undefined;
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : undefined;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? userAgent.slice(0, 60);
+}
+
+export function SessionList({ userId }: SessionListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { logout } = useAuth();
+  const sessionsUrl = userId ? `/api/users/${userId}/sessions` : '/api/auth/sessions';
+
+  const { data: sessions = [], isLoading } = useQuery<UserSession[]>({
+    queryKey: [sessionsUrl],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: UserSession) => {
+      await apiRequest(`${sessionsUrl}/${session.id}`, 'DELETE');
+    },
+    onSuccess: (_, session) => {
+      if (session.current) {
+        logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [sessionsUrl] });
+      toast({
+        title: 'Success',
+        description: 'Session signed out',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to sign out session',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      if (userId) {
+        await apiRequest(sessionsUrl, 'DELETE');
+      } else {
+        await apiRequest('/api/auth/logout-all', 'POST');
+      }
+    },
+    onSuccess: () => {
+      if (!userId || sessions.some((session) => session.current)) {
+        logout();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [sessionsUrl] });
+      toast({
+        title: 'Success',
+        description: 'Signed out of every device',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to sign out sessions',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleRevokeAll = () => {
+    const message = userId
+      ? 'Sign this user out of every device?'
+      : 'Sign out of every device, including this one?';
+    if (window.confirm(message)) {
+      revokeAllMutation.mutate();
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(2)].map((_, i) => (
+          <div key={i} className="h-16 bg-muted rounded-lg animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No active sessions.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.map((session) => {
+        const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+        return (
+          <div key={session.id} className="flex items-center justify-between rounded-lg border p-3">
+            <div className="flex items-center space-x-3 min-w-0">
+              <DeviceIcon className="h-5 w-5 text-muted-foreground shrink-0" />
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium truncate" title={session.userAgent ?? undefined}>
+                    {describeDevice(session.userAgent)}
+                  </span>
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {session.ipAddress ?? 'Unknown IP'}
+                  {session.lastUsedAt && ` · Active ${formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}`}
+                  {session.signedInAt && ` · Signed in ${format(new Date(session.signedInAt), 'dd/MM/yyyy HH:mm')}`}
+                </div>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeMutation.mutate(session)}
+              disabled={revokeMutation.isPending}
+            >
+              Sign out
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+          onClick={handleRevokeAll}
+          disabled={revokeAllMutation.isPending}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out everywhere
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { SUPPORT_TICKET_CATEGORIES, SUPPORT_TICKET_PRIORITIES, type SupportRoutingRule, type User } from '@shared/schema';
+
+const ruleFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  category: z.string(),
+  priority: z.string(),
+  keyword: z.string().trim().max(100),
+  agentIds: z.array(z.number()).min(1, 'Pick at least one agent'),
+  strategy: z.enum(['round_robin', 'least_open']),
+  position: z.string().regex(/^\d+$/, 'Enter a whole number'),
+  isActive: z.boolean().default(true),
+});
+
+type RuleFormData = z.infer<typeof ruleFormSchema>;
+
+// Select items cannot have an empty value
+const ANY = 'any';
+
+interface SupportRoutingRuleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  rule?: SupportRoutingRule | null;
+  agents: User[];
+}
+
+const emptyRule: RuleFormData = {
+  name: '',
+  category: ANY,
+  priority: ANY,
+  keyword: '',
+  agentIds: [],
+  strategy: 'round_robin',
+  position: '0',
+  isActive: true,
+};
+
+export function SupportRoutingRuleDialog({ open, onClose, rule, agents }: SupportRoutingRuleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!rule;
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyRule,
+  });
+
+  useEffect(() => {
+    if (rule) {
+      form.reset({
+        name: rule.name,
+        category: rule.category ?? ANY,
+        priority: rule.priority ?? ANY,
+        keyword: rule.keyword ?? '',
+        // Deactivated agents drop out of the pool on save
+        agentIds: rule.agentIds.filter((id) => agents.some((agent) => agent.id === id)),
+        strategy: rule.strategy as RuleFormData['strategy'],
+        position: rule.position.toString(),
+        isActive: rule.isActive,
+      });
+    } else {
+      form.reset(emptyRule);
+    }
+  }, [rule, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      const payload = {
+        ...data,
+        category: data.category === ANY ? null : data.category,
+        priority: data.priority === ANY ? null : data.priority,
+        position: parseInt(data.position),
+      };
+      if (isEditing) {
+        return await apiRequest(`/api/support-routing-rules/${rule.id}`, 'PUT', payload);
+      } else {
+        return await apiRequest('/api/support-routing-rules', 'POST', payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/support-routing-rules'] });
+      toast({
+        title: 'Success',
+        description: `Routing rule ${isEditing ? 'updated' : 'created'} successfully`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${isEditing ? 'update' : 'create'} routing rule`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: RuleFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit Routing Rule' : 'Create Routing Rule'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Billing team" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="position"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Position</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any category</SelectItem>
+                        {SUPPORT_TICKET_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any priority</SelectItem>
+                        {SUPPORT_TICKET_PRIORITIES.map((priority) => (
+                          <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="keyword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Subject Keyword</FormLabel>
+                  <FormControl>
+                    <Input placeholder="refund" {...field} />
+                  </FormControl>
+                  <FormDescription>Leave empty to match every subject</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="agentIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Agents</FormLabel>
+                  <div className="grid grid-cols-2 gap-2 rounded-lg border p-3 max-h-48 overflow-y-auto">
+                    {agents.map((agent) => (
+                      <label key={agent.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(agent.id)}
+                          onCheckedChange={(checked) => field.onChange(
+                            checked ? [...field.value, agent.id] : field.value.filter((id) => id !== agent.id),
+                          )}
+                        />
+                        <span>{agent.name}</span>
+                      </label>
+                    ))}
+                    {agents.length === 0 && (
+                      <span className="text-sm text-muted-foreground">No active super-admins</span>
+                    )}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="strategy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Strategy</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="round_robin">Round robin</SelectItem>
+                      <SelectItem value="least_open">Fewest open tickets</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Active Rule
+                    </FormLabel>
+                    <div className="text-sm text-muted-foreground">
+                      Inactive rules assign no tickets
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={mutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending ? 'Saving...' : (isEditing ? 'Update' : 'Create')}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
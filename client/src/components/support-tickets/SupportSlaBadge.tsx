@@ -0,0 +1,33 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import type { SupportSlaStatus, SupportSlaTarget } from '@shared/sla';
+
+const STATUS_CLASSES: Record<SupportSlaStatus, string> = {
+  on_track: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300',
+  at_risk: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300',
+  overdue: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  met: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+};
+
+interface SupportSlaBadgeProps {
+  label: string;
+  target: SupportSlaTarget;
+}
+
+export function SupportSlaBadge({ label, target }: SupportSlaBadgeProps) {
+  const distance = formatDistanceToNow(new Date(target.dueAt));
+  const text = {
+    on_track: `${label} due in ${distance}`,
+    at_risk: `${label} due in ${distance}`,
+    overdue: `${label} overdue by ${distance}`,
+    met: `${label} on time`,
+    missed: `${label} late`,
+  }[target.status];
+
+  return (
+    <Badge className={STATUS_CLASSES[target.status]} title={new Date(target.dueAt).toLocaleString()}>
+      {text}
+    </Badge>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { SUPPORT_TICKET_CATEGORIES, SUPPORT_TICKET_PRIORITIES, type SupportSlaPolicy } from '@shared/schema';
+
+// Targets are typed in hours; the API takes minutes
+const hours = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Enter a number of hours')
+  .refine((value) => Number(value) > 0, 'Must be more than zero');
+
+const policyFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES),
+  category: z.string(),
+  firstResponseHours: hours,
+  resolutionHours: hours,
+  isActive: z.boolean().default(true),
+});
+
+type PolicyFormData = z.infer<typeof policyFormSchema>;
+
+// Select items cannot have an empty value
+const ANY_CATEGORY = 'any';
+
+interface SupportSlaPolicyDialogProps {
+  open: boolean;
+  onClose: () => void;
+  policy?: SupportSlaPolicy | null;
+}
+
+const emptyPolicy: PolicyFormData = {
+  name: '',
+  priority: 'medium',
+  category: ANY_CATEGORY,
+  firstResponseHours: '24',
+  resolutionHours: '72',
+  isActive: true,
+};
+
+export function SupportSlaPolicyDialog({ open, onClose, policy }: SupportSlaPolicyDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEditing = !!policy;
+
+  const form = useForm<PolicyFormData>({
+    resolver: zodResolver(policyFormSchema),
+    defaultValues: emptyPolicy,
+  });
+
+  useEffect(() => {
+    if (policy) {
+      form.reset({
+        name: policy.name,
+        priority: policy.priority as PolicyFormData['priority'],
+        category: policy.category ?? ANY_CATEGORY,
+        firstResponseHours: (policy.firstResponseMinutes / 60).toString(),
+        resolutionHours: (policy.resolutionMinutes / 60).toString(),
+        isActive: policy.isActive,
+      });
+    } else {
+      form.reset(emptyPolicy);
+    }
+  }, [policy, form]);
+
+  const mutation = useMutation({
+    mutationFn: async ({ firstResponseHours, resolutionHours, ...data }: PolicyFormData) => {
+      const payload = {
+        ...data,
+        category: data.category === ANY_CATEGORY ? null : data.category,
+        firstResponseMinutes: Math.round(Number(firstResponseHours) * 60),
+        resolutionMinutes: Math.round(Number(resolutionHours) * 60),
+      };
+      if (isEditing) {
+        return await apiRequest(`/api/support-sla-policies/${policy.id}`, 'PUT', payload);
+      } else {
+        return await apiRequest('/api/support-sla-policies', 'POST', payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/support-sla-policies'] });
+      toast({
+        title: 'Success',
+        description: `SLA policy ${isEditing ? 'updated' : 'created'} successfully`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${isEditing ? 'update' : 'create'} SLA policy`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: PolicyFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? 'Edit SLA Policy' : 'Create SLA Policy'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Urgent billing" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORT_TICKET_PRIORITIES.map((priority) => (
+                          <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+                        {SUPPORT_TICKET_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category} className="capitalize">{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="firstResponseHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>First Response (hours)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.25" {...field} />
+                    </FormControl>
+                    <FormDescription>Promised to the customer on submission</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="resolutionHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Resolution (hours)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.25" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">
+                      Active Policy
+                    </FormLabel>
+                    <div className="text-sm text-muted-foreground">
+                      New tickets get no targets from inactive policies
+                    </div>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={mutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending}
+              >
+                {mutation.isPending ? 'Saving...' : (isEditing ? 'Update' : 'Create')}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,6 +20,7 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -28,14 +29,17 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
 import type { User } from '@shared/schema';
 
 const userFormSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
   role: z.enum(['super-admin', 'entrepreneur', 'collaborator', 'customer']),
   avatar: z.string().optional(),
+  phone: z.string().regex(/^[\d\s()+-]*$/, 'Enter digits only, with country and area code').optional(),
+  whatsappReminders: z.boolean().default(true),
+  isActive: z.boolean().default(true),
 });
 
 type UserFormData = z.infer<typeof userFormSchema>;
@@ -48,6 +52,7 @@ interface UserDialogProps {
 
 export function UserDialog({ open, onClose, user }: UserDialogProps) {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const isEditing = !!user;
 
@@ -56,9 +61,11 @@ export function UserDialog({ open, onClose, user }: UserDialogProps) {
     defaultValues: {
       name: '',
       email: '',
-      password: '',
       role: 'customer',
       avatar: '',
+      phone: '',
+      whatsappReminders: true,
+      isActive: true,
     },
   });
 
@@ -67,25 +74,33 @@ export function UserDialog({ open, onClose, user }: UserDialogProps) {
       form.reset({
         name: user.name,
         email: user.email,
-        password: '', // Always require password entry for security
         role: user.role as any,
         avatar: user.avatar || '',
+        phone: user.phone || '',
+        whatsappReminders: !user.whatsappOptOutAt,
+        isActive: user.isActive,
       });
     } else {
       form.reset({
         name: '',
         email: '',
-        password: '',
         role: 'customer',
         avatar: '',
+        phone: '',
+        whatsappReminders: true,
+        isActive: true,
       });
     }
   }, [user, form]);
 
   const mutation = useMutation({
-    mutationFn: async (data: UserFormData) => {
+    mutationFn: async ({ whatsappReminders, isActive, ...data }: UserFormData) => {
       if (isEditing) {
-        return await apiRequest(`/api/users/${user.id}`, 'PUT', data);
+        return await apiRequest(`/api/users/${user.id}`, 'PUT', {
+          ...data,
+          isActive,
+          ...(data.role === 'customer' && { whatsappOptOut: !whatsappReminders }),
+        });
       } else {
         return await apiRequest('/api/users', 'POST', data);
       }
@@ -94,7 +109,9 @@ export function UserDialog({ open, onClose, user }: UserDialogProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
       toast({
         title: 'Success',
-        description: `User ${isEditing ? 'updated' : 'created'} successfully`,
+        description: isEditing
+          ? 'User updated successfully'
+          : `User created; an invite to set a password was sent to ${form.getValues('email')}`,
       });
       onClose();
     },
@@ -154,23 +171,11 @@ export function UserDialog({ open, onClose, user }: UserDialogProps) {
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="password"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Password</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="password"
-                      placeholder={isEditing ? "Enter new password" : "Enter password"}
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {!isEditing && (
+              <p className="text-sm text-muted-foreground">
+                The user gets an email with a link to set their password.
+              </p>
+            )}
 
             <FormField
               control={form.control}
@@ -185,8 +190,12 @@ export function UserDialog({ open, onClose, user }: UserDialogProps) {
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="super-admin">Super Admin</SelectItem>
-                      <SelectItem value="entrepreneur">Entrepreneur</SelectItem>
+                      {can('users:assign-any-role') && (
+                        <>
+                          <SelectItem value="super-admin">Super Admin</SelectItem>
+                          <SelectItem value="entrepreneur">Entrepreneur</SelectItem>
+                        </>
+                      )}
                       <SelectItem value="collaborator">Collaborator</SelectItem>
                       <SelectItem value="customer">Customer</SelectItem>
                     </SelectContent>
@@ -196,6 +205,75 @@ export function UserDialog({ open, onClose, user }: UserDialogProps) {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>WhatsApp Phone (Optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="+55 11 98765-4321"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isEditing && form.watch('role') === 'customer' && (
+              <FormField
+                control={form.control}
+                name="whatsappReminders"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        WhatsApp Reminders
+                      </FormLabel>
+                      <div className="text-sm text-muted-foreground">
+                        {user.whatsappOptOutAt && !field.value
+                          ? 'The customer opted out of payment reminders'
+                          : 'Send payment reminders for pending plans'}
+                      </div>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {isEditing && (
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Active
+                      </FormLabel>
+                      <div className="text-sm text-muted-foreground">
+                        Deactivated users cannot sign in, and their open support tickets are reassigned
+                      </div>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="avatar"
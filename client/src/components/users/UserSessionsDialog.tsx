@@ -0,0 +1,29 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SessionList } from '@/components/sessions/SessionList';
+import type { User } from '@shared/schema';
+
+interface UserSessionsDialogProps {
+  user: User | null;
+  onClose: () => void;
+}
+
+export function UserSessionsDialog({ user, onClose }: UserSessionsDialogProps) {
+  return (
+    <Dialog open={!!user} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Sessions</DialogTitle>
+          <DialogDescription>Devices where {user?.name} is signed in.</DialogDescription>
+        </DialogHeader>
+
+        {user && <SessionList userId={user.id} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,233 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Send, CheckCircle, RotateCcw, AlertCircle } from 'lucide-react';
+import type { User, UpdateWhatsappConversation, WhatsappConversationWithAssignee, WhatsappMessage } from '@shared/schema';
+import { format } from 'date-fns';
+
+// No push channel to the browser; poll the open thread instead
+const THREAD_REFRESH_MS = 10 * 1000;
+
+function messageText(message: WhatsappMessage): string {
+  switch (message.type) {
+    case 'media':
+      return message.body || message.fileName || `[${message.mediaType ?? 'media'}]`;
+    case 'template':
+      return `[template ${message.templateName}]${message.templateParams.length > 0 ? ` ${message.templateParams.join(', ')}` : ''}`;
+    default:
+      return message.body || '';
+  }
+}
+
+interface ConversationThreadProps {
+  conversation: WhatsappConversationWithAssignee;
+  assignees: Pick<User, 'id' | 'name'>[];
+  customers: Pick<User, 'id' | 'name'>[];
+}
+
+export function ConversationThread({ conversation, assignees, customers }: ConversationThreadProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reply, setReply] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const messagesKey = `/api/whatsapp-conversations/${conversation.id}/messages`;
+
+  const { data: messages = [], isLoading } = useQuery<WhatsappMessage[]>({
+    queryKey: [messagesKey],
+    refetchInterval: THREAD_REFRESH_MS,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/whatsapp-conversations'] });
+    queryClient.invalidateQueries({ queryKey: [messagesKey] });
+  };
+
+  const readMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/whatsapp-conversations/${conversation.id}/read`, 'POST');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp-conversations'] });
+    },
+  });
+
+  // Opening a conversation, or receiving a message while it is open, reads it
+  useEffect(() => {
+    if (conversation.unreadCount > 0 && !readMutation.isPending) {
+      readMutation.mutate();
+    }
+  }, [conversation.id, conversation.unreadCount]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: UpdateWhatsappConversation) => {
+      return await apiRequest(`/api/whatsapp-conversations/${conversation.id}`, 'PUT', update);
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update conversation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (text: string) => {
+      return await apiRequest(`/api/whatsapp-conversations/${conversation.id}/reply`, 'POST', { text });
+    },
+    onSuccess: () => {
+      setReply('');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      // Failed sends are logged in the thread too
+      invalidate();
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to send reply',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleReply = () => {
+    const text = reply.trim();
+    if (text) {
+      replyMutation.mutate(text);
+    }
+  };
+
+  // The current assignee may not be in the list, e.g. a removed collaborator
+  const assigneeOptions = conversation.assignee && !assignees.some((user) => user.id === conversation.assignee!.id)
+    ? [...assignees, conversation.assignee]
+    : assignees;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-3 border-b p-4">
+        <div className="flex-1 min-w-0">
+          <h2 className="font-semibold text-gray-900 dark:text-white truncate">
+            {conversation.contactName || `+${conversation.contact}`}
+          </h2>
+          {conversation.contactName && (
+            <p className="text-sm text-muted-foreground">+{conversation.contact}</p>
+          )}
+        </div>
+
+        <Select
+          value={conversation.assignedTo?.toString() ?? 'none'}
+          onValueChange={(value) => updateMutation.mutate({ assignedTo: value === 'none' ? null : parseInt(value) })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Unassigned</SelectItem>
+            {assigneeOptions.map((user) => (
+              <SelectItem key={user.id} value={user.id.toString()}>{user.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={conversation.customerId?.toString() ?? 'none'}
+          onValueChange={(value) => updateMutation.mutate({ customerId: value === 'none' ? null : parseInt(value) })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No customer</SelectItem>
+            {customers.map((customer) => (
+              <SelectItem key={customer.id} value={customer.id.toString()}>{customer.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {conversation.status === 'open' ? (
+          <Button variant="outline" size="sm" onClick={() => updateMutation.mutate({ status: 'closed' })} disabled={updateMutation.isPending}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Close
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => updateMutation.mutate({ status: 'open' })} disabled={updateMutation.isPending}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reopen
+          </Button>
+        )}
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-gray-50 dark:bg-gray-900">
+        {isLoading ? (
+          <div className="text-center text-sm text-muted-foreground">Loading messages...</div>
+        ) : (
+          messages.map((message) => {
+            const outbound = message.direction === 'outbound';
+            return (
+              <div key={message.id} className={`flex ${outbound ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[75%] rounded-lg px-3 py-2 text-sm shadow-sm ${
+                    outbound
+                      ? 'bg-green-100 text-gray-900 dark:bg-green-900/40 dark:text-gray-100'
+                      : 'bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100'
+                  }`}
+                >
+                  {message.type === 'media' && message.mediaUrl && (
+                    <a href={message.mediaUrl} target="_blank" rel="noreferrer" className="block text-xs text-blue-600 dark:text-blue-400 underline mb-1">
+                      {message.fileName || `Open ${message.mediaType ?? 'media'}`}
+                    </a>
+                  )}
+                  <p className="whitespace-pre-wrap break-words">{messageText(message)}</p>
+                  <div className="flex items-center justify-end gap-1 mt-1 text-[11px] text-muted-foreground">
+                    <span>{message.createdAt ? format(new Date(message.createdAt), 'MMM dd, HH:mm') : ''}</span>
+                    {outbound && message.status === 'failed' ? (
+                      <span className="flex items-center text-destructive" title={message.error ?? undefined}>
+                        <AlertCircle className="h-3 w-3 mr-0.5" />
+                        failed
+                      </span>
+                    ) : outbound && (
+                      <span>· {message.status}</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Reply */}
+      <div className="border-t p-4 flex items-end gap-2">
+        <Textarea
+          rows={2}
+          placeholder="Type a reply..."
+          value={reply}
+          onChange={(e) => setReply(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleReply();
+            }
+          }}
+          className="flex-1 resize-none"
+        />
+        <Button onClick={handleReply} disabled={replyMutation.isPending || !reply.trim()}>
+          <Send className="h-4 w-4 mr-2" />
+          {replyMutation.isPending ? 'Sending...' : 'Send'}
+        </Button>
+      </div>
+    </div>
+  );
+}
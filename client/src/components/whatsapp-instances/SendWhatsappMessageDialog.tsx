@@ -0,0 +1,370 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { authFetch } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { User, WhatsappInstance, WhatsappMessage } from '@shared/schema';
+
+const messageFormSchema = z.object({
+  type: z.enum(['text', 'media', 'template']),
+  to: z.string().min(1, 'Phone number is required'),
+  customerId: z.string().optional(),
+  text: z.string().optional(),
+  mediaUrl: z.string().optional(),
+  mediaType: z.enum(['image', 'video', 'audio', 'document']),
+  caption: z.string().optional(),
+  fileName: z.string().optional(),
+  templateName: z.string().optional(),
+  language: z.string().optional(),
+  parameters: z.string().optional(), // One per line
+});
+
+type MessageFormData = z.infer<typeof messageFormSchema>;
+
+const emptyMessage: MessageFormData = {
+  type: 'text',
+  to: '',
+  customerId: '',
+  text: '',
+  mediaUrl: '',
+  mediaType: 'image',
+  caption: '',
+  fileName: '',
+  templateName: '',
+  language: 'pt_BR',
+  parameters: '',
+};
+
+// Request body of the send endpoint for the chosen message type
+function toPayload(data: MessageFormData) {
+  const recipient = {
+    to: data.to,
+    customerId: data.customerId ? parseInt(data.customerId) : undefined,
+  };
+  switch (data.type) {
+    case 'media':
+      return {
+        ...recipient,
+        mediaUrl: data.mediaUrl,
+        mediaType: data.mediaType,
+        caption: data.caption || undefined,
+        fileName: data.fileName || undefined,
+      };
+    case 'template':
+      return {
+        ...recipient,
+        templateName: data.templateName,
+        language: data.language || undefined,
+        parameters: (data.parameters || '').split('\n').map((p) => p.trim()).filter(Boolean),
+      };
+    default:
+      return { ...recipient, text: data.text };
+  }
+}
+
+interface SendWhatsappMessageDialogProps {
+  open: boolean;
+  onClose: () => void;
+  instance: WhatsappInstance | null;
+}
+
+export function SendWhatsappMessageDialog({ open, onClose, instance }: SendWhatsappMessageDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: open,
+  });
+  const customers = users.filter((user) => user.role === 'customer');
+
+  const form = useForm<MessageFormData>({
+    resolver: zodResolver(messageFormSchema),
+    defaultValues: emptyMessage,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(emptyMessage);
+    }
+  }, [open, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (data: MessageFormData) => {
+      const response = await authFetch(`/api/whatsapp-instances/${instance!.id}/send-${data.type}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(data)),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        const fieldError = body?.errors?.[0];
+        throw new Error(fieldError ? `${fieldError.path.join('.')}: ${fieldError.message}` : body?.message || 'Failed to send message');
+      }
+      return body as WhatsappMessage;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp-messages'] });
+      toast({
+        title: 'Success',
+        description: 'Message sent',
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      // Failed sends are logged too
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp-messages'] });
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const onSubmit = (data: MessageFormData) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Send WhatsApp Message</DialogTitle>
+          <DialogDescription>
+            {instance ? `Through ${instance.name} (#${instance.instanceNumber})` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone Number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="+55 11 98765-4321" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="customerId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Customer</FormLabel>
+                    <Select value={field.value || 'none'} onValueChange={(value) => field.onChange(value === 'none' ? '' : value)}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not linked</SelectItem>
+                        {customers.map((customer) => (
+                          <SelectItem key={customer.id} value={customer.id.toString()}>
+                            {customer.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <Tabs value={form.watch('type')} onValueChange={(value) => form.setValue('type', value as MessageFormData['type'])}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="text">Text</TabsTrigger>
+                <TabsTrigger value="media">Media</TabsTrigger>
+                <TabsTrigger value="template">Template</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="text" className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="text"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Message</FormLabel>
+                      <FormControl>
+                        <Textarea rows={5} placeholder="Hi! Your plan renews tomorrow." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </TabsContent>
+
+              <TabsContent value="media" className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="mediaUrl"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>Media URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://example.com/invoice.pdf" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="mediaType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="image">Image</SelectItem>
+                            <SelectItem value="video">Video</SelectItem>
+                            <SelectItem value="audio">Audio</SelectItem>
+                            <SelectItem value="document">Document</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="caption"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Caption</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Optional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="fileName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>File Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="invoice.pdf" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </TabsContent>
+
+              <TabsContent value="template" className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="templateName"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>Template Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="payment_reminder" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="language"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Language</FormLabel>
+                        <FormControl>
+                          <Input placeholder="pt_BR" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="parameters"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parameters</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} placeholder={'Maria\nR$ 119,90'} {...field} />
+                      </FormControl>
+                      <FormDescription>One per line, in the order of the template placeholders</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </TabsContent>
+            </Tabs>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={mutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending || !instance?.isActive}
+              >
+                {mutation.isPending ? 'Sending...' : 'Send'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
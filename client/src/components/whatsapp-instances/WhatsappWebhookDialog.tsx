@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, RefreshCw } from 'lucide-react';
+import type { WhatsappInstance } from '@shared/schema';
+
+interface WebhookSettings {
+  url: string;
+  secret: string;
+}
+
+interface WhatsappWebhookDialogProps {
+  open: boolean;
+  onClose: () => void;
+  instance: WhatsappInstance | null;
+}
+
+export function WhatsappWebhookDialog({ open, onClose, instance }: WhatsappWebhookDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const webhookKey = `/api/whatsapp-instances/${instance?.id}/webhook`;
+
+  const { data: settings, isLoading } = useQuery<WebhookSettings>({
+    queryKey: [webhookKey],
+    enabled: open && !!instance,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/whatsapp-instances/${instance!.id}/webhook/rotate`, 'POST') as WebhookSettings;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([webhookKey], data);
+      toast({
+        title: 'Success',
+        description: 'Webhook secret replaced. Register the new URL at the instance API.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to replace webhook secret',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!settings) return;
+    await navigator.clipboard.writeText(settings.url);
+    toast({
+      title: 'Copied',
+      description: 'Webhook URL copied to clipboard',
+    });
+  };
+
+  const handleRotate = () => {
+    if (window.confirm('Replace the webhook secret? Calls with the current URL will be rejected.')) {
+      rotateMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Webhook</DialogTitle>
+          <DialogDescription>
+            Register this URL at the instance API to receive messages, delivery statuses and connection changes in the inbox.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Input readOnly value={isLoading ? 'Loading...' : settings?.url ?? ''} className="font-mono text-xs" />
+            <Button variant="outline" onClick={handleCopy} disabled={!settings} title="Copy URL">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex justify-between pt-2">
+            <Button variant="outline" onClick={handleRotate} disabled={!settings || rotateMutation.isPending}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {rotateMutation.isPending ? 'Replacing...' : 'Replace Secret'}
+            </Button>
+            <Button onClick={onClose}>Done</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
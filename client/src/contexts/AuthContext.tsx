@@ -1,23 +1,17 @@
-import { createContext, useContext, useState } from 'react';
-import type { User, UserRole } from '@/lib/types';
+import { createContext, useContext, useEffect, useState } from 'react';
+import type { User, UserRole, AuthSession } from '@/lib/types';
+import { setAuthTokens, getRefreshToken, clearAuthTokens, apiRequest } from '@/lib/queryClient';
+import { getPermissions, type Permission } from '@shared/permissions';
 
 interface AuthContextType {
   user: User | null;
   setUserRole: (role: UserRole) => void;
   logout: () => void;
-  login: (userData: User) => void;
+  login: (session: AuthSession) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const mockUser: User = {
-  id: '1',
-  name: 'John Doe',
-  email: 'john.doe@example.com',
-  role: 'super-admin',
-  avatar: ''
-};
-
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(() => {
     // Check for stored user data
@@ -32,23 +26,53 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return null;
   });
 
+  const storeUser = (updatedUser: User) => {
+    setUser(updatedUser);
+    localStorage.setItem('user', JSON.stringify(updatedUser));
+  };
+
+  // Previewing a role shows what that role may do by default
   const setUserRole = (role: UserRole) => {
     if (user) {
-      const updatedUser = { ...user, role };
-      setUser(updatedUser);
-      localStorage.setItem('user', JSON.stringify(updatedUser));
+      storeUser({ ...user, role, permissions: getPermissions(role) });
     }
   };
 
+  // A custom role may have changed since the last sign-in
+  useEffect(() => {
+    if (!user) return;
+    apiRequest('/api/auth/permissions')
+      .then(({ role, permissions }: { role: UserRole; permissions: Permission[] }) => {
+        setUser((current) => {
+          if (!current || current.role !== role) return current;
+          const updatedUser = { ...current, permissions };
+          localStorage.setItem('user', JSON.stringify(updatedUser));
+          return updatedUser;
+        });
+      })
+      .catch(() => {});
+  }, [user?.id]);
+
   const logout = () => {
+    const refreshToken = getRefreshToken();
+    if (refreshToken) {
+      // Revoke the session server-side, the local state is cleared regardless
+      fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      }).catch(() => {});
+    }
+
     setUser(null);
     localStorage.removeItem('user');
+    clearAuthTokens();
     window.location.href = '/login';
   };
 
-  const login = (userData: User) => {
-    setUser(userData);
-    localStorage.setItem('user', JSON.stringify(userData));
+  const login = (session: AuthSession) => {
+    setAuthTokens(session);
+    storeUser(session.user);
   };
 
   return (
@@ -0,0 +1,14 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { getPermissions, hasPermission, type Permission } from '@shared/permissions';
+
+// What the signed-in user may do, for hiding pages and buttons. The server
+// checks the same permissions on every request.
+export function usePermissions() {
+  const { user } = useAuth();
+  const permissions = user?.permissions ?? (user ? getPermissions(user.role) : []);
+
+  return {
+    permissions,
+    can: (permission: Permission) => hasPermission(permissions, permission),
+  };
+}
@@ -1,4 +1,93 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { AuthTokens } from "./types";
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+export function setAuthTokens(tokens: AuthTokens) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+}
+
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function clearAuthTokens() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+function withAuthHeader(headers: HeadersInit = {}): HeadersInit {
+  const accessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+  return accessToken ? { ...headers, Authorization: `Bearer ${accessToken}` } : headers;
+}
+
+const REFRESH_LOCK = "auth-refresh";
+
+// Run one refresh at a time across every tab of the app. Browsers without
+// the Web Locks API only serialise within the tab.
+let refreshQueue: Promise<unknown> = Promise.resolve();
+function withRefreshLock<T>(callback: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(REFRESH_LOCK, callback);
+  }
+  const result = refreshQueue.then(callback);
+  refreshQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Exchange the stored refresh token for a new token pair, given the access
+// token the server rejected. Refresh tokens work once and the server signs
+// the session out when one is sent twice, so requests failing at the same
+// time, in this tab or another, refresh one after the other: whoever finds
+// the token already replaced just uses the new one.
+function refreshAccessToken(rejectedAccessToken: string | null): Promise<boolean> {
+  return withRefreshLock(async () => {
+    const accessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+    if (accessToken !== rejectedAccessToken) return !!accessToken;
+
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return false;
+
+    const res = await fetch("/api/auth/refresh", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+    if (!res.ok) {
+      clearAuthTokens();
+      return false;
+    }
+
+    setAuthTokens(await res.json());
+    return true;
+  });
+}
+
+// The server asks for a refresh only when the access token itself is expired
+// or invalid, not when the user may not do something
+function isInvalidToken(res: Response): boolean {
+  return res.status === 401 && !!res.headers.get("WWW-Authenticate")?.includes("invalid_token");
+}
+
+// fetch with the access token attached, retried once after a token refresh
+// when the server rejects an expired token
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, {
+    ...init,
+    headers: withAuthHeader(init.headers),
+    credentials: "include",
+  });
+
+  const accessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+  const res = await send();
+  if (isInvalidToken(res) && await refreshAccessToken(accessToken)) {
+    return await send();
+  }
+  return res;
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -12,19 +101,18 @@ export async function apiRequest(
   method: string = "GET",
   data?: unknown | undefined,
 ): Promise<any> {
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
-  
-  if (method === "DELETE") {
+
+  if (method === "DELETE" || res.status === 204) {
     return;
   }
-  
+
   return await res.json();
 }
 
@@ -34,9 +122,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
-      credentials: "include",
-    });
+    const res = await authFetch(queryKey[0] as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
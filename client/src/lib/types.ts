@@ -1,3 +1,5 @@
+import type { Permission } from '@shared/permissions';
+
 export type UserRole = 'super-admin' | 'entrepreneur' | 'collaborator' | 'customer';
 
 export interface User {
@@ -6,6 +8,18 @@ export interface User {
   email: string;
   role: UserRole;
   avatar?: string;
+  entrepreneurId?: number | null;
+  permissions?: Permission[]; // From the server; missing for sessions stored before permissions existed
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface AuthSession extends AuthTokens {
+  expiresIn: string;
+  user: User;
 }
 
 export interface NavigationItem {
@@ -13,6 +27,7 @@ export interface NavigationItem {
   label: string;
   href?: string;
   active?: boolean;
+  permission?: Permission; // Hidden from users without it
 }
 
 export interface DashboardStats {
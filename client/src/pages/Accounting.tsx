@@ -9,11 +9,14 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Link } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest } from "@/lib/queryClient";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { TopBar } from "@/components/layout/TopBar";
 import { 
@@ -28,12 +31,12 @@ import {
   Receipt,
   CreditCard,
   ArrowUpCircle,
-  ArrowDownCircle
+  ArrowDownCircle,
+  Link2
 } from "lucide-react";
 import type { Accounting } from "@shared/schema";
 
 const accountingFormSchema = z.object({
-  entrepreneurId: z.number(),
   category: z.string().min(1, "Category is required"),
   description: z.string().min(1, "Description is required"),
   date: z.string().min(1, "Date is required"),
@@ -56,7 +59,6 @@ function AccountingDialog({ open, onClose, accounting }: AccountingDialogProps)
   const form = useForm<AccountingFormData>({
     resolver: zodResolver(accountingFormSchema),
     defaultValues: {
-      entrepreneurId: 2, // Default to current entrepreneur
       category: "",
       description: "",
       date: new Date().toISOString().split('T')[0],
@@ -73,28 +75,11 @@ function AccountingDialog({ open, onClose, accounting }: AccountingDialogProps)
         date: new Date(data.date).toISOString(),
       };
 
+      // The entrepreneur is taken from the session on the server
       if (accounting) {
-        const response = await fetch(`/api/accounting/${accounting.id}`, {
-          method: "PATCH",
-          body: JSON.stringify(payload),
-          headers: { 
-            "Content-Type": "application/json",
-            "x-user-id": "2"
-          },
-        });
-        if (!response.ok) throw new Error('Failed to update accounting entry');
-        return response.json();
+        return await apiRequest(`/api/accounting/${accounting.id}`, "PATCH", payload);
       } else {
-        const response = await fetch("/api/accounting", {
-          method: "POST",
-          body: JSON.stringify(payload),
-          headers: { 
-            "Content-Type": "application/json",
-            "x-user-id": "2"
-          },
-        });
-        if (!response.ok) throw new Error('Failed to create accounting entry');
-        return response.json();
+        return await apiRequest("/api/accounting", "POST", payload);
       }
     },
     onSuccess: () => {
@@ -123,7 +108,6 @@ function AccountingDialog({ open, onClose, accounting }: AccountingDialogProps)
   useEffect(() => {
     if (accounting && open) {
       form.reset({
-        entrepreneurId: accounting.entrepreneurId,
         category: accounting.category,
         description: accounting.description,
         date: accounting.date ? new Date(accounting.date).toISOString().split('T')[0] : "",
@@ -132,7 +116,6 @@ function AccountingDialog({ open, onClose, accounting }: AccountingDialogProps)
       });
     } else if (!accounting && open) {
       form.reset({
-        entrepreneurId: 2,
         category: "",
         description: "",
         date: new Date().toISOString().split('T')[0],
@@ -274,24 +257,16 @@ export default function Accounting() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
 
   const { data: accountingEntries = [], isLoading } = useQuery<Accounting[]>({
     queryKey: ["/api/accounting"],
-    queryFn: () => fetch("/api/accounting?entrepreneurId=2", {
-      headers: { "x-user-id": "2" }
-    }).then(res => res.json()),
   });
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/accounting/${id}`, {
-        method: "DELETE",
-        headers: { "x-user-id": "2" },
-      });
-      if (!response.ok) {
-        throw new Error('Failed to delete accounting entry');
-      }
+      await apiRequest(`/api/accounting/${id}`, "DELETE");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/accounting"] });
@@ -377,10 +352,12 @@ export default function Accounting() {
               Track your business income and expenses
             </p>
           </div>
-          <Button onClick={() => setIsDialogOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            New Entry
-          </Button>
+          {can('accounting:write') && (
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Entry
+            </Button>
+          )}
         </div>
 
         {/* Financial Summary Cards */}
@@ -437,10 +414,12 @@ export default function Accounting() {
               <p className="text-muted-foreground mb-4">
                 Start tracking your business finances by adding your first entry.
               </p>
-              <Button onClick={() => setIsDialogOpen(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add First Entry
-              </Button>
+              {can('accounting:write') && (
+                <Button onClick={() => setIsDialogOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add First Entry
+                </Button>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -472,26 +451,28 @@ export default function Accounting() {
                             {format(new Date(entry.date), 'MMM dd, yyyy')}
                           </p>
                         </div>
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="sm">
-                              <MoreHorizontal className="h-4 w-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={() => handleEdit(entry)}>
-                              <Edit className="h-4 w-4 mr-2" />
-                              Edit
-                            </DropdownMenuItem>
-                            <DropdownMenuItem 
-                              onClick={() => handleDelete(entry)}
-                              className="text-destructive"
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                        {can('accounting:write') && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => handleEdit(entry)}>
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem 
+                                onClick={() => handleDelete(entry)}
+                                className="text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </div>
                     </div>
                   </CardHeader>
@@ -510,6 +491,15 @@ export default function Accounting() {
                         )}
                         {entry.type === 'receives' ? 'Income' : 'Expense'}
                       </div>
+                      {entry.customerPlanId && (
+                        <Link
+                          href={`/customer-plans?plan=${entry.customerPlanId}`}
+                          className="flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <Link2 className="h-4 w-4" />
+                          Customer plan #{entry.customerPlanId}
+                        </Link>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
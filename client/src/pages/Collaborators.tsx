@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { CollaboratorDialog } from "@/components/collaborators/CollaboratorDialog";
 import { TopBar } from "@/components/layout/TopBar";
 import { Sidebar } from "@/components/layout/Sidebar";
@@ -33,6 +34,7 @@ export default function Collaborators() {
   const [selectedCollaborator, setSelectedCollaborator] = useState<Collaborator | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const { user } = useAuth();
 
@@ -104,10 +106,12 @@ export default function Collaborators() {
                 <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Collaborators</h1>
                 <p className="text-gray-600 dark:text-gray-400">Manage your team members and collaborators</p>
               </div>
-              <Button onClick={() => setIsDialogOpen(true)} className="w-full sm:w-auto">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Collaborator
-              </Button>
+              {can('collaborators:write') && (
+                <Button onClick={() => setIsDialogOpen(true)} className="w-full sm:w-auto">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Collaborator
+                </Button>
+              )}
             </div>
 
             {/* Stats Cards */}
@@ -188,7 +192,7 @@ export default function Collaborators() {
                         : "Start building your team by adding your first collaborator"
                       }
                     </p>
-                    {!searchTerm && (
+                    {!searchTerm && can('collaborators:write') && (
                       <Button onClick={() => setIsDialogOpen(true)}>
                         <Plus className="h-4 w-4 mr-2" />
                         Add First Collaborator
@@ -273,25 +277,27 @@ export default function Collaborators() {
                         </div>
                       </div>
                       
-                      <div className="flex items-center space-x-2 ml-4">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(collaborator)}
-                          className="h-8 w-8 p-0"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(collaborator)}
-                          className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
-                          disabled={deleteMutation.isPending}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                      {can('collaborators:write') && (
+                        <div className="flex items-center space-x-2 ml-4">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(collaborator)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(collaborator)}
+                            className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
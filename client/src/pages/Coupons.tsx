@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Plus, Edit, Trash2, Search, Tag, Calendar, Users } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { CouponDialog } from '@/components/coupons/CouponDialog';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+import type { Coupon, CouponRedemption, PriceTable } from '@shared/schema';
+import { format } from 'date-fns';
+
+function CouponRedemptions({ couponId }: { couponId: number }) {
+  const { data: redemptions = [] } = useQuery<CouponRedemption[]>({
+    queryKey: [`/api/coupons/${couponId}/redemptions`],
+  });
+
+  return (
+    <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+      <Users className="h-4 w-4 mr-2" />
+      <span>{redemptions.length} redemption{redemptions.length === 1 ? '' : 's'}</span>
+    </div>
+  );
+}
+
+export default function Coupons() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const queryClient = useQueryClient();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+
+  const { data: coupons = [], isLoading } = useQuery<Coupon[]>({
+    queryKey: ['/api/coupons'],
+  });
+
+  const { data: priceTables = [] } = useQuery<PriceTable[]>({
+    queryKey: ['/api/price-tables'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/coupons/${id}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/coupons'] });
+      toast({
+        title: 'Success',
+        description: 'Coupon deleted successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete coupon',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filteredCoupons = coupons.filter((coupon) =>
+    coupon.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (coupon.description || '').toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const handleDialogClose = () => {
+    setDialogOpen(false);
+    setEditingCoupon(null);
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (coupon: Coupon) => {
+    if (window.confirm(`Are you sure you want to delete coupon "${coupon.code}"?`)) {
+      deleteMutation.mutate(coupon.id);
+    }
+  };
+
+  const formatDiscount = (coupon: Coupon) =>
+    coupon.discountType === 'percentage' ? `${parseFloat(coupon.discountValue)}% off` : `$${coupon.discountValue} off`;
+
+  const formatRestrictions = (coupon: Coupon) => {
+    const tables = coupon.priceTableIds.length > 0
+      ? coupon.priceTableIds.map((id) => priceTables.find((t) => t.id === id)?.title ?? `#${id}`).join(', ')
+      : 'All price tables';
+    const planTypes = coupon.planTypes.length > 0 ? coupon.planTypes.join(', ') : '3x, 12x';
+    return `${tables} · ${planTypes}`;
+  };
+
+  const formatValidity = (coupon: Coupon) => {
+    if (!coupon.validFrom && !coupon.validUntil) return 'No expiry';
+    const from = coupon.validFrom ? format(new Date(coupon.validFrom), 'MMM dd, yyyy') : 'now';
+    const until = coupon.validUntil ? format(new Date(coupon.validUntil), 'MMM dd, yyyy') : 'no end';
+    return `${from} – ${until}`;
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <div className="flex justify-between items-center">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Coupons</h1>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(6)].map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="space-y-2">
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Coupons</h1>
+          {can('coupons:write') && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Coupon
+            </Button>
+          )}
+        </div>
+
+        {/* Search */}
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search coupons..."
+            className="pl-10"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+
+        {/* Coupons Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredCoupons.map((coupon) => (
+            <Card key={coupon.id} className="transition-all duration-200 hover:shadow-lg">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4 mb-4">
+                  <div className="w-12 h-12 bg-purple-100 dark:bg-purple-900/20 rounded-lg flex items-center justify-center">
+                    <Tag className="h-6 w-6 text-purple-600 dark:text-purple-400" />
+                  </div>
+                  <div className="flex-1">
+                    <h3 className="font-mono font-semibold text-gray-900 dark:text-white">{coupon.code}</h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{formatDiscount(coupon)}</p>
+                  </div>
+                  <Badge variant={coupon.isActive ? 'default' : 'outline'}>
+                    {coupon.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+
+                {coupon.description && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">{coupon.description}</p>
+                )}
+
+                <div className="space-y-2 mb-4">
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <Calendar className="h-4 w-4 mr-2" />
+                    <span>{formatValidity(coupon)}</span>
+                  </div>
+                  <CouponRedemptions couponId={coupon.id} />
+                  <p className="text-xs text-muted-foreground">
+                    {formatRestrictions(coupon)}
+                    {coupon.maxRedemptions !== null && ` · max ${coupon.maxRedemptions} uses`}
+                  </p>
+                </div>
+
+                {can('coupons:write') && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(coupon)}
+                      className="flex-1"
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(coupon)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {filteredCoupons.length === 0 && !isLoading && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <div className="text-gray-500 dark:text-gray-400">
+                {searchTerm ? 'No coupons found matching your search.' : 'No coupons found.'}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <CouponDialog
+          open={dialogOpen}
+          onClose={handleDialogClose}
+          coupon={editingCoupon}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,26 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MoreHorizontal, Plus, Edit, Trash2, CreditCard } from "lucide-react";
+import { MoreHorizontal, Plus, Edit, Trash2, CreditCard, History, ArrowUpDown } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import { CustomerPlanDialog } from "@/components/customer-plans/CustomerPlanDialog";
+import { CustomerPlanHistoryDialog } from "@/components/customer-plans/CustomerPlanHistoryDialog";
+import { ChangeCustomerPlanDialog } from "@/components/customer-plans/ChangeCustomerPlanDialog";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { TopBar } from "@/components/layout/TopBar";
 import { apiRequest } from "@/lib/queryClient";
 import type { CustomerPlanWithDetails } from "@shared/schema";
+import { formatMoney } from "@shared/money";
 import { format } from "date-fns";
 
 export default function CustomerPlans() {
   const [selectedPlan, setSelectedPlan] = useState<CustomerPlanWithDetails | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [historyPlan, setHistoryPlan] = useState<CustomerPlanWithDetails | null>(null);
+  const [changingPlan, setChangingPlan] = useState<CustomerPlanWithDetails | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -24,18 +29,24 @@ export default function CustomerPlans() {
     queryKey: ["/api/customer-plans"],
   });
 
+  // Open the plan linked from elsewhere (e.g. an accounting entry) via ?plan=<id>
+  useEffect(() => {
+    const planId = new URLSearchParams(window.location.search).get("plan");
+    const linkedPlan = planId && customerPlans.find(plan => plan.id === parseInt(planId));
+    if (linkedPlan) {
+      setSelectedPlan(linkedPlan);
+      setIsDialogOpen(true);
+    }
+  }, [customerPlans]);
+
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/customer-plans/${id}`, {
-        method: "DELETE",
-      });
-      if (!response.ok) {
-        throw new Error('Failed to delete customer plan');
-      }
-      return response.json();
+      await apiRequest(`/api/customer-plans/${id}`, "DELETE");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/customer-plans"] });
+      // Paying, refunding or deleting a plan books accounting entries
+      queryClient.invalidateQueries({ queryKey: ["/api/accounting"] });
       toast({
         title: "Success",
         description: "Customer plan deleted successfully",
@@ -60,6 +71,8 @@ export default function CustomerPlans() {
         return <Badge variant="destructive">Failed</Badge>;
       case 'expired':
         return <Badge variant="outline">Expired</Badge>;
+      case 'refunded':
+        return <Badge variant="outline" className="border-orange-500 text-orange-600">Refunded</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -73,6 +86,23 @@ export default function CustomerPlans() {
     );
   };
 
+  const getSubscriptionBadge = (status: string) => {
+    switch (status) {
+      case 'active':
+        return null;
+      case 'past_due':
+        return <Badge variant="outline" className="border-yellow-500 text-yellow-600">Past Due</Badge>;
+      case 'cancelled':
+        return <Badge variant="destructive">Cancelled</Badge>;
+      case 'expired':
+        return <Badge variant="outline">Renewed</Badge>;
+      case 'changed':
+        return <Badge variant="outline">Changed</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
   const handleEdit = (plan: CustomerPlanWithDetails) => {
     setSelectedPlan(plan);
     setIsDialogOpen(true);
@@ -150,6 +180,7 @@ export default function CustomerPlans() {
                       <CardTitle className="text-lg">{plan.priceTable.title}</CardTitle>
                       {getActiveBadge(plan.isActive ?? false)}
                       {getStatusBadge(plan.payStatus)}
+                      {getSubscriptionBadge(plan.subscriptionStatus)}
                     </div>
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -162,6 +193,16 @@ export default function CustomerPlans() {
                           <Edit className="h-4 w-4 mr-2" />
                           Edit
                         </DropdownMenuItem>
+                        {plan.payStatus === 'paid' && plan.subscriptionStatus === 'active' && (
+                          <DropdownMenuItem onClick={() => setChangingPlan(plan)}>
+                            <ArrowUpDown className="h-4 w-4 mr-2" />
+                            Change Plan
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => setHistoryPlan(plan)}>
+                          <History className="h-4 w-4 mr-2" />
+                          History
+                        </DropdownMenuItem>
                         <DropdownMenuItem 
                           onClick={() => handleDelete(plan)}
                           className="text-destructive"
@@ -184,10 +225,13 @@ export default function CustomerPlans() {
 
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Amount</p>
-                      <p className="text-sm font-semibold">${plan.amount}</p>
+                      <p className="text-sm font-semibold">{formatMoney(plan.amount, plan.priceTable.currency)}</p>
                       <p className="text-xs text-muted-foreground">
                         {plan.priceTable.months} months plan
                       </p>
+                      {plan.creditAmount && (
+                        <p className="text-xs text-muted-foreground">Credit: {formatMoney(plan.creditAmount, plan.priceTable.currency)}</p>
+                      )}
                     </div>
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Payment Date</p>
@@ -199,6 +243,12 @@ export default function CustomerPlans() {
                           Expires: {format(new Date(plan.planExpirationDate), 'MMM dd, yyyy')}
                         </p>
                       )}
+                      {plan.renewedFromPlanId && (
+                        <p className="text-xs text-muted-foreground">Renews plan #{plan.renewedFromPlanId}</p>
+                      )}
+                      {plan.changedFromPlanId && (
+                        <p className="text-xs text-muted-foreground">Replaces plan #{plan.changedFromPlanId}</p>
+                      )}
                     </div>
                   </div>
                   
@@ -220,9 +270,23 @@ export default function CustomerPlans() {
           onClose={() => {
             setIsDialogOpen(false);
             setSelectedPlan(null);
+            // Drop ?plan= so the linked plan does not reopen on the next refetch
+            window.history.replaceState(null, "", window.location.pathname);
           }}
           customerPlan={selectedPlan}
         />
+
+        <ChangeCustomerPlanDialog
+          open={!!changingPlan}
+          onClose={() => setChangingPlan(null)}
+          customerPlan={changingPlan}
+        />
+
+        <CustomerPlanHistoryDialog
+          open={!!historyPlan}
+          onClose={() => setHistoryPlan(null)}
+          customerPlan={historyPlan}
+        />
       </div>
     );
   };
@@ -21,9 +21,14 @@ export default function Landing() {
             </div>
             <span className="text-xl font-semibold text-gray-900 dark:text-white">DashBoard</span>
           </div>
-          <Button onClick={handleLogin} className="bg-blue-600 hover:bg-blue-700">
-            Sign In
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Button variant="ghost" onClick={() => { window.location.href = '/ticket-status'; }}>
+              Ticket Status
+            </Button>
+            <Button onClick={handleLogin} className="bg-blue-600 hover:bg-blue-700">
+              Sign In
+            </Button>
+          </div>
         </div>
       </header>
 
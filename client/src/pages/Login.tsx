@@ -2,26 +2,379 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Eye, EyeOff, BarChart3 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Eye, EyeOff, BarChart3, CheckCircle, Lock } from 'lucide-react';
+import { format } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
 import { apiRequest } from '@/lib/queryClient';
+import type { AuthSession } from '@/lib/types';
+import { MfaCodeInput, MfaEnrolment } from '@/components/mfa/MfaEnrolment';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(1, 'Password is required'),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
 type LoginFormData = z.infer<typeof loginSchema>;
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+interface PasswordTokenInfo {
+  email: string;
+  name: string;
+  purpose: 'invite' | 'reset';
+  expiresAt: string;
+}
+
+type LoginView = 'login' | 'forgot';
+
+// Password accepted, second step pending
+interface PendingMfa {
+  mfaToken: string;
+  setup: boolean; // The role requires two-factor and the user has not enrolled
+}
+
+// Sign-in refused before the password or code was checked
+interface LoginBlock {
+  locked: boolean; // The account is locked; otherwise the network made too many attempts
+  until: Date;
+}
+
+// The login endpoints answer 423 with the end of an account lockout and 429
+// when an IP address made too many attempts; apiRequest puts the status and
+// body in the message as "423: {json}"
+function getLoginBlock(error: Error | null): LoginBlock | undefined {
+  const match = error && /^(423|429): ([\s\S]*)$/.exec(error.message);
+  if (!match) return undefined;
+  try {
+    const body = JSON.parse(match[2]);
+    return { locked: match[1] === '423', until: new Date(match[1] === '423' ? body.lockedUntil : body.retryAt) };
+  } catch {
+    return undefined;
+  }
+}
+
+function LoginBlockNotice({ block }: { block: LoginBlock }) {
+  const until = format(block.until, 'HH:mm');
+  return (
+    <Alert variant="destructive">
+      <Lock className="h-4 w-4" />
+      <AlertTitle>{block.locked ? 'Account temporarily locked' : 'Too many attempts'}</AlertTitle>
+      <AlertDescription>
+        {block.locked
+          ? `Too many failed sign-in attempts. Try again after ${until}, reset your password, or ask an administrator to unlock your account.`
+          : `Too many sign-in attempts from your network. Try again after ${until}.`}
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+function AuthCard({ title, subtitle, children }: { title: string; subtitle: string; children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="w-12 h-12 bg-blue-500 rounded-lg flex items-center justify-center">
+              <BarChart3 className="h-6 w-6 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold">{title}</CardTitle>
+          <p className="text-gray-600 dark:text-gray-400">
+            {subtitle}
+          </p>
+        </CardHeader>
+
+        <CardContent>
+          {children}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ForgotPassword({ onBack }: { onBack: () => void }) {
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: '' },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormData) => {
+      return await apiRequest('/api/auth/forgot-password', 'POST', data);
+    },
+    onError: (error: any) => {
+      form.setError('root', {
+        message: error.message?.startsWith('429:')
+          ? 'Too many reset requests. Try again later.'
+          : error.message || 'Failed to send the reset link',
+      });
+    },
+  });
+
+  return (
+    <AuthCard title="Forgot Password" subtitle="We will email you a link to choose a new password">
+      {mutation.isSuccess ? (
+        <div className="space-y-4 text-center">
+          <CheckCircle className="h-10 w-10 text-green-500 mx-auto" />
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            If an account exists for {form.getValues('email')}, a reset link is on its way. It expires in an hour.
+          </p>
+          <Button variant="outline" className="w-full" onClick={onBack}>
+            Back to Sign In
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="Enter your email"
+              {...form.register('email')}
+              className={form.formState.errors.email ? 'border-red-500' : ''}
+            />
+            {form.formState.errors.email && (
+              <p className="text-sm text-red-500">{form.formState.errors.email.message}</p>
+            )}
+          </div>
+
+          {form.formState.errors.root && (
+            <Alert variant="destructive">
+              <AlertDescription>{form.formState.errors.root.message}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" className="w-full" disabled={mutation.isPending}>
+            {mutation.isPending ? 'Sending...' : 'Send Reset Link'}
+          </Button>
+          <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+            Back to Sign In
+          </Button>
+        </form>
+      )}
+    </AuthCard>
+  );
+}
+
+function MfaVerify({ mfaToken, onSignedIn, onBack }: { mfaToken: string; onSignedIn: (session: AuthSession) => void; onBack: () => void }) {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('/api/auth/mfa/verify', 'POST', useRecoveryCode ? { mfaToken, recoveryCode } : { mfaToken, code });
+    },
+    onSuccess: onSignedIn,
+    onError: () => setCode(''),
+  });
+  const block = getLoginBlock(mutation.error);
+
+  return (
+    <AuthCard
+      title="Two-Factor Authentication"
+      subtitle={useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the code from your authenticator app'}
+    >
+      <form
+        className="space-y-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          mutation.mutate();
+        }}
+      >
+        {useRecoveryCode ? (
+          <div className="space-y-2">
+            <Label htmlFor="recoveryCode">Recovery Code</Label>
+            <Input
+              id="recoveryCode"
+              placeholder="abcde-12345"
+              autoComplete="off"
+              value={recoveryCode}
+              onChange={(event) => setRecoveryCode(event.target.value)}
+            />
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <MfaCodeInput value={code} onChange={setCode} disabled={mutation.isPending} />
+          </div>
+        )}
+
+        {block ? (
+          <LoginBlockNotice block={block} />
+        ) : mutation.isError && (
+          <Alert variant="destructive">
+            <AlertDescription>{mutation.error.message || 'Invalid code'}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={mutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+        >
+          {mutation.isPending ? 'Verifying...' : 'Verify'}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="w-full"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            mutation.reset();
+          }}
+        >
+          {useRecoveryCode ? 'Use the authenticator app' : 'Lost your phone? Use a recovery code'}
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+          Back to Sign In
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
+
+// Landing screen of invite and password reset links
+function ResetPassword({ token, onDone }: { token: string; onDone: () => void }) {
+  const [showPassword, setShowPassword] = useState(false);
+
+  const { data: tokenInfo, isLoading, isError } = useQuery<PasswordTokenInfo>({
+    queryKey: [`/api/auth/password-tokens/${encodeURIComponent(token)}`],
+    retry: false,
+  });
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async ({ password }: ResetPasswordFormData) => {
+      return await apiRequest('/api/auth/reset-password', 'POST', { token, password });
+    },
+    onError: (error: any) => {
+      form.setError('root', {
+        message: error.message || 'Failed to set the password',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <AuthCard title="Set Password" subtitle="Checking your link...">
+        <div className="h-24 bg-muted rounded-lg animate-pulse" />
+      </AuthCard>
+    );
+  }
+
+  if (isError || !tokenInfo) {
+    return (
+      <AuthCard title="Link Expired" subtitle="This link is invalid, was already used or has expired">
+        <Button className="w-full" onClick={onDone}>
+          Back to Sign In
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  if (mutation.isSuccess) {
+    return (
+      <AuthCard title="Password Set" subtitle={`You can now sign in as ${tokenInfo.email}`}>
+        <Button className="w-full" onClick={onDone}>
+          Sign In
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  const isInvite = tokenInfo.purpose === 'invite';
+  return (
+    <AuthCard
+      title={isInvite ? `Welcome, ${tokenInfo.name}` : 'Reset Password'}
+      subtitle={isInvite ? `Choose a password for ${tokenInfo.email}` : `Choose a new password for ${tokenInfo.email}`}
+    >
+      <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="password">Password</Label>
+          <div className="relative">
+            <Input
+              id="password"
+              type={showPassword ? 'text' : 'password'}
+              placeholder="At least 8 characters"
+              {...form.register('password')}
+              className={form.formState.errors.password ? 'border-red-500 pr-10' : 'pr-10'}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+              onClick={() => setShowPassword(!showPassword)}
+            >
+              {showPassword ? (
+                <EyeOff className="h-4 w-4 text-gray-400" />
+              ) : (
+                <Eye className="h-4 w-4 text-gray-400" />
+              )}
+            </Button>
+          </div>
+          {form.formState.errors.password && (
+            <p className="text-sm text-red-500">{form.formState.errors.password.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="confirmPassword">Confirm Password</Label>
+          <Input
+            id="confirmPassword"
+            type={showPassword ? 'text' : 'password'}
+            placeholder="Repeat the password"
+            {...form.register('confirmPassword')}
+            className={form.formState.errors.confirmPassword ? 'border-red-500' : ''}
+          />
+          {form.formState.errors.confirmPassword && (
+            <p className="text-sm text-red-500">{form.formState.errors.confirmPassword.message}</p>
+          )}
+        </div>
+
+        {form.formState.errors.root && (
+          <Alert variant="destructive">
+            <AlertDescription>{form.formState.errors.root.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button type="submit" className="w-full" disabled={mutation.isPending}>
+          {mutation.isPending ? 'Saving...' : (isInvite ? 'Set Password' : 'Reset Password')}
+        </Button>
+      </form>
+    </AuthCard>
+  );
+}
 
 export default function Login() {
   const [showPassword, setShowPassword] = useState(false);
+  const [view, setView] = useState<LoginView>('login');
+  const [pendingMfa, setPendingMfa] = useState<PendingMfa | null>(null);
+  const [resetToken, setResetToken] = useState(() => new URLSearchParams(window.location.search).get('token'));
   const [, setLocation] = useLocation();
   const { login } = useAuth();
 
@@ -38,37 +391,74 @@ export default function Login() {
       const response = await apiRequest('/api/auth/login', 'POST', data);
       return response;
     },
-    onSuccess: (userData) => {
-      login(userData);
-      setLocation('/');
+    onSuccess: (response) => {
+      if (response.mfaRequired || response.mfaSetupRequired) {
+        setPendingMfa({ mfaToken: response.mfaToken, setup: !!response.mfaSetupRequired });
+        return;
+      }
+      finishLogin(response);
     },
     onError: (error: any) => {
+      // A lockout gets its own notice
+      if (getLoginBlock(error)) {
+        form.clearErrors('root');
+        return;
+      }
       form.setError('root', {
         message: error.message || 'Invalid email or password',
       });
     },
   });
 
+  const loginBlock = getLoginBlock(loginMutation.error);
+
+  const finishLogin = (session: AuthSession) => {
+    login(session);
+    setLocation('/');
+  };
+
   const onSubmit = (data: LoginFormData) => {
     loginMutation.mutate(data);
   };
 
+  const cancelMfa = () => {
+    setPendingMfa(null);
+    form.reset({ email: form.getValues('email'), password: '' });
+  };
+
+  if (resetToken) {
+    return (
+      <ResetPassword
+        token={resetToken}
+        onDone={() => {
+          setResetToken(null);
+          setLocation('/login');
+        }}
+      />
+    );
+  }
+
+  if (pendingMfa?.setup) {
+    return (
+      <AuthCard title="Set Up Two-Factor" subtitle="Your role requires two-factor authentication before you can sign in">
+        <MfaEnrolment mfaToken={pendingMfa.mfaToken} onComplete={finishLogin} />
+        <Button variant="ghost" className="w-full mt-2" onClick={cancelMfa}>
+          Back to Sign In
+        </Button>
+      </AuthCard>
+    );
+  }
+
+  if (pendingMfa) {
+    return <MfaVerify mfaToken={pendingMfa.mfaToken} onSignedIn={finishLogin} onBack={cancelMfa} />;
+  }
+
+  if (view === 'forgot') {
+    return <ForgotPassword onBack={() => setView('login')} />;
+  }
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-6">
-      <Card className="w-full max-w-md">
-        <CardHeader className="text-center space-y-4">
-          <div className="flex justify-center">
-            <div className="w-12 h-12 bg-blue-500 rounded-lg flex items-center justify-center">
-              <BarChart3 className="h-6 w-6 text-white" />
-            </div>
-          </div>
-          <CardTitle className="text-2xl font-bold">Sign In</CardTitle>
-          <p className="text-gray-600 dark:text-gray-400">
-            Enter your credentials to access your dashboard
-          </p>
-        </CardHeader>
-        
-        <CardContent>
+    <AuthCard title="Sign In" subtitle="Enter your credentials to access your dashboard">
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
@@ -85,7 +475,17 @@ export default function Login() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="h-auto p-0 text-sm"
+                  onClick={() => setView('forgot')}
+                >
+                  Forgot password?
+                </Button>
+              </div>
               <div className="relative">
                 <Input
                   id="password"
@@ -113,6 +513,8 @@ export default function Login() {
               )}
             </div>
 
+            {loginBlock && <LoginBlockNotice block={loginBlock} />}
+
             {form.formState.errors.root && (
               <Alert variant="destructive">
                 <AlertDescription>{form.formState.errors.root.message}</AlertDescription>
@@ -136,8 +538,6 @@ export default function Login() {
               Email: admin@example.com | Password: admin123
             </p>
           </div>
-        </CardContent>
-      </Card>
-    </div>
+    </AuthCard>
   );
 }
\ No newline at end of file
@@ -9,7 +9,8 @@ import { Copy, RefreshCw, Key, Mail, Lock, Hash } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { TopBar } from '@/components/layout/TopBar';
 import { Sidebar } from '@/components/layout/Sidebar';
-import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { authFetch } from '@/lib/queryClient';
 
 export default function MockDataGenerator() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -21,9 +22,9 @@ export default function MockDataGenerator() {
     bcryptHash: ''
   });
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { can } = usePermissions();
 
-  if (!user || user.role !== 'super-admin') {
+  if (!can('utilities:hash')) {
     return <div>Access denied. Super admin privileges required.</div>;
   }
 
@@ -62,7 +63,7 @@ export default function MockDataGenerator() {
 
   const generateBcryptHash = async (plainPassword: string) => {
     try {
-      const response = await fetch('/api/utils/bcrypt', {
+      const response = await authFetch('/api/utils/bcrypt', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ password: plainPassword })
@@ -75,7 +76,8 @@ export default function MockDataGenerator() {
       const data = await response.json();
       return data.hash;
     } catch (error) {
-      // Fallback to client-side simulation (not real bcrypt)
+      // Fallback to client-side simulation (not real bcrypt); the server only
+      // hashes for users allowed to
       const saltRounds = 10;
       const salt = '$2b$' + saltRounds.toString().padStart(2, '0') + '$';
       const randomHash = Array.from({length: 53}, () => 
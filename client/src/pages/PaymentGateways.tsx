@@ -6,7 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { Plus, Edit, Trash2, Search, CreditCard, Shield, CheckCircle, XCircle, Mail } from 'lucide-react';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Plus, Edit, Trash2, Search, CreditCard, Shield, CheckCircle, XCircle, Mail, Eye, EyeOff, KeyRound, Webhook } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { PaymentGatewayDialog } from '@/components/payment-gateways/PaymentGatewayDialog';
 import { Sidebar } from '@/components/layout/Sidebar';
@@ -19,6 +20,11 @@ const gatewayTypeLabels = {
   'pagseguro': 'PagSeguro'
 };
 
+interface GatewayCredentials {
+  publicKey: string;
+  token: string;
+}
+
 const gatewayTypeColors = {
   'asaas': 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300',
   'mercado_pago': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300',
@@ -30,23 +36,16 @@ export default function PaymentGateways() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingGateway, setEditingGateway] = useState<PaymentGateway | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [revealed, setRevealed] = useState<Record<number, GatewayCredentials>>({});
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
 
   if (!user) return null;
 
   const { data: gateways = [], isLoading } = useQuery<PaymentGateway[]>({
-    queryKey: ['/api/payment-gateways', user.role, user.id],
-    queryFn: async () => {
-      const params = new URLSearchParams({
-        role: user.role,
-        ...(user.role !== 'super-admin' && { entrepreneurId: user.id.toString() })
-      });
-      const response = await fetch(`/api/payment-gateways?${params}`);
-      if (!response.ok) throw new Error('Failed to fetch payment gateways');
-      return response.json();
-    },
+    queryKey: ['/api/payment-gateways'],
   });
 
   const deleteGatewayMutation = useMutation({
@@ -69,6 +68,31 @@ export default function PaymentGateways() {
     },
   });
 
+  // Revealing is audited server-side, so credentials are only fetched on demand
+  const revealMutation = useMutation({
+    mutationFn: async (id: number): Promise<GatewayCredentials> => {
+      return await apiRequest(`/api/payment-gateways/${id}/reveal`, 'POST');
+    },
+    onSuccess: (credentials, id) => {
+      setRevealed((current) => ({ ...current, [id]: credentials }));
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to reveal payment gateway credentials',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleToggleReveal = (gateway: PaymentGateway) => {
+    if (revealed[gateway.id]) {
+      setRevealed(({ [gateway.id]: _, ...rest }) => rest);
+    } else {
+      revealMutation.mutate(gateway.id);
+    }
+  };
+
   const filteredGateways = gateways.filter((gateway) =>
     gateway.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     gateway.type.toLowerCase().includes(searchTerm.toLowerCase())
@@ -121,10 +145,12 @@ export default function PaymentGateways() {
         {/* Header */}
         <div className="flex justify-between items-center">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Payment Gateways</h1>
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Gateway
-          </Button>
+          {can('gateways:write') && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Gateway
+            </Button>
+          )}
         </div>
 
         {/* Search */}
@@ -206,7 +232,28 @@ export default function PaymentGateways() {
                 <div className="space-y-2 mb-4">
                   <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
                     <Shield className="h-4 w-4 mr-2" />
-                    <span className="truncate">Public Key: {gateway.publicKey.slice(0, 20)}...</span>
+                    <span className="truncate">Public Key: {revealed[gateway.id]?.publicKey ?? gateway.publicKey}</span>
+                  </div>
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    <span className="truncate flex-1">Token: {revealed[gateway.id]?.token ?? gateway.token}</span>
+                    {can('gateways:reveal') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleReveal(gateway)}
+                        disabled={revealMutation.isPending}
+                        title={revealed[gateway.id] ? 'Hide credentials' : 'Reveal credentials'}
+                      >
+                        {revealed[gateway.id] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <Webhook className="h-4 w-4 mr-2" />
+                    <span className="truncate" title="Register this URL as the webhook at the provider">
+                      {`${window.location.origin}/api/webhooks/payments/${gateway.id}`}
+                    </span>
                   </div>
                   {gateway.email && (
                     <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
@@ -216,25 +263,27 @@ export default function PaymentGateways() {
                   )}
                 </div>
 
-                <div className="flex space-x-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleEdit(gateway)}
-                    className="flex-1"
-                  >
-                    <Edit className="h-4 w-4 mr-2" />
-                    Edit
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleDelete(gateway)}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
+                {can('gateways:write') && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(gateway)}
+                      className="flex-1"
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(gateway)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
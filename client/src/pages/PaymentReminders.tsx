@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Plus, Edit, Trash2, Bell, Clock } from 'lucide-react';
+import { PaymentReminderRuleDialog } from '@/components/payment-reminders/PaymentReminderRuleDialog';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+import type { PaymentReminderRule, PaymentReminderWithDetails } from '@shared/schema';
+import { format } from 'date-fns';
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  sent: 'default',
+  skipped: 'secondary',
+  failed: 'destructive',
+};
+
+function describeSchedule(rule: PaymentReminderRule): string {
+  const offset = rule.offsetHours % 24 === 0 && rule.offsetHours > 0
+    ? `${rule.offsetHours / 24} day${rule.offsetHours === 24 ? '' : 's'}`
+    : `${rule.offsetHours} hour${rule.offsetHours === 1 ? '' : 's'}`;
+  return rule.trigger === 'after_creation'
+    ? `${offset} after the plan is created`
+    : `${offset} before the pay link expires`;
+}
+
+export default function PaymentReminders() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const queryClient = useQueryClient();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<PaymentReminderRule | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<PaymentReminderRule[]>({
+    queryKey: ['/api/payment-reminder-rules'],
+  });
+
+  const { data: reminders = [] } = useQuery<PaymentReminderWithDetails[]>({
+    queryKey: ['/api/payment-reminders'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/payment-reminder-rules/${id}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payment-reminder-rules'] });
+      toast({
+        title: 'Success',
+        description: 'Reminder rule deleted successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete reminder rule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const filteredReminders = reminders.filter((reminder) => statusFilter === 'all' || reminder.status === statusFilter);
+
+  const handleDialogClose = () => {
+    setDialogOpen(false);
+    setEditingRule(null);
+  };
+
+  const handleEdit = (rule: PaymentReminderRule) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (rule: PaymentReminderRule) => {
+    if (window.confirm(`Are you sure you want to delete the rule "${rule.name}"?`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Payment Reminders</h1>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="space-y-2">
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Payment Reminders</h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Send the pay link of pending plans over WhatsApp. Customers can reply STOP to opt out.
+            </p>
+          </div>
+          {can('reminders:write') && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          )}
+        </div>
+
+        {/* Rules Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {rules.map((rule) => (
+            <Card key={rule.id} className="transition-all duration-200 hover:shadow-lg">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4 mb-4">
+                  <div className="w-12 h-12 bg-green-100 dark:bg-green-900/20 rounded-lg flex items-center justify-center">
+                    <Bell className="h-6 w-6 text-green-600 dark:text-green-400" />
+                  </div>
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{rule.name}</h3>
+                  </div>
+                  <Badge variant={rule.isActive ? 'default' : 'outline'}>
+                    {rule.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+
+                <div className="space-y-2 mb-4">
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <Clock className="h-4 w-4 mr-2" />
+                    <span>{describeSchedule(rule)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground line-clamp-3 whitespace-pre-wrap">{rule.messageTemplate}</p>
+                </div>
+
+                {can('reminders:write') && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(rule)}
+                      className="flex-1"
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(rule)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {rules.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <div className="text-gray-500 dark:text-gray-400">
+                No reminder rules yet. Add one to start reminding customers with pending payments.
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Reminder Log */}
+        <div className="flex justify-between items-center pt-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Sent Reminders</h2>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="sent">Sent</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="skipped">Skipped</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {filteredReminders.length === 0 ? (
+              <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+                {reminders.length > 0 ? 'No reminders match the filter.' : 'No reminders sent yet.'}
+              </div>
+            ) : (
+              <div className="divide-y">
+                {filteredReminders.map((reminder) => (
+                  <div key={reminder.id} className="flex items-start gap-4 p-4">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-medium text-gray-900 dark:text-white">{reminder.customer.name}</span>
+                        {reminder.customer.phone && (
+                          <span className="text-muted-foreground">+{reminder.customer.phone}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        {reminder.rule?.name ?? 'Deleted rule'} · plan #{reminder.customerPlanId}
+                      </p>
+                      {reminder.reason && (
+                        <p className={`text-xs ${reminder.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>{reminder.reason}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge variant={STATUS_VARIANTS[reminder.status] ?? 'outline'}>{reminder.status}</Badge>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {reminder.createdAt ? format(new Date(reminder.createdAt), 'MMM dd, yyyy HH:mm') : ''}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <PaymentReminderRuleDialog
+          open={dialogOpen}
+          onClose={handleDialogClose}
+          rule={editingRule}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
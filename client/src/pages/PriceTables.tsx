@@ -8,7 +8,9 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { useToast } from "@/hooks/use-toast";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { TopBar } from "@/components/layout/TopBar";
+import { apiRequest } from "@/lib/queryClient";
 import type { PriceTable } from "@shared/schema";
+import { formatMoney, installmentAmount } from "@shared/money";
 
 export default function PriceTables() {
   const [selectedTable, setSelectedTable] = useState<PriceTable | null>(null);
@@ -23,13 +25,7 @@ export default function PriceTables() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
-      const response = await fetch(`/api/price-tables/${id}`, {
-        method: "DELETE",
-      });
-      if (!response.ok) {
-        throw new Error('Failed to delete price table');
-      }
-      return response.json();
+      await apiRequest(`/api/price-tables/${id}`, "DELETE");
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/price-tables"] });
@@ -151,11 +147,21 @@ export default function PriceTables() {
                   <div className="space-y-3">
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-muted-foreground">3x Payment</span>
-                      <span className="font-semibold">${table.currentPrice3x}</span>
+                      <span className="font-semibold">
+                        {formatMoney(table.currentPrice3x, table.currency)}
+                        <span className="text-xs font-normal text-muted-foreground ml-1">
+                          (3x {formatMoney(installmentAmount(table.currentPrice3x, "3x"), table.currency)})
+                        </span>
+                      </span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-muted-foreground">12x Payment</span>
-                      <span className="font-semibold">${table.currentPrice12x}</span>
+                      <span className="font-semibold">
+                        {formatMoney(table.currentPrice12x, table.currency)}
+                        <span className="text-xs font-normal text-muted-foreground ml-1">
+                          (12x {formatMoney(installmentAmount(table.currentPrice12x, "12x"), table.currency)})
+                        </span>
+                      </span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span className="text-sm text-muted-foreground">Duration</span>
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Bell, ShieldCheck } from 'lucide-react';
+import { SessionList } from '@/components/sessions/SessionList';
+import { MfaSettingsDialog } from '@/components/mfa/MfaSettingsDialog';
+import { NotificationPreferencesDialog } from '@/components/notifications/NotificationPreferencesDialog';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+
+const roleLabels = {
+  'super-admin': 'Super Admin',
+  'entrepreneur': 'Entrepreneur',
+  'collaborator': 'Collaborator',
+  'customer': 'Customer'
+};
+
+export default function Profile() {
+  const { user } = useAuth();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [mfaOpen, setMfaOpen] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  if (!user) return null;
+
+  const getUserInitials = (name: string) => {
+    return name
+      .split(' ')
+      .map(n => n[0])
+      .join('')
+      .toUpperCase();
+  };
+
+  const renderContent = () => (
+    <div className="space-y-6 max-w-3xl">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Profile</h1>
+
+      {/* Account */}
+      <Card>
+        <CardContent className="p-6 flex items-center space-x-4">
+          <Avatar className="h-12 w-12">
+            <AvatarFallback className="bg-blue-500 text-white">
+              {getUserInitials(user.name)}
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-white">{user.name}</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{user.email}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-500">{roleLabels[user.role]}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Security */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Security</CardTitle>
+          <CardDescription>Two-factor authentication and the emails you receive.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setMfaOpen(true)}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Two-Factor Authentication
+          </Button>
+          <Button variant="outline" onClick={() => setPreferencesOpen(true)}>
+            <Bell className="h-4 w-4 mr-2" />
+            Email Notifications
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Sessions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>Devices where you are signed in. Sign out any you do not recognise.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SessionList />
+        </CardContent>
+      </Card>
+
+      <MfaSettingsDialog
+        open={mfaOpen}
+        onClose={() => setMfaOpen(false)}
+      />
+      <NotificationPreferencesDialog
+        open={preferencesOpen}
+        onClose={() => setPreferencesOpen(false)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
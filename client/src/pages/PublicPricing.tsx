@@ -1,17 +1,46 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Check, ExternalLink, Star, Zap, Shield } from "lucide-react";
+import { Check, ExternalLink, Star, Zap, Shield, Tag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { TopBar } from "@/components/layout/TopBar";
+import { authFetch } from "@/lib/queryClient";
 import type { PriceTable } from "@shared/schema";
+import { formatMoney, fromCents, installmentAmount, toCents } from "@shared/money";
+
+interface CouponQuote {
+  code: string;
+  originalAmount: string;
+  discountAmount: string;
+  amount: string;
+}
+
+// Coupon result per price table: the discounted price, or why the code does not apply
+type CouponResults = Record<number, CouponQuote | { error: string }>;
+
+async function quoteCouponForTables(code: string, planType: string, priceTables: PriceTable[]): Promise<CouponResults> {
+  const results: CouponResults = {};
+  await Promise.all(priceTables.map(async (priceTable) => {
+    const response = await authFetch("/api/coupons/validate", {
+      method: "POST",
+      body: JSON.stringify({ code, priceTableId: priceTable.id, planType }),
+      headers: { "Content-Type": "application/json" },
+    });
+    const body = await response.json().catch(() => null);
+    results[priceTable.id] = response.ok ? body : { error: body?.message || "Invalid coupon" };
+  }));
+  return results;
+}
 
 export default function PublicPricing() {
   const [is12MonthPlan, setIs12MonthPlan] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [couponInput, setCouponInput] = useState("");
+  const [couponCode, setCouponCode] = useState("");
   
   const { data: priceTables = [], isLoading } = useQuery<PriceTable[]>({
     queryKey: ["/api/price-tables"],
@@ -21,6 +50,13 @@ export default function PublicPricing() {
     .filter((table: PriceTable) => table.isActive)
     .sort((a, b) => (a.displayOrder || 0) - (b.displayOrder || 0));
 
+  const planType = is12MonthPlan ? "12x" : "3x";
+  const { data: couponResults, isFetching: isCheckingCoupon } = useQuery<CouponResults>({
+    queryKey: ["/api/coupons/validate", couponCode, planType],
+    queryFn: () => quoteCouponForTables(couponCode, planType, activePriceTables),
+    enabled: !!couponCode && activePriceTables.length > 0,
+  });
+
   const renderContent = () => {
     if (isLoading) {
       return (
@@ -82,6 +118,38 @@ export default function PublicPricing() {
               </Badge>
             )}
           </div>
+
+          {/* Coupon Code */}
+          <form
+            className="flex items-center justify-center gap-2 max-w-md mx-auto"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setCouponCode(couponInput.trim().toUpperCase());
+            }}
+          >
+            <Tag className="h-4 w-4 text-gray-500" />
+            <Input
+              value={couponInput}
+              onChange={(e) => setCouponInput(e.target.value)}
+              placeholder="Coupon code"
+              className="uppercase"
+            />
+            <Button type="submit" variant="outline" disabled={!couponInput.trim() || isCheckingCoupon}>
+              Apply
+            </Button>
+            {couponCode && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setCouponInput("");
+                  setCouponCode("");
+                }}
+              >
+                Clear
+              </Button>
+            )}
+          </form>
         </div>
 
         {/* Pricing Plans Grid */}
@@ -157,25 +225,53 @@ export default function PublicPricing() {
                       {(() => {
                         const currentPrice = is12MonthPlan ? priceTable.currentPrice12x : priceTable.currentPrice3x;
                         const oldPrice = is12MonthPlan ? priceTable.oldPrice12x : priceTable.oldPrice3x;
-                        const hasDiscount = oldPrice && parseFloat(oldPrice) > parseFloat(currentPrice);
+                        const savings = oldPrice ? toCents(oldPrice) - toCents(currentPrice) : 0;
+                        const couponResult = couponCode ? couponResults?.[priceTable.id] : undefined;
                         
+                        if (couponResult && 'amount' in couponResult) {
+                          return (
+                            <>
+                              <div className="flex items-center justify-center gap-2">
+                                <span className="text-xl text-gray-500 line-through">
+                                  {formatMoney(couponResult.originalAmount, priceTable.currency)}
+                                </span>
+                                <span className={`text-4xl font-bold ${isPopular ? 'text-blue-600' : 'text-gray-900 dark:text-white'}`}>
+                                  {formatMoney(couponResult.amount, priceTable.currency)}
+                                </span>
+                              </div>
+                              <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {planType} of {formatMoney(installmentAmount(couponResult.amount, planType), priceTable.currency)}
+                              </p>
+                              <Badge variant="secondary" className="text-xs">
+                                {couponResult.code}: save {formatMoney(couponResult.discountAmount, priceTable.currency)}
+                              </Badge>
+                            </>
+                          );
+                        }
+
                         return (
                           <>
                             <div className="flex items-center justify-center gap-2">
-                              {hasDiscount && (
+                              {savings > 0 && (
                                 <span className="text-xl text-gray-500 line-through">
-                                  ${oldPrice}
+                                  {formatMoney(oldPrice, priceTable.currency)}
                                 </span>
                               )}
                               <span className={`text-4xl font-bold ${isPopular ? 'text-blue-600' : 'text-gray-900 dark:text-white'}`}>
-                                ${currentPrice}
+                                {formatMoney(currentPrice, priceTable.currency)}
                               </span>
                             </div>
-                            {hasDiscount && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              {planType} of {formatMoney(installmentAmount(currentPrice, planType), priceTable.currency)}
+                            </p>
+                            {savings > 0 && (
                               <Badge variant="destructive" className="text-xs">
-                                Save ${(parseFloat(oldPrice!) - parseFloat(currentPrice)).toFixed(2)}
+                                Save {formatMoney(fromCents(savings), priceTable.currency)}
                               </Badge>
                             )}
+                            {couponResult && 'error' in couponResult && (
+                              <p className="text-xs text-muted-foreground">{couponResult.error}</p>
+                            )}
                           </>
                         );
                       })()}
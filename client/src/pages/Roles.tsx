@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { Plus, Edit, Trash2, Shield, Users } from 'lucide-react';
+import { CustomRoleDialog } from '@/components/roles/CustomRoleDialog';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+import type { CustomRole, User } from '@shared/schema';
+
+// Select items cannot have an empty value
+const NO_ROLE = 'none';
+
+export default function Roles() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<CustomRole | null>(null);
+
+  const { data: roles = [], isLoading } = useQuery<CustomRole[]>({
+    queryKey: ['/api/custom-roles'],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const collaborators = users.filter((user) => user.role === 'collaborator');
+  const isSuperAdmin = currentUser?.role === 'super-admin';
+  const entrepreneurs = users.filter((user) => user.role === 'entrepreneur');
+  const entrepreneurName = (id: number) => users.find((user) => user.id === id)?.name ?? `User #${id}`;
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/custom-roles/${id}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-roles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: 'Success',
+        description: 'Role deleted successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete role',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ userId, customRoleId }: { userId: number; customRoleId: number | null }) => {
+      return await apiRequest(`/api/users/${userId}`, 'PUT', { customRoleId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: 'Success',
+        description: 'Role assigned successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to assign role',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleDialogClose = () => {
+    setDialogOpen(false);
+    setEditingRole(null);
+  };
+
+  const handleEdit = (role: CustomRole) => {
+    setEditingRole(role);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (role: CustomRole) => {
+    if (window.confirm(`Are you sure you want to delete the role "${role.name}"? Its collaborators keep only the default permissions.`)) {
+      deleteMutation.mutate(role.id);
+    }
+  };
+
+  const handleAssign = (user: User, value: string) => {
+    assignMutation.mutate({
+      userId: user.id,
+      customRoleId: value === NO_ROLE ? null : parseInt(value),
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Roles & Permissions</h1>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="space-y-2">
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Roles & Permissions</h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Give collaborators more than the default access with a custom role.
+            </p>
+          </div>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Role
+          </Button>
+        </div>
+
+        {/* Roles Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {roles.map((role) => {
+            const members = collaborators.filter((user) => user.customRoleId === role.id);
+            return (
+              <Card key={role.id} className="transition-all duration-200 hover:shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center space-x-4 mb-4">
+                    <div className="w-12 h-12 bg-blue-100 dark:bg-blue-900/20 rounded-lg flex items-center justify-center">
+                      <Shield className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                    </div>
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 dark:text-white">{role.name}</h3>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {isSuperAdmin ? entrepreneurName(role.entrepreneurId) : role.description}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 mb-4">
+                    <div className="flex flex-wrap gap-1">
+                      {role.permissions.map((permission) => (
+                        <Badge key={permission} variant="outline" className="font-mono text-xs">
+                          {permission}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                      <Users className="h-4 w-4 mr-2" />
+                      <span>
+                        {members.length > 0 ? members.map((user) => user.name).join(', ') : 'No collaborators yet'}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(role)}
+                      className="flex-1"
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(role)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {roles.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <div className="text-gray-500 dark:text-gray-400">
+                No custom roles yet. Collaborators only have the default access.
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Collaborators */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Collaborators</CardTitle>
+            <CardDescription>The custom role of each collaborator. Changes apply on their next request.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {collaborators.map((user) => (
+              <div key={user.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{user.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">{user.email}</div>
+                </div>
+                <Select
+                  value={user.customRoleId?.toString() ?? NO_ROLE}
+                  onValueChange={(value) => handleAssign(user, value)}
+                  disabled={assignMutation.isPending}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ROLE}>Default access</SelectItem>
+                    {roles
+                      .filter((role) => role.entrepreneurId === user.entrepreneurId)
+                      .map((role) => (
+                        <SelectItem key={role.id} value={role.id.toString()}>{role.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            {collaborators.length === 0 && (
+              <p className="text-sm text-muted-foreground">No collaborators yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <CustomRoleDialog
+          open={dialogOpen}
+          onClose={handleDialogClose}
+          role={editingRole}
+          entrepreneurs={isSuperAdmin ? entrepreneurs : undefined}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { TopBar } from "@/components/layout/TopBar";
+import { Link } from "wouter";
 import { 
   Phone, 
   MapPin, 
@@ -56,6 +57,8 @@ const enterpriseInfo = {
 export default function Support() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [estimatedResponse, setEstimatedResponse] = useState("24 hours");
+  const [submittedTicketId, setSubmittedTicketId] = useState("");
   const { toast } = useToast();
 
   const form = useForm<SupportFormData>({
@@ -79,17 +82,22 @@ export default function Support() {
         body: JSON.stringify(data),
         headers: { "Content-Type": "application/json" },
       });
+      if (response.status === 429) {
+        throw new Error('Too many support tickets. Please try again later.');
+      }
       if (!response.ok) {
         throw new Error('Failed to submit support ticket');
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { ticketId: string; estimatedResponse: string }) => {
+      setEstimatedResponse(result.estimatedResponse);
+      setSubmittedTicketId(result.ticketId);
       setIsSubmitted(true);
       form.reset();
       toast({
         title: "Support Ticket Submitted",
-        description: "We've received your request and will respond within 24 hours.",
+        description: `We've received your request and will respond within ${result.estimatedResponse}.`,
       });
     },
     onError: (error: Error) => {
@@ -234,7 +242,14 @@ export default function Support() {
                         <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
                         <h3 className="text-xl font-semibold mb-2">Ticket Submitted Successfully!</h3>
                         <p className="text-muted-foreground mb-4">
-                          We've received your support request and will respond within 24 hours.
+                          We've received your support request and will respond within {estimatedResponse}.
+                        </p>
+                        <p className="text-sm text-muted-foreground mb-4">
+                          Your ticket ID is <span className="font-mono font-medium text-foreground">{submittedTicketId}</span>.
+                          Keep it to{" "}
+                          <Link href={`/ticket-status?ticketId=${encodeURIComponent(submittedTicketId)}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            follow up on your ticket
+                          </Link>.
                         </p>
                         <Button onClick={() => setIsSubmitted(false)}>
                           Submit Another Ticket
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Edit, Trash2, Shuffle, Filter, Users } from 'lucide-react';
+import { SupportRoutingRuleDialog } from '@/components/support-tickets/SupportRoutingRuleDialog';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+import { SUPPORT_AGENT_ROLES, type SupportRoutingRule, type User } from '@shared/schema';
+
+const STRATEGY_LABELS: Record<string, string> = {
+  round_robin: 'Round robin',
+  least_open: 'Fewest open tickets',
+};
+
+function describeConditions(rule: SupportRoutingRule): string {
+  const conditions = [
+    rule.category && `category is ${rule.category}`,
+    rule.priority && `priority is ${rule.priority}`,
+    rule.keyword && `subject contains "${rule.keyword}"`,
+  ].filter(Boolean);
+  return conditions.length > 0 ? `When ${conditions.join(' and ')}` : 'Every ticket';
+}
+
+export default function SupportRouting() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<SupportRoutingRule | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<SupportRoutingRule[]>({
+    queryKey: ['/api/support-routing-rules'],
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const agents = users.filter((user) => user.isActive && SUPPORT_AGENT_ROLES.includes(user.role));
+  const agentName = (id: number) => users.find((user) => user.id === id)?.name ?? `User #${id}`;
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/support-routing-rules/${id}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/support-routing-rules'] });
+      toast({
+        title: 'Success',
+        description: 'Routing rule deleted successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete routing rule',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleDialogClose = () => {
+    setDialogOpen(false);
+    setEditingRule(null);
+  };
+
+  const handleEdit = (rule: SupportRoutingRule) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (rule: SupportRoutingRule) => {
+    if (window.confirm(`Are you sure you want to delete the rule "${rule.name}"?`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Support Routing</h1>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="space-y-2">
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Support Routing</h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              New tickets go to the agents of the first matching rule, from the lowest position up.
+            </p>
+          </div>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+
+        {/* Rules Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {rules.map((rule) => (
+            <Card key={rule.id} className="transition-all duration-200 hover:shadow-lg">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4 mb-4">
+                  <div className="w-12 h-12 bg-blue-100 dark:bg-blue-900/20 rounded-lg flex items-center justify-center">
+                    <Shuffle className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{rule.name}</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      #{rule.position} · {STRATEGY_LABELS[rule.strategy] ?? rule.strategy}
+                    </p>
+                  </div>
+                  <Badge variant={rule.isActive ? 'default' : 'outline'}>
+                    {rule.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+
+                <div className="space-y-2 mb-4">
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <Filter className="h-4 w-4 mr-2" />
+                    <span>{describeConditions(rule)}</span>
+                  </div>
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <Users className="h-4 w-4 mr-2" />
+                    <span>{rule.agentIds.map(agentName).join(', ')}</span>
+                  </div>
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleEdit(rule)}
+                    className="flex-1"
+                  >
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(rule)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {rules.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <div className="text-gray-500 dark:text-gray-400">
+                No routing rules yet. New tickets stay unassigned until an agent picks them up.
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <SupportRoutingRuleDialog
+          open={dialogOpen}
+          onClose={handleDialogClose}
+          rule={editingRule}
+          agents={agents}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
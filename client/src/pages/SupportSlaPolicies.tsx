@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Edit, Trash2, Timer, MessageSquare, CheckCircle } from 'lucide-react';
+import { SupportSlaPolicyDialog } from '@/components/support-tickets/SupportSlaPolicyDialog';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+import { SUPPORT_TICKET_PRIORITIES, type SupportSlaPolicy } from '@shared/schema';
+import { formatSlaDuration } from '@shared/sla';
+
+// Most urgent first, catch-all policies after the category ones
+const sortPolicies = (policies: SupportSlaPolicy[]) => [...policies].sort((a, b) =>
+  SUPPORT_TICKET_PRIORITIES.indexOf(b.priority as typeof SUPPORT_TICKET_PRIORITIES[number]) -
+  SUPPORT_TICKET_PRIORITIES.indexOf(a.priority as typeof SUPPORT_TICKET_PRIORITIES[number]) ||
+  Number(a.category === null) - Number(b.category === null));
+
+export default function SupportSlaPolicies() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SupportSlaPolicy | null>(null);
+
+  const { data: policies = [], isLoading } = useQuery<SupportSlaPolicy[]>({
+    queryKey: ['/api/support-sla-policies'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/support-sla-policies/${id}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/support-sla-policies'] });
+      toast({
+        title: 'Success',
+        description: 'SLA policy deleted successfully',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete SLA policy',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleDialogClose = () => {
+    setDialogOpen(false);
+    setEditingPolicy(null);
+  };
+
+  const handleEdit = (policy: SupportSlaPolicy) => {
+    setEditingPolicy(policy);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (policy: SupportSlaPolicy) => {
+    if (window.confirm(`Are you sure you want to delete the policy "${policy.name}"?`)) {
+      deleteMutation.mutate(policy.id);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Support SLAs</h1>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="p-6">
+                  <div className="space-y-2">
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Support SLAs</h1>
+            <p className="text-gray-600 dark:text-gray-300">
+              Response and resolution targets by ticket priority. A category policy takes precedence over the priority's catch-all one.
+            </p>
+          </div>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Policy
+          </Button>
+        </div>
+
+        {/* Policies Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {sortPolicies(policies).map((policy) => (
+            <Card key={policy.id} className="transition-all duration-200 hover:shadow-lg">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4 mb-4">
+                  <div className="w-12 h-12 bg-blue-100 dark:bg-blue-900/20 rounded-lg flex items-center justify-center">
+                    <Timer className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{policy.name}</h3>
+                    <p className="text-sm text-muted-foreground capitalize">
+                      {policy.priority} · {policy.category ?? 'any category'}
+                    </p>
+                  </div>
+                  <Badge variant={policy.isActive ? 'default' : 'outline'}>
+                    {policy.isActive ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+
+                <div className="space-y-2 mb-4">
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    <span>First response within {formatSlaDuration(policy.firstResponseMinutes)}</span>
+                  </div>
+                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    <span>Resolution within {formatSlaDuration(policy.resolutionMinutes)}</span>
+                  </div>
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleEdit(policy)}
+                    className="flex-1"
+                  >
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(policy)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {policies.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <div className="text-gray-500 dark:text-gray-400">
+                No SLA policies yet. Tickets get no targets and customers are promised a response within 24 hours.
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <SupportSlaPolicyDialog
+          open={dialogOpen}
+          onClose={handleDialogClose}
+          policy={editingPolicy}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
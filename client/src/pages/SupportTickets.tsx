@@ -4,25 +4,19 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
-import { MessageSquare, Clock, User, Mail, Phone, AlertCircle, CheckCircle, XCircle } from "lucide-react";
+import { MessageSquare, Clock, User, Mail, Phone, AlertCircle, CheckCircle, XCircle, History, Lock, Paperclip, Send, X } from "lucide-react";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { TopBar } from "@/components/layout/TopBar";
-import type { SupportTicketWithAssignee } from "@shared/schema";
-
-const responseFormSchema = z.object({
-  status: z.enum(["open", "in_progress", "resolved", "closed"]),
-  resolution: z.string().min(1, "Response is required"),
-});
-
-type ResponseFormData = z.infer<typeof responseFormSchema>;
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { SupportSlaBadge } from "@/components/support-tickets/SupportSlaBadge";
+import { isWebUrl, type CreateSupportTicketMessage, type SupportTicketAttachmentInput, type SupportTicketMessageWithAttachments, type SupportTicketWithAssignee } from "@shared/schema";
 
 const priorityColors = {
   low: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
@@ -45,146 +39,275 @@ const statusIcons = {
   closed: XCircle
 };
 
-interface TicketResponseDialogProps {
+type TicketStatus = "open" | "in_progress" | "resolved" | "closed";
+type ComposerType = CreateSupportTicketMessage["type"];
+
+const composerLabels: Record<ComposerType, { tab: string; placeholder: string; submit: string }> = {
+  agent_reply: { tab: "Reply", placeholder: "Write a reply to the customer...", submit: "Send Reply" },
+  internal_note: { tab: "Internal Note", placeholder: "Only staff can see internal notes...", submit: "Add Note" },
+  customer_reply: { tab: "Customer Reply", placeholder: "Paste a reply the customer sent by email...", submit: "Log Reply" },
+};
+
+const formatStatus = (status: string | null) => (status ?? "").replace("_", " ");
+
+const formatSize = (size: number | null) =>
+  size === null ? "" : size < 1024 * 1024 ? `${Math.ceil(size / 1024)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`;
+
+interface TicketThreadDialogProps {
   ticket: SupportTicketWithAssignee;
   open: boolean;
   onClose: () => void;
 }
 
-function TicketResponseDialog({ ticket, open, onClose }: TicketResponseDialogProps) {
+function TicketThreadDialog({ ticket, open, onClose }: TicketThreadDialogProps) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const [composerType, setComposerType] = useState<ComposerType>("agent_reply");
+  const [body, setBody] = useState("");
+  const [attachments, setAttachments] = useState<SupportTicketAttachmentInput[]>([]);
+  const messagesKey = `/api/support-tickets/${ticket.id}/messages`;
 
-  const form = useForm<ResponseFormData>({
-    resolver: zodResolver(responseFormSchema),
-    defaultValues: {
-      status: ticket.status as "open" | "in_progress" | "resolved" | "closed",
-      resolution: ticket.resolution || "",
-    },
+  const { data: messages = [], isLoading } = useQuery<SupportTicketMessageWithAttachments[]>({
+    queryKey: [messagesKey],
+    enabled: open,
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: ResponseFormData) => {
-      const response = await fetch(`/api/support-tickets/${ticket.id}`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          ...data,
-          resolvedAt: data.status === "resolved" ? new Date() : null,
-        }),
-      });
-      
-      if (!response.ok) {
-        throw new Error("Failed to update ticket");
-      }
-      
-      return response.json();
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/support-tickets"] });
+    queryClient.invalidateQueries({ queryKey: [messagesKey] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: TicketStatus) => {
+      return await apiRequest(`/api/support-tickets/${ticket.id}`, "PATCH", { status });
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/support-tickets"] });
+    onSuccess: invalidate,
+    onError: (error: Error) => {
       toast({
-        title: "Success",
-        description: "Ticket updated successfully",
+        title: "Error",
+        description: error.message || "Failed to update ticket",
+        variant: "destructive",
       });
-      onClose();
+    },
+  });
+
+  const messageMutation = useMutation({
+    mutationFn: async (message: CreateSupportTicketMessage) => {
+      return await apiRequest(messagesKey, "POST", message);
+    },
+    onSuccess: () => {
+      setBody("");
+      setAttachments([]);
+      invalidate();
     },
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message,
+        description: error.message || "Failed to add message",
         variant: "destructive",
       });
     },
   });
 
-  const onSubmit = (data: ResponseFormData) => {
-    updateMutation.mutate(data);
+  const updateAttachment = (index: number, field: "fileName" | "url", value: string) => {
+    setAttachments(attachments.map((attachment, i) => i === index ? { ...attachment, [field]: value } : attachment));
+  };
+
+  const handleSubmit = () => {
+    const text = body.trim();
+    if (!text) return;
+    messageMutation.mutate({
+      type: composerType,
+      body: text,
+      attachments: attachments.filter((attachment) => attachment.fileName.trim() && attachment.url.trim()),
+    });
   };
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Respond to Ticket #{ticket.ticketId}</DialogTitle>
+          <DialogTitle>Ticket #{ticket.ticketId}</DialogTitle>
           <DialogDescription>
-            Ticket from {ticket.name} ({ticket.email})
+            {ticket.subject} · {ticket.name} ({ticket.email})
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span>Category: {ticket.category}</span>
+          <span>Priority: {ticket.priority}</span>
+          <div className="ml-auto">
+            <Select
+              value={ticket.status}
+              onValueChange={(value) => statusMutation.mutate(value as TicketStatus)}
+              disabled={statusMutation.isPending}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="in_progress">In Progress</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="closed">Closed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
           <div className="bg-muted p-4 rounded-lg">
-            <h4 className="font-medium mb-2">{ticket.subject}</h4>
-            <p className="text-sm text-muted-foreground mb-2">{ticket.message}</p>
-            <div className="flex items-center gap-4 text-xs text-muted-foreground">
-              <span>Category: {ticket.category}</span>
-              <span>Priority: {ticket.priority}</span>
-              <span>Created: {format(new Date(ticket.createdAt!), "MMM dd, yyyy HH:mm")}</span>
+            <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
+              <span className="font-medium text-foreground">{ticket.name}</span>
+              <span>{format(new Date(ticket.createdAt!), "MMM dd, yyyy HH:mm")}</span>
             </div>
+            <p className="text-sm whitespace-pre-wrap">{ticket.message}</p>
           </div>
 
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="status"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Status</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="open">Open</SelectItem>
-                        <SelectItem value="in_progress">In Progress</SelectItem>
-                        <SelectItem value="resolved">Resolved</SelectItem>
-                        <SelectItem value="closed">Closed</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+          {isLoading ? (
+            <p className="text-sm text-center text-muted-foreground">Loading conversation...</p>
+          ) : messages.map((message) => {
+            if (message.type === "status_change") {
+              return (
+                <div key={message.id} className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                  <History className="h-3 w-3" />
+                  <span>
+                    {message.authorName} changed the status from {formatStatus(message.fromStatus)} to {formatStatus(message.toStatus)}
+                    {message.createdAt && ` · ${format(new Date(message.createdAt), "MMM dd, HH:mm")}`}
+                  </span>
+                </div>
+              );
+            }
 
-              <FormField
-                control={form.control}
-                name="resolution"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Response</FormLabel>
-                    <FormControl>
-                      <Textarea
-                        placeholder="Enter your response to the customer..."
-                        className="min-h-[120px]"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+            const isCustomer = message.type === "customer_reply";
+            const isNote = message.type === "internal_note";
+            return (
+              <div
+                key={message.id}
+                className={`p-4 rounded-lg border ${
+                  isNote
+                    ? "bg-yellow-50 border-yellow-200 dark:bg-yellow-900/20 dark:border-yellow-800"
+                    : isCustomer
+                      ? "bg-muted border-transparent"
+                      : "bg-blue-50 border-blue-100 dark:bg-blue-900/20 dark:border-blue-900 ml-8"
+                }`}
+              >
+                <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium text-foreground">{message.authorName}</span>
+                    {isNote && (
+                      <Badge variant="outline" className="text-[10px]">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Internal
+                      </Badge>
+                    )}
+                  </span>
+                  <span>{message.createdAt ? format(new Date(message.createdAt), "MMM dd, yyyy HH:mm") : ""}</span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                {message.attachments.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {message.attachments.map((attachment) => isWebUrl(attachment.url) ? (
+                      <a
+                        key={attachment.id}
+                        href={attachment.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 underline"
+                      >
+                        <Paperclip className="h-3 w-3" />
+                        {attachment.fileName}
+                        {attachment.size !== null && <span className="text-muted-foreground no-underline">({formatSize(attachment.size)})</span>}
+                      </a>
+                    ) : (
+                      <span key={attachment.id} className="flex items-center gap-1 text-xs text-muted-foreground" title="Link not shown: not an http or https URL">
+                        <Paperclip className="h-3 w-3" />
+                        {attachment.fileName}
+                          {attachment.size !== null && <span>({formatSize(attachment.size)})</span>}
+                      </span>
+                    ))}
+                  </div>
                 )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Composer */}
+        <div className="space-y-3 border-t pt-4">
+          <Tabs value={composerType} onValueChange={(value) => setComposerType(value as ComposerType)}>
+            <TabsList>
+              {(Object.keys(composerLabels) as ComposerType[]).map((type) => (
+                <TabsTrigger key={type} value={type}>{composerLabels[type].tab}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <Textarea
+            placeholder={composerLabels[composerType].placeholder}
+            className={`min-h-[100px] ${composerType === "internal_note" ? "bg-yellow-50 dark:bg-yellow-900/10" : ""}`}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+
+          {attachments.map((attachment, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                placeholder="File name"
+                value={attachment.fileName}
+                onChange={(e) => updateAttachment(index, "fileName", e.target.value)}
+                className="w-1/3"
               />
+              <Input
+                placeholder="https://..."
+                value={attachment.url}
+                onChange={(e) => updateAttachment(index, "url", e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setAttachments(attachments.filter((_, i) => i !== index))}
+                title="Remove attachment"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
 
-              <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={onClose}>
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={updateMutation.isPending}>
-                  {updateMutation.isPending ? "Updating..." : "Update Ticket"}
-                </Button>
-              </div>
-            </form>
-          </Form>
+          <div className="flex justify-between gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setAttachments([...attachments, { fileName: "", url: "" }])}
+              disabled={attachments.length >= 10}
+            >
+              <Paperclip className="h-4 w-4 mr-2" />
+              Attach Link
+            </Button>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={handleSubmit} disabled={messageMutation.isPending || !body.trim()}>
+                <Send className="h-4 w-4 mr-2" />
+                {messageMutation.isPending ? "Saving..." : composerLabels[composerType].submit}
+              </Button>
+            </div>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
   );
 }
 
+type TicketQueue = 'all' | 'mine' | 'unassigned';
+
 export default function SupportTickets() {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<TicketQueue>('all');
   const [selectedTicket, setSelectedTicket] = useState<SupportTicketWithAssignee | null>(null);
   const [responseDialogOpen, setResponseDialogOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -193,6 +316,12 @@ export default function SupportTickets() {
     queryKey: ["/api/support-tickets"],
   });
 
+  // The session keeps the user id as a string
+  const queueTickets = tickets.filter((ticket) =>
+    queue === 'mine' ? ticket.assignedTo === Number(user?.id) :
+    queue === 'unassigned' ? ticket.assignedTo === null :
+    true);
+
   const handleRespond = (ticket: SupportTicketWithAssignee) => {
     setSelectedTicket(ticket);
     setResponseDialogOpen(true);
@@ -288,19 +417,33 @@ export default function SupportTickets() {
           </Card>
         </div>
 
-        {tickets.length === 0 ? (
+        <Tabs value={queue} onValueChange={(value) => setQueue(value as TicketQueue)}>
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="mine">
+              My Queue ({tickets.filter((t) => t.assignedTo === Number(user?.id) && (t.status === 'open' || t.status === 'in_progress')).length})
+            </TabsTrigger>
+            <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {queueTickets.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
               <MessageSquare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-medium mb-2">No support tickets</h3>
               <p className="text-muted-foreground">
-                All support tickets will appear here when customers submit them.
+                {queue === 'mine'
+                  ? 'Tickets assigned to you will appear here.'
+                  : queue === 'unassigned'
+                    ? 'Every ticket has an agent.'
+                    : 'All support tickets will appear here when customers submit them.'}
               </p>
             </CardContent>
           </Card>
         ) : (
           <div className="space-y-4">
-            {tickets.map((ticket: SupportTicketWithAssignee) => {
+            {queueTickets.map((ticket: SupportTicketWithAssignee) => {
               const StatusIcon = statusIcons[ticket.status as keyof typeof statusIcons];
               
               return (
@@ -350,6 +493,13 @@ export default function SupportTickets() {
                     </div>
                     
                     <p className="text-sm line-clamp-2">{ticket.message}</p>
+
+                    {ticket.sla && (
+                      <div className="flex flex-wrap gap-2">
+                        {ticket.sla.firstResponse && <SupportSlaBadge label="Response" target={ticket.sla.firstResponse} />}
+                        {ticket.sla.resolution && <SupportSlaBadge label="Resolution" target={ticket.sla.resolution} />}
+                      </div>
+                    )}
                     
                     {ticket.resolution && (
                       <div className="bg-muted p-3 rounded-lg">
@@ -374,7 +524,7 @@ export default function SupportTickets() {
                         className="ml-auto"
                       >
                         <MessageSquare className="h-4 w-4 mr-2" />
-                        {ticket.status === 'resolved' || ticket.status === 'closed' ? 'View' : 'Respond'}
+                        {ticket.status === 'resolved' || ticket.status === 'closed' ? 'View' : 'Open Thread'}
                       </Button>
                     </div>
                   </CardContent>
@@ -385,7 +535,8 @@ export default function SupportTickets() {
         )}
 
         {selectedTicket && (
-          <TicketResponseDialog
+          <TicketThreadDialog
+            key={selectedTicket.id}
             ticket={selectedTicket}
             open={responseDialogOpen}
             onClose={handleCloseDialog}
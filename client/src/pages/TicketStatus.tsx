@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { History, Paperclip, Search, Send, XCircle } from "lucide-react";
+import { isWebUrl, type PublicSupportTicket } from "@shared/schema";
+
+const statusColors: Record<string, string> = {
+  open: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300",
+  in_progress: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300",
+  resolved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  closed: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-300",
+};
+
+const formatStatus = (status: string | null) => (status ?? "").replace("_", " ");
+
+export default function TicketStatus() {
+  const { toast } = useToast();
+  const [ticketId, setTicketId] = useState(() => new URLSearchParams(window.location.search).get("ticketId") ?? "");
+  const [email, setEmail] = useState("");
+  const [reply, setReply] = useState("");
+  const [ticket, setTicket] = useState<PublicSupportTicket | null>(null);
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const lookupMutation = useMutation({
+    mutationFn: async (): Promise<PublicSupportTicket> => {
+      return await apiRequest("/api/support-portal/tickets/lookup", "POST", { ticketId: ticketId.trim(), email });
+    },
+    onSuccess: setTicket,
+    onError: onError("Failed to find your ticket"),
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (): Promise<PublicSupportTicket> => {
+      return await apiRequest(`/api/support-portal/tickets/${encodeURIComponent(ticket!.ticketId)}/replies`, "POST", { email, body: reply });
+    },
+    onSuccess: (updatedTicket) => {
+      setTicket(updatedTicket);
+      setReply("");
+    },
+    onError: onError("Failed to send your reply"),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (): Promise<PublicSupportTicket> => {
+      return await apiRequest(`/api/support-portal/tickets/${encodeURIComponent(ticket!.ticketId)}/close`, "POST", { email });
+    },
+    onSuccess: (updatedTicket) => {
+      setTicket(updatedTicket);
+      toast({
+        title: "Ticket Closed",
+        description: "Reply at any time to reopen it.",
+      });
+    },
+    onError: onError("Failed to close your ticket"),
+  });
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    lookupMutation.mutate();
+  };
+
+  const isClosed = ticket?.status === "closed";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Ticket Status</h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            Enter the ticket ID you received and the email you submitted the ticket with.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="p-6">
+            <form onSubmit={handleLookup} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="ticketId">Ticket ID</Label>
+                <Input
+                  id="ticketId"
+                  placeholder="TICKET-..."
+                  value={ticketId}
+                  onChange={(e) => setTicketId(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={lookupMutation.isPending}>
+                <Search className="h-4 w-4 mr-2" />
+                {lookupMutation.isPending ? "Looking up..." : "Look Up"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {ticket && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <CardTitle>{ticket.subject}</CardTitle>
+                  <CardDescription>
+                    #{ticket.ticketId} · {ticket.category} · submitted {ticket.createdAt ? format(new Date(ticket.createdAt), "MMM dd, yyyy HH:mm") : ""}
+                  </CardDescription>
+                </div>
+                <Badge className={statusColors[ticket.status]}>{formatStatus(ticket.status)}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Timeline */}
+              <div className="bg-muted p-4 rounded-lg">
+                <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
+                  <span className="font-medium text-foreground">{ticket.name}</span>
+                  <span>{ticket.createdAt ? format(new Date(ticket.createdAt), "MMM dd, yyyy HH:mm") : ""}</span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{ticket.message}</p>
+              </div>
+
+              {ticket.messages.map((message) => message.type === "status_change" ? (
+                <div key={message.id} className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                  <History className="h-3 w-3" />
+                  <span>
+                    Status changed from {formatStatus(message.fromStatus)} to {formatStatus(message.toStatus)}
+                    {message.createdAt && ` · ${format(new Date(message.createdAt), "MMM dd, HH:mm")}`}
+                  </span>
+                </div>
+              ) : (
+                <div
+                  key={message.id}
+                  className={`p-4 rounded-lg ${
+                    message.type === "customer_reply"
+                      ? "bg-muted"
+                      : "bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-900 ml-8"
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-2">
+                    <span className="font-medium text-foreground">
+                      {message.type === "customer_reply" ? message.authorName : `${message.authorName} (Support)`}
+                    </span>
+                    <span>{message.createdAt ? format(new Date(message.createdAt), "MMM dd, yyyy HH:mm") : ""}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                  {message.attachments.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {message.attachments.map((attachment) => isWebUrl(attachment.url) ? (
+                        <a
+                          key={attachment.id}
+                          href={attachment.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 underline"
+                        >
+                          <Paperclip className="h-3 w-3" />
+                          {attachment.fileName}
+                        </a>
+                      ) : (
+                        <span key={attachment.id} className="flex items-center gap-1 text-xs text-muted-foreground" title="Link not shown: not an http or https URL">
+                          <Paperclip className="h-3 w-3" />
+                          {attachment.fileName}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {/* Reply */}
+              <div className="space-y-3 border-t pt-4">
+                <Textarea
+                  placeholder={isClosed ? "Replying reopens the ticket..." : "Write a reply..."}
+                  className="min-h-[100px]"
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                />
+                <div className="flex justify-between gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      if (window.confirm("Close this ticket? You can reopen it by replying.")) {
+                        closeMutation.mutate();
+                      }
+                    }}
+                    disabled={isClosed || closeMutation.isPending}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    {isClosed ? "Ticket Closed" : "Close Ticket"}
+                  </Button>
+                  <Button
+                    onClick={() => replyMutation.mutate()}
+                    disabled={replyMutation.isPending || !reply.trim()}
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    {replyMutation.isPending ? "Sending..." : "Send Reply"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="text-center">
+          <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Back to home
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
 import { useAuth } from '@/contexts/AuthContext';
-import { Plus, Edit, Trash2, Search } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Send, ShieldOff, MonitorSmartphone, LockOpen } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { UserDialog } from '@/components/users/UserDialog';
+import { UserSessionsDialog } from '@/components/users/UserSessionsDialog';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { TopBar } from '@/components/layout/TopBar';
 import type { User } from '@shared/schema';
@@ -32,24 +34,17 @@ export default function Users() {
   const [searchTerm, setSearchTerm] = useState('');
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user: currentUser } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
 
-  if (!user) return null;
+  if (!currentUser) return null;
 
   const { data: users = [], isLoading } = useQuery<User[]>({
-    queryKey: ['/api/users', user.role, user.id],
-    queryFn: async () => {
-      const params = new URLSearchParams({
-        role: user.role,
-        ...(user.role !== 'super-admin' && { entrepreneurId: user.id.toString() })
-      });
-      const response = await fetch(`/api/users?${params}`);
-      if (!response.ok) throw new Error('Failed to fetch users');
-      return response.json();
-    },
+    queryKey: ['/api/users'],
   });
 
   const deleteUserMutation = useMutation({
@@ -72,6 +67,63 @@ export default function Users() {
     },
   });
 
+  const inviteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/users/${id}/invite`, 'POST');
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Invite sent',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to send invite',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const resetMfaMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/users/${id}/mfa`, 'DELETE');
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Two-factor authentication reset',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to reset two-factor authentication',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/users/${id}/unlock`, 'POST');
+    },
+    onSuccess: (response: { message: string }) => {
+      toast({
+        title: 'Success',
+        description: response.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to unlock user',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const filteredUsers = users.filter((user) =>
     user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     user.email.toLowerCase().includes(searchTerm.toLowerCase())
@@ -88,6 +140,12 @@ export default function Users() {
     }
   };
 
+  const handleResetMfa = (user: User) => {
+    if (confirm(`Reset two-factor authentication for ${user.name}? They will be signed out and have to set it up again.`)) {
+      resetMfaMutation.mutate(user.id);
+    }
+  };
+
   const handleDialogClose = () => {
     setDialogOpen(false);
     setEditingUser(null);
@@ -132,10 +190,12 @@ export default function Users() {
         {/* Header */}
         <div className="flex justify-between items-center">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Users</h1>
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add User
-          </Button>
+          {can('users:write') && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add User
+            </Button>
+          )}
         </div>
 
         {/* Search */}
@@ -204,26 +264,76 @@ export default function Users() {
                   <Badge className={roleColors[user.role as keyof typeof roleColors]}>
                     {roleLabels[user.role as keyof typeof roleLabels]}
                   </Badge>
+                  {!user.isActive && (
+                    <Badge variant="outline">Inactive</Badge>
+                  )}
                 </div>
 
                 <div className="flex space-x-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleEdit(user)}
-                    className="flex-1"
-                  >
-                    <Edit className="h-4 w-4 mr-2" />
-                    Edit
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleDelete(user)}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {can('users:write') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(user)}
+                      className="flex-1"
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                  {user.isActive && can('users:security') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Send a new link to set the password"
+                      onClick={() => inviteMutation.mutate(user.id)}
+                      disabled={inviteMutation.isPending}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {can('users:security') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Unlock after too many failed sign-in attempts"
+                      onClick={() => unlockMutation.mutate(user.id)}
+                      disabled={unlockMutation.isPending}
+                    >
+                      <LockOpen className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {can('sessions:manage') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Sessions"
+                      onClick={() => setSessionsUser(user)}
+                    >
+                      <MonitorSmartphone className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {Number(currentUser.id) !== user.id && can('users:security') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Reset two-factor authentication"
+                      onClick={() => handleResetMfa(user)}
+                      disabled={resetMfaMutation.isPending}
+                    >
+                      <ShieldOff className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {can('users:write') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(user)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -245,6 +355,11 @@ export default function Users() {
           onClose={handleDialogClose}
           user={editingUser}
         />
+
+        <UserSessionsDialog
+          user={sessionsUser}
+          onClose={() => setSessionsUser(null)}
+        />
       </div>
     );
   };
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { Search, Inbox } from 'lucide-react';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+import { ConversationThread } from '@/components/whatsapp-inbox/ConversationThread';
+import type { User, WhatsappConversationWithAssignee } from '@shared/schema';
+import { formatDistanceToNow } from 'date-fns';
+
+// No push channel to the browser; poll for new conversations and messages
+const INBOX_REFRESH_MS = 10 * 1000;
+
+type InboxView = 'open' | 'mine' | 'unassigned' | 'closed';
+
+export default function WhatsappInbox() {
+  const { user } = useAuth();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [view, setView] = useState<InboxView>('open');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const currentUserId = user ? parseInt(user.id) : undefined;
+
+  const { data: conversations = [], isLoading } = useQuery<WhatsappConversationWithAssignee[]>({
+    queryKey: ['/api/whatsapp-conversations'],
+    refetchInterval: INBOX_REFRESH_MS,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  // Conversations go to the entrepreneur or their collaborators; the
+  // entrepreneur is not part of their own user list
+  const assignees = [
+    ...(user?.role === 'entrepreneur' && currentUserId ? [{ id: currentUserId, name: user.name }] : []),
+    ...users.filter((u) => u.role === 'collaborator'),
+  ];
+  const customers = users.filter((u) => u.role === 'customer');
+
+  const filteredConversations = conversations.filter((conversation) => {
+    const inView =
+      view === 'closed' ? conversation.status === 'closed' :
+      conversation.status === 'open' && (
+        view === 'open' ||
+        (view === 'mine' && conversation.assignedTo === currentUserId) ||
+        (view === 'unassigned' && conversation.assignedTo === null)
+      );
+    const term = searchTerm.toLowerCase();
+    return inView && (
+      conversation.contact.includes(term) ||
+      (conversation.contactName ?? '').toLowerCase().includes(term)
+    );
+  });
+
+  const selected = conversations.find((conversation) => conversation.id === selectedId);
+  const unreadTotal = conversations.reduce((total, conversation) => total + conversation.unreadCount, 0);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Inbox</h1>
+          <div className="h-[calc(100vh-14rem)] bg-gray-200 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Inbox</h1>
+          <p className="text-gray-600 dark:text-gray-300">
+            WhatsApp conversations with your contacts{unreadTotal > 0 ? ` · ${unreadTotal} unread` : ''}
+          </p>
+        </div>
+
+        <Card className="flex h-[calc(100vh-14rem)] overflow-hidden">
+          {/* Conversation List */}
+          <div className="w-full md:w-80 flex-shrink-0 border-r flex flex-col">
+            <div className="p-3 space-y-3 border-b">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search contacts..."
+                  className="pl-10"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <Tabs value={view} onValueChange={(value) => setView(value as InboxView)}>
+                <TabsList className="grid w-full grid-cols-4">
+                  <TabsTrigger value="open">Open</TabsTrigger>
+                  <TabsTrigger value="mine">Mine</TabsTrigger>
+                  <TabsTrigger value="unassigned">New</TabsTrigger>
+                  <TabsTrigger value="closed">Closed</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+
+            <div className="flex-1 overflow-y-auto divide-y">
+              {filteredConversations.length === 0 ? (
+                <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                  {conversations.length > 0 ? 'No conversations here.' : 'No conversations yet.'}
+                </div>
+              ) : (
+                filteredConversations.map((conversation) => (
+                  <button
+                    key={conversation.id}
+                    type="button"
+                    onClick={() => setSelectedId(conversation.id)}
+                    className={`w-full text-left p-3 hover:bg-gray-50 dark:hover:bg-gray-800 ${
+                      conversation.id === selectedId ? 'bg-gray-100 dark:bg-gray-800' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`truncate text-sm ${conversation.unreadCount > 0 ? 'font-semibold' : 'font-medium'} text-gray-900 dark:text-white`}>
+                        {conversation.contactName || `+${conversation.contact}`}
+                      </span>
+                      {conversation.unreadCount > 0 && (
+                        <Badge className="bg-green-600 text-white">{conversation.unreadCount}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{conversation.lastMessagePreview}</p>
+                    <div className="flex items-center justify-between gap-2 mt-1 text-[11px] text-muted-foreground">
+                      <span className="truncate">{conversation.assignee ? conversation.assignee.name : 'Unassigned'}</span>
+                      <span className="whitespace-nowrap">
+                        {conversation.lastMessageAt ? formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true }) : ''}
+                      </span>
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Thread */}
+          <div className="hidden md:flex flex-1 flex-col">
+            {selected ? (
+              <ConversationThread
+                key={selected.id}
+                conversation={selected}
+                assignees={assignees}
+                customers={customers}
+              />
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-gray-500 dark:text-gray-400">
+                <Inbox className="h-12 w-12 mb-2" />
+                <p className="text-sm">Select a conversation</p>
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -6,25 +6,43 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { Plus, Edit, Trash2, Search, MessageSquare, CheckCircle, XCircle, QrCode, Smartphone } from 'lucide-react';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Plus, Edit, Trash2, Search, MessageSquare, CheckCircle, XCircle, QrCode, Smartphone, Send, RefreshCw, Wifi, Webhook } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { WhatsappInstanceDialog } from '@/components/whatsapp-instances/WhatsappInstanceDialog';
 import { Sidebar } from '@/components/layout/Sidebar';
 import { TopBar } from '@/components/layout/TopBar';
+import { SendWhatsappMessageDialog } from '@/components/whatsapp-instances/SendWhatsappMessageDialog';
+import { WhatsappWebhookDialog } from '@/components/whatsapp-instances/WhatsappWebhookDialog';
 import type { WhatsappInstance } from '@shared/schema';
+import { formatDistanceToNow } from 'date-fns';
+
+// The server checks every instance once a minute; refetch often enough to show it
+const STATUS_REFRESH_MS = 30 * 1000;
+
+const CONNECTION_BADGES: Record<string, { label: string; className: string }> = {
+  connected: { label: 'Connected', className: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400' },
+  awaiting_qr: { label: 'Awaiting QR scan', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400' },
+  disconnected: { label: 'Disconnected', className: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400' },
+  unknown: { label: 'Not checked', className: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300' },
+};
 
 export default function WhatsappInstances() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { can } = usePermissions();
   const queryClient = useQueryClient();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingInstance, setEditingInstance] = useState<WhatsappInstance | null>(null);
   const [qrCodeData, setQrCodeData] = useState<{ [key: number]: string }>({});
+  const [messagingInstance, setMessagingInstance] = useState<WhatsappInstance | null>(null);
+  const [webhookInstance, setWebhookInstance] = useState<WhatsappInstance | null>(null);
 
   const { data: instances = [], isLoading } = useQuery<WhatsappInstance[]>({
     queryKey: ['/api/whatsapp-instances'],
+    refetchInterval: STATUS_REFRESH_MS,
   });
 
   const deleteMutation = useMutation({
@@ -53,7 +71,8 @@ export default function WhatsappInstances() {
       return { id, data: response };
     },
     onSuccess: ({ id, data }) => {
-      setQrCodeData(prev => ({ ...prev, [id]: data.qrCode || data.qr_code || data.qrCodeBase64 }));
+      setQrCodeData(prev => ({ ...prev, [id]: data.qrCode }));
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp-instances'] });
       toast({
         title: 'Success',
         description: 'QR code generated successfully',
@@ -68,6 +87,22 @@ export default function WhatsappInstances() {
     },
   });
 
+  const checkConnectionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/whatsapp-instances/${id}/check-connection`, 'POST') as WhatsappInstance;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp-instances'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to check connection',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const filteredInstances = instances.filter((instance) =>
     instance.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     instance.instanceNumber.toLowerCase().includes(searchTerm.toLowerCase())
@@ -124,10 +159,12 @@ export default function WhatsappInstances() {
         {/* Header */}
         <div className="flex justify-between items-center">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">WhatsApp Instances</h1>
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Instance
-          </Button>
+          {can('whatsapp:manage') && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Instance
+            </Button>
+          )}
         </div>
 
         {/* Search */}
@@ -142,7 +179,7 @@ export default function WhatsappInstances() {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <Card>
             <CardContent className="p-4 text-center">
               <div className="text-2xl font-bold text-gray-900 dark:text-white">
@@ -167,97 +204,169 @@ export default function WhatsappInstances() {
               <div className="text-sm text-gray-500 dark:text-gray-400">Inactive</div>
             </CardContent>
           </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                {instances.filter((i) => i.isActive && i.connectionStatus !== 'connected').length}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">Not Connected</div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Instances Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredInstances.map((instance) => (
-            <Card key={instance.id} className="transition-all duration-200 hover:shadow-lg">
-              <CardContent className="p-6">
-                <div className="flex items-center space-x-4 mb-4">
-                  <div className="w-12 h-12 bg-green-100 dark:bg-green-900/20 rounded-lg flex items-center justify-center">
-                    <MessageSquare className="h-6 w-6 text-green-600 dark:text-green-400" />
+          {filteredInstances.map((instance) => {
+            const connection = CONNECTION_BADGES[instance.connectionStatus] ?? CONNECTION_BADGES.unknown;
+            const isConnected = instance.connectionStatus === 'connected';
+
+            return (
+              <Card key={instance.id} className="transition-all duration-200 hover:shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center space-x-4 mb-4">
+                    <div className="w-12 h-12 bg-green-100 dark:bg-green-900/20 rounded-lg flex items-center justify-center">
+                      <MessageSquare className="h-6 w-6 text-green-600 dark:text-green-400" />
+                    </div>
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 dark:text-white">{instance.name}</h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">#{instance.instanceNumber}</p>
+                    </div>
                   </div>
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-gray-900 dark:text-white">{instance.name}</h3>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">#{instance.instanceNumber}</p>
+                  
+                  <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center space-x-1">
+                      {instance.isActive ? (
+                        <CheckCircle className="h-4 w-4 text-green-500" />
+                      ) : (
+                        <XCircle className="h-4 w-4 text-red-500" />
+                      )}
+                      <span className={`text-sm ${instance.isActive ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                        {instance.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Badge className={connection.className} title={instance.connectionError ?? undefined}>
+                        {connection.label}
+                      </Badge>
+                      {can('whatsapp:send') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => checkConnectionMutation.mutate(instance.id)}
+                          disabled={checkConnectionMutation.isPending}
+                          title="Check connection now"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-                
-                <div className="flex items-center justify-between mb-4">
-                  <div className="flex items-center space-x-1">
-                    {instance.isActive ? (
-                      <CheckCircle className="h-4 w-4 text-green-500" />
-                    ) : (
-                      <XCircle className="h-4 w-4 text-red-500" />
+
+                  <div className="space-y-2 mb-4">
+                    <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                      <Smartphone className="h-4 w-4 mr-2" />
+                      <span className="truncate">API: {instance.apiUrl}</span>
+                    </div>
+                    <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                      <Wifi className="h-4 w-4 mr-2" />
+                      <span>
+                        {instance.lastSeenAt
+                          ? `Last seen ${formatDistanceToNow(new Date(instance.lastSeenAt), { addSuffix: true })}`
+                          : 'Never seen connected'}
+                      </span>
+                    </div>
+                    {instance.connectionError && (
+                      <p className="text-xs text-red-600 dark:text-red-400 break-words">{instance.connectionError}</p>
                     )}
-                    <span className={`text-sm ${instance.isActive ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                      {instance.isActive ? 'Active' : 'Inactive'}
-                    </span>
                   </div>
-                </div>
 
-                <div className="space-y-2 mb-4">
-                  <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
-                    <Smartphone className="h-4 w-4 mr-2" />
-                    <span className="truncate">API: {instance.apiUrl}</span>
+                  {/* QR Code Display Area - 200x200 pixels */}
+                  <div className="mb-4">
+                    <div className="w-[200px] h-[200px] mx-auto border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg flex items-center justify-center bg-gray-50 dark:bg-gray-800">
+                      {isConnected ? (
+                        <div className="text-center text-green-600 dark:text-green-400">
+                          <CheckCircle className="h-12 w-12 mx-auto mb-2" />
+                          <p className="text-sm">Paired</p>
+                        </div>
+                      ) : qrCodeData[instance.id] ? (
+                        <img 
+                          src={qrCodeData[instance.id]} 
+                          alt="QR Code" 
+                          className="w-full h-full object-contain rounded-lg"
+                        />
+                      ) : (
+                        <div className="text-center text-gray-500 dark:text-gray-400">
+                          <QrCode className="h-12 w-12 mx-auto mb-2" />
+                          <p className="text-sm">No QR Code</p>
+                          <p className="text-xs">Click button to generate</p>
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
 
-                {/* QR Code Display Area - 200x200 pixels */}
-                <div className="mb-4">
-                  <div className="w-[200px] h-[200px] mx-auto border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg flex items-center justify-center bg-gray-50 dark:bg-gray-800">
-                    {qrCodeData[instance.id] ? (
-                      <img 
-                        src={qrCodeData[instance.id]} 
-                        alt="QR Code" 
-                        className="w-full h-full object-contain rounded-lg"
-                      />
-                    ) : (
-                      <div className="text-center text-gray-500 dark:text-gray-400">
-                        <QrCode className="h-12 w-12 mx-auto mb-2" />
-                        <p className="text-sm">No QR Code</p>
-                        <p className="text-xs">Click button to generate</p>
-                      </div>
+                  <div className="space-y-2">
+                    {can('whatsapp:manage') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleGenerateQR(instance)}
+                        disabled={qrCodeMutation.isPending}
+                        className="w-full"
+                      >
+                        <QrCode className="h-4 w-4 mr-2" />
+                        {qrCodeMutation.isPending
+                          ? 'Generating...'
+                          : instance.connectionStatus === 'disconnected' && instance.lastSeenAt ? 'Reconnect' : 'Get QR Code'}
+                      </Button>
                     )}
-                  </div>
-                </div>
 
-                <div className="space-y-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleGenerateQR(instance)}
-                    disabled={qrCodeMutation.isPending}
-                    className="w-full"
-                  >
-                    <QrCode className="h-4 w-4 mr-2" />
-                    {qrCodeMutation.isPending ? 'Generating...' : 'Get QR Code'}
-                  </Button>
-                  
-                  <div className="flex space-x-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleEdit(instance)}
-                      className="flex-1"
-                    >
-                      <Edit className="h-4 w-4 mr-2" />
-                      Edit
-                    </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDelete(instance)}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {can('whatsapp:send') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setMessagingInstance(instance)}
+                        disabled={!instance.isActive}
+                        className="w-full"
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        Send Message
+                      </Button>
+                    )}
+                    
+                    {can('whatsapp:manage') && (
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEdit(instance)}
+                          className="flex-1"
+                        >
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setWebhookInstance(instance)}
+                          title="Webhook"
+                        >
+                          <Webhook className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(instance)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
         {filteredInstances.length === 0 && !isLoading && (
@@ -275,6 +384,18 @@ export default function WhatsappInstances() {
           onClose={handleDialogClose}
           instance={editingInstance}
         />
+
+        <SendWhatsappMessageDialog
+          open={!!messagingInstance}
+          onClose={() => setMessagingInstance(null)}
+          instance={messagingInstance}
+        />
+
+        <WhatsappWebhookDialog
+          open={!!webhookInstance}
+          onClose={() => setWebhookInstance(null)}
+          instance={webhookInstance}
+        />
       </div>
     );
   };
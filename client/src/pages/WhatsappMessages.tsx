@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Search, RefreshCw, MessageSquare, Image, FileText } from 'lucide-react';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { TopBar } from '@/components/layout/TopBar';
+import type { WhatsappInstance, WhatsappMessage } from '@shared/schema';
+import { format } from 'date-fns';
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  sent: 'secondary',
+  delivered: 'default',
+  read: 'default',
+  failed: 'destructive',
+};
+
+const TYPE_ICONS = {
+  text: MessageSquare,
+  media: Image,
+  template: FileText,
+};
+
+function describeMessage(message: WhatsappMessage): string {
+  switch (message.type) {
+    case 'media':
+      return message.body || message.fileName || message.mediaUrl || 'Media';
+    case 'template':
+      return `${message.templateName}${message.templateParams.length > 0 ? ` (${message.templateParams.join(', ')})` : ''}`;
+    default:
+      return message.body || '';
+  }
+}
+
+export default function WhatsappMessages() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [instanceFilter, setInstanceFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+
+  const { data: messages = [], isLoading } = useQuery<WhatsappMessage[]>({
+    queryKey: ['/api/whatsapp-messages'],
+  });
+
+  const { data: instances = [] } = useQuery<WhatsappInstance[]>({
+    queryKey: ['/api/whatsapp-instances'],
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/whatsapp-messages/${id}/refresh-status`, 'POST');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp-messages'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to refresh message status',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Received messages are read in the inbox
+  const filteredMessages = messages.filter((message) =>
+    message.direction === 'outbound' &&
+    (instanceFilter === 'all' || message.instanceId?.toString() === instanceFilter) &&
+    (statusFilter === 'all' || message.status === statusFilter) &&
+    (message.to.includes(searchTerm.replace(/\D/g, '') || searchTerm) ||
+      describeMessage(message).toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const instanceName = (id: number | null) =>
+    id === null ? 'Removed instance' : instances.find((instance) => instance.id === id)?.name ?? `#${id}`;
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">WhatsApp Messages</h1>
+          <div className="space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">WhatsApp Messages</h1>
+          <p className="text-gray-600 dark:text-gray-300">Messages sent through your WhatsApp instances and their delivery status</p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search by number or content..."
+              className="pl-10"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <Select value={instanceFilter} onValueChange={setInstanceFilter}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All instances</SelectItem>
+              {instances.map((instance) => (
+                <SelectItem key={instance.id} value={instance.id.toString()}>{instance.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="queued">Queued</SelectItem>
+              <SelectItem value="sent">Sent</SelectItem>
+              <SelectItem value="delivered">Delivered</SelectItem>
+              <SelectItem value="read">Read</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Message Log */}
+        <Card>
+          <CardContent className="p-0">
+            {filteredMessages.length === 0 ? (
+              <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+                {messages.length > 0 ? 'No messages match the filters.' : 'No messages sent yet.'}
+              </div>
+            ) : (
+              <div className="divide-y">
+                {filteredMessages.map((message) => {
+                  const TypeIcon = TYPE_ICONS[message.type as keyof typeof TYPE_ICONS] ?? MessageSquare;
+                  const canRefresh = !!message.externalId && (message.status === 'sent' || message.status === 'delivered');
+
+                  return (
+                    <div key={message.id} className="flex items-start gap-4 p-4">
+                      <TypeIcon className="h-5 w-5 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="font-medium text-gray-900 dark:text-white">+{message.to}</span>
+                          <span className="text-muted-foreground">via {instanceName(message.instanceId)}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{describeMessage(message)}</p>
+                        {message.error && (
+                          <p className="text-xs text-destructive">{message.error}</p>
+                        )}
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={STATUS_VARIANTS[message.status] ?? 'outline'}>{message.status}</Badge>
+                          {canRefresh && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => refreshMutation.mutate(message.id)}
+                              disabled={refreshMutation.isPending}
+                              title="Refresh delivery status"
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {message.createdAt ? format(new Date(message.createdAt), 'MMM dd, yyyy HH:mm') : ''}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex bg-gray-50 dark:bg-gray-900">
+      <Sidebar
+        isOpen={sidebarOpen}
+        onClose={() => setSidebarOpen(false)}
+      />
+
+      <div className="flex-1 flex flex-col lg:ml-0">
+        <TopBar onMenuClick={() => setSidebarOpen(true)} />
+
+        <main className="flex-1 p-6">
+          <div className="animate-in fade-in-50 duration-300">
+            {renderContent()}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { test, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import type { AuditLog, RefreshToken, RefreshTokenRevokeReason, User } from '@shared/schema';
+
+let server: Server;
+let baseUrl: string;
+
+// The user's refresh tokens and the audit trail, in place of the database
+let user: User;
+let tokens: RefreshToken[];
+let auditLogs: AuditLog[];
+
+function isLive(token: RefreshToken) {
+  return !token.isRevoked && token.expiresAt > new Date();
+}
+
+before(async () => {
+  // Only the storage methods replaced below are reached, so no database is
+  // needed; server/db only asks for a connection string
+  process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
+  const { storage } = await import('./storage');
+  const { authenticateToken, refreshToken } = await import('./auth');
+
+  mock.method(storage, 'getUser', async (id: number) => (id === user.id ? user : undefined));
+  mock.method(storage, 'getRefreshToken', async (token: string) => tokens.find((t) => t.token === token));
+  mock.method(storage, 'createRefreshToken', async (token: Partial<RefreshToken>) => {
+    const created = {
+      ...token,
+      id: tokens.length + 1,
+      familyId: token.familyId ?? crypto.randomUUID(),
+      isRevoked: false,
+      revokedAt: null,
+      revokeReason: null,
+    } as RefreshToken;
+    tokens.push(created);
+    return created;
+  });
+  mock.method(storage, 'revokeRefreshToken', async (token: string, reason: RefreshTokenRevokeReason) => {
+    const stored = tokens.find((t) => t.token === token);
+    if (!stored || stored.isRevoked) return false;
+    Object.assign(stored, { isRevoked: true, revokedAt: new Date(), revokeReason: reason });
+    return true;
+  });
+  mock.method(storage, 'revokeRefreshTokenFamily', async (familyId: string) => {
+    const family = tokens.filter((t) => t.familyId === familyId && !t.isRevoked);
+    family.forEach((t) => Object.assign(t, { isRevoked: true, revokedAt: new Date(), revokeReason: 'reused' }));
+    return family.length;
+  });
+  mock.method(storage, 'isRefreshSessionActive', async (id: number) => {
+    const token = tokens.find((t) => t.id === id);
+    if (!token || (token.isRevoked && token.revokeReason !== 'rotated')) return false;
+    return tokens.some((t) => t.familyId === token.familyId && isLive(t));
+  });
+  mock.method(storage, 'createAuditLog', async (log: Partial<AuditLog>) => {
+    const created = { id: auditLogs.length + 1, ...log } as AuditLog;
+    auditLogs.push(created);
+    return created;
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.post('/api/auth/refresh', refreshToken);
+  app.get('/api/me', authenticateToken, (req, res) => res.json({ id: req.user!.id }));
+  server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+beforeEach(() => {
+  user = { id: 1, name: 'Jane', email: 'jane@example.com', role: 'entrepreneur', isActive: true, entrepreneurId: null } as User;
+  tokens = [{
+    id: 1,
+    token: 'first-token',
+    userId: 1,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    isRevoked: false,
+    createdAt: new Date(),
+    revokedAt: null,
+    revokeReason: null,
+    familyId: 'session-1',
+    userAgent: null,
+    ipAddress: null,
+    signedInAt: new Date(),
+    lastUsedAt: new Date(),
+  }];
+  auditLogs = [];
+});
+
+after(() => {
+  server.close();
+});
+
+async function refresh(refreshToken: string) {
+  const response = await fetch(`${baseUrl}/api/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function getMe(accessToken: string) {
+  return fetch(`${baseUrl}/api/me`, { headers: { Authorization: `Bearer ${accessToken}` } });
+}
+
+test('a refresh rotates the token within the same session', async () => {
+  const { status, body } = await refresh('first-token');
+
+  assert.equal(status, 200);
+  assert.equal(tokens[0].revokeReason, 'rotated');
+  assert.equal(tokens[1].token, body.refreshToken);
+  assert.equal(tokens[1].familyId, 'session-1');
+});
+
+test('a rotated token coming back signs the whole session out', async () => {
+  const { body } = await refresh('first-token');
+
+  const reuse = await refresh('first-token');
+
+  assert.equal(reuse.status, 401);
+  assert.deepEqual(tokens.map((t) => t.revokeReason), ['rotated', 'reused']);
+  assert.deepEqual(auditLogs.map((log) => log.action), ['refresh_token.reuse']);
+  assert.equal((await getMe(body.accessToken)).status, 401);
+});
+
+test('a token of a signed-out session is refused without a reuse alarm', async () => {
+  tokens.push({ ...tokens[0], id: 2, token: 'other-device', familyId: 'session-2' });
+  Object.assign(tokens[0], { isRevoked: true, revokeReason: 'revoked' });
+
+  const { status } = await refresh('first-token');
+
+  assert.equal(status, 401);
+  assert.deepEqual(auditLogs, []);
+  assert.equal(tokens[1].isRevoked, false);
+});
+
+test('access tokens stop working once the user is deactivated or signed out', async () => {
+  const { body } = await refresh('first-token');
+  assert.equal((await getMe(body.accessToken)).status, 200);
+
+  user.isActive = false;
+  assert.equal((await getMe(body.accessToken)).status, 401);
+
+  user.isActive = true;
+  Object.assign(tokens[1], { isRevoked: true, revokeReason: 'revoked' });
+  assert.equal((await getMe(body.accessToken)).status, 401);
+});
+
+test('an access token outlives the rotation of its refresh token', async () => {
+  const first = await refresh('first-token');
+  await refresh(first.body.refreshToken);
+
+  assert.equal((await getMe(first.body.accessToken)).status, 200);
+});
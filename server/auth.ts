@@ -1,12 +1,22 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { storage } from './storage';
+import { TenantStorage, type ITenantStorage } from './tenant-storage';
+import { findPasswordToken, resetPasswordWithToken, sendPasswordReset } from './password-tokens';
+import { getClientInfo, getUserSessions, revokeReusedRefreshToken } from './sessions';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess, type LoginBlock } from './login-throttle';
+import { checkEmailRateLimit, retryAfterSeconds } from './email-throttle';
+import { confirmMfaEnrolment, isMfaEnabled, isMfaRequired, regenerateRecoveryCodes, startMfaEnrolment, verifyMfaChallenge, verifyMfaCode } from './mfa';
+import { disableMfaSchema, forgotPasswordSchema, mfaCodeSchema, resetPasswordSchema, toPublicUser, verifyMfaSchema, type RefreshToken, type User } from '@shared/schema';
+import { hasPermission, type Permission } from '@shared/permissions';
+import { getUserPermissions } from './permissions';
 import crypto from 'crypto';
 import bcrypt from 'bcrypt';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m'; // Short-lived access token
 const REFRESH_TOKEN_EXPIRES_IN = process.env.REFRESH_TOKEN_EXPIRES_IN || '7d'; // 7 days for refresh token
+const MFA_TOKEN_EXPIRES_IN = '5m'; // Time to enter the second factor after the password
 
 // Helper function to generate secure refresh token
 function generateRefreshToken(): string {
@@ -35,8 +45,14 @@ declare global {
         email: string;
         role: string;
         entrepreneurId?: number | null;
+        sessionId?: number;
       };
       userId?: number;
+      tenantId?: number;
+      tenantStorage?: ITenantStorage;
+      rawBody?: Buffer; // Unparsed JSON body, kept for webhook signature checks
+      mfaPending?: boolean; // Authenticated with an MFA token, not signed in yet
+      permissions?: Permission[]; // Filled in by userCan
     }
   }
 }
@@ -46,6 +62,93 @@ export interface JWTPayload {
   email: string;
   role: string;
   entrepreneurId?: number | null;
+  sessionId?: number; // Refresh token the access token was issued with
+}
+
+// "verify": the user has two-factor and must enter a code.
+// "setup": the role requires two-factor and the user has to enrol first.
+type MfaStage = 'verify' | 'setup';
+
+// Issued after a correct password when a second step is due. It only grants
+// the MFA endpoints; authenticateToken rejects it.
+interface MfaTokenPayload {
+  id: number;
+  mfaStage: MfaStage;
+}
+
+function signMfaToken(user: User, mfaStage: MfaStage): string {
+  const payload: MfaTokenPayload = { id: user.id, mfaStage };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: MFA_TOKEN_EXPIRES_IN } as SignOptions);
+}
+
+// The active user an MFA token of this stage was issued to
+async function getMfaTokenUser(token: string, mfaStage: MfaStage): Promise<User | undefined> {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as Partial<MfaTokenPayload>;
+    if (payload.mfaStage !== mfaStage || !payload.id) return undefined;
+    const user = await storage.getUser(payload.id);
+    return user?.isActive ? user : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Store a refresh token for the device making the request and sign an access
+// token tied to it. Given the token it replaces, the new one continues that
+// session (family); otherwise a new session starts.
+async function issueTokens(user: User, req: Request, previous?: RefreshToken) {
+  const refreshToken = generateRefreshToken();
+  const session = await storage.createRefreshToken({
+    token: refreshToken,
+    userId: user.id,
+    expiresAt: getRefreshTokenExpiry(),
+    ...getClientInfo(req),
+    familyId: previous?.familyId,
+    signedInAt: previous ? previous.signedInAt : new Date(),
+  });
+
+  const payload: JWTPayload = {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    entrepreneurId: user.entrepreneurId,
+    sessionId: session.id
+  };
+
+  const accessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as SignOptions);
+  return { accessToken, refreshToken };
+}
+
+// Access and refresh tokens for a user who passed every login step
+async function createLoginResponse(user: User, req: Request) {
+  await recordLoginSuccess(user.email);
+  const { accessToken, refreshToken } = await issueTokens(user, req);
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: JWT_EXPIRES_IN,
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      entrepreneurId: user.entrepreneurId,
+      permissions: await getUserPermissions(user)
+    }
+  };
+}
+
+function sendAccountLocked(res: Response, lockedUntil: Date) {
+  return res.status(423).json({ error: 'Too many failed sign-in attempts. The account is temporarily locked.', lockedUntil });
+}
+
+function sendLoginBlocked(res: Response, block: LoginBlock) {
+  if (block.reason === 'locked') {
+    return sendAccountLocked(res, block.until);
+  }
+  res.set('Retry-After', String(Math.max(1, Math.ceil((block.until.getTime() - Date.now()) / 1000))));
+  return res.status(429).json({ error: 'Too many sign-in attempts. Try again later.', retryAt: block.until });
 }
 
 /**
@@ -54,7 +157,7 @@ export interface JWTPayload {
  *   post:
  *     tags: [Authentication]
  *     summary: User login
- *     description: Authenticate user and return JWT token
+ *     description: Authenticate user and return JWT token. Users with two-factor authentication, and users whose role requires it, get an MFA token instead and finish signing in through the MFA endpoints. Failed attempts are answered progressively slower; after LOGIN_MAX_FAILURES of them the account is locked for LOGIN_LOCKOUT_MINUTES, and an IP address with LOGIN_IP_MAX_ATTEMPTS failures is refused until its window ends.
  *     security: []
  *     requestBody:
  *       required: true
@@ -64,11 +167,13 @@ export interface JWTPayload {
  *             $ref: '#/components/schemas/AuthRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a second step is due
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/AuthResponse'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthResponse'
+ *                 - $ref: '#/components/schemas/MfaPendingResponse'
  *       401:
  *         description: Invalid credentials
  *         content:
@@ -81,6 +186,18 @@ export interface JWTPayload {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       423:
+ *         description: Account temporarily locked after too many failed attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginLockedResponse'
+ *       429:
+ *         description: Too many failed attempts from this IP address; see the Retry-After header
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginRateLimitedResponse'
  */
 export async function login(req: Request, res: Response) {
   try {
@@ -90,48 +207,37 @@ export async function login(req: Request, res: Response) {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
-    const user = await storage.getUserByEmail(email);
-    
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+    const block = await checkLoginAllowed(req.ip, email);
+    if (block) {
+      return sendLoginBlocked(res, block);
     }
 
+    const user = await storage.getUserByEmail(email);
+
     // Compare password with bcrypt hash
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const isPasswordValid = !!user && await bcrypt.compare(password, user.password);
     
-    if (!isPasswordValid) {
+    if (!user || !isPasswordValid) {
+      const lockedUntil = await recordLoginFailure(req.ip, email);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    const payload: JWTPayload = {
-      id: user.id,
-      email: user.email,
-      role: user.role,
-      entrepreneurId: user.entrepreneurId
-    };
+    if (!user.isActive) {
+      return res.status(401).json({ error: 'Account is deactivated' });
+    }
 
-    const accessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as SignOptions);
-    
-    // Generate and store refresh token
-    const refreshToken = generateRefreshToken();
-    await storage.createRefreshToken({
-      token: refreshToken,
-      userId: user.id,
-      expiresAt: getRefreshTokenExpiry()
-    });
+    // The password is right, but the session waits for the second factor
+    if (await isMfaEnabled(user.id)) {
+      return res.json({ mfaRequired: true, mfaToken: signMfaToken(user, 'verify') });
+    }
+    if (isMfaRequired(user)) {
+      return res.json({ mfaSetupRequired: true, mfaToken: signMfaToken(user, 'setup') });
+    }
 
-    res.json({
-      accessToken,
-      refreshToken,
-      expiresIn: JWT_EXPIRES_IN,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        entrepreneurId: user.entrepreneurId
-      }
-    });
+    res.json(await createLoginResponse(user, req));
   } catch (error) {
     console.error('Login error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -170,20 +276,48 @@ export async function verifyToken(req: Request, res: Response) {
       return res.status(401).json({ error: 'User not found' });
     }
 
-    res.json(user);
+    res.json(toPublicUser(user));
   } catch (error) {
     console.error('Token verification error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 }
 
+/**
+ * @swagger
+ * /api/auth/permissions:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Current permissions
+ *     description: What the current user may do, from their role and, for collaborators, their custom role. The client hides pages and buttons the user has no permission for.
+ *     responses:
+ *       200:
+ *         description: Role and permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserPermissions'
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+export async function getCurrentPermissions(req: Request, res: Response) {
+  try {
+    res.json({ role: req.user!.role, permissions: await getUserPermissions(req.user!) });
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 /**
  * @swagger
  * /api/auth/refresh:
  *   post:
  *     tags: [Authentication]
  *     summary: Refresh access token
- *     description: Generate a new access token using a valid refresh token
+ *     description: Generate a new access token using a valid refresh token. The refresh token is replaced by a new one on every call. Presenting a refresh token again after it was replaced signs out its whole session, as the token may have been stolen.
  *     security: []
  *     requestBody:
  *       required: true
@@ -216,7 +350,7 @@ export async function verifyToken(req: Request, res: Response) {
  *                   type: string
  *                   description: Access token expiration time
  *       401:
- *         description: Invalid or expired refresh token
+ *         description: Invalid, expired or reused refresh token
  *       400:
  *         description: Bad request
  */
@@ -228,9 +362,6 @@ export async function refreshToken(req: Request, res: Response) {
       return res.status(400).json({ error: 'Refresh token is required' });
     }
 
-    // Clean expired tokens
-    await storage.cleanExpiredTokens();
-
     // Validate refresh token
     const storedToken = await storage.getRefreshToken(refreshToken);
     if (!storedToken) {
@@ -239,37 +370,45 @@ export async function refreshToken(req: Request, res: Response) {
 
     // Check if token is expired
     if (new Date() > storedToken.expiresAt) {
-      await storage.revokeRefreshToken(refreshToken);
+      await storage.revokeRefreshToken(refreshToken, 'revoked');
       return res.status(401).json({ error: 'Refresh token expired' });
     }
 
+    // Tokens are used once; a rotated one coming back may have been stolen.
+    // Tokens of a session that was signed out are simply no longer valid.
+    if (storedToken.isRevoked) {
+      if (storedToken.revokeReason === 'rotated') {
+        await revokeReusedRefreshToken(storedToken, req);
+      }
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
     // Get user details
     const user = await storage.getUser(storedToken.userId);
     if (!user) {
-      await storage.revokeRefreshToken(refreshToken);
+      await storage.revokeRefreshToken(refreshToken, 'revoked');
       return res.status(401).json({ error: 'User not found' });
     }
 
-    // Revoke old refresh token for security (token rotation)
-    await storage.revokeRefreshToken(refreshToken);
-
-    // Generate new tokens
-    const payload: JWTPayload = {
-      id: user.id,
-      email: user.email,
-      role: user.role,
-      entrepreneurId: user.entrepreneurId
-    };
+    if (!user.isActive) {
+      await storage.revokeRefreshToken(refreshToken, 'revoked');
+      return res.status(401).json({ error: 'Account is deactivated' });
+    }
 
-    const newAccessToken = jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as SignOptions);
-    const newRefreshToken = generateRefreshToken();
+    // Revoke old refresh token for security (token rotation). Only the
+    // request that revokes it may issue the next one; a concurrent request
+    // with the same token is a reuse, unless the session was signed out
+    // in the meantime.
+    if (!(await storage.revokeRefreshToken(refreshToken, 'rotated'))) {
+      const revokedToken = await storage.getRefreshToken(refreshToken);
+      if (revokedToken?.revokeReason === 'rotated') {
+        await revokeReusedRefreshToken(revokedToken, req);
+      }
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
 
-    // Store new refresh token
-    await storage.createRefreshToken({
-      token: newRefreshToken,
-      userId: user.id,
-      expiresAt: getRefreshTokenExpiry()
-    });
+    // The new tokens continue the same session
+    const { accessToken: newAccessToken, refreshToken: newRefreshToken } = await issueTokens(user, req, storedToken);
 
     res.json({
       accessToken: newAccessToken,
@@ -332,7 +471,7 @@ export async function logout(req: Request, res: Response) {
 
     if (refreshToken) {
       // Logout from current device - revoke specific refresh token
-      await storage.revokeRefreshToken(refreshToken);
+      await storage.revokeRefreshToken(refreshToken, 'revoked');
       return res.json({ message: 'Logout successful' });
     }
 
@@ -398,7 +537,565 @@ export async function logoutFromAllDevices(req: Request, res: Response) {
   }
 }
 
-// JWT Authentication Middleware
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: List active sessions
+ *     description: Devices the current user is signed in on, most recently used first
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/UserSession'
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+export async function getSessions(req: Request, res: Response) {
+  try {
+    res.json(await getUserSessions(req.user!.id, req.user!.sessionId));
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     tags: [Authentication]
+ *     summary: Revoke a session
+ *     description: Sign one of the current user's devices out. Its access token keeps working until it expires, at most JWT_EXPIRES_IN.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Session ID
+ *     responses:
+ *       204:
+ *         description: Session revoked
+ *       401:
+ *         description: Authentication required
+ *       404:
+ *         description: Session not found
+ *       500:
+ *         description: Internal server error
+ */
+export async function revokeSession(req: Request, res: Response) {
+  try {
+    const revoked = await storage.revokeUserRefreshToken(req.user!.id, parseInt(req.params.id));
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Request a password reset
+ *     description: Email a single-use link to reset the password of the account with this email. The response is the same whether or not the account exists.
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "user@example.com"
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Bad request
+ *       429:
+ *         description: Too many reset requests from this IP or for this email. Retry-After tells when to try again.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmailRateLimitedResponse'
+ *       500:
+ *         description: Internal server error
+ */
+export async function forgotPassword(req: Request, res: Response) {
+  try {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'A valid email is required' });
+    }
+
+    const retryAt = await checkEmailRateLimit('password-reset', req.ip, parsed.data.email);
+    if (retryAt) {
+      res.set('Retry-After', retryAfterSeconds(retryAt));
+      return res.status(429).json({ error: 'Too many reset requests. Try again later.', retryAt });
+    }
+
+    const user = await storage.getUserByEmail(parsed.data.email);
+    if (user) {
+      await sendPasswordReset(user);
+    }
+
+    res.json({ message: 'If an account exists for this email, a reset link is on its way' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/password-tokens/{token}:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Check a password link
+ *     description: Tell whether an invite or password reset link can still be used, and for which account
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token from the emailed link
+ *     responses:
+ *       200:
+ *         description: The link is valid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 email:
+ *                   type: string
+ *                 name:
+ *                   type: string
+ *                 purpose:
+ *                   type: string
+ *                   enum: [invite, reset]
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       404:
+ *         description: The link is invalid, used or expired
+ *       500:
+ *         description: Internal server error
+ */
+export async function getPasswordToken(req: Request, res: Response) {
+  try {
+    const found = await findPasswordToken(req.params.token);
+    if (!found) {
+      return res.status(404).json({ error: 'This link is invalid or has expired' });
+    }
+
+    res.json({
+      email: found.user.email,
+      name: found.user.name,
+      purpose: found.passwordToken.purpose,
+      expiresAt: found.passwordToken.expiresAt,
+    });
+  } catch (error) {
+    console.error('Password token check error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Set a password from a link
+ *     description: Set the password with the token of an invite or password reset link. The link stops working and every session of the user is signed out.
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password set; the user can sign in with it
+ *       400:
+ *         description: Bad request, or the link is invalid, used or expired
+ *       500:
+ *         description: Internal server error
+ */
+export async function resetPassword(req: Request, res: Response) {
+  try {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message ?? 'Token and password are required' });
+    }
+
+    const user = await resetPasswordWithToken(parsed.data.token, parsed.data.password);
+    if (!user) {
+      return res.status(400).json({ error: 'This link is invalid or has expired' });
+    }
+
+    res.json({ message: 'Password updated. You can now sign in.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/mfa/verify:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Finish signing in with the second factor
+ *     description: Exchange the MFA token from login and a code from the authenticator app, or one of the recovery codes, for the access and refresh tokens. Each code works once.
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MfaVerifyRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Bad request
+ *       401:
+ *         description: Invalid code, or the MFA token is invalid or expired
+ *       423:
+ *         description: Account temporarily locked after too many failed attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginLockedResponse'
+ *       429:
+ *         description: Too many failed attempts from this IP address; see the Retry-After header
+ *       500:
+ *         description: Internal server error
+ */
+export async function verifyMfa(req: Request, res: Response) {
+  try {
+    const parsed = verifyMfaSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid data' });
+    }
+
+    const user = await getMfaTokenUser(parsed.data.mfaToken, 'verify');
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in expired, please sign in again' });
+    }
+
+    const block = await checkLoginAllowed(req.ip, user.email);
+    if (block) {
+      return sendLoginBlocked(res, block);
+    }
+
+    if (!(await verifyMfaChallenge(user.id, parsed.data))) {
+      const lockedUntil = await recordLoginFailure(req.ip, user.email);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+
+    res.json(await createLoginResponse(user, req));
+  } catch (error) {
+    console.error('MFA verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/mfa:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: Two-factor status
+ *     description: Whether the current user has two-factor authentication, whether their role requires it and how many recovery codes are left
+ *     responses:
+ *       200:
+ *         description: Two-factor status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MfaStatus'
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+export async function getMfaStatus(req: Request, res: Response) {
+  try {
+    const enabled = await isMfaEnabled(req.user!.id);
+    res.json({
+      enabled,
+      required: isMfaRequired(req.user!),
+      recoveryCodesLeft: enabled ? await storage.countMfaRecoveryCodes(req.user!.id) : 0,
+    });
+  } catch (error) {
+    console.error('MFA status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/mfa/setup:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Start two-factor enrolment
+ *     description: Generate a new secret to add to an authenticator app, as a QR code and as text. Two-factor stays off until the enrolment is confirmed. Signed-in users call this with their access token; users whose role requires two-factor send the MFA token from login instead.
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *                 description: MFA token from a login that requires enrolment
+ *     responses:
+ *       200:
+ *         description: New secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MfaEnrolment'
+ *       401:
+ *         description: Authentication required
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       500:
+ *         description: Internal server error
+ */
+export async function setupMfa(req: Request, res: Response) {
+  try {
+    const user = await storage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    if (await isMfaEnabled(user.id)) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json(await startMfaEnrolment(user));
+  } catch (error) {
+    console.error('MFA setup error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/mfa/enable:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Confirm two-factor enrolment
+ *     description: Turn two-factor authentication on with a code from the app and return the recovery codes, which are not shown again. With an MFA token from login the response also signs the user in.
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               mfaToken:
+ *                 type: string
+ *                 description: MFA token from a login that requires enrolment
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled; includes the tokens of AuthResponse when enrolling during login
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MfaRecoveryCodes'
+ *       400:
+ *         description: Invalid code or no enrolment in progress
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+export async function enableMfa(req: Request, res: Response) {
+  try {
+    const parsed = mfaCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid data' });
+    }
+
+    const recoveryCodes = await confirmMfaEnrolment(req.user!.id, parsed.data.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    if (!req.mfaPending) {
+      return res.json({ recoveryCodes });
+    }
+
+    const user = await storage.getUser(req.user!.id);
+    res.json({ recoveryCodes, ...(await createLoginResponse(user!, req)) });
+  } catch (error) {
+    console.error('MFA enable error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/mfa/disable:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Turn two-factor off
+ *     description: Remove the authenticator and the recovery codes of the current user, confirmed with a code or a recovery code. Not allowed for roles that require two-factor.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MfaChallenge'
+ *     responses:
+ *       200:
+ *         description: Two-factor disabled
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Two-factor authentication is required for this role
+ *       500:
+ *         description: Internal server error
+ */
+export async function disableMfa(req: Request, res: Response) {
+  try {
+    if (isMfaRequired(req.user!)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+
+    const parsed = disableMfaSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid data' });
+    }
+
+    if (!(await verifyMfaChallenge(req.user!.id, parsed.data))) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    await storage.deleteUserMfa(req.user!.id);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('MFA disable error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/mfa/recovery-codes:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Replace the recovery codes
+ *     description: Issue a new set of recovery codes, confirmed with a code from the app. The previous codes stop working.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MfaRecoveryCodes'
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         description: Authentication required
+ *       500:
+ *         description: Internal server error
+ */
+export async function regenerateMfaRecoveryCodes(req: Request, res: Response) {
+  try {
+    const parsed = mfaCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || 'Invalid data' });
+    }
+
+    if (!(await verifyMfaCode(req.user!.id, parsed.data.code))) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!.id) });
+  } catch (error) {
+    console.error('MFA recovery codes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// 401 for an access token that is expired or otherwise unusable. The
+// WWW-Authenticate error tells clients to refresh; a 403 never does, so a
+// forbidden request does not rotate the refresh token.
+function sendInvalidToken(res: Response) {
+  res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+  return res.status(401).json({ error: 'Invalid or expired token' });
+}
+
+// JWT Authentication Middleware. Access tokens stop working as soon as the
+// user is deactivated or their session is signed out, not only once they
+// expire.
 export function authenticateToken(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
@@ -409,59 +1106,119 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
 
   jwt.verify(token, JWT_SECRET, async (err, decoded) => {
     if (err) {
-      return res.status(403).json({ error: 'Invalid or expired token' });
+      return sendInvalidToken(res);
+    }
+
+    // A pending login is not a session
+    if ((decoded as Partial<MfaTokenPayload>).mfaStage) {
+      return sendInvalidToken(res);
     }
 
     const payload = decoded as JWTPayload;
+    try {
+      const user = await storage.getUser(payload.id);
+      if (!user?.isActive) {
+        return sendInvalidToken(res);
+      }
+      if (payload.sessionId !== undefined && !(await storage.isRefreshSessionActive(payload.sessionId))) {
+        return sendInvalidToken(res);
+      }
+    } catch (error) {
+      console.error('Session check error:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+
     req.user = payload;
     req.userId = payload.id; // For backward compatibility
     next();
   });
 }
 
-// Role-based authorization middleware
-export function authorize(roles: string[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
+// Enrolment takes an access token, or the MFA token of a login that cannot
+// finish until the user enrols because their role requires two-factor
+export async function authenticateMfaEnrolment(req: Request, res: Response, next: NextFunction) {
+  const mfaToken = req.body?.mfaToken;
+  if (!mfaToken) {
+    return authenticateToken(req, res, next);
+  }
+
+  try {
+    const user = await getMfaTokenUser(String(mfaToken), 'setup');
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in expired, please sign in again' });
+    }
+
+    req.user = { id: user.id, email: user.email, role: user.role, entrepreneurId: user.entrepreneurId };
+    req.userId = user.id;
+    req.mfaPending = true;
+    next();
+  } catch (error) {
+    console.error('MFA token error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Whether the authenticated user has a permission; the permissions are looked
+// up once per request
+export async function userCan(req: Request, permission: Permission): Promise<boolean> {
+  if (!req.user) return false;
+  req.permissions ??= await getUserPermissions(req.user);
+  return hasPermission(req.permissions, permission);
+}
+
+// Permission-based authorization middleware
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    if (!roles.includes(req.user.role)) {
-      return res.status(403).json({ error: 'Insufficient permissions' });
+    try {
+      if (!(await userCan(req, permission))) {
+        return res.status(403).json({ error: 'Insufficient permissions' });
+      }
+    } catch (error) {
+      console.error('Permission check error:', error);
+      return res.status(500).json({ error: 'Internal server error' });
     }
 
     next();
   };
 }
 
-// Check if user is entrepreneur or super-admin
-export function authorizeEntrepreneurOrAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.user) {
-    return res.status(401).json({ error: 'Authentication required' });
+// Resolve the entrepreneur (tenant) a token belongs to. Entrepreneurs own their
+// tenant, collaborators and customers belong to their entrepreneur and
+// super-admins are not bound to any tenant.
+export function getTenantId(user: JWTPayload): number | undefined {
+  if (user.role === 'super-admin') {
+    return undefined;
   }
 
-  if (!['entrepreneur', 'super-admin'].includes(req.user.role)) {
-    return res.status(403).json({ error: 'Entrepreneur or admin access required' });
+  if (user.role === 'entrepreneur') {
+    return user.id;
   }
 
-  next();
+  return user.entrepreneurId ?? undefined;
 }
 
-// Check if user owns the resource or is super-admin
-export function authorizeResourceOwner(req: Request, res: Response, next: NextFunction) {
+// Tenant scoping middleware. Sets req.tenantId and req.tenantStorage from the
+// token; super-admins may target a specific tenant through the entrepreneurId
+// query or body field, otherwise they see every tenant.
+export function resolveTenant(req: Request, res: Response, next: NextFunction) {
   if (!req.user) {
     return res.status(401).json({ error: 'Authentication required' });
   }
 
-  // Super-admin can access everything
+  let requestedTenantId: number | undefined;
   if (req.user.role === 'super-admin') {
-    return next();
+    const requested = req.query.entrepreneurId ?? req.body?.entrepreneurId;
+    const tenantId = requested !== undefined ? parseInt(String(requested)) : NaN;
+    requestedTenantId = Number.isNaN(tenantId) ? undefined : tenantId;
+  } else if (!getTenantId(req.user)) {
+    return res.status(403).json({ error: 'No tenant associated with this account' });
   }
 
-  // Entrepreneurs can only access their own resources
-  if (req.user.role === 'entrepreneur') {
-    return next(); // Additional checks should be done in the route handlers
-  }
-
-  return res.status(403).json({ error: 'Access denied' });
-}
\ No newline at end of file
+  req.tenantStorage = new TenantStorage(storage, req.user, requestedTenantId);
+  req.tenantId = req.tenantStorage.tenantId;
+  next();
+}
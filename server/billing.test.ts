@@ -0,0 +1,263 @@
+import { test, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Accounting, CustomerPlan, CustomerPlanHistory, EmailNotification, PriceTable, User } from '@shared/schema';
+
+let billing: typeof import('./billing');
+
+// The plans of one customer and everything booked for them, in place of the
+// database
+let plans: CustomerPlan[];
+let priceTables: PriceTable[];
+let history: CustomerPlanHistory[];
+let entries: Accounting[];
+let emails: EmailNotification[];
+
+const CUSTOMER = { id: 11, name: 'Jane Customer', email: 'jane@example.com', isActive: true, entrepreneurId: 1 } as User;
+
+function makePlan(overrides: Partial<CustomerPlan> = {}): CustomerPlan {
+  return {
+    id: 1,
+    customerId: CUSTOMER.id,
+    priceTableId: 1,
+    planType: '3x',
+    amount: '300.00',
+    paymentGatewayId: null,
+    payHash: null,
+    payStatus: 'pending',
+    payDate: null,
+    payLink: null,
+    payExpiration: null,
+    planExpirationDate: null,
+    subscriptionStatus: 'active',
+    renewedFromPlanId: null,
+    changedFromPlanId: null,
+    creditAmount: null,
+    isActive: false,
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    updatedAt: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function makePriceTable(overrides: Partial<PriceTable> = {}): PriceTable {
+  return {
+    id: 1,
+    title: 'Starter',
+    subtitle: null,
+    advantages: [],
+    oldPrice3x: null,
+    currentPrice3x: '300.00',
+    oldPrice12x: null,
+    currentPrice12x: '1000.00',
+    currency: 'BRL',
+    months: 3,
+    image1: null,
+    image2: null,
+    buyLink: 'https://example.com/buy',
+    isActive: true,
+    displayOrder: 0,
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    updatedAt: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function findPlan(id: number) {
+  return plans.find((plan) => plan.id === id);
+}
+
+before(async () => {
+  // Only the storage methods replaced below are reached, so no database is
+  // needed; server/db only asks for a connection string
+  process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
+  const { storage } = await import('./storage');
+  billing = await import('./billing');
+
+  mock.method(storage, 'getCustomerPlan', async (id: number) => findPlan(id));
+  mock.method(storage, 'getCustomerPlanRenewal', async (id: number) =>
+    plans.find((plan) => plan.renewedFromPlanId === id));
+  mock.method(storage, 'updateCustomerPlan', async (id: number, update: Partial<CustomerPlan>) => {
+    const plan = findPlan(id);
+    if (!plan) return undefined;
+    Object.assign(plan, update);
+    return { ...plan };
+  });
+  // Checked and applied in one step, like the conditional UPDATE
+  mock.method(storage, 'transitionCustomerPlan', async (id: number, fromPayStatuses: string[], update: Partial<CustomerPlan>) => {
+    const plan = findPlan(id);
+    if (!plan || !fromPayStatuses.includes(plan.payStatus)) return undefined;
+    Object.assign(plan, update);
+    return { ...plan };
+  });
+  mock.method(storage, 'createCustomerPlan', async (plan: Partial<CustomerPlan>) => {
+    const created = makePlan({ ...plan, id: plans.length + 1 });
+    plans.push(created);
+    return { ...created };
+  });
+  mock.method(storage, 'createCustomerPlanHistory', async (entry: Partial<CustomerPlanHistory>) => {
+    const created = { id: history.length + 1, createdAt: new Date(), ...entry } as CustomerPlanHistory;
+    history.push(created);
+    return created;
+  });
+  mock.method(storage, 'bookCustomerPlanEntry', async (
+    customerPlanId: number,
+    decide: (plan: CustomerPlan | undefined, entries: Accounting[]) => Partial<Accounting> | undefined,
+  ) => {
+    const entry = decide(findPlan(customerPlanId), entries.filter((e) => e.customerPlanId === customerPlanId));
+    if (!entry) return undefined;
+    const created = { id: entries.length + 1, ...entry } as Accounting;
+    entries.push(created);
+    return created;
+  });
+  mock.method(storage, 'getPriceTable', async (id: number) => priceTables.find((priceTable) => priceTable.id === id));
+  mock.method(storage, 'getUser', async (id: number) => (id === CUSTOMER.id ? CUSTOMER : undefined));
+  mock.method(storage, 'getNotificationPreferences', async () => []);
+  mock.method(storage, 'createEmailNotification', async (email: Partial<EmailNotification>) => {
+    const created = { id: emails.length + 1, ...email } as EmailNotification;
+    emails.push(created);
+    return created;
+  });
+  mock.method(storage, 'getDueEmailNotifications', async () => []);
+});
+
+beforeEach(() => {
+  plans = [makePlan()];
+  priceTables = [makePriceTable()];
+  history = [];
+  entries = [];
+  emails = [];
+});
+
+test('a payment starts the plan period and is booked and announced once', async () => {
+  const paidAt = new Date('2026-01-02T10:00:00Z');
+  const settled = await billing.settleCustomerPlan(makePlan(), 'paid', paidAt);
+
+  assert.equal(settled?.payStatus, 'paid');
+  assert.equal(settled?.isActive, true);
+  assert.deepEqual(settled?.planExpirationDate, new Date('2026-04-02T10:00:00Z'));
+  assert.deepEqual(history.map((entry) => [entry.field, entry.fromStatus, entry.toStatus]), [['payStatus', 'pending', 'paid']]);
+  assert.equal(entries.length, 1);
+  assert.equal(emails.length, 1);
+});
+
+test('racing deliveries of one payment settle the plan once', async () => {
+  // Both deliveries read the plan while it was still pending
+  const stale = makePlan();
+  const results = await Promise.all([
+    billing.settleCustomerPlan(stale, 'paid', new Date('2026-01-02T10:00:00Z')),
+    billing.settleCustomerPlan(stale, 'paid', new Date('2026-01-02T10:00:01Z')),
+  ]);
+
+  assert.equal(results.filter(Boolean).length, 1);
+  assert.equal(history.length, 1);
+  assert.equal(entries.length, 1);
+  assert.equal(emails.length, 1);
+});
+
+test('a status the plan cannot move to is ignored', async () => {
+  plans = [makePlan({ payStatus: 'paid' })];
+
+  assert.equal(await billing.settleCustomerPlan(plans[0], 'expired', new Date()), undefined);
+  assert.equal(await billing.settleCustomerPlan(plans[0], 'paid', new Date()), undefined);
+  assert.equal(plans[0].payStatus, 'paid');
+  assert.deepEqual(history, []);
+});
+
+test('a refund withdraws the charge of the pending renewal', async () => {
+  plans = [
+    makePlan({ payStatus: 'paid', isActive: true }),
+    makePlan({ id: 2, renewedFromPlanId: 1 }),
+  ];
+
+  const refunded = await billing.settleCustomerPlan({ ...plans[0] }, 'refunded', new Date());
+
+  assert.equal(refunded?.payStatus, 'refunded');
+  assert.equal(refunded?.isActive, false);
+  assert.equal(plans[1].payStatus, 'expired');
+});
+
+test('a plan covered in full by credit books nothing, however often it is synced', async () => {
+  plans = [makePlan({ payStatus: 'paid', creditAmount: '300.00' })];
+
+  await billing.syncPlanAccounting(undefined, plans[0]);
+  await billing.syncPlanAccounting(plans[0], plans[0]);
+
+  assert.deepEqual(entries, []);
+});
+
+test('a paid plan books the amount after credit once, and reverses it on refund', async () => {
+  plans = [makePlan({ payStatus: 'paid', creditAmount: '120.00' })];
+
+  await billing.syncPlanAccounting(undefined, plans[0]);
+  await billing.syncPlanAccounting(plans[0], plans[0]);
+  assert.deepEqual(entries.map((entry) => [entry.type, entry.amount, entry.entrepreneurId]), [['receives', '180.00', 1]]);
+
+  await billing.settleCustomerPlan({ ...plans[0] }, 'refunded', new Date());
+  await billing.syncPlanAccounting(plans[0], plans[0]);
+  assert.deepEqual(entries.map((entry) => [entry.type, entry.amount]), [['receives', '180.00'], ['expenses', '180.00']]);
+});
+
+test('deleting a paid plan reverses what it booked', async () => {
+  plans = [makePlan({ payStatus: 'paid' })];
+  await billing.syncPlanAccounting(undefined, plans[0]);
+
+  await billing.syncPlanAccounting(plans[0], undefined);
+
+  assert.deepEqual(entries.map((entry) => [entry.type, entry.amount]), [['receives', '300.00'], ['expenses', '300.00']]);
+  assert.match(entries[1].description, /^Cancelled plan: Starter \(3x\) - Jane Customer$/);
+});
+
+// Halfway through a 90-day period of a 300.00 plan
+const CHANGE_AT = new Date('2026-02-15T12:00:00Z');
+
+function paidPlan() {
+  return makePlan({
+    payStatus: 'paid',
+    isActive: true,
+    payDate: new Date('2026-01-01T12:00:00Z'),
+    planExpirationDate: new Date('2026-04-01T12:00:00Z'),
+  });
+}
+
+test('an upgrade credits the unused half of the current period', async () => {
+  plans = [paidPlan()];
+  priceTables.push(makePriceTable({ id: 2, title: 'Pro', currentPrice3x: '600.00' }));
+
+  const quote = await billing.quotePlanChange(plans[0], { priceTableId: 2 }, CHANGE_AT);
+
+  assert.deepEqual(
+    [quote.amount, quote.credit, quote.amountDue, quote.remainingDays],
+    ['600.00', '150.00', '450.00', 45],
+  );
+});
+
+test('credit beyond the new price is not carried over, and the change applies at once', async () => {
+  plans = [paidPlan()];
+  priceTables.push(makePriceTable({ id: 2, title: 'Lite', currentPrice3x: '100.00' }));
+
+  const newPlan = await billing.changeCustomerPlan(plans[0], { priceTableId: 2 }, CHANGE_AT);
+
+  assert.equal(newPlan.payStatus, 'paid');
+  assert.equal(newPlan.creditAmount, '100.00');
+  assert.equal(newPlan.changedFromPlanId, 1);
+  assert.equal(plans[0].subscriptionStatus, 'changed');
+  assert.equal(plans[0].isActive, false);
+  assert.deepEqual(entries, []);
+});
+
+test('only active, paid plans can be changed, and only within one currency', async () => {
+  priceTables.push(makePriceTable({ id: 2, currency: 'USD' }));
+
+  await assert.rejects(
+    billing.quotePlanChange(makePlan(), { priceTableId: 2 }, CHANGE_AT),
+    /Only active, paid plans can be changed/,
+  );
+  await assert.rejects(
+    billing.quotePlanChange(paidPlan(), { priceTableId: 1 }, CHANGE_AT),
+    /already on this plan/,
+  );
+  await assert.rejects(
+    billing.quotePlanChange(paidPlan(), { priceTableId: 2 }, CHANGE_AT),
+    (error) => error instanceof billing.BillingError && /Cannot credit a BRL plan against a USD/.test(error.message),
+  );
+});
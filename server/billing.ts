@@ -0,0 +1,372 @@
+import type { Accounting, ChangeCustomerPlan, CustomerPlan, PaymentGateway, PriceTable, UpdateCustomerPlan } from '@shared/schema';
+import { storage } from './storage';
+import { getPaymentGatewayAdapter, type ChargeStatus } from './payment-gateways';
+import { notifyCustomerPlanChange } from './notifications';
+
+const PAYMENT_LINK_EXPIRES_IN_DAYS = parseInt(process.env.PAYMENT_LINK_EXPIRES_IN_DAYS || '3');
+const SUBSCRIPTIONS_CATEGORY = 'Subscriptions';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Payment status transitions a gateway event may apply, keyed by the new
+// status. Anything else (e.g. a late "expired" after "paid") is ignored.
+const PAY_STATUS_TRANSITIONS: Partial<Record<ChargeStatus, string[]>> = {
+  paid: ['pending', 'failed', 'expired'],
+  failed: ['pending'],
+  expired: ['pending'],
+  refunded: ['paid'],
+};
+
+// Expected billing failures that the caller can fix (e.g. no gateway
+// configured), as opposed to errors returned by the provider itself
+export class BillingError extends Error {}
+
+// Pick the gateway that charges a customer: the requested one, or the first
+// active gateway of the customer's tenant
+async function resolveGateway(
+  entrepreneurId: number | null,
+  paymentGatewayId?: number | null,
+): Promise<PaymentGateway> {
+  if (!entrepreneurId) {
+    throw new BillingError('Customer does not belong to a tenant');
+  }
+
+  if (paymentGatewayId) {
+    const gateway = await storage.getPaymentGateway(paymentGatewayId);
+    if (!gateway || gateway.entrepreneurId !== entrepreneurId || !gateway.isActive) {
+      throw new BillingError('Payment gateway not found or inactive');
+    }
+    return gateway;
+  }
+
+  const gateways = await storage.getAllPaymentGateways(entrepreneurId);
+  const gateway = gateways.find((g) => g.entrepreneurId === entrepreneurId && g.isActive);
+  if (!gateway) {
+    throw new BillingError('No active payment gateway configured for this customer');
+  }
+  return gateway;
+}
+
+// What the customer actually pays for a plan: its price minus any credit
+// carried over from a plan it replaced
+export function chargeAmount(plan: CustomerPlan): number {
+  return parseFloat(plan.amount) - parseFloat(plan.creditAmount ?? '0');
+}
+
+// Issue the gateway charge for a freshly created plan and store its payment
+// link. The plan is removed again if the charge cannot be created, so no plan
+// is left pending without a way to pay it.
+export async function chargeCustomerPlan(
+  plan: CustomerPlan,
+  priceTable: PriceTable,
+): Promise<CustomerPlan> {
+  try {
+    const customer = await storage.getUser(plan.customerId);
+    if (!customer) {
+      throw new BillingError('Customer not found');
+    }
+
+    const gateway = await resolveGateway(customer.entrepreneurId, plan.paymentGatewayId);
+    const dueDate = new Date(Date.now() + PAYMENT_LINK_EXPIRES_IN_DAYS * DAY_MS);
+
+    const charge = await getPaymentGatewayAdapter(gateway).createCharge({
+      amount: chargeAmount(plan),
+      currency: priceTable.currency,
+      description: `${priceTable.title} - ${plan.planType}`,
+      customer: { name: customer.name, email: customer.email },
+      dueDate,
+      externalReference: `customer-plan-${plan.id}`,
+    });
+
+    const chargedPlan = await storage.updateCustomerPlan(plan.id, {
+      paymentGatewayId: gateway.id,
+      payHash: charge.id,
+      payLink: charge.payLink,
+      payExpiration: charge.expiresAt,
+    });
+    return chargedPlan ?? plan;
+  } catch (error) {
+    await storage.deleteCustomerPlan(plan.id);
+    throw error;
+  }
+}
+
+// Access a plan gives for a payment status: only paid plans are usable, and a
+// refund ends the subscription instead of letting it run until expiry
+export function planAccess(payStatus: string): Pick<UpdateCustomerPlan, 'subscriptionStatus' | 'isActive'> {
+  if (payStatus === 'paid') return { subscriptionStatus: 'active', isActive: true };
+  if (payStatus === 'refunded') return { subscriptionStatus: 'cancelled', isActive: false };
+  return { isActive: false };
+}
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Record the payment and subscription status changes between two versions of
+// a plan. Pass no `before` to record the initial statuses of a new plan.
+export async function recordPlanHistory(
+  before: CustomerPlan | undefined,
+  after: CustomerPlan | undefined,
+  note?: string,
+) {
+  if (!after) return;
+
+  for (const field of ['payStatus', 'subscriptionStatus'] as const) {
+    const fromStatus = before?.[field] ?? null;
+    if (fromStatus === after[field]) continue;
+
+    await storage.createCustomerPlanHistory({
+      customerPlanId: after.id,
+      field,
+      fromStatus,
+      toStatus: after[field],
+      note: note ?? null,
+    });
+  }
+}
+
+// A renewal starts where the period it renews ends, so paying early does not
+// shorten the current period
+async function periodStart(plan: CustomerPlan, paidAt: Date): Promise<Date> {
+  if (!plan.renewedFromPlanId) return paidAt;
+
+  const previous = await storage.getCustomerPlan(plan.renewedFromPlanId);
+  const previousEnd = previous?.planExpirationDate;
+  return previousEnd && previousEnd > paidAt ? previousEnd : paidAt;
+}
+
+// Withdraw the open gateway charge of a plan, if it has one, so the customer
+// can no longer pay it. Throws when the gateway fails to cancel it.
+export async function cancelGatewayCharge(plan: CustomerPlan) {
+  const gateway = plan.paymentGatewayId && await storage.getPaymentGateway(plan.paymentGatewayId);
+  if (gateway && plan.payHash) {
+    await getPaymentGatewayAdapter(gateway).cancelCharge(plan.payHash);
+  }
+}
+
+// Withdraw the gateway charge of a pending plan and mark it expired.
+// Cancelling at the gateway is best effort: the plan is expired either way.
+export async function cancelCustomerPlanCharge(plan: CustomerPlan, now: Date = new Date()) {
+  if (plan.payStatus !== 'pending') return;
+
+  try {
+    await cancelGatewayCharge(plan);
+  } catch (error) {
+    console.error(`Failed to cancel charge of customer plan ${plan.id}:`, error);
+  }
+  await settleCustomerPlan(plan, 'expired', now);
+}
+
+// Close the plan a newly paid plan replaces: the period a renewal follows
+// once it already lapsed, or the plan left behind by an upgrade/downgrade
+async function closeReplacedPlan(plan: CustomerPlan, now: Date) {
+  if (plan.renewedFromPlanId) {
+    const previous = await storage.getCustomerPlan(plan.renewedFromPlanId);
+    if (previous?.subscriptionStatus === 'past_due') {
+      const closed = await storage.updateCustomerPlan(previous.id, { subscriptionStatus: 'expired', isActive: false });
+      await recordPlanHistory(previous, closed, `Renewed by plan ${plan.id}`);
+    }
+  }
+
+  if (plan.changedFromPlanId) {
+    const previous = await storage.getCustomerPlan(plan.changedFromPlanId);
+    if (previous && previous.subscriptionStatus !== 'changed') {
+      const closed = await storage.updateCustomerPlan(previous.id, { subscriptionStatus: 'changed', isActive: false });
+      await recordPlanHistory(previous, closed, `Changed to plan ${plan.id}`);
+
+      // The replaced plan is no longer renewed
+      const renewal = await storage.getCustomerPlanRenewal(previous.id);
+      if (renewal) await cancelCustomerPlanCharge(renewal, now);
+    }
+  }
+}
+
+// Apply a charge status reported by the gateway to a plan. Returns the updated
+// plan, or undefined when the plan is already in that state or the
+// transition is not allowed, so repeated deliveries are harmless. The
+// transition is checked against the stored status as part of the update, so
+// of two deliveries racing for one charge (e.g. "received" and "confirmed")
+// only the first is applied.
+export async function settleCustomerPlan(
+  plan: CustomerPlan,
+  status: ChargeStatus,
+  occurredAt: Date,
+): Promise<CustomerPlan | undefined> {
+  const fromPayStatuses = PAY_STATUS_TRANSITIONS[status];
+  if (!fromPayStatuses?.includes(plan.payStatus)) {
+    return undefined;
+  }
+
+  let settledPlan: CustomerPlan | undefined;
+  if (status !== 'paid') {
+    settledPlan = await storage.transitionCustomerPlan(plan.id, fromPayStatuses, { payStatus: status, ...planAccess(status) });
+
+    // A refunded plan is not renewed either
+    if (settledPlan && status === 'refunded') {
+      const renewal = await storage.getCustomerPlanRenewal(plan.id);
+      if (renewal) await cancelCustomerPlanCharge(renewal, occurredAt);
+    }
+  } else {
+    // The plan runs for the price table's number of months from the payment
+    const priceTable = await storage.getPriceTable(plan.priceTableId);
+    const start = await periodStart(plan, occurredAt);
+    settledPlan = await storage.transitionCustomerPlan(plan.id, fromPayStatuses, {
+      payStatus: 'paid',
+      payDate: occurredAt,
+      planExpirationDate: addMonths(start, priceTable?.months ?? 3),
+      subscriptionStatus: 'active',
+      isActive: true,
+    });
+    if (settledPlan) await closeReplacedPlan(settledPlan, occurredAt);
+  }
+  if (!settledPlan) return undefined;
+
+  await recordPlanHistory(plan, settledPlan, 'Payment gateway update');
+  await syncPlanAccounting(plan, settledPlan);
+  await notifyCustomerPlanChange(plan, settledPlan);
+  return settledPlan;
+}
+
+// Net amount booked by a plan's entries: receipts minus reversals
+function bookedAmount(entries: Accounting[]): number {
+  return entries.reduce(
+    (total, entry) => total + (entry.type === 'receives' ? 1 : -1) * parseFloat(entry.amount),
+    0,
+  );
+}
+
+// Keep the tenant's books in step with a plan's payment status: book a
+// "receives" entry when the plan becomes paid for a non-zero amount, and a
+// reversing "expenses" entry when a paid plan is refunded or deleted (pass
+// no `after`). Entries are never booked twice, so this is safe to call on
+// every change, even by concurrent webhook deliveries: the entries are read
+// and written under a lock on the plan, against its current payment status.
+export async function syncPlanAccounting(before: CustomerPlan | undefined, after: CustomerPlan | undefined) {
+  const plan = after ?? before;
+  if (!plan) return;
+
+  const customer = await storage.getUser(plan.customerId);
+  const entrepreneurId = customer?.entrepreneurId;
+  if (!entrepreneurId) return;
+
+  const priceTable = await storage.getPriceTable(plan.priceTableId);
+  const planName = `${priceTable?.title ?? 'Plan'} (${plan.planType}) - ${customer.name}`;
+
+  await storage.bookCustomerPlanEntry(plan.id, (currentPlan, entries) => {
+    const booked = bookedAmount(entries);
+    const isPaid = !!after && currentPlan?.payStatus === 'paid';
+
+    // Plans paid in full by credit or a coupon have nothing to book
+    if (isPaid && booked <= 0 && chargeAmount(currentPlan) > 0) {
+      return {
+        entrepreneurId,
+        customerPlanId: plan.id,
+        category: SUBSCRIPTIONS_CATEGORY,
+        description: `Subscription payment: ${planName}`,
+        date: currentPlan.payDate ?? new Date(),
+        type: 'receives',
+        amount: chargeAmount(currentPlan).toFixed(2),
+      };
+    }
+    if (!isPaid && booked > 0) {
+      return {
+        entrepreneurId,
+        customerPlanId: plan.id,
+        category: SUBSCRIPTIONS_CATEGORY,
+        description: `${after ? 'Refund' : 'Cancelled plan'}: ${planName}`,
+        date: new Date(),
+        type: 'expenses',
+        amount: booked.toFixed(2),
+      };
+    }
+  });
+}
+
+export interface PlanChangeQuote {
+  priceTable: PriceTable;
+  planType: string;
+  amount: string; // Full price of the new plan
+  credit: string; // Prorated value left on the current plan, capped at the new price
+  amountDue: string;
+  remainingDays: number;
+}
+
+// Current price of a price table for a plan type ('3x' or '12x')
+export function planPrice(priceTable: PriceTable, planType: string): string {
+  return planType === '12x' ? priceTable.currentPrice12x : priceTable.currentPrice3x;
+}
+
+// Price a move to another price table. The unused part of the current period
+// is credited pro rata by time; credit beyond the new price is not carried over.
+export async function quotePlanChange(
+  plan: CustomerPlan,
+  change: ChangeCustomerPlan,
+  now: Date = new Date(),
+): Promise<PlanChangeQuote> {
+  const expiresAt = plan.planExpirationDate;
+  if (plan.payStatus !== 'paid' || plan.subscriptionStatus !== 'active' || !expiresAt || expiresAt <= now) {
+    throw new BillingError('Only active, paid plans can be changed');
+  }
+
+  const planType = change.planType ?? plan.planType;
+  if (change.priceTableId === plan.priceTableId && planType === plan.planType) {
+    throw new BillingError('The customer is already on this plan');
+  }
+
+  const priceTable = await storage.getPriceTable(change.priceTableId);
+  if (!priceTable?.isActive) {
+    throw new BillingError('Price table not found or inactive');
+  }
+
+  const currentPriceTable = await storage.getPriceTable(plan.priceTableId);
+  if (currentPriceTable && currentPriceTable.currency !== priceTable.currency) {
+    throw new BillingError(`Cannot credit a ${currentPriceTable.currency} plan against a ${priceTable.currency} price table`);
+  }
+  const periodStart = addMonths(expiresAt, -(currentPriceTable?.months ?? 3));
+  const remainingMs = expiresAt.getTime() - now.getTime();
+  const periodMs = expiresAt.getTime() - periodStart.getTime();
+
+  const amount = parseFloat(planPrice(priceTable, planType));
+  const credit = Math.min(amount, parseFloat(plan.amount) * Math.min(1, remainingMs / periodMs));
+
+  return {
+    priceTable,
+    planType,
+    amount: amount.toFixed(2),
+    credit: credit.toFixed(2),
+    amountDue: (amount - credit).toFixed(2),
+    remainingDays: Math.ceil(remainingMs / DAY_MS),
+  };
+}
+
+// Start the move of a paid plan to another price table. The new plan is
+// charged the difference; the current plan stays active until that charge is
+// paid, and is then closed as "changed" (see closeReplacedPlan). A change that
+// is fully covered by the credit takes effect immediately.
+export async function changeCustomerPlan(
+  plan: CustomerPlan,
+  change: ChangeCustomerPlan,
+  now: Date = new Date(),
+): Promise<CustomerPlan> {
+  const quote = await quotePlanChange(plan, change, now);
+
+  const newPlan = await storage.createCustomerPlan({
+    customerId: plan.customerId,
+    priceTableId: quote.priceTable.id,
+    planType: quote.planType,
+    amount: quote.amount,
+    paymentGatewayId: change.paymentGatewayId ?? plan.paymentGatewayId,
+    payStatus: 'pending',
+    isActive: false,
+    changedFromPlanId: plan.id,
+    creditAmount: quote.credit,
+  });
+  await recordPlanHistory(undefined, newPlan, `Change from plan ${plan.id} with ${quote.credit} credit`);
+
+  if (parseFloat(quote.amountDue) <= 0) {
+    return await settleCustomerPlan(newPlan, 'paid', now) ?? newPlan;
+  }
+  return await chargeCustomerPlan(newPlan, quote.priceTable);
+}
@@ -0,0 +1,114 @@
+import { test, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Coupon, CouponRedemption, CustomerPlan, PriceTable } from '@shared/schema';
+
+let coupons: typeof import('./coupons');
+
+// One coupon of tenant 1, its redemptions and the plans that used it, in
+// place of the database
+let coupon: Coupon;
+let redemptions: CouponRedemption[];
+let deletedPlanIds: number[];
+
+const PRICE_TABLE = { id: 1, currentPrice3x: '300.00', currentPrice12x: '1000.00' } as PriceTable;
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function makeCoupon(overrides: Partial<Coupon> = {}): Coupon {
+  return {
+    id: 1,
+    code: 'WELCOME',
+    description: null,
+    discountType: 'percentage',
+    discountValue: '10.00',
+    validFrom: null,
+    validUntil: null,
+    maxRedemptions: null,
+    priceTableIds: [],
+    planTypes: [],
+    isActive: true,
+    entrepreneurId: 1,
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+    updatedAt: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function plan(id: number) {
+  return { id, customerId: 11 } as CustomerPlan;
+}
+
+before(async () => {
+  // Only the storage methods replaced below are reached, so no database is
+  // needed; server/db only asks for a connection string
+  process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
+  const { storage } = await import('./storage');
+  coupons = await import('./coupons');
+
+  mock.method(storage, 'getCouponByCode', async (entrepreneurId: number, code: string) =>
+    (coupon.entrepreneurId === entrepreneurId && coupon.code === code ? coupon : undefined));
+  mock.method(storage, 'countCouponRedemptions', async () => redemptions.length);
+  // Counted and inserted in one step, like the locked transaction
+  mock.method(storage, 'createCouponRedemption', async (redemption: Omit<CouponRedemption, 'id' | 'redeemedAt'>) => {
+    if (coupon.maxRedemptions !== null && redemptions.length >= coupon.maxRedemptions) return undefined;
+    const created = { id: redemptions.length + 1, redeemedAt: NOW, ...redemption };
+    redemptions.push(created);
+    return created;
+  });
+  mock.method(storage, 'deleteCustomerPlan', async (id: number) => {
+    deletedPlanIds.push(id);
+    return true;
+  });
+});
+
+beforeEach(() => {
+  coupon = makeCoupon();
+  redemptions = [];
+  deletedPlanIds = [];
+});
+
+test('percentage and fixed discounts never take the price below zero', async () => {
+  const percentage = await coupons.quoteCoupon(1, 'WELCOME', PRICE_TABLE, '3x', NOW);
+  assert.deepEqual([percentage.originalAmount, percentage.discountAmount, percentage.amount], ['300.00', '30.00', '270.00']);
+
+  coupon = makeCoupon({ discountType: 'fixed', discountValue: '500.00' });
+  const fixed = await coupons.quoteCoupon(1, 'WELCOME', PRICE_TABLE, '3x', NOW);
+  assert.deepEqual([fixed.discountAmount, fixed.amount], ['300.00', '0.00']);
+});
+
+test('coupons of another tenant are not found', async () => {
+  await assert.rejects(coupons.quoteCoupon(2, 'WELCOME', PRICE_TABLE, '3x', NOW), /Coupon not found/);
+});
+
+test('a coupon outside its limits cannot be quoted', async () => {
+  const cases: [Partial<Coupon>, RegExp][] = [
+    [{ isActive: false }, /not active/],
+    [{ validFrom: new Date('2026-03-02T00:00:00Z') }, /not valid at this time/],
+    [{ validUntil: new Date('2026-02-28T00:00:00Z') }, /not valid at this time/],
+    [{ priceTableIds: [2] }, /does not apply to this price table/],
+    [{ planTypes: ['12x'] }, /does not apply to 3x plans/],
+  ];
+
+  for (const [overrides, message] of cases) {
+    coupon = makeCoupon(overrides);
+    await assert.rejects(coupons.quoteCoupon(1, 'WELCOME', PRICE_TABLE, '3x', NOW), message);
+  }
+});
+
+test('a used-up coupon cannot be quoted', async () => {
+  coupon = makeCoupon({ maxRedemptions: 1 });
+  await coupons.redeemCoupon(await coupons.quoteCoupon(1, 'WELCOME', PRICE_TABLE, '3x', NOW), plan(1));
+
+  await assert.rejects(coupons.quoteCoupon(1, 'WELCOME', PRICE_TABLE, '3x', NOW), /maximum number of redemptions/);
+});
+
+test('the plan that loses the race for the last redemption is deleted', async () => {
+  coupon = makeCoupon({ maxRedemptions: 1 });
+  // Both plans were quoted before either redeemed the coupon
+  const quote = await coupons.quoteCoupon(1, 'WELCOME', PRICE_TABLE, '3x', NOW);
+
+  await coupons.redeemCoupon(quote, plan(1));
+  await assert.rejects(coupons.redeemCoupon(quote, plan(2)), /maximum number of redemptions/);
+
+  assert.deepEqual(redemptions.map((redemption) => redemption.customerPlanId), [1]);
+  assert.deepEqual(deletedPlanIds, [2]);
+});
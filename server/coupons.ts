@@ -0,0 +1,75 @@
+import type { Coupon, CouponRedemption, CustomerPlan, PriceTable } from '@shared/schema';
+import { storage } from './storage';
+import { BillingError, planPrice } from './billing';
+
+export interface CouponQuote {
+  coupon: Coupon;
+  originalAmount: string;
+  discountAmount: string;
+  amount: string; // What the customer pays
+}
+
+// Check that a coupon can be used right now for a plan
+async function assertRedeemable(coupon: Coupon, priceTable: PriceTable, planType: string, now: Date) {
+  if (!coupon.isActive) {
+    throw new BillingError('Coupon is not active');
+  }
+  if ((coupon.validFrom && coupon.validFrom > now) || (coupon.validUntil && coupon.validUntil < now)) {
+    throw new BillingError('Coupon is not valid at this time');
+  }
+  if (coupon.priceTableIds.length > 0 && !coupon.priceTableIds.includes(priceTable.id)) {
+    throw new BillingError('Coupon does not apply to this price table');
+  }
+  if (coupon.planTypes.length > 0 && !coupon.planTypes.includes(planType)) {
+    throw new BillingError(`Coupon does not apply to ${planType} plans`);
+  }
+  if (coupon.maxRedemptions !== null && await storage.countCouponRedemptions(coupon.id) >= coupon.maxRedemptions) {
+    throw new BillingError('Coupon has reached its maximum number of redemptions');
+  }
+}
+
+// Price a plan of a price table with a coupon of the customer's tenant.
+// Throws a BillingError explaining why the code cannot be used.
+export async function quoteCoupon(
+  entrepreneurId: number,
+  code: string,
+  priceTable: PriceTable,
+  planType: string,
+  now: Date = new Date(),
+): Promise<CouponQuote> {
+  const coupon = await storage.getCouponByCode(entrepreneurId, code);
+  if (!coupon) {
+    throw new BillingError('Coupon not found');
+  }
+  await assertRedeemable(coupon, priceTable, planType, now);
+
+  const price = parseFloat(planPrice(priceTable, planType));
+  const value = parseFloat(coupon.discountValue);
+  const discount = Math.min(price, coupon.discountType === 'percentage' ? price * value / 100 : value);
+
+  return {
+    coupon,
+    originalAmount: price.toFixed(2),
+    discountAmount: discount.toFixed(2),
+    amount: (price - discount).toFixed(2),
+  };
+}
+
+// Record the redemption of a quoted coupon by a newly created plan. The
+// redemption goes away with the plan, e.g. when its charge cannot be created.
+// When another plan took the coupon's last redemption since the quote, the
+// plan is deleted, as its price no longer holds.
+export async function redeemCoupon(quote: CouponQuote, plan: CustomerPlan): Promise<CouponRedemption> {
+  const redemption = await storage.createCouponRedemption({
+    couponId: quote.coupon.id,
+    customerPlanId: plan.id,
+    customerId: plan.customerId,
+    originalAmount: quote.originalAmount,
+    discountAmount: quote.discountAmount,
+  });
+  if (!redemption) {
+    await storage.deleteCustomerPlan(plan.id);
+    throw new BillingError('Coupon has reached its maximum number of redemptions');
+  }
+  return redemption;
+}
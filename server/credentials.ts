@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import type { PaymentGateway, WhatsappInstance } from '@shared/schema';
+
+// Envelope encryption for secrets stored in the database (payment gateway
+// tokens, public keys and webhook secrets, WhatsApp webhook secrets and two-factor
+// secrets). Each value is encrypted with its own random data
+// key, and the data key is wrapped with the master key from the environment,
+// so rotating the master key only needs to re-wrap the data keys.
+//
+// Stored format: enc:v1:<keyId>:<wrappedKey>:<iv>:<tag>:<ciphertext> (base64 parts)
+
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+// Keys are 32 bytes, given as 64 hex characters or base64
+function parseKey(raw: string): MasterKey {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('Credential encryption keys must be 32 bytes (64 hex characters or base64)');
+  }
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+function getCurrentKey(): MasterKey {
+  if (!process.env.CREDENTIALS_ENCRYPTION_KEY) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be set to store payment gateway credentials');
+  }
+  return parseKey(process.env.CREDENTIALS_ENCRYPTION_KEY);
+}
+
+// The current key plus any retired keys that still protect existing rows
+function getKeyring(): MasterKey[] {
+  const previous = (process.env.CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .filter((key) => key.trim())
+    .map(parseKey);
+  return [getCurrentKey(), ...previous];
+}
+
+function findKey(keyId: string): MasterKey {
+  const masterKey = getKeyring().find((key) => key.id === keyId);
+  if (!masterKey) {
+    throw new Error(`No credential encryption key available for key id ${keyId}`);
+  }
+  return masterKey;
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// The wrapped data key carries its own IV and tag in front of the ciphertext
+function wrapDataKey(masterKey: MasterKey, dataKey: Buffer): Buffer {
+  const { iv, tag, ciphertext } = seal(masterKey.key, dataKey);
+  return Buffer.concat([iv, tag, ciphertext]);
+}
+
+function unwrapDataKey(masterKey: MasterKey, wrappedKey: Buffer): Buffer {
+  const iv = wrappedKey.subarray(0, IV_LENGTH);
+  const tag = wrappedKey.subarray(IV_LENGTH, IV_LENGTH + 16);
+  return open(masterKey.key, iv, tag, wrappedKey.subarray(IV_LENGTH + 16));
+}
+
+function serialize(envelope: Envelope): string {
+  return [
+    PREFIX,
+    envelope.keyId,
+    envelope.wrappedKey.toString('base64'),
+    envelope.iv.toString('base64'),
+    envelope.tag.toString('base64'),
+    envelope.ciphertext.toString('base64'),
+  ].join(':');
+}
+
+function deserialize(value: string): Envelope {
+  const [, , keyId, wrappedKey, iv, tag, ciphertext] = value.split(':');
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, 'base64'),
+    iv: Buffer.from(iv, 'base64'),
+    tag: Buffer.from(tag, 'base64'),
+    ciphertext: Buffer.from(ciphertext, 'base64'),
+  };
+}
+
+export function isEncryptedCredential(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptCredential(plaintext: string): string {
+  const masterKey = getCurrentKey();
+  const dataKey = crypto.randomBytes(32);
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  return serialize({ keyId: masterKey.id, wrappedKey: wrapDataKey(masterKey, dataKey), iv, tag, ciphertext });
+}
+
+// Rows written before encryption was introduced are returned as-is until
+// the rotation command has encrypted them
+export function decryptCredential(value: string): string {
+  if (!isEncryptedCredential(value)) {
+    return value;
+  }
+  const envelope = deserialize(value);
+  const dataKey = unwrapDataKey(findKey(envelope.keyId), envelope.wrappedKey);
+  return open(dataKey, envelope.iv, envelope.tag, envelope.ciphertext).toString('utf8');
+}
+
+// Re-wrap the data key with the current master key. Plaintext values are
+// encrypted. Returns undefined when the value is already up to date.
+export function rotateCredential(value: string): string | undefined {
+  if (!isEncryptedCredential(value)) {
+    return encryptCredential(value);
+  }
+
+  const currentKey = getCurrentKey();
+  const envelope = deserialize(value);
+  if (envelope.keyId === currentKey.id) {
+    return undefined;
+  }
+
+  const dataKey = unwrapDataKey(findKey(envelope.keyId), envelope.wrappedKey);
+  return serialize({ ...envelope, keyId: currentKey.id, wrappedKey: wrapDataKey(currentKey, dataKey) });
+}
+
+// Only the last four characters of a secret ever leave the server unrevealed
+export function maskCredential(value: string): string {
+  return value.length > 4 ? `••••${value.slice(-4)}` : '••••';
+}
+
+export function maskPaymentGateway(gateway: PaymentGateway): PaymentGateway {
+  return {
+    ...gateway,
+    publicKey: maskCredential(gateway.publicKey),
+    token: maskCredential(gateway.token),
+    webhookSecret: gateway.webhookSecret && maskCredential(gateway.webhookSecret),
+  };
+}
+
+export function maskWhatsappInstance(instance: WhatsappInstance): WhatsappInstance {
+  return {
+    ...instance,
+    webhookSecret: instance.webhookSecret && maskCredential(instance.webhookSecret),
+  };
+}
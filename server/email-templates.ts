@@ -0,0 +1,152 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import type { CustomerPlan, EmailNotificationType, PriceTable, SupportTicket, User } from '@shared/schema';
+import { formatMoney } from '@shared/money';
+
+// Links in emails point here
+export const APP_URL = (process.env.APP_URL || 'http://localhost:5000').replace(/\/+$/, '');
+
+export interface EmailTemplateData {
+  ticket_created: { ticket: SupportTicket; estimatedResponse: string };
+  ticket_replied: { ticket: SupportTicket; body: string; toCustomer: boolean };
+  ticket_resolved: { ticket: SupportTicket };
+  plan_paid: { plan: CustomerPlan; priceTable: PriceTable | undefined; customer: User };
+  plan_expiring: { plan: CustomerPlan; renewal: CustomerPlan; priceTable: PriceTable | undefined; customer: User };
+  user_invited: { user: User; invitedBy: User | undefined; url: string; expiresAt: Date };
+  password_reset: { user: User; url: string; expiresAt: Date };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Every email shares one layout: a greeting, a few paragraphs and an optional
+// button, with a plain text part for clients that do not show HTML
+function layout({ subject, greeting, paragraphs, action }: EmailContent): RenderedEmail {
+  const text = [
+    greeting,
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+  ].join('\n\n');
+
+  const html = [
+    '<div style="font-family: Arial, sans-serif; font-size: 14px; color: #111827; max-width: 600px;">',
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...paragraphs.map((paragraph) => `<p style="white-space: pre-wrap;">${escapeHtml(paragraph)}</p>`),
+    ...(action ? [
+      `<p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(action.label)}</a></p>`,
+    ] : []),
+    '</div>',
+  ].join('\n');
+
+  return { subject, text, html };
+}
+
+function ticketStatusUrl(ticket: SupportTicket): string {
+  return `${APP_URL}/ticket-status?ticketId=${encodeURIComponent(ticket.ticketId)}`;
+}
+
+function planTitle(priceTable: PriceTable | undefined): string {
+  return priceTable?.title ?? 'your plan';
+}
+
+const templates: { [T in EmailNotificationType]: (data: EmailTemplateData[T]) => EmailContent } = {
+  ticket_created: ({ ticket, estimatedResponse }) => ({
+    subject: `[#${ticket.ticketId}] We received your request: ${ticket.subject}`,
+    greeting: `Hi ${ticket.name},`,
+    paragraphs: [
+      `Thanks for contacting us. Your ticket number is ${ticket.ticketId}, and we aim to reply within ${estimatedResponse}.`,
+      ticket.message,
+    ],
+    action: { label: 'View your ticket', url: ticketStatusUrl(ticket) },
+  }),
+
+  ticket_replied: ({ ticket, body, toCustomer }) => toCustomer ? {
+    subject: `[#${ticket.ticketId}] New reply: ${ticket.subject}`,
+    greeting: `Hi ${ticket.name},`,
+    paragraphs: [
+      'Our team replied to your ticket:',
+      body,
+    ],
+    action: { label: 'Reply to your ticket', url: ticketStatusUrl(ticket) },
+  } : {
+    subject: `[#${ticket.ticketId}] Customer replied: ${ticket.subject}`,
+    greeting: 'Hi,',
+    paragraphs: [
+      `${ticket.name} replied to ticket ${ticket.ticketId}, which is assigned to you:`,
+      body,
+    ],
+    action: { label: 'Open support tickets', url: `${APP_URL}/support-tickets` },
+  },
+
+  ticket_resolved: ({ ticket }) => ({
+    subject: `[#${ticket.ticketId}] Resolved: ${ticket.subject}`,
+    greeting: `Hi ${ticket.name},`,
+    paragraphs: [
+      'We marked your ticket as resolved. If something is still not right, reply from the ticket page and it will be reopened.',
+    ],
+    action: { label: 'View your ticket', url: ticketStatusUrl(ticket) },
+  }),
+
+  plan_paid: ({ plan, priceTable, customer }) => ({
+    subject: `Payment received for ${planTitle(priceTable)}`,
+    greeting: `Hi ${customer.name},`,
+    paragraphs: [
+      `We received your payment of ${formatMoney(plan.amount, priceTable?.currency)} for ${planTitle(priceTable)}.`,
+      ...(plan.planExpirationDate ? [`Your plan is active until ${format(plan.planExpirationDate, 'dd/MM/yyyy')}.`] : []),
+    ],
+  }),
+
+  plan_expiring: ({ plan, renewal, priceTable, customer }) => ({
+    subject: `${planTitle(priceTable)} expires soon`,
+    greeting: `Hi ${customer.name},`,
+    paragraphs: [
+      plan.planExpirationDate
+        ? `Your plan expires on ${format(plan.planExpirationDate, 'dd/MM/yyyy')}.`
+        : 'Your plan expires soon.',
+      `Pay ${formatMoney(renewal.amount, priceTable?.currency)} to renew it for another period.`,
+    ],
+    action: renewal.payLink ? { label: 'Renew your plan', url: renewal.payLink } : undefined,
+  }),
+
+  user_invited: ({ user, invitedBy, url, expiresAt }) => ({
+    subject: 'You are invited: set your password',
+    greeting: `Hi ${user.name},`,
+    paragraphs: [
+      `${invitedBy ? invitedBy.name : 'An administrator'} created an account for you with the email ${user.email}.`,
+      `Choose your password to sign in. The link works once and expires on ${format(expiresAt, 'dd/MM/yyyy HH:mm')}.`,
+    ],
+    action: { label: 'Set your password', url },
+  }),
+
+  password_reset: ({ user, url, expiresAt }) => ({
+    subject: 'Reset your password',
+    greeting: `Hi ${user.name},`,
+    paragraphs: [
+      `Someone asked to reset the password of your account. The link works once and expires in ${formatDistanceToNow(expiresAt)}.`,
+      'If it was not you, ignore this email; your password stays the same.',
+    ],
+    action: { label: 'Reset your password', url },
+  }),
+};
+
+export function renderEmail<T extends EmailNotificationType>(type: T, data: EmailTemplateData[T]): RenderedEmail {
+  return layout(templates[type](data));
+}
@@ -0,0 +1,40 @@
+import { getRateLimitStore } from './rate-limit-stores';
+
+const WINDOW_MINUTES = parseInt(process.env.EMAIL_RATE_LIMIT_WINDOW_MINUTES || '60');
+const IP_MAX_REQUESTS = parseInt(process.env.EMAIL_RATE_LIMIT_IP_MAX || '10');
+const ADDRESS_MAX_REQUESTS = parseInt(process.env.EMAIL_RATE_LIMIT_ADDRESS_MAX || '3');
+
+// Public requests that email an address the caller chooses
+export type PublicEmailAction = 'password-reset' | 'support-ticket';
+
+const ipKey = (action: PublicEmailAction, ip: string) => `email:${action}:ip:${ip}`;
+const addressKey = (action: PublicEmailAction, email: string) => `email:${action}:to:${email.trim().toLowerCase()}`;
+
+// Counts a public request that sends an email against the caller's IP and
+// the recipient's address, so these endpoints cannot be used to flood an
+// inbox. Resolves to when the caller may try again once either counter is
+// over its limit in the current EMAIL_RATE_LIMIT_WINDOW_MINUTES.
+export async function checkEmailRateLimit(
+  action: PublicEmailAction,
+  ip: string | undefined,
+  email: string,
+): Promise<Date | undefined> {
+  const store = getRateLimitStore();
+  const windowMs = WINDOW_MINUTES * 60 * 1000;
+
+  const counters = [await store.increment(addressKey(action, email), windowMs)];
+  const limits = [ADDRESS_MAX_REQUESTS];
+  if (ip) {
+    counters.push(await store.increment(ipKey(action, ip), windowMs));
+    limits.push(IP_MAX_REQUESTS);
+  }
+
+  const exceeded = counters.filter((counter, i) => counter.count > limits[i]);
+  if (exceeded.length === 0) return undefined;
+  return new Date(Math.max(...exceeded.map((counter) => counter.resetAt.getTime())));
+}
+
+// Seconds until a limited caller may retry, for the Retry-After header
+export function retryAfterSeconds(until: Date): string {
+  return String(Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000)));
+}
@@ -0,0 +1,20 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { EmailTransport, OutgoingEmail } from './transport';
+
+// Writes each email to a JSON file instead of sending it, for local
+// development. Files are named so they sort in the order they were sent.
+export class FileTransport implements EmailTransport {
+  constructor(private directory: string) {}
+
+  async send(email: OutgoingEmail): Promise<string> {
+    const messageId = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${messageId}.json`),
+      JSON.stringify({ messageId, ...email, sentAt: new Date() }, null, 2),
+    );
+    return messageId;
+  }
+}
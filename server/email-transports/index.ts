@@ -0,0 +1,39 @@
+import type { EmailTransport } from './transport';
+import { SmtpTransport } from './smtp';
+import { FileTransport } from './file';
+import { MemoryTransport } from './memory';
+
+export type { EmailTransport, OutgoingEmail } from './transport';
+export { getSentEmails, resetSentEmails, type SentEmail } from './memory';
+
+let transport: EmailTransport | undefined;
+
+// The transport named by EMAIL_TRANSPORT (smtp, file or memory). Without it,
+// SMTP is used when SMTP_HOST is set and, outside production, emails are
+// written to EMAIL_FILE_DIR.
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  const type = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST || process.env.NODE_ENV === 'production' ? 'smtp' : 'file');
+  switch (type) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is not configured');
+      }
+      transport = new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+      return transport;
+    case 'file':
+      transport = new FileTransport(process.env.EMAIL_FILE_DIR || 'tmp/emails');
+      return transport;
+    case 'memory':
+      transport = new MemoryTransport();
+      return transport;
+  }
+  throw new Error(`Unsupported email transport: ${type}`);
+}
@@ -0,0 +1,26 @@
+import type { EmailTransport, OutgoingEmail } from './transport';
+
+export interface SentEmail extends OutgoingEmail {
+  messageId: string;
+}
+
+// Emails live in process memory, so a test can trigger a notification through
+// the API and read back what would have been sent
+const sentEmails: SentEmail[] = [];
+
+export function getSentEmails(): SentEmail[] {
+  return [...sentEmails];
+}
+
+export function resetSentEmails() {
+  sentEmails.length = 0;
+}
+
+// In-process transport for tests. Never talks to the network.
+export class MemoryTransport implements EmailTransport {
+  async send(email: OutgoingEmail): Promise<string> {
+    const messageId = `memory-${sentEmails.length + 1}`;
+    sentEmails.push({ ...email, messageId });
+    return messageId;
+  }
+}
@@ -0,0 +1,28 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { EmailTransport, OutgoingEmail } from './transport';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+}
+
+export class SmtpTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<string> {
+    const info = await this.transporter.sendMail(email);
+    return info.messageId;
+  }
+}
@@ -0,0 +1,14 @@
+// A rendered email, ready to hand to a transport
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  // Resolves to the id the transport gave the message; rejects when it was
+  // not accepted, so the queue can retry it
+  send(email: OutgoingEmail): Promise<string>;
+}
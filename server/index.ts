@@ -2,15 +2,27 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupSwagger } from "./swagger";
-import { migrateUserPasswords } from "./migration-passwords";
+import { startSubscriptionLifecycleJob } from "./subscription-lifecycle";
+import { startWhatsappHealthJob } from "./whatsapp-health";
+import { startPaymentReminderJob } from "./payment-reminders";
+import { startEmailQueueJob } from "./notifications";
+import { startRefreshTokenCleanupJob } from "./sessions";
+import { startRateLimitPruneJob } from "./login-throttle";
 
 const app = express();
 
+// Behind a proxy, TRUST_PROXY (a hop count or an Express trust proxy value)
+// makes req.ip the client address instead of the proxy's
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // CORS middleware to allow API access from Swagger UI
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, x-user-id');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -21,7 +33,11 @@ app.use((req, res, next) => {
   next();
 });
 
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -58,23 +74,26 @@ app.use((req, res, next) => {
   // Setup Swagger documentation
   setupSwagger(app);
   
-  // Run password migration only if needed (check if admin user has proper hash)
-  try {
-    const { storage } = await import('./storage');
-    const adminUser = await storage.getUserByEmail('admin@example.com');
-    if (adminUser && adminUser.password.length < 50) {
-      console.log('Running password migration...');
-      await migrateUserPasswords();
-    } else {
-      console.log('Password migration already completed, skipping...');
-    }
-  } catch (error) {
-    console.log('Migration check failed, running migration as fallback...');
-    await migrateUserPasswords();
-  }
-  
   const server = await registerRoutes(app);
 
+  // Expire, renew and cancel customer plans in the background
+  startSubscriptionLifecycleJob();
+
+  // Track the connection status of the WhatsApp instances
+  startWhatsappHealthJob();
+
+  // Send WhatsApp payment reminders for pending customer plans
+  startPaymentReminderJob();
+
+  // Deliver queued emails
+  startEmailQueueJob();
+
+  // Delete expired refresh tokens
+  startRefreshTokenCleanupJob();
+
+  // Drop finished login rate limit windows
+  startRateLimitPruneJob();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
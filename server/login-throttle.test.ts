@@ -0,0 +1,52 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+
+let throttle: typeof import('./login-throttle');
+
+before(async () => {
+  // Counters in memory, and limits low enough that no failure below reaches
+  // the progressive delay. server/db only asks for a connection string.
+  process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
+  process.env.RATE_LIMIT_STORE = 'memory';
+  process.env.LOGIN_MAX_FAILURES = '3';
+  process.env.LOGIN_IP_MAX_ATTEMPTS = '5';
+  throttle = await import('./login-throttle');
+});
+
+test('an account is locked after too many failures, whatever the case of the email', async () => {
+  assert.equal(await throttle.recordLoginFailure('10.0.0.1', 'jane@example.com'), undefined);
+  assert.equal(await throttle.recordLoginFailure('10.0.0.2', 'Jane@Example.com'), undefined);
+  const lockedUntil = await throttle.recordLoginFailure('10.0.0.3', ' JANE@example.com ');
+
+  assert.ok(lockedUntil && lockedUntil > new Date());
+  assert.deepEqual(await throttle.checkLoginAllowed('10.0.0.4', 'jane@example.com'), { reason: 'locked', until: lockedUntil });
+});
+
+test('a successful sign-in starts the failure count over', async () => {
+  await throttle.recordLoginFailure('10.0.1.1', 'sam@example.com');
+  await throttle.recordLoginFailure('10.0.1.1', 'sam@example.com');
+  await throttle.recordLoginSuccess('sam@example.com');
+
+  assert.equal(await throttle.recordLoginFailure('10.0.1.1', 'sam@example.com'), undefined);
+  assert.equal(await throttle.checkLoginAllowed('10.0.1.1', 'sam@example.com'), undefined);
+});
+
+test('an IP guessing across accounts is refused, for every account', async () => {
+  for (const name of ['a', 'b', 'c', 'd', 'e']) {
+    await throttle.recordLoginFailure('10.0.2.1', `${name}@example.com`);
+  }
+
+  const block = await throttle.checkLoginAllowed('10.0.2.1', 'someone-else@example.com');
+  assert.equal(block?.reason, 'ip');
+  assert.equal(await throttle.checkLoginAllowed('10.0.2.2', 'someone-else@example.com'), undefined);
+});
+
+test('an admin can lift a lockout early', async () => {
+  for (let i = 0; i < 3; i++) {
+    await throttle.recordLoginFailure(undefined, 'kim@example.com');
+  }
+
+  assert.equal(await throttle.unlockAccount('kim@example.com'), true);
+  assert.equal(await throttle.checkLoginAllowed(undefined, 'kim@example.com'), undefined);
+  assert.equal(await throttle.unlockAccount('kim@example.com'), false);
+});
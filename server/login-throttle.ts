@@ -0,0 +1,109 @@
+import { getRateLimitStore } from './rate-limit-stores';
+
+const MAX_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '5');
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+const FAILURE_WINDOW_MINUTES = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15');
+const IP_MAX_ATTEMPTS = parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || '20');
+const PRUNE_INTERVAL_MINUTES = parseInt(process.env.RATE_LIMIT_PRUNE_INTERVAL_MINUTES || '15');
+
+// Failures answered at full speed before the delay starts, then the delay
+// doubles with every failure up to the cap
+const FREE_FAILURES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// Why a login attempt is refused before the password is even checked
+export type LoginBlock =
+  | { reason: 'locked'; until: Date }
+  | { reason: 'ip'; until: Date };
+
+// Counters are keyed by the lowercased email, known or not, so a lockout
+// does not tell whether an account exists
+const ipKey = (ip: string) => `login:ip:${ip}`;
+const accountKey = (email: string) => `login:account:${email.trim().toLowerCase()}`;
+const lockKey = (email: string) => `login:lock:${email.trim().toLowerCase()}`;
+
+function failureDelay(failures: number): number {
+  if (failures <= FREE_FAILURES) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_FAILURES - 1), MAX_DELAY_MS);
+}
+
+// When the account is locked out, until when
+export async function getAccountLock(email: string): Promise<Date | undefined> {
+  const lock = await getRateLimitStore().get(lockKey(email));
+  return lock?.resetAt;
+}
+
+export async function checkLoginAllowed(ip: string | undefined, email: string): Promise<LoginBlock | undefined> {
+  const lockedUntil = await getAccountLock(email);
+  if (lockedUntil) {
+    return { reason: 'locked', until: lockedUntil };
+  }
+
+  if (ip) {
+    const attempts = await getRateLimitStore().get(ipKey(ip));
+    if (attempts && attempts.count >= IP_MAX_ATTEMPTS) {
+      return { reason: 'ip', until: attempts.resetAt };
+    }
+  }
+}
+
+// Counts a wrong password or second-factor code against the IP and the
+// account, locks the account once it reaches LOGIN_MAX_FAILURES and then
+// holds the response back for the progressive delay. Resolves to the lock
+// when this failure caused one.
+export async function recordLoginFailure(ip: string | undefined, email: string): Promise<Date | undefined> {
+  const store = getRateLimitStore();
+  if (ip) {
+    await store.increment(ipKey(ip), FAILURE_WINDOW_MINUTES * 60 * 1000);
+  }
+
+  const failures = await store.increment(accountKey(email), FAILURE_WINDOW_MINUTES * 60 * 1000);
+  if (failures.count >= MAX_FAILURES) {
+    const lock = await store.increment(lockKey(email), LOCKOUT_MINUTES * 60 * 1000);
+    await store.reset(accountKey(email));
+    console.warn(`Login locked for ${email} until ${lock.resetAt.toISOString()} after ${failures.count} failed attempts`);
+    return lock.resetAt;
+  }
+
+  const delay = failureDelay(failures.count);
+  if (delay > 0) {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+// A completed sign-in starts the account's failure count over. The IP count
+// stays, so one working account does not reset the limit for guessing others.
+export async function recordLoginSuccess(email: string) {
+  await getRateLimitStore().reset(accountKey(email));
+}
+
+// Lifts a lockout before it runs out; resolves to whether there was one
+export async function unlockAccount(email: string): Promise<boolean> {
+  const store = getRateLimitStore();
+  const locked = !!(await store.get(lockKey(email)));
+  await store.reset(lockKey(email));
+  await store.reset(accountKey(email));
+  return locked;
+}
+
+let running = false;
+
+// Drop rate limit counters whose window ended now and then every
+// RATE_LIMIT_PRUNE_INTERVAL_MINUTES
+export function startRateLimitPruneJob(): NodeJS.Timeout {
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await getRateLimitStore().prune();
+    } catch (error) {
+      console.error('Rate limit prune failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, PRUNE_INTERVAL_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,112 @@
+import { test, before, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { UserMfa } from '@shared/schema';
+
+let mfa: typeof import('./mfa');
+
+// The two-factor state of user 1, in place of the database
+let userMfa: UserMfa | undefined;
+let recoveryCodeHashes: string[];
+
+// The secret of the RFC 6238 test vectors, "12345678901234567890" in base32
+const RFC_KEY = '12345678901234567890';
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// What an authenticator app with the RFC secret shows at a time
+function appCode(at: Date = new Date()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(at.getTime() / 30000)));
+  const hmac = crypto.createHmac('sha1', RFC_KEY).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1e6).toString().padStart(6, '0');
+}
+
+before(async () => {
+  // Only the storage methods replaced below are reached, so no database is
+  // needed; server/db only asks for a connection string
+  process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
+  const { storage } = await import('./storage');
+  mfa = await import('./mfa');
+
+  mock.method(storage, 'getUserMfa', async () => userMfa);
+  mock.method(storage, 'enableUserMfa', async (_userId: number, step: number) => {
+    userMfa = { ...userMfa!, enabledAt: new Date(), lastUsedStep: step };
+    return userMfa;
+  });
+  mock.method(storage, 'useMfaStep', async (_userId: number, step: number) => {
+    if (!userMfa || (userMfa.lastUsedStep !== null && userMfa.lastUsedStep >= step)) return false;
+    userMfa.lastUsedStep = step;
+    return true;
+  });
+  mock.method(storage, 'replaceMfaRecoveryCodes', async (_userId: number, codeHashes: string[]) => {
+    recoveryCodeHashes = [...codeHashes];
+  });
+  mock.method(storage, 'useMfaRecoveryCode', async (_userId: number, codeHash: string) => {
+    const index = recoveryCodeHashes.indexOf(codeHash);
+    if (index === -1) return false;
+    recoveryCodeHashes.splice(index, 1);
+    return true;
+  });
+});
+
+beforeEach(() => {
+  userMfa = {
+    userId: 1,
+    secret: RFC_SECRET,
+    enabledAt: new Date('2026-01-01T10:00:00Z'),
+    lastUsedStep: null,
+    createdAt: new Date('2026-01-01T10:00:00Z'),
+  };
+  recoveryCodeHashes = [];
+});
+
+test('codes match the RFC 6238 test vectors, one step either side', () => {
+  // 94287082 at 59 seconds, 8 digits in the RFC
+  assert.equal(mfa.matchTotpStep(RFC_SECRET, '287082', new Date(59 * 1000)), 1);
+  assert.equal(mfa.matchTotpStep(RFC_SECRET, '081804', new Date(1111111109 * 1000)), 37037036);
+
+  assert.equal(mfa.matchTotpStep(RFC_SECRET, '287082', new Date(89 * 1000)), 1);
+  assert.equal(mfa.matchTotpStep(RFC_SECRET, '287082', new Date(120 * 1000)), undefined);
+  assert.equal(mfa.matchTotpStep(RFC_SECRET, '28708', new Date(59 * 1000)), undefined);
+  assert.equal(mfa.matchTotpStep(RFC_SECRET, '28708a', new Date(59 * 1000)), undefined);
+});
+
+test('each code from the app is accepted once', async () => {
+  const code = appCode();
+
+  assert.equal(await mfa.verifyMfaCode(1, code), true);
+  assert.equal(await mfa.verifyMfaCode(1, code), false);
+});
+
+test('codes are not asked for until the enrolment is confirmed', async () => {
+  userMfa = { ...userMfa!, enabledAt: null };
+  const code = appCode();
+
+  assert.equal(await mfa.verifyMfaCode(1, code), false);
+  assert.equal(await mfa.confirmMfaEnrolment(1, '000000'), undefined);
+
+  const recoveryCodes = await mfa.confirmMfaEnrolment(1, code);
+  assert.equal(recoveryCodes?.length, 10);
+  assert.notEqual(userMfa.enabledAt, null);
+  // The code that confirmed the enrolment cannot be used to sign in
+  assert.equal(await mfa.verifyMfaCode(1, code), false);
+});
+
+test('recovery codes work once, whatever their case and dashes', async () => {
+  const [first, second] = await mfa.regenerateRecoveryCodes(1);
+  assert.match(first, /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+  assert.ok(recoveryCodeHashes.every((hash) => !hash.includes(first.replace('-', ''))));
+
+  assert.equal(await mfa.verifyMfaChallenge(1, { recoveryCode: first.toUpperCase().replace('-', '') }), true);
+  assert.equal(await mfa.verifyMfaChallenge(1, { recoveryCode: first }), false);
+  assert.equal(await mfa.verifyMfaChallenge(1, { recoveryCode: second }), true);
+  assert.equal(await mfa.verifyMfaChallenge(1, {}), false);
+});
+
+test('recovery codes do nothing while two-factor is off', async () => {
+  const [code] = await mfa.regenerateRecoveryCodes(1);
+  userMfa = undefined;
+
+  assert.equal(await mfa.verifyMfaChallenge(1, { recoveryCode: code }), false);
+});
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import type { User } from '@shared/schema';
+import { storage } from './storage';
+
+// TOTP as in RFC 6238 with the parameters every authenticator app defaults
+// to: HMAC-SHA1, 6 digits, 30 second steps
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+
+// Codes one step before or after the current one still count, for clock drift
+const TOTP_WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+const MFA_ISSUER = process.env.MFA_ISSUER || 'Business Management';
+
+// Roles that cannot sign in without two-factor; everyone else may opt in.
+// Set MFA_REQUIRED_ROLES to an empty string to make it optional for all.
+export const MFA_REQUIRED_ROLES = (process.env.MFA_REQUIRED_ROLES ?? 'super-admin,entrepreneur')
+  .split(',')
+  .map((role) => role.trim())
+  .filter(Boolean);
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface MfaEnrolment {
+  secret: string; // For typing into the app when the QR code cannot be scanned
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL of otpauthUrl
+}
+
+export interface MfaChallenge {
+  code?: string;
+  recoveryCode?: string;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let output = '';
+  let value = 0;
+  let bits = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    value = ((value << 8) | buffer[i]) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let value = 0;
+  let bits = 0;
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = ((value << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// Time step the code belongs to, when it is valid around `now`
+export function matchTotpStep(secret: string, code: string, now: Date = new Date()): number | undefined {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) return undefined;
+
+  const current = Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return undefined;
+}
+
+// Recovery codes are shown as "abcde-12345"; case and dashes do not matter
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^0-9a-z]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export function isMfaRequired(user: Pick<User, 'role'>): boolean {
+  return MFA_REQUIRED_ROLES.includes(user.role);
+}
+
+export async function isMfaEnabled(userId: number): Promise<boolean> {
+  const mfa = await storage.getUserMfa(userId);
+  return !!mfa?.enabledAt;
+}
+
+// Store a new secret for the user to scan. It is not asked for at login
+// until confirmMfaEnrolment sees a code from it.
+export async function startMfaEnrolment(user: User): Promise<MfaEnrolment> {
+  const secret = base32Encode(crypto.randomBytes(20));
+  await storage.setUserMfaSecret(user.id, secret);
+
+  const label = encodeURIComponent(`${MFA_ISSUER}:${user.email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(MFA_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+// Turn two-factor on once the user proves the app has the secret. Returns the
+// recovery codes, which are only ever shown now, or undefined for a wrong code.
+export async function confirmMfaEnrolment(userId: number, code: string): Promise<string[] | undefined> {
+  const mfa = await storage.getUserMfa(userId);
+  if (!mfa || mfa.enabledAt) return undefined;
+
+  const step = matchTotpStep(mfa.secret, code);
+  if (step === undefined) return undefined;
+
+  await storage.enableUserMfa(userId, step);
+  return await regenerateRecoveryCodes(userId);
+}
+
+// Replace every recovery code of the user with a new set
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  await storage.replaceMfaRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+// A code from the app. Each code is accepted once.
+export async function verifyMfaCode(userId: number, code: string): Promise<boolean> {
+  const mfa = await storage.getUserMfa(userId);
+  if (!mfa?.enabledAt) return false;
+
+  const step = matchTotpStep(mfa.secret, code);
+  return step !== undefined && await storage.useMfaStep(userId, step);
+}
+
+export async function verifyMfaChallenge(userId: number, { code, recoveryCode }: MfaChallenge): Promise<boolean> {
+  if (code) {
+    return await verifyMfaCode(userId, code);
+  }
+  if (recoveryCode && await isMfaEnabled(userId)) {
+    return await storage.useMfaRecoveryCode(userId, hashRecoveryCode(recoveryCode));
+  }
+  return false;
+}
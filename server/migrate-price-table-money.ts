@@ -0,0 +1,79 @@
+import { pool } from './db';
+import { parseMoney, DEFAULT_CURRENCY } from '@shared/money';
+
+const PRICE_COLUMNS = ['current_price_3x', 'current_price_12x', 'old_price_3x', 'old_price_12x'];
+
+// Convert the free-text price columns of price_tables to numeric(10,2) and add
+// the currency column. Run `npm run db:migrate-prices` before `npm run db:push`;
+// running it again once the columns are numeric does nothing.
+//
+// Prices that cannot be read as a number are listed and stop the migration,
+// so they can be fixed by hand first.
+export async function migratePriceTableMoney() {
+  try {
+    console.log('Starting price table money migration...');
+
+    const { rows: columns } = await pool.query(
+      `SELECT column_name, data_type FROM information_schema.columns
+       WHERE table_name = 'price_tables' AND column_name = ANY($1)`,
+      [PRICE_COLUMNS],
+    );
+    const textColumns = columns.filter((column) => column.data_type === 'text').map((column) => column.column_name as string);
+
+    if (textColumns.length > 0) {
+      const { rows: priceTables } = await pool.query(`SELECT id, ${textColumns.join(', ')} FROM price_tables`);
+      const updates: { id: number; values: (string | null)[] }[] = [];
+      const unreadable: string[] = [];
+
+      for (const priceTable of priceTables) {
+        const values = textColumns.map((column) => {
+          const raw = priceTable[column] as string | null;
+          if (raw === null || raw.trim() === '') return null;
+          const amount = parseMoney(raw);
+          if (amount === null) unreadable.push(`#${priceTable.id} ${column}: "${raw}"`);
+          return amount;
+        });
+        updates.push({ id: priceTable.id, values });
+      }
+
+      if (unreadable.length > 0) {
+        console.error(`Cannot read ${unreadable.length} price(s) as numbers:\n  ${unreadable.join('\n  ')}`);
+        return false;
+      }
+
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        for (const { id, values } of updates) {
+          const assignments = textColumns.map((column, i) => `${column} = $${i + 2}`).join(', ');
+          await client.query(`UPDATE price_tables SET ${assignments} WHERE id = $1`, [id, ...values]);
+        }
+        for (const column of textColumns) {
+          await client.query(`ALTER TABLE price_tables ALTER COLUMN ${column} TYPE numeric(10, 2) USING ${column}::numeric`);
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+      console.log(`Converted ${textColumns.join(', ')} for ${updates.length} price tables`);
+    }
+
+    await pool.query(
+      `ALTER TABLE price_tables ADD COLUMN IF NOT EXISTS currency varchar(3) NOT NULL DEFAULT '${DEFAULT_CURRENCY}'`,
+    );
+
+    console.log('Price table money migration completed');
+    return true;
+  } catch (error) {
+    console.error('Price table money migration failed:', error);
+    return false;
+  }
+}
+
+migratePriceTableMoney().then(async (success) => {
+  await pool.end();
+  process.exit(success ? 0 : 1);
+});
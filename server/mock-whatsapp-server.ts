@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import express from 'express';
+
+// Local stand-in for a WhatsApp instance API, speaking the protocol described
+// in server/whatsapp.ts. Point an instance's apiUrl at http://localhost:8081
+// (or MOCK_WHATSAPP_PORT) and run `npm run whatsapp:mock`.
+//
+// Messages are kept in memory. They are delivered after MOCK_WHATSAPP_DELIVERY_MS
+// and read after MOCK_WHATSAPP_READ_MS. Numbers ending in 0000 are rejected, to
+// try out failed sends.
+//
+// Instances start disconnected. Requesting a QR code counts as scanning it
+// MOCK_WHATSAPP_CONNECT_MS later; POST /instance/logout/{instance} drops the
+// connection again.
+//
+// With MOCK_WHATSAPP_WEBHOOK_URL set to an instance's webhook URL (see
+// GET /api/whatsapp-instances/{id}/webhook), delivery and read statuses are
+// posted to it, and POST /simulate/incoming/{instance} { number, text, name }
+// delivers a message from a contact.
+
+const PORT = parseInt(process.env.MOCK_WHATSAPP_PORT || '8081');
+const DELIVERY_MS = parseInt(process.env.MOCK_WHATSAPP_DELIVERY_MS || '2000');
+const READ_MS = parseInt(process.env.MOCK_WHATSAPP_READ_MS || '5000');
+const CONNECT_MS = parseInt(process.env.MOCK_WHATSAPP_CONNECT_MS || '10000');
+const WEBHOOK_URL = process.env.MOCK_WHATSAPP_WEBHOOK_URL;
+
+interface MockMessage {
+  id: string;
+  instance: string;
+  number: string;
+  type: string;
+  payload: unknown;
+  createdAt: number;
+}
+
+const messages = new Map<string, MockMessage>();
+
+// When each instance last had a QR code generated; absent while disconnected
+const qrRequestedAt = new Map<string, number>();
+
+function connectionStateOf(instance: string): string {
+  const requestedAt = qrRequestedAt.get(instance);
+  if (requestedAt === undefined) return 'close';
+  return Date.now() - requestedAt >= CONNECT_MS ? 'open' : 'connecting';
+}
+
+function statusOf(message: MockMessage): string {
+  const age = Date.now() - message.createdAt;
+  if (age >= READ_MS) return 'READ';
+  if (age >= DELIVERY_MS) return 'DELIVERY_ACK';
+  return 'SERVER_ACK';
+}
+
+function postWebhook(event: string, instance: string, data: unknown) {
+  if (!WEBHOOK_URL) return;
+  fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ event, instance, data }),
+  })
+    .then((response) => console.log(`Webhook ${event}: ${response.status}`))
+    .catch((error) => console.error(`Webhook ${event} failed:`, error.message));
+}
+
+function newMessageId(): string {
+  return crypto.randomBytes(10).toString('hex').toUpperCase();
+}
+
+// Placeholder QR code: an SVG with the instance name, as a data URL
+function qrCodeFor(instance: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200"><rect width="200" height="200" fill="#fff"/><rect x="20" y="20" width="160" height="160" fill="none" stroke="#000" stroke-width="8"/><text x="100" y="105" font-family="monospace" font-size="14" text-anchor="middle">${instance}</text></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+const app = express();
+app.use(express.json());
+
+app.use((req, _res, next) => {
+  console.log(`${req.method} ${req.path}`, req.body && Object.keys(req.body).length > 0 ? JSON.stringify(req.body) : '');
+  next();
+});
+
+app.post('/qrcode/:instance', (req, res) => {
+  qrRequestedAt.set(req.params.instance, Date.now());
+  res.json({ qrCode: qrCodeFor(req.params.instance) });
+});
+
+app.get('/instance/connectionState/:instance', (req, res) => {
+  res.json({ instance: { instanceName: req.params.instance, state: connectionStateOf(req.params.instance) } });
+});
+
+app.post('/instance/logout/:instance', (req, res) => {
+  qrRequestedAt.delete(req.params.instance);
+  res.json({ status: 'SUCCESS' });
+});
+
+app.post('/message/:type(sendText|sendMedia|sendTemplate)/:instance', (req, res) => {
+  const number = String(req.body?.number ?? '');
+  if (!/^\d{10,15}$/.test(number)) {
+    return res.status(400).json({ error: 'Invalid number' });
+  }
+  if (number.endsWith('0000')) {
+    return res.status(400).json({ error: `Number ${number} is not on WhatsApp` });
+  }
+
+  const message: MockMessage = {
+    id: newMessageId(),
+    instance: req.params.instance,
+    number,
+    type: req.params.type,
+    payload: req.body,
+    createdAt: Date.now(),
+  };
+  messages.set(message.id, message);
+
+  setTimeout(() => postWebhook('messages.update', message.instance, { keyId: message.id, status: 'DELIVERY_ACK' }), DELIVERY_MS);
+  setTimeout(() => postWebhook('messages.update', message.instance, { keyId: message.id, status: 'READ' }), READ_MS);
+
+  res.status(201).json({
+    key: { remoteJid: `${number}@s.whatsapp.net`, fromMe: true, id: message.id },
+    status: 'PENDING',
+  });
+});
+
+app.get('/message/status/:instance/:id', (req, res) => {
+  const message = messages.get(req.params.id);
+  if (!message || message.instance !== req.params.instance) {
+    return res.status(404).json({ error: 'Message not found' });
+  }
+  res.json({ id: message.id, status: statusOf(message) });
+});
+
+app.post('/simulate/incoming/:instance', (req, res) => {
+  const number = String(req.body?.number ?? '');
+  if (!WEBHOOK_URL) {
+    return res.status(400).json({ error: 'Set MOCK_WHATSAPP_WEBHOOK_URL to deliver incoming messages' });
+  }
+  if (!/^\d{10,15}$/.test(number)) {
+    return res.status(400).json({ error: 'Invalid number' });
+  }
+
+  const id = newMessageId();
+  postWebhook('messages.upsert', req.params.instance, {
+    key: { remoteJid: `${number}@s.whatsapp.net`, fromMe: false, id },
+    pushName: req.body?.name ?? 'Mock Contact',
+    message: { conversation: String(req.body?.text ?? 'Hello!') },
+    messageTimestamp: Math.floor(Date.now() / 1000),
+  });
+  res.status(202).json({ id });
+});
+
+// Everything the mock received, for inspection while testing
+app.get('/messages', (_req, res) => {
+  res.json(Array.from(messages.values(), (message) => ({ ...message, status: statusOf(message) })));
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock WhatsApp API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,180 @@
+import { addMinutes } from 'date-fns';
+import { OPTIONAL_EMAIL_NOTIFICATION_TYPES, type CustomerPlan, type EmailNotification, type EmailNotificationType, type UpdateNotificationPreferences, type User } from '@shared/schema';
+import { storage } from './storage';
+import { getEmailTransport } from './email-transports';
+import { renderEmail, type EmailTemplateData } from './email-templates';
+
+const EMAIL_FROM = process.env.EMAIL_FROM || 'Business Management <no-reply@localhost>';
+const JOB_INTERVAL_SECONDS = parseInt(process.env.EMAIL_QUEUE_INTERVAL_SECONDS || '30');
+
+// Emails handed to the transport per run
+const BATCH_SIZE = 50;
+
+// Wait before each retry; an email is failed after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+// Emails carrying a working password link. The stored copy keeps the link's
+// token only while the email waits in the queue: the token itself is hashed
+// in password_tokens, and the copy must not be a way around that.
+const SECRET_EMAIL_TYPES: string[] = ['user_invited', 'password_reset'];
+
+export interface EmailQueueResult {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+// The email with the token of any password link replaced, for storing and
+// listing it once it is no longer needed to send
+export function redactEmailSecrets<T extends Pick<EmailNotification, 'type' | 'text' | 'html'>>(email: T): T {
+  if (!SECRET_EMAIL_TYPES.includes(email.type)) return email;
+  const redact = (body: string) => body.replace(/([?&]token=)[\w-]+/g, '$1[redacted]');
+  return { ...email, text: redact(email.text), html: redact(email.html) };
+}
+
+// Every email type users can turn off, with whether the user gets it
+export async function getNotificationSettings(userId: number): Promise<UpdateNotificationPreferences> {
+  const preferences = await storage.getNotificationPreferences(userId);
+  return OPTIONAL_EMAIL_NOTIFICATION_TYPES.map((type) => ({
+    type,
+    email: preferences.find((preference) => preference.type === type)?.email ?? true,
+  }));
+}
+
+// Why an email to this user should not be sent, if it should not
+async function getSkipReason(user: User | undefined, type: EmailNotificationType): Promise<string | undefined> {
+  if (!user) return undefined;
+  if (!user.isActive) {
+    return 'Recipient is deactivated';
+  }
+  const preferences = await storage.getNotificationPreferences(user.id);
+  if (preferences.some((preference) => preference.type === type && !preference.email)) {
+    return 'Recipient turned off these emails';
+  }
+  return undefined;
+}
+
+// Render an email and queue it for the background job. Recipients with an
+// account, given directly or found by address, get it only when their
+// preferences allow. Never throws: a notification that cannot be queued is
+// logged and must not fail the action that triggered it.
+export async function queueEmail<T extends EmailNotificationType>(
+  type: T,
+  to: User | string,
+  data: EmailTemplateData[T],
+): Promise<EmailNotification | undefined> {
+  try {
+    const user = typeof to === 'string' ? await storage.getUserByEmail(to) : to;
+    const reason = await getSkipReason(user, type);
+    const rendered = { type, ...renderEmail(type, data) };
+    const email = await storage.createEmailNotification({
+      ...(reason ? redactEmailSecrets(rendered) : rendered),
+      userId: user?.id ?? null,
+      to: typeof to === 'string' ? to : to.email,
+      status: reason ? 'skipped' : 'pending',
+      reason,
+    });
+
+    if (!reason) {
+      setImmediate(() => void drainEmailQueue());
+    }
+    return email;
+  } catch (error) {
+    console.error(`Failed to queue ${type} email:`, error);
+    return undefined;
+  }
+}
+
+// Tell the customer when a plan becomes paid. Safe to call on every plan
+// change, like syncPlanAccounting.
+export async function notifyCustomerPlanChange(before: CustomerPlan | undefined, after: CustomerPlan | undefined) {
+  if (after?.payStatus !== 'paid' || before?.payStatus === 'paid') return;
+
+  const customer = await storage.getUser(after.customerId);
+  if (!customer) return;
+  const priceTable = await storage.getPriceTable(after.priceTableId);
+  await queueEmail('plan_paid', customer, { plan: after, priceTable, customer });
+}
+
+// Send the pay link of a renewal to the customer of the expiring plan
+export async function notifyPlanExpiring(plan: CustomerPlan, renewal: CustomerPlan) {
+  const customer = await storage.getUser(plan.customerId);
+  if (!customer) return;
+  const priceTable = await storage.getPriceTable(plan.priceTableId);
+  await queueEmail('plan_expiring', customer, { plan, renewal, priceTable, customer });
+}
+
+// One pass over the due emails. Failed deliveries are retried with backoff
+// and given up after the last retry.
+export async function runEmailQueue(now: Date = new Date()): Promise<EmailQueueResult> {
+  const result: EmailQueueResult = { sent: 0, retried: 0, failed: 0 };
+
+  for (const email of await storage.getDueEmailNotifications(now, BATCH_SIZE)) {
+    const attempts = email.attempts + 1;
+    try {
+      const transportMessageId = await getEmailTransport().send({
+        from: EMAIL_FROM,
+        to: email.to,
+        subject: email.subject,
+        text: email.text,
+        html: email.html,
+      });
+      const { text, html } = redactEmailSecrets(email);
+      await storage.updateEmailNotification(email.id, {
+        status: 'sent',
+        text,
+        html,
+        attempts,
+        transportMessageId,
+        reason: null,
+        sentAt: new Date(),
+      });
+      result.sent++;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+      const { text, html } = redactEmailSecrets(email);
+      await storage.updateEmailNotification(email.id, {
+        attempts,
+        reason,
+        ...(delay === undefined ? { status: 'failed', text, html } : { nextAttemptAt: addMinutes(now, delay) }),
+      });
+      result[delay === undefined ? 'failed' : 'retried']++;
+    }
+  }
+
+  return result;
+}
+
+let running = false;
+let runAgain = false;
+
+// Deliver due emails until none are left. Emails queued during a run are
+// picked up by another pass right after it.
+async function drainEmailQueue() {
+  if (running) {
+    runAgain = true;
+    return;
+  }
+  running = true;
+  try {
+    do {
+      runAgain = false;
+      const result = await runEmailQueue();
+      if (result.sent || result.retried || result.failed) {
+        console.log('Email queue run:', result);
+      }
+    } while (runAgain);
+  } catch (error) {
+    console.error('Email queue run failed:', error);
+  } finally {
+    running = false;
+  }
+}
+
+// Deliver queued emails now and then every EMAIL_QUEUE_INTERVAL_SECONDS, which
+// picks up retries and anything queued while the server was down
+export function startEmailQueueJob(): NodeJS.Timeout {
+  void drainEmailQueue();
+  return setInterval(() => void drainEmailQueue(), JOB_INTERVAL_SECONDS * 1000);
+}
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { addDays, addMinutes } from 'date-fns';
+import type { PasswordToken, PasswordTokenPurpose, User } from '@shared/schema';
+import { storage } from './storage';
+import { unlockAccount } from './login-throttle';
+import { hashPassword } from './auth';
+import { queueEmail } from './notifications';
+import { APP_URL } from './email-templates';
+
+const INVITE_EXPIRES_DAYS = parseInt(process.env.INVITE_EXPIRES_DAYS || '7');
+const PASSWORD_RESET_EXPIRES_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60');
+
+function hashPasswordToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Create a new link for the user. Links issued before it stop working, so
+// only the latest email is usable.
+async function issuePasswordToken(user: User, purpose: PasswordTokenPurpose): Promise<{ url: string; expiresAt: Date }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = purpose === 'invite'
+    ? addDays(new Date(), INVITE_EXPIRES_DAYS)
+    : addMinutes(new Date(), PASSWORD_RESET_EXPIRES_MINUTES);
+
+  await storage.expireUserPasswordTokens(user.id);
+  await storage.createPasswordToken({ userId: user.id, tokenHash: hashPasswordToken(token), purpose, expiresAt });
+  return { url: `${APP_URL}/reset-password?token=${token}`, expiresAt };
+}
+
+// Email a new user the link to choose their password
+export async function sendInvite(user: User, invitedBy: User | undefined) {
+  const { url, expiresAt } = await issuePasswordToken(user, 'invite');
+  await queueEmail('user_invited', user, { user, invitedBy, url, expiresAt });
+}
+
+// Email the link to reset a forgotten password. Deactivated users get nothing.
+export async function sendPasswordReset(user: User) {
+  if (!user.isActive) return;
+  const { url, expiresAt } = await issuePasswordToken(user, 'reset');
+  await queueEmail('password_reset', user, { user, url, expiresAt });
+}
+
+// The unused, unexpired token behind a link, with its user
+export async function findPasswordToken(token: string, now: Date = new Date()): Promise<{ passwordToken: PasswordToken; user: User } | undefined> {
+  const passwordToken = await storage.getPasswordTokenByHash(hashPasswordToken(token));
+  if (!passwordToken || passwordToken.usedAt || passwordToken.expiresAt <= now) {
+    return undefined;
+  }
+  const user = await storage.getUser(passwordToken.userId);
+  return user?.isActive ? { passwordToken, user } : undefined;
+}
+
+// Set the password through a link and use the link up. Every session of the
+// user is signed out. Returns undefined when the link is not valid (anymore).
+export async function resetPasswordWithToken(token: string, password: string): Promise<User | undefined> {
+  const found = await findPasswordToken(token);
+  if (!found || !(await storage.usePasswordToken(found.passwordToken.id))) {
+    return undefined;
+  }
+
+  const user = await storage.setUserPassword(found.user.id, await hashPassword(password));
+  await storage.expireUserPasswordTokens(found.user.id);
+  await storage.revokeAllUserTokens(found.user.id);
+  // Whoever set the new password owns the account, so a lockout has done its job
+  await unlockAccount(found.user.email);
+  return user;
+}
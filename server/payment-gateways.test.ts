@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { getPaymentGatewayAdapter, type PaymentGatewayConfig, type WebhookRequest } from './payment-gateways';
+import { signFakeWebhook } from './payment-gateways/fake';
+
+function gateway(type: string, overrides: Partial<PaymentGatewayConfig> = {}): PaymentGatewayConfig {
+  return {
+    id: 1,
+    type,
+    apiUrl: 'https://gateway.example.com',
+    publicKey: null,
+    token: 'api-token',
+    webhookSecret: 'webhook-secret',
+    ...overrides,
+  };
+}
+
+function webhook(body: unknown, headers: IncomingHttpHeaders = {}, query: Record<string, unknown> = {}): WebhookRequest {
+  return { headers, query, rawBody: Buffer.from(JSON.stringify(body)) };
+}
+
+test('Asaas webhooks must carry the configured access token', () => {
+  const adapter = getPaymentGatewayAdapter(gateway('asaas'));
+  const body = { event: 'PAYMENT_RECEIVED', payment: { id: 'pay_1', status: 'RECEIVED' } };
+
+  assert.equal(adapter.verifyWebhook(webhook(body, { 'asaas-access-token': 'webhook-secret' })), true);
+  assert.equal(adapter.verifyWebhook(webhook(body, { 'asaas-access-token': 'guessed' })), false);
+  assert.equal(adapter.verifyWebhook(webhook(body)), false);
+  assert.equal(getPaymentGatewayAdapter(gateway('asaas', { webhookSecret: null })).verifyWebhook(webhook(body)), false);
+});
+
+test('Asaas refunds and chargebacks count once the money has moved', async () => {
+  const adapter = getPaymentGatewayAdapter(gateway('asaas'));
+  const event = (status: string) => adapter.parseWebhook({ event: 'PAYMENT_UPDATED', payment: { id: 'pay_1', status } });
+
+  assert.equal(await event('REFUND_REQUESTED'), null);
+  assert.equal(await event('CHARGEBACK_REQUESTED'), null);
+  assert.equal((await event('REFUNDED'))?.status, 'refunded');
+  assert.equal((await event('CHARGEBACK_RECEIVED'))?.status, 'refunded');
+  assert.equal(await adapter.parseWebhook({ event: 'PAYMENT_UPDATED' }), null);
+});
+
+test('PagSeguro webhooks must be signed with the API token', () => {
+  const adapter = getPaymentGatewayAdapter(gateway('pagseguro'));
+  const body = { id: 'ORDE_1', reference_id: 'plan-1', charges: [{ id: 'CHAR_1', status: 'PAID' }] };
+  const signature = crypto.createHash('sha256').update(`api-token-${JSON.stringify(body)}`).digest('hex');
+
+  assert.equal(adapter.verifyWebhook(webhook(body, { 'x-authenticity-token': signature })), true);
+  assert.equal(adapter.verifyWebhook(webhook({ ...body, reference_id: 'plan-2' }, { 'x-authenticity-token': signature })), false);
+});
+
+test('fake gateway webhooks must be signed and name a known status', async () => {
+  const config = gateway('fake');
+  const adapter = getPaymentGatewayAdapter(config);
+  const body = { id: 'evt_1', chargeId: 'fake_1', status: 'paid' };
+
+  assert.equal(adapter.verifyWebhook(webhook(body, { 'x-fake-signature': signFakeWebhook(config, JSON.stringify(body)) })), true);
+  assert.equal(adapter.verifyWebhook(webhook(body, { 'x-fake-signature': signFakeWebhook(config, '{}') })), false);
+  assert.equal((await adapter.parseWebhook(body))?.status, 'paid');
+  assert.equal(await adapter.parseWebhook({ ...body, status: 'settled' }), null);
+});
+
+// Mercado Pago signs the query's data.id, the request id and a timestamp
+function mercadoPagoWebhook(bodyId: string, queryId: string, signedAt: number) {
+  const ts = String(Math.floor(signedAt / 1000));
+  const manifest = `id:${queryId};request-id:req-1;ts:${ts};`;
+  const v1 = crypto.createHmac('sha256', 'webhook-secret').update(manifest).digest('hex');
+  return webhook(
+    { type: 'payment', data: { id: bodyId } },
+    { 'x-signature': `ts=${ts},v1=${v1}`, 'x-request-id': 'req-1' },
+    { 'data.id': queryId },
+  );
+}
+
+test('Mercado Pago webhooks must be freshly signed for the payment in the body', () => {
+  const adapter = getPaymentGatewayAdapter(gateway('mercado_pago'));
+  const now = Date.now();
+
+  assert.equal(adapter.verifyWebhook(mercadoPagoWebhook('123', '123', now)), true);
+  // A signed notification replayed with another payment in the body
+  assert.equal(adapter.verifyWebhook(mercadoPagoWebhook('456', '123', now)), false);
+  // A signed notification replayed long after it was sent
+  assert.equal(adapter.verifyWebhook(mercadoPagoWebhook('123', '123', now - 10 * 60 * 1000)), false);
+  assert.equal(getPaymentGatewayAdapter(gateway('mercado_pago', { webhookSecret: null })).verifyWebhook(mercadoPagoWebhook('123', '123', now)), false);
+});
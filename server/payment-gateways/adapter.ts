@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { PaymentGateway } from '@shared/schema';
+
+// Normalised charge status shared by every provider
+export const CHARGE_STATUSES = ['pending', 'paid', 'failed', 'expired', 'refunded', 'cancelled'] as const;
+export type ChargeStatus = typeof CHARGE_STATUSES[number];
+
+export interface ChargeCustomer {
+  name: string;
+  email: string;
+}
+
+export interface CreateChargeInput {
+  amount: number; // In major units (e.g. 119.90 BRL)
+  currency: string; // ISO 4217 code of the price table
+  description: string;
+  customer: ChargeCustomer;
+  dueDate: Date;
+  externalReference: string; // Our own id for the charge, echoed back by the provider
+}
+
+export interface Charge {
+  id: string; // Provider charge id, stored as customerPlans.payHash
+  status: ChargeStatus;
+  payLink: string;
+  expiresAt: Date;
+}
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  query: Record<string, unknown>;
+  rawBody: Buffer;
+}
+
+// A payment status change reported by a provider webhook. Providers identify
+// the charge either by their own id or by the external reference we sent.
+export interface PaymentWebhookEvent {
+  eventId: string;
+  chargeId?: string;
+  externalReference?: string;
+  status: ChargeStatus;
+  occurredAt: Date;
+}
+
+export interface PaymentGatewayAdapter {
+  createCharge(input: CreateChargeInput): Promise<Charge>;
+  getChargeStatus(chargeId: string): Promise<ChargeStatus>;
+  cancelCharge(chargeId: string): Promise<void>;
+  refundCharge(chargeId: string, amount?: number): Promise<void>;
+
+  // Webhooks: check the provider signature, then turn the body into an event.
+  // parseWebhook resolves to null for notifications we do not act on,
+  // including bodies that do not have the shape the provider documents.
+  verifyWebhook(request: WebhookRequest): boolean;
+  parseWebhook(body: unknown): Promise<PaymentWebhookEvent | null>;
+}
+
+export type PaymentGatewayConfig = Pick<PaymentGateway, 'id' | 'type' | 'apiUrl' | 'publicKey' | 'token' | 'webhookSecret'>;
+
+// How long a provider API may take to answer, so one that hangs cannot hold
+// up the jobs that call it
+const GATEWAY_REQUEST_TIMEOUT_MS = parseInt(process.env.GATEWAY_REQUEST_TIMEOUT_MS || '15000');
+
+// A provider API that answered with an error or did not answer in time.
+// status is unset on a timeout.
+export class GatewayRequestError extends Error {
+  constructor(public provider: string, message: string, public status?: number) {
+    super(message);
+  }
+}
+
+// JSON request against a provider API. Errors carry the provider response
+// so failures can be diagnosed from the server log.
+export async function gatewayRequest<T>(
+  provider: string,
+  url: string,
+  init: { method?: string; headers?: Record<string, string>; body?: unknown } = {},
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method ?? 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...init.headers,
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: AbortSignal.timeout(GATEWAY_REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      throw new GatewayRequestError(provider, `${provider} API did not respond within ${GATEWAY_REQUEST_TIMEOUT_MS} ms`);
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    const detail = await response.text();
+    throw new GatewayRequestError(provider, `${provider} API responded with status ${response.status}: ${detail}`, response.status);
+  }
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+export function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Constant-time comparison for signatures and shared secrets
+export function secureCompare(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+export function joinUrl(apiUrl: string, path: string): string {
+  return `${apiUrl.replace(/\/+$/, '')}${path}`;
+}
+
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import {
+  gatewayRequest,
+  getHeader,
+  joinUrl,
+  secureCompare,
+  toDateString,
+  type Charge,
+  type ChargeStatus,
+  type CreateChargeInput,
+  type PaymentGatewayAdapter,
+  type PaymentGatewayConfig,
+  type PaymentWebhookEvent,
+  type WebhookRequest,
+} from './adapter';
+
+interface AsaasCustomer {
+  id: string;
+}
+
+interface AsaasPayment {
+  id: string;
+  status: string;
+  invoiceUrl: string;
+  dueDate: string;
+}
+
+// https://docs.asaas.com/docs/webhook-para-cobrancas
+const asaasWebhookSchema = z.object({
+  id: z.string().optional(),
+  event: z.string().optional(),
+  payment: z.object({
+    id: z.string().min(1),
+    status: z.string(),
+    externalReference: z.string().nullish(),
+    paymentDate: z.string().nullish(),
+  }),
+});
+
+// Refunds and chargebacks that were asked for but may still be denied. The
+// money has not moved yet, so the payment stands until a final status.
+const PENDING_REVERSAL_STATUSES = [
+  'REFUND_REQUESTED',
+  'REFUND_IN_PROGRESS',
+  'CHARGEBACK_REQUESTED',
+  'CHARGEBACK_DISPUTE',
+  'AWAITING_CHARGEBACK_REVERSAL',
+];
+
+// https://docs.asaas.com/reference/criar-nova-cobranca
+export function mapAsaasStatus(status: string): ChargeStatus {
+  switch (status) {
+    case 'RECEIVED':
+    case 'CONFIRMED':
+    case 'RECEIVED_IN_CASH':
+      return 'paid';
+    case 'OVERDUE':
+      return 'expired';
+    case 'REFUNDED':
+    case 'CHARGEBACK_RECEIVED':
+      return 'refunded';
+    case 'DELETED':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+}
+
+export class AsaasAdapter implements PaymentGatewayAdapter {
+  constructor(private gateway: PaymentGatewayConfig) {}
+
+  private request<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    return gatewayRequest<T>('Asaas', joinUrl(this.gateway.apiUrl, path), {
+      ...init,
+      headers: { access_token: this.gateway.token },
+    });
+  }
+
+  // Asaas charges belong to a customer record, reused by email when it exists
+  private async findOrCreateCustomer(name: string, email: string): Promise<string> {
+    const existing = await this.request<{ data: AsaasCustomer[] }>(`/customers?email=${encodeURIComponent(email)}`);
+    if (existing.data.length > 0) {
+      return existing.data[0].id;
+    }
+
+    const customer = await this.request<AsaasCustomer>('/customers', {
+      method: 'POST',
+      body: { name, email },
+    });
+    return customer.id;
+  }
+
+  async createCharge(input: CreateChargeInput): Promise<Charge> {
+    const customerId = await this.findOrCreateCustomer(input.customer.name, input.customer.email);
+    const payment = await this.request<AsaasPayment>('/payments', {
+      method: 'POST',
+      body: {
+        customer: customerId,
+        billingType: 'UNDEFINED', // Let the customer pick boleto, PIX or card
+        value: input.amount,
+        dueDate: toDateString(input.dueDate),
+        description: input.description,
+        externalReference: input.externalReference,
+      },
+    });
+
+    return {
+      id: payment.id,
+      status: mapAsaasStatus(payment.status),
+      payLink: payment.invoiceUrl,
+      expiresAt: input.dueDate,
+    };
+  }
+
+  async getChargeStatus(chargeId: string): Promise<ChargeStatus> {
+    const payment = await this.request<AsaasPayment>(`/payments/${chargeId}`);
+    return mapAsaasStatus(payment.status);
+  }
+
+  async cancelCharge(chargeId: string): Promise<void> {
+    await this.request(`/payments/${chargeId}`, { method: 'DELETE' });
+  }
+
+  async refundCharge(chargeId: string, amount?: number): Promise<void> {
+    await this.request(`/payments/${chargeId}/refund`, {
+      method: 'POST',
+      body: amount !== undefined ? { value: amount } : {},
+    });
+  }
+
+  // Asaas echoes the auth token configured on the webhook in a header
+  verifyWebhook(request: WebhookRequest): boolean {
+    return secureCompare(getHeader(request.headers, 'asaas-access-token'), this.gateway.webhookSecret ?? undefined);
+  }
+
+  async parseWebhook(body: unknown): Promise<PaymentWebhookEvent | null> {
+    const parsed = asaasWebhookSchema.safeParse(body);
+    if (!parsed.success || PENDING_REVERSAL_STATUSES.includes(parsed.data.payment.status)) {
+      return null;
+    }
+    const { payment, ...notification } = parsed.data;
+
+    return {
+      eventId: notification.id ?? `${notification.event}:${payment.id}`,
+      chargeId: payment.id,
+      externalReference: payment.externalReference ?? undefined,
+      status: mapAsaasStatus(payment.status),
+      occurredAt: payment.paymentDate ? new Date(payment.paymentDate) : new Date(),
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import {
+  CHARGE_STATUSES,
+  getHeader,
+  joinUrl,
+  secureCompare,
+  type Charge,
+  type ChargeStatus,
+  type CreateChargeInput,
+  type PaymentGatewayAdapter,
+  type PaymentGatewayConfig,
+  type PaymentWebhookEvent,
+  type WebhookRequest,
+} from './adapter';
+
+export interface FakeCharge extends Charge {
+  gatewayId: number;
+  input: CreateChargeInput;
+  refundedAmount: number;
+}
+
+// Charges live in process memory and are shared by every fake gateway, so a
+// test can create a plan through the API and settle its charge afterwards.
+const charges = new Map<string, FakeCharge>();
+
+export function getFakeCharge(chargeId: string): FakeCharge | undefined {
+  return charges.get(chargeId);
+}
+
+// Simulate the customer paying (or the provider failing/expiring) a charge
+export function setFakeChargeStatus(chargeId: string, status: ChargeStatus): FakeCharge {
+  const charge = charges.get(chargeId);
+  if (!charge) {
+    throw new Error(`Fake charge ${chargeId} not found`);
+  }
+  charge.status = status;
+  return charge;
+}
+
+export function resetFakeCharges() {
+  charges.clear();
+}
+
+// Signature expected in x-fake-signature: HMAC-SHA256 of the raw body with the
+// gateway's webhook secret (or its token when no secret is set)
+export function signFakeWebhook(gateway: PaymentGatewayConfig, rawBody: string): string {
+  return crypto.createHmac('sha256', gateway.webhookSecret || gateway.token).update(rawBody).digest('hex');
+}
+
+const fakeWebhookSchema = z.object({
+  id: z.string().min(1),
+  chargeId: z.string().min(1),
+  status: z.enum(CHARGE_STATUSES),
+});
+
+// In-process gateway for tests and local development. Never talks to the network.
+export class FakePaymentGatewayAdapter implements PaymentGatewayAdapter {
+  constructor(private gateway: PaymentGatewayConfig) {}
+
+  private getCharge(chargeId: string): FakeCharge {
+    const charge = charges.get(chargeId);
+    if (!charge || charge.gatewayId !== this.gateway.id) {
+      throw new Error(`Fake charge ${chargeId} not found`);
+    }
+    return charge;
+  }
+
+  async createCharge(input: CreateChargeInput): Promise<Charge> {
+    const id = `fake_${crypto.randomBytes(8).toString('hex')}`;
+    const charge: FakeCharge = {
+      id,
+      status: 'pending',
+      payLink: joinUrl(this.gateway.apiUrl, `/pay/${id}`),
+      expiresAt: input.dueDate,
+      gatewayId: this.gateway.id,
+      input,
+      refundedAmount: 0,
+    };
+    charges.set(id, charge);
+
+    const { gatewayId, input: _input, refundedAmount, ...result } = charge;
+    return result;
+  }
+
+  async getChargeStatus(chargeId: string): Promise<ChargeStatus> {
+    return this.getCharge(chargeId).status;
+  }
+
+  async cancelCharge(chargeId: string): Promise<void> {
+    const charge = this.getCharge(chargeId);
+    if (charge.status === 'paid') {
+      throw new Error(`Fake charge ${chargeId} is already paid`);
+    }
+    charge.status = 'cancelled';
+  }
+
+  async refundCharge(chargeId: string, amount?: number): Promise<void> {
+    const charge = this.getCharge(chargeId);
+    if (charge.status !== 'paid') {
+      throw new Error(`Fake charge ${chargeId} is not paid`);
+    }
+    charge.refundedAmount += amount ?? charge.input.amount;
+    if (charge.refundedAmount >= charge.input.amount) {
+      charge.status = 'refunded';
+    }
+  }
+
+  verifyWebhook(request: WebhookRequest): boolean {
+    const expected = signFakeWebhook(this.gateway, request.rawBody.toString('utf8'));
+    return secureCompare(getHeader(request.headers, 'x-fake-signature'), expected);
+  }
+
+  // Body: { id, chargeId, status }
+  async parseWebhook(body: unknown): Promise<PaymentWebhookEvent | null> {
+    const parsed = fakeWebhookSchema.safeParse(body);
+    if (!parsed.success) {
+      return null;
+    }
+    return {
+      eventId: parsed.data.id,
+      chargeId: parsed.data.chargeId,
+      status: parsed.data.status,
+      occurredAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import type { PaymentGatewayAdapter, PaymentGatewayConfig } from './adapter';
+import { AsaasAdapter } from './asaas';
+import { MercadoPagoAdapter } from './mercado-pago';
+import { PagSeguroAdapter } from './pagseguro';
+import { FakePaymentGatewayAdapter } from './fake';
+
+export type { PaymentGatewayAdapter, PaymentGatewayConfig, Charge, ChargeStatus, CreateChargeInput, PaymentWebhookEvent, WebhookRequest } from './adapter';
+
+// Build the adapter for a stored gateway. The config must hold the decrypted
+// token, as returned by storage.
+export function getPaymentGatewayAdapter(gateway: PaymentGatewayConfig): PaymentGatewayAdapter {
+  switch (gateway.type) {
+    case 'asaas':
+      return new AsaasAdapter(gateway);
+    case 'mercado_pago':
+      return new MercadoPagoAdapter(gateway);
+    case 'pagseguro':
+      return new PagSeguroAdapter(gateway);
+    case 'fake':
+      // Only available outside production
+      if (process.env.NODE_ENV !== 'production') {
+        return new FakePaymentGatewayAdapter(gateway);
+      }
+      break;
+  }
+  throw new Error(`Unsupported payment gateway type: ${gateway.type}`);
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import {
+  gatewayRequest,
+  getHeader,
+  joinUrl,
+  secureCompare,
+  type Charge,
+  type ChargeStatus,
+  type CreateChargeInput,
+  type PaymentGatewayAdapter,
+  type PaymentGatewayConfig,
+  type PaymentWebhookEvent,
+  type WebhookRequest,
+} from './adapter';
+
+interface MercadoPagoPreference {
+  id: string;
+  init_point: string;
+  external_reference: string;
+}
+
+interface MercadoPagoPayment {
+  id: number;
+  status: string;
+  external_reference?: string;
+  date_approved?: string | null;
+  date_last_updated?: string;
+  order?: { id: number };
+}
+
+// How far the signed ts may be from now, so a captured notification cannot
+// be replayed later
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Webhook notification; data.id is the payment id
+const mercadoPagoWebhookSchema = z.object({
+  type: z.string(),
+  data: z.object({ id: z.union([z.string().min(1), z.number()]) }),
+});
+
+interface MercadoPagoMerchantOrder {
+  id: number;
+  preference_id: string;
+}
+
+// https://www.mercadopago.com.br/developers/en/reference/payments/_payments_id/get
+export function mapMercadoPagoStatus(status: string): ChargeStatus {
+  switch (status) {
+    case 'approved':
+    case 'authorized':
+      return 'paid';
+    case 'rejected':
+      return 'failed';
+    case 'refunded':
+    case 'charged_back':
+      return 'refunded';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+}
+
+// Charges are Checkout Pro preferences; the payment made against a preference
+// is looked up through the external reference we gave it.
+export class MercadoPagoAdapter implements PaymentGatewayAdapter {
+  constructor(private gateway: PaymentGatewayConfig) {}
+
+  private request<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    return gatewayRequest<T>('Mercado Pago', joinUrl(this.gateway.apiUrl, path), {
+      ...init,
+      headers: { Authorization: `Bearer ${this.gateway.token}` },
+    });
+  }
+
+  private async findLatestPayment(preferenceId: string): Promise<MercadoPagoPayment | undefined> {
+    const preference = await this.request<MercadoPagoPreference>(`/checkout/preferences/${preferenceId}`);
+    const search = await this.request<{ results: MercadoPagoPayment[] }>(
+      `/v1/payments/search?sort=date_created&criteria=desc&external_reference=${encodeURIComponent(preference.external_reference)}`,
+    );
+    return search.results[0];
+  }
+
+  async createCharge(input: CreateChargeInput): Promise<Charge> {
+    const preference = await this.request<MercadoPagoPreference>('/checkout/preferences', {
+      method: 'POST',
+      body: {
+        items: [{ title: input.description, quantity: 1, unit_price: input.amount, currency_id: input.currency }],
+        payer: { name: input.customer.name, email: input.customer.email },
+        external_reference: input.externalReference,
+        expires: true,
+        expiration_date_to: input.dueDate.toISOString(),
+      },
+    });
+
+    return {
+      id: preference.id,
+      status: 'pending',
+      payLink: preference.init_point,
+      expiresAt: input.dueDate,
+    };
+  }
+
+  async getChargeStatus(chargeId: string): Promise<ChargeStatus> {
+    const payment = await this.findLatestPayment(chargeId);
+    return payment ? mapMercadoPagoStatus(payment.status) : 'pending';
+  }
+
+  // Preferences cannot be deleted, so cancelling expires the checkout link
+  async cancelCharge(chargeId: string): Promise<void> {
+    await this.request(`/checkout/preferences/${chargeId}`, {
+      method: 'PUT',
+      body: { expires: true, expiration_date_to: new Date().toISOString() },
+    });
+  }
+
+  async refundCharge(chargeId: string, amount?: number): Promise<void> {
+    const payment = await this.findLatestPayment(chargeId);
+    if (!payment) {
+      throw new Error(`Mercado Pago preference ${chargeId} has no payment to refund`);
+    }
+    await this.request(`/v1/payments/${payment.id}/refunds`, {
+      method: 'POST',
+      body: amount !== undefined ? { amount } : {},
+    });
+  }
+
+  // https://www.mercadopago.com.br/developers/en/docs/your-integrations/notifications/webhooks
+  // x-signature is "ts=<ts>,v1=<hmac>" over "id:<data.id>;request-id:<x-request-id>;ts:<ts>;"
+  verifyWebhook(request: WebhookRequest): boolean {
+    if (!this.gateway.webhookSecret) return false;
+
+    const parts = Object.fromEntries(
+      (getHeader(request.headers, 'x-signature') ?? '').split(',').map((part) => part.trim().split('=')),
+    );
+    const dataId = String(request.query['data.id'] ?? '').toLowerCase();
+    const manifest = `id:${dataId};request-id:${getHeader(request.headers, 'x-request-id') ?? ''};ts:${parts.ts};`;
+    const expected = crypto.createHmac('sha256', this.gateway.webhookSecret).update(manifest).digest('hex');
+    if (!secureCompare(parts.v1, expected)) return false;
+
+    // Accept ts in seconds or in milliseconds
+    const ts = Number(parts.ts);
+    const signedAt = ts < 1e12 ? ts * 1000 : ts;
+    if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > SIGNATURE_TOLERANCE_MS) return false;
+
+    // Only the query id is signed, but parseWebhook acts on the body's
+    let body: any;
+    try {
+      body = JSON.parse(request.rawBody.toString('utf8'));
+    } catch {
+      return false;
+    }
+    return dataId !== '' && String(body?.data?.id ?? '').toLowerCase() === dataId;
+  }
+
+  // Notifications only carry the payment id, so the payment and its merchant
+  // order are fetched to find the preference (our charge id)
+  async parseWebhook(body: unknown): Promise<PaymentWebhookEvent | null> {
+    const parsed = mercadoPagoWebhookSchema.safeParse(body);
+    if (!parsed.success || parsed.data.type !== 'payment') {
+      return null;
+    }
+
+    const payment = await this.request<MercadoPagoPayment>(`/v1/payments/${encodeURIComponent(parsed.data.data.id)}`);
+    const order = payment.order
+      ? await this.request<MercadoPagoMerchantOrder>(`/merchant_orders/${payment.order.id}`)
+      : undefined;
+
+    return {
+      eventId: `${payment.id}:${payment.status}`,
+      chargeId: order?.preference_id,
+      externalReference: payment.external_reference,
+      status: mapMercadoPagoStatus(payment.status),
+      occurredAt: new Date(payment.date_approved ?? payment.date_last_updated ?? Date.now()),
+    };
+  }
+}
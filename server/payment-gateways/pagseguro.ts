@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import {
+  gatewayRequest,
+  getHeader,
+  joinUrl,
+  secureCompare,
+  type Charge,
+  type ChargeStatus,
+  type CreateChargeInput,
+  type PaymentGatewayAdapter,
+  type PaymentGatewayConfig,
+  type PaymentWebhookEvent,
+  type WebhookRequest,
+} from './adapter';
+
+interface PagSeguroCheckout {
+  id: string;
+  status: string; // ACTIVE, INACTIVE, EXPIRED
+  links: { rel: string; href: string }[];
+  orders?: { id: string }[];
+}
+
+// Orders are what PagSeguro posts to the notification URL
+const pagSeguroOrderSchema = z.object({
+  id: z.string().min(1),
+  reference_id: z.string().optional(),
+  charges: z.array(z.object({
+    id: z.string().min(1),
+    status: z.string(),
+    paid_at: z.string().optional(),
+  })).optional(),
+});
+
+type PagSeguroOrder = z.infer<typeof pagSeguroOrderSchema>;
+
+// https://dev.pagbank.uol.com.br/reference/objeto-charge
+export function mapPagSeguroStatus(status: string): ChargeStatus {
+  switch (status) {
+    case 'PAID':
+    case 'AUTHORIZED':
+      return 'paid';
+    case 'DECLINED':
+      return 'failed';
+    case 'CANCELED':
+      return 'refunded';
+    default:
+      return 'pending';
+  }
+}
+
+// Amounts are sent to PagSeguro in cents
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+// Charges are PagBank checkouts; the order created when the customer pays
+// carries the actual charge.
+export class PagSeguroAdapter implements PaymentGatewayAdapter {
+  constructor(private gateway: PaymentGatewayConfig) {}
+
+  private request<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    return gatewayRequest<T>('PagSeguro', joinUrl(this.gateway.apiUrl, path), {
+      ...init,
+      headers: { Authorization: `Bearer ${this.gateway.token}` },
+    });
+  }
+
+  private async findCharge(checkoutId: string): Promise<{ checkout: PagSeguroCheckout; charge?: { id: string; status: string } }> {
+    const checkout = await this.request<PagSeguroCheckout>(`/checkouts/${checkoutId}`);
+    const orderId = checkout.orders?.[0]?.id;
+    if (!orderId) {
+      return { checkout };
+    }
+    const order = await this.request<PagSeguroOrder>(`/orders/${orderId}`);
+    return { checkout, charge: order.charges?.[0] };
+  }
+
+  async createCharge(input: CreateChargeInput): Promise<Charge> {
+    const checkout = await this.request<PagSeguroCheckout>('/checkouts', {
+      method: 'POST',
+      body: {
+        reference_id: input.externalReference,
+        customer: { name: input.customer.name, email: input.customer.email },
+        items: [{ reference_id: input.externalReference, name: input.description, quantity: 1, unit_amount: toCents(input.amount) }],
+        expiration_date: input.dueDate.toISOString(),
+      },
+    });
+
+    const payLink = checkout.links.find((link) => link.rel === 'PAY')?.href;
+    if (!payLink) {
+      throw new Error(`PagSeguro checkout ${checkout.id} has no payment link`);
+    }
+
+    return {
+      id: checkout.id,
+      status: 'pending',
+      payLink,
+      expiresAt: input.dueDate,
+    };
+  }
+
+  async getChargeStatus(chargeId: string): Promise<ChargeStatus> {
+    const { checkout, charge } = await this.findCharge(chargeId);
+    if (charge) {
+      return mapPagSeguroStatus(charge.status);
+    }
+    if (checkout.status === 'EXPIRED') {
+      return 'expired';
+    }
+    return checkout.status === 'INACTIVE' ? 'cancelled' : 'pending';
+  }
+
+  async cancelCharge(chargeId: string): Promise<void> {
+    await this.request(`/checkouts/${chargeId}/inactivate`, { method: 'POST' });
+  }
+
+  async refundCharge(chargeId: string, amount?: number): Promise<void> {
+    const { charge } = await this.findCharge(chargeId);
+    if (!charge) {
+      throw new Error(`PagSeguro checkout ${chargeId} has no charge to refund`);
+    }
+    await this.request(`/charges/${charge.id}/cancel`, {
+      method: 'POST',
+      body: amount !== undefined ? { amount: { value: toCents(amount) } } : {},
+    });
+  }
+
+  // x-authenticity-token is sha256("<token>-<raw body>")
+  verifyWebhook(request: WebhookRequest): boolean {
+    const expected = crypto
+      .createHash('sha256')
+      .update(`${this.gateway.token}-${request.rawBody.toString('utf8')}`)
+      .digest('hex');
+    return secureCompare(getHeader(request.headers, 'x-authenticity-token'), expected);
+  }
+
+  // Notifications carry the order; its reference_id is the one we gave the checkout
+  async parseWebhook(body: unknown): Promise<PaymentWebhookEvent | null> {
+    const parsed = pagSeguroOrderSchema.safeParse(body);
+    const order = parsed.success ? parsed.data : undefined;
+    const charge = order?.charges?.[0];
+    if (!order || !charge) {
+      return null;
+    }
+
+    return {
+      eventId: `${order.id}:${charge.id}:${charge.status}`,
+      externalReference: order.reference_id,
+      status: mapPagSeguroStatus(charge.status),
+      occurredAt: charge.paid_at ? new Date(charge.paid_at) : new Date(),
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import { format } from 'date-fns';
+import type { CustomerPlan, PaymentReminder, PaymentReminderRule, PriceTable, User, WhatsappInstance } from '@shared/schema';
+import { formatMoney } from '@shared/money';
+import { storage } from './storage';
+import { sendWhatsappText } from './whatsapp';
+
+const JOB_INTERVAL_MINUTES = parseInt(process.env.PAYMENT_REMINDER_INTERVAL_MINUTES || '15');
+
+// A rule stops retrying a plan after this many failed sends
+const MAX_FAILED_ATTEMPTS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Replies that opt the customer out of reminders (English and Portuguese)
+const OPT_OUT_PATTERN = /^\s*(stop|parar|sair|cancelar)\s*[.!]?\s*$/i;
+
+type PaymentReminderStatus = 'sent' | 'failed' | 'skipped';
+
+export interface PaymentReminderResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+// When a rule is due for a plan; undefined when it never is
+function dueAt(rule: PaymentReminderRule, plan: CustomerPlan): Date | undefined {
+  if (rule.trigger === 'after_creation') {
+    return plan.createdAt ? new Date(plan.createdAt.getTime() + rule.offsetHours * HOUR_MS) : undefined;
+  }
+  return plan.payExpiration ? new Date(plan.payExpiration.getTime() - rule.offsetHours * HOUR_MS) : undefined;
+}
+
+// A rule is done with a plan once it was sent or skipped, or after too many failures
+function isDone(rule: PaymentReminderRule, attempts: PaymentReminder[]): boolean {
+  const ruleAttempts = attempts.filter((attempt) => attempt.ruleId === rule.id);
+  return ruleAttempts.some((attempt) => attempt.status !== 'failed') ||
+    ruleAttempts.length >= MAX_FAILED_ATTEMPTS;
+}
+
+function renderPaymentReminder(template: string, plan: CustomerPlan, customer: User, priceTable: PriceTable | undefined): string {
+  const values: Record<string, string> = {
+    name: customer.name,
+    plan: priceTable?.title ?? '',
+    amount: formatMoney(plan.amount, priceTable?.currency),
+    payLink: plan.payLink ?? '',
+    expiresAt: plan.payExpiration ? format(plan.payExpiration, 'dd/MM/yyyy HH:mm') : '',
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+// Prefer an instance that the last health check found connected
+function pickInstance(instances: WhatsappInstance[]): WhatsappInstance | undefined {
+  const active = instances.filter((instance) => instance.isActive);
+  return active.find((instance) => instance.connectionStatus === 'connected') ?? active[0];
+}
+
+async function remindPlan(
+  plan: CustomerPlan,
+  rule: PaymentReminderRule,
+  instance: WhatsappInstance,
+): Promise<PaymentReminderStatus> {
+  const customer = await storage.getUser(plan.customerId);
+  const log = (status: PaymentReminderStatus, details: Partial<Pick<PaymentReminder, 'reason' | 'whatsappMessageId'>> = {}) =>
+    storage.createPaymentReminder({
+      entrepreneurId: rule.entrepreneurId,
+      ruleId: rule.id,
+      customerPlanId: plan.id,
+      customerId: plan.customerId,
+      status,
+      ...details,
+    });
+
+  if (!customer?.phone) {
+    await log('skipped', { reason: 'Customer has no phone number' });
+    return 'skipped';
+  }
+  if (customer.whatsappOptOutAt) {
+    await log('skipped', { reason: 'Customer opted out of WhatsApp reminders' });
+    return 'skipped';
+  }
+
+  const priceTable = await storage.getPriceTable(plan.priceTableId);
+  try {
+    const message = await sendWhatsappText(instance, {
+      to: customer.phone,
+      customerId: customer.id,
+      text: renderPaymentReminder(rule.messageTemplate, plan, customer, priceTable),
+    }, null);
+    const status = message.status === 'failed' ? 'failed' : 'sent';
+    await log(status, { whatsappMessageId: message.id, reason: message.error });
+    return status;
+  } catch (error) {
+    await log('failed', { reason: error instanceof Error ? error.message : String(error) });
+    return 'failed';
+  }
+}
+
+// One pass over the pending plans of every tenant with active reminder rules.
+// A plan gets at most one reminder per run: when several rules are due at
+// once, e.g. for a plan created close to its pay link expiring, only the
+// latest one is sent and the others are logged as skipped. Tenants without an
+// active WhatsApp instance are left alone and picked up again on a later run.
+export async function runPaymentReminders(now: Date = new Date()): Promise<PaymentReminderResult> {
+  const result: PaymentReminderResult = { sent: 0, failed: 0, skipped: 0 };
+
+  const rulesByTenant = new Map<number, PaymentReminderRule[]>();
+  for (const rule of await storage.getActivePaymentReminderRules()) {
+    rulesByTenant.set(rule.entrepreneurId, [...(rulesByTenant.get(rule.entrepreneurId) ?? []), rule]);
+  }
+
+  for (const [entrepreneurId, rules] of Array.from(rulesByTenant)) {
+    const plans = await storage.getRemindableCustomerPlans(entrepreneurId, now);
+    if (plans.length === 0) continue;
+
+    const instance = pickInstance(await storage.getAllWhatsappInstances(entrepreneurId));
+    if (!instance) continue;
+
+    for (const plan of plans) {
+      try {
+        const attempts = await storage.getPaymentReminders({ customerPlanId: plan.id });
+        const due = rules
+          .map((rule) => ({ rule, at: dueAt(rule, plan) }))
+          .filter((entry): entry is { rule: PaymentReminderRule; at: Date } =>
+            entry.at !== undefined && entry.at <= now && !isDone(entry.rule, attempts))
+          .sort((a, b) => a.at.getTime() - b.at.getTime());
+        if (due.length === 0) continue;
+
+        const latest = due.pop()!;
+        for (const { rule } of due) {
+          await storage.createPaymentReminder({
+            entrepreneurId,
+            ruleId: rule.id,
+            customerPlanId: plan.id,
+            customerId: plan.customerId,
+            status: 'skipped',
+            reason: `Superseded by "${latest.rule.name}"`,
+          });
+          result.skipped++;
+        }
+
+        const status = await remindPlan(plan, latest.rule, instance);
+        result[status]++;
+      } catch (error) {
+        console.error(`Failed to send payment reminder for customer plan ${plan.id}:`, error);
+      }
+    }
+  }
+
+  return result;
+}
+
+// Opt the customer out when they reply STOP to a message. The customer is the
+// one linked to the conversation, or else the tenant's customer with that
+// phone number. Returns whether a customer was opted out.
+export async function handlePaymentReminderOptOut(
+  entrepreneurId: number,
+  contact: string,
+  customerId: number | null,
+  text: string | null | undefined,
+): Promise<boolean> {
+  if (!text || !OPT_OUT_PATTERN.test(text)) {
+    return false;
+  }
+
+  const customer = customerId ? await storage.getUser(customerId) : await storage.getCustomerByPhone(entrepreneurId, contact);
+  if (!customer || customer.whatsappOptOutAt) {
+    return false;
+  }
+  await storage.updateUser(customer.id, { whatsappOptOut: true });
+  return true;
+}
+
+let running = false;
+
+// Send due reminders now and then every PAYMENT_REMINDER_INTERVAL_MINUTES.
+// A run is skipped while the previous one is still going.
+export function startPaymentReminderJob(): NodeJS.Timeout {
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await runPaymentReminders();
+      console.log('Payment reminder run:', result);
+    } catch (error) {
+      console.error('Payment reminder run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, JOB_INTERVAL_MINUTES * 60 * 1000);
+}
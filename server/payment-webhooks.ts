@@ -0,0 +1,86 @@
+import type { CustomerPlan, PaymentEvent, PaymentGateway } from '@shared/schema';
+import { storage } from './storage';
+import { settleCustomerPlan } from './billing';
+import { getPaymentGatewayAdapter, type PaymentWebhookEvent } from './payment-gateways';
+
+// applied: the plan changed; ignored: nothing to do (already settled, or a
+// notification we do not act on); unmatched: no plan for the charge;
+// duplicate: the event was already processed
+export type PaymentEventResult = 'applied' | 'ignored' | 'unmatched' | 'duplicate';
+
+// Charges are created with externalReference "customer-plan-<id>"
+async function findPlanForEvent(gateway: PaymentGateway, event: PaymentWebhookEvent): Promise<CustomerPlan | undefined> {
+  if (event.chargeId) {
+    const plan = await storage.getCustomerPlanByPayHash(gateway.id, event.chargeId);
+    if (plan) return plan;
+  }
+
+  const match = event.externalReference?.match(/^customer-plan-(\d+)$/);
+  if (match) {
+    const plan = await storage.getCustomerPlan(parseInt(match[1]));
+    if (plan?.paymentGatewayId === gateway.id) return plan;
+  }
+
+  return undefined;
+}
+
+async function applyPaymentEvent(
+  gateway: PaymentGateway,
+  storedEvent: PaymentEvent,
+  event: PaymentWebhookEvent,
+): Promise<PaymentEventResult> {
+  const plan = await findPlanForEvent(gateway, event);
+  const settledPlan = plan && await settleCustomerPlan(plan, event.status, event.occurredAt);
+  const result: PaymentEventResult = !plan ? 'unmatched' : settledPlan ? 'applied' : 'ignored';
+
+  await storage.updatePaymentEvent(storedEvent.id, {
+    customerPlanId: plan?.id ?? null,
+    status: event.status,
+    result,
+    processedAt: new Date(),
+  });
+  return result;
+}
+
+// Store and apply a webhook whose signature has already been verified. Events
+// are stored before they are applied so a failed delivery can be replayed.
+export async function receivePaymentEvent(
+  gateway: PaymentGateway,
+  body: unknown,
+  rawBody: Buffer,
+): Promise<PaymentEventResult> {
+  const event = await getPaymentGatewayAdapter(gateway).parseWebhook(body);
+  if (!event) {
+    return 'ignored';
+  }
+
+  let storedEvent = await storage.createPaymentEvent({
+    paymentGatewayId: gateway.id,
+    eventId: event.eventId,
+    payload: rawBody.toString('utf8'),
+  });
+
+  if (!storedEvent) {
+    // Redelivery: only reprocess when the first attempt never finished
+    storedEvent = await storage.getPaymentEventByEventId(gateway.id, event.eventId);
+    if (!storedEvent || storedEvent.processedAt) {
+      return 'duplicate';
+    }
+  }
+
+  return await applyPaymentEvent(gateway, storedEvent, event);
+}
+
+// Re-apply a stored event, e.g. after fixing a plan that did not match
+export async function replayPaymentEvent(storedEvent: PaymentEvent): Promise<PaymentEventResult> {
+  const gateway = await storage.getPaymentGateway(storedEvent.paymentGatewayId);
+  if (!gateway) {
+    throw new Error(`Payment gateway ${storedEvent.paymentGatewayId} not found`);
+  }
+
+  const event = await getPaymentGatewayAdapter(gateway).parseWebhook(JSON.parse(storedEvent.payload));
+  if (!event) {
+    return 'ignored';
+  }
+  return await applyPaymentEvent(gateway, storedEvent, event);
+}
@@ -0,0 +1,17 @@
+import { getPermissions, type Permission } from '@shared/permissions';
+import type { User } from '@shared/schema';
+import { storage } from './storage';
+
+// What a user may do right now. Looked up on every request rather than kept
+// in the token, so a custom role takes effect as soon as it is changed.
+export async function getUserPermissions(user: Pick<User, 'id' | 'role'>): Promise<Permission[]> {
+  if (user.role !== 'collaborator') {
+    return getPermissions(user.role);
+  }
+
+  const collaborator = await storage.getUser(user.id);
+  const customRole = collaborator?.customRoleId ? await storage.getCustomRole(collaborator.customRoleId) : undefined;
+  // A role of another tenant grants nothing
+  const granted = customRole && customRole.entrepreneurId === collaborator!.entrepreneurId ? customRole.permissions : [];
+  return getPermissions(user.role, granted);
+}
@@ -0,0 +1,21 @@
+import type { RateLimitCounter, RateLimitStore } from './store';
+import { storage } from '../storage';
+
+// Counters in the rate_limit_counters table, shared by every server instance
+export class DatabaseRateLimitStore implements RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    return storage.incrementRateLimitCounter(key, windowMs);
+  }
+
+  get(key: string): Promise<RateLimitCounter | undefined> {
+    return storage.getRateLimitCounter(key);
+  }
+
+  async reset(key: string): Promise<void> {
+    await storage.deleteRateLimitCounter(key);
+  }
+
+  prune(): Promise<number> {
+    return storage.deleteExpiredRateLimitCounters();
+  }
+}
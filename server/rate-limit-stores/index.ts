@@ -0,0 +1,25 @@
+import type { RateLimitStore } from './store';
+import { MemoryRateLimitStore } from './memory';
+import { DatabaseRateLimitStore } from './database';
+
+export type { RateLimitStore, RateLimitCounter } from './store';
+
+let store: RateLimitStore | undefined;
+
+// The store named by RATE_LIMIT_STORE (database or memory). Without it,
+// production keeps counters in the database so every instance sees them and
+// development keeps them in memory.
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const type = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'database' : 'memory');
+  switch (type) {
+    case 'database':
+      store = new DatabaseRateLimitStore();
+      return store;
+    case 'memory':
+      store = new MemoryRateLimitStore();
+      return store;
+  }
+  throw new Error(`Unsupported rate limit store: ${type}`);
+}
@@ -0,0 +1,39 @@
+import type { RateLimitCounter, RateLimitStore } from './store';
+
+// Counters live in process memory: they are lost on restart and not shared
+// between instances, which is fine for development and a single server
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+    const counter = current && current.resetAt.getTime() > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: new Date(now + windowMs) };
+    this.counters.set(key, counter);
+    return { ...counter };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | undefined> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt.getTime() <= Date.now()) return undefined;
+    return { ...counter };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    let pruned = 0;
+    this.counters.forEach((counter, key) => {
+      if (counter.resetAt.getTime() <= now) {
+        this.counters.delete(key);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+}
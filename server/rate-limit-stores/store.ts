@@ -0,0 +1,16 @@
+import type { RateLimitCounter } from '@shared/schema';
+
+export type { RateLimitCounter };
+
+// Fixed-window counters keyed by what is being limited, e.g. failed logins of
+// an IP address
+export interface RateLimitStore {
+  // Adds one to the counter, starting a new window of windowMs when the last
+  // one ended, and resolves to the counter after the increment
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // undefined when the counter has no running window
+  get(key: string): Promise<RateLimitCounter | undefined>;
+  reset(key: string): Promise<void>;
+  // Drops counters whose window ended; resolves to how many were dropped
+  prune(): Promise<number>;
+}
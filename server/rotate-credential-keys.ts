@@ -0,0 +1,78 @@
+import { eq } from 'drizzle-orm';
+import { paymentGateways, whatsappInstances, userMfa } from '@shared/schema';
+import { db, pool } from './db';
+import { rotateCredential } from './credentials';
+
+// Re-wrap every payment gateway credential, WhatsApp webhook secret and
+// two-factor secret with the current CREDENTIALS_ENCRYPTION_KEY and encrypt any rows still stored in plaintext.
+//
+// To rotate: set CREDENTIALS_ENCRYPTION_KEY to the new key, move the old key to
+// CREDENTIALS_ENCRYPTION_PREVIOUS_KEYS, run `npm run credentials:rotate`, then
+// drop the old key once this reports no remaining rows.
+export async function rotateCredentialKeys() {
+  try {
+    console.log('Starting credential key rotation...');
+
+    // Read the raw rows: storage would hand back decrypted values
+    const gateways = await db.select().from(paymentGateways);
+    let rotated = 0;
+
+    for (const gateway of gateways) {
+      const publicKey = rotateCredential(gateway.publicKey);
+      const token = rotateCredential(gateway.token);
+      const webhookSecret = gateway.webhookSecret ? rotateCredential(gateway.webhookSecret) : undefined;
+      if (!publicKey && !token && !webhookSecret) continue;
+
+      await db
+        .update(paymentGateways)
+        .set({
+          ...(publicKey && { publicKey }),
+          ...(token && { token }),
+          ...(webhookSecret && { webhookSecret }),
+        })
+        .where(eq(paymentGateways.id, gateway.id));
+      rotated++;
+      console.log(`Rotated credentials for payment gateway: ${gateway.name} (#${gateway.id})`);
+    }
+
+    const instances = await db.select().from(whatsappInstances);
+    let rotatedInstances = 0;
+
+    for (const instance of instances) {
+      const webhookSecret = instance.webhookSecret ? rotateCredential(instance.webhookSecret) : undefined;
+      if (!webhookSecret) continue;
+
+      await db
+        .update(whatsappInstances)
+        .set({ webhookSecret })
+        .where(eq(whatsappInstances.id, instance.id));
+      rotatedInstances++;
+      console.log(`Rotated webhook secret for WhatsApp instance: ${instance.name} (#${instance.id})`);
+    }
+
+    const mfaSecrets = await db.select().from(userMfa);
+    let rotatedMfaSecrets = 0;
+
+    for (const mfa of mfaSecrets) {
+      const secret = rotateCredential(mfa.secret);
+      if (!secret) continue;
+
+      await db
+        .update(userMfa)
+        .set({ secret })
+        .where(eq(userMfa.userId, mfa.userId));
+      rotatedMfaSecrets++;
+    }
+
+    console.log(`Credential key rotation completed: ${rotated} of ${gateways.length} gateways, ${rotatedInstances} of ${instances.length} WhatsApp instances and ${rotatedMfaSecrets} of ${mfaSecrets.length} two-factor secrets updated`);
+    return true;
+  } catch (error) {
+    console.error('Credential key rotation failed:', error);
+    return false;
+  }
+}
+
+rotateCredentialKeys().then(async (success) => {
+  await pool.end();
+  process.exit(success ? 0 : 1);
+});
@@ -1,21 +1,53 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { login, verifyToken, refreshToken, logout, logoutFromAllDevices, authenticateToken, authorize, authorizeEntrepreneurOrAdmin, authorizeResourceOwner } from "./auth";
-import type { User, PaymentGateway } from "@shared/schema";
-import { users, insertUserSchema, updateUserSchema, insertPaymentGatewaySchema, updatePaymentGatewaySchema, insertCollaboratorSchema, updateCollaboratorSchema, insertWhatsappInstanceSchema, updateWhatsappInstanceSchema, insertPriceTableSchema, updatePriceTableSchema, insertCustomerPlanSchema, updateCustomerPlanSchema, insertSupportTicketSchema, insertAccountingSchema, updateAccountingSchema } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { login, verifyToken, refreshToken, logout, logoutFromAllDevices, getSessions, revokeSession, forgotPassword, getPasswordToken, resetPassword, verifyMfa, getMfaStatus, setupMfa, enableMfa, disableMfa, regenerateMfaRecoveryCodes, authenticateToken, authenticateMfaEnrolment, requirePermission, userCan, getCurrentPermissions, resolveTenant } from "./auth";
+import { maskPaymentGateway, maskWhatsappInstance } from "./credentials";
+import { chargeCustomerPlan, chargeAmount, settleCustomerPlan, cancelGatewayCharge, syncPlanAccounting, recordPlanHistory, quotePlanChange, changeCustomerPlan, planAccess, BillingError } from "./billing";
+import { receivePaymentEvent, replayPaymentEvent } from "./payment-webhooks";
+import { quoteCoupon, redeemCoupon } from "./coupons";
+import { sendWhatsappText, sendWhatsappMedia, sendWhatsappTemplate, refreshWhatsappMessageStatus, checkWhatsappInstanceConnection, requestWhatsappQrCode, WhatsappError } from "./whatsapp";
+import { getStaffAuthor, updateSupportTicketWithHistory, addSupportTicketMessage, openSupportTicket, withSupportSla, getSupportSlaAlerts, getCustomerAuthor, findPortalSupportTicket, getPublicSupportTicket } from "./support-tickets";
+import { verifyWhatsappWebhook, receiveWhatsappWebhook, getWhatsappWebhookSecret, rotateWhatsappWebhookSecret, editWhatsappConversation, markWhatsappConversationRead, replyToWhatsappConversation } from "./whatsapp-inbox";
+import { isSupportAgent, reassignSupportTickets } from "./support-routing";
+import { getNotificationSettings, notifyCustomerPlanChange, redactEmailSecrets } from "./notifications";
+import { sendInvite } from "./password-tokens";
+import { checkEmailRateLimit, retryAfterSeconds } from "./email-throttle";
+import { getUserSessions } from "./sessions";
+import { unlockAccount } from "./login-throttle";
+import { GRANTABLE_PERMISSIONS, PERMISSIONS, PERMISSION_DESCRIPTIONS, type Permission } from "@shared/permissions";
+import { getPaymentGatewayAdapter } from "./payment-gateways";
+import { insertUserSchema, toPublicUser, updateUserSchema, insertPaymentGatewaySchema, updatePaymentGatewaySchema, insertCollaboratorSchema, updateCollaboratorSchema, insertWhatsappInstanceSchema, updateWhatsappInstanceSchema, sendWhatsappTextSchema, sendWhatsappMediaSchema, sendWhatsappTemplateSchema, updateWhatsappConversationSchema, replyWhatsappConversationSchema, insertPriceTableSchema, updatePriceTableSchema, createCustomerPlanSchema, updateCustomerPlanSchema, changeCustomerPlanSchema, insertCouponSchema, updateCouponSchema, validateCouponSchema, insertPaymentReminderRuleSchema, updatePaymentReminderRuleSchema, insertSupportTicketSchema, updateSupportTicketSchema, createSupportTicketMessageSchema, insertSupportSlaPolicySchema, updateSupportSlaPolicySchema, supportTicketLookupSchema, supportTicketPortalReplySchema, supportTicketPortalCloseSchema, insertSupportRoutingRuleSchema, updateSupportRoutingRuleSchema, updateNotificationPreferencesSchema, insertCustomRoleSchema, updateCustomRoleSchema, insertAccountingSchema, updateAccountingSchema } from "@shared/schema";
 import { z } from "zod";
 import bcrypt from "bcrypt";
 
-// Simple auth middleware for demo purposes
-const requireAuth = (req: any, res: any, next: any) => {
-  // For demo, we'll use a simple user ID from session or header
-  const userId = req.headers['x-user-id'] || '2'; // Default to Sarah Johnson for demo
-  req.userId = parseInt(userId);
-  next();
-};
+// Roles that users without users:assign-any-role may hand out inside their
+// own tenant
+const TENANT_ROLES = ['collaborator', 'customer'];
+
+// Why the customRoleId of a request cannot be given to a user, if it cannot:
+// only users who manage roles assign them, and only to collaborators of the
+// tenant the role belongs to
+async function checkCustomRoleAssignment(req: Request, customRoleId: number | null | undefined, user: { role: string; entrepreneurId: number | null | undefined }): Promise<{ status: number; message: string } | undefined> {
+  if (customRoleId === undefined) return undefined;
+  if (!(await userCan(req, 'roles:manage'))) {
+    return { status: 403, message: "Insufficient permissions to assign custom roles" };
+  }
+  if (customRoleId === null) return undefined;
+
+  if (user.role !== 'collaborator') {
+    return { status: 400, message: "Custom roles can only be given to collaborators" };
+  }
+  const customRole = await req.tenantStorage!.getCustomRole(customRoleId);
+  if (!customRole || customRole.entrepreneurId !== user.entrepreneurId) {
+    return { status: 400, message: "Custom role not found in the user's tenant" };
+  }
+}
+
+async function hasCustomRoleNamed(entrepreneurId: number, name: string, exceptId?: number): Promise<boolean> {
+  const roles = await storage.getAllCustomRoles(entrepreneurId);
+  return roles.some((role) => role.id !== exceptId && role.name.toLowerCase() === name.toLowerCase());
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
@@ -25,11 +57,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/refresh", refreshToken);
   app.post("/api/auth/logout", logout);
   app.post("/api/auth/logout-all", authenticateToken, logoutFromAllDevices);
+  app.get("/api/auth/sessions", authenticateToken, getSessions);
+  app.delete("/api/auth/sessions/:id", authenticateToken, revokeSession);
+  app.post("/api/auth/forgot-password", forgotPassword);
+  app.get("/api/auth/password-tokens/:token", getPasswordToken);
+  app.post("/api/auth/reset-password", resetPassword);
+  app.post("/api/auth/mfa/verify", verifyMfa);
+  app.get("/api/auth/mfa", authenticateToken, getMfaStatus);
+  app.post("/api/auth/mfa/setup", authenticateMfaEnrolment, setupMfa);
+  app.post("/api/auth/mfa/enable", authenticateMfaEnrolment, enableMfa);
+  app.post("/api/auth/mfa/disable", authenticateToken, disableMfa);
+  app.post("/api/auth/mfa/recovery-codes", authenticateToken, regenerateMfaRecoveryCodes);
+  app.get("/api/auth/permissions", authenticateToken, getCurrentPermissions);
   
 
 
   // Utility routes for mock data generation
-  app.post("/api/utils/bcrypt", async (req, res) => {
+  /**
+   * @swagger
+   * /api/utils/bcrypt:
+   *   post:
+   *     tags: [Utilities]
+   *     summary: Hash a password
+   *     description: Bcrypt hash of a password, for mock users. Super-admin only.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [password]
+   *             properties:
+   *               password:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: The hash
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 hash:
+   *                   type: string
+   *       400:
+   *         description: Password is required
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/utils/bcrypt", authenticateToken, requirePermission('utilities:hash'), async (req, res) => {
     try {
       const { password } = req.body;
       
@@ -53,19 +133,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *   get:
    *     tags: [Users]
    *     summary: Get all users
-   *     description: Retrieve all users based on role and permissions
+   *     description: Retrieve users of the authenticated tenant. Super-admins see all users.
    *     parameters:
    *       - in: query
-   *         name: role
-   *         schema:
-   *           type: string
-   *           enum: [super-admin, entrepreneur, collaborator, customer]
-   *         description: User role for filtering
-   *       - in: query
    *         name: entrepreneurId
    *         schema:
    *           type: integer
-   *         description: Entrepreneur ID for filtering users
+   *         description: Filter users by entrepreneur ID (super-admin only)
    *     responses:
    *       200:
    *         description: List of users
@@ -78,24 +152,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/users", authenticateToken, async (req, res) => {
+  app.get("/api/users", authenticateToken, requirePermission('users:read'), resolveTenant, async (req, res) => {
     try {
-      const userRole = req.query.role as string;
-      const entrepreneurId = req.query.entrepreneurId ? parseInt(req.query.entrepreneurId as string) : undefined;
-      
-      let users: any[];
-      if (userRole === 'super-admin') {
-        // Super admin sees all users
-        users = await storage.getAllUsers();
-      } else if ((userRole === 'entrepreneur' || userRole === 'collaborator') && entrepreneurId) {
-        // Entrepreneur and collaborators see their entrepreneur's users
-        users = await storage.getAllUsers(entrepreneurId);
-      } else {
-        // If no specific role/entrepreneurId is provided, return all users for component usage
-        users = await storage.getAllUsers();
-      }
-      
-      res.json(users);
+      // Super admin sees all users unless a tenant is requested, everyone else sees their tenant
+      const users = await req.tenantStorage!.getAllUsers();
+      res.json(users.map(toPublicUser));
     } catch (error) {
       console.error("Error fetching users:", error);
       res.status(500).json({ message: "Failed to fetch users" });
@@ -123,19 +184,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/User'
+   *       403:
+   *         description: Insufficient permissions
    *       404:
    *         description: User not found
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/users/:id", authenticateToken, async (req, res) => {
+  app.get("/api/users/:id", authenticateToken, requirePermission('users:read'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const user = await storage.getUser(id);
+      const user = await req.tenantStorage!.getUser(id);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -148,7 +211,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *   post:
    *     tags: [Users]
    *     summary: Create a new user
-   *     description: Create a new user with the provided information
+   *     description: Create a new user with the provided information. The user is emailed a single-use link to set their password; no password is taken here.
    *     requestBody:
    *       required: true
    *       content:
@@ -167,11 +230,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       500:
    *         description: Internal server error
    */
-  app.post("/api/users", authenticateToken, authorize(['super-admin', 'entrepreneur']), async (req, res) => {
+  app.post("/api/users", authenticateToken, requirePermission('users:write'), resolveTenant, async (req, res) => {
     try {
       const validatedData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(validatedData);
-      res.status(201).json(user);
+
+      // Entrepreneurs can only add collaborators and customers to their own tenant
+      if (!TENANT_ROLES.includes(validatedData.role ?? 'customer') && !(await userCan(req, 'users:assign-any-role'))) {
+        return res.status(403).json({ message: "Insufficient permissions to assign this role" });
+      }
+
+      const customRoleError = await checkCustomRoleAssignment(req, validatedData.customRoleId, {
+        role: validatedData.role ?? 'customer',
+        entrepreneurId: req.tenantId ?? validatedData.entrepreneurId,
+      });
+      if (customRoleError) {
+        return res.status(customRoleError.status).json({ message: customRoleError.message });
+      }
+
+      const user = await req.tenantStorage!.createUser(validatedData);
+      await sendInvite(user, await storage.getUser(req.user!.id));
+      res.status(201).json(toPublicUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -181,15 +259,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/users/:id", async (req, res) => {
+  app.put("/api/users/:id", authenticateToken, requirePermission('users:write'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = updateUserSchema.parse(req.body);
-      const user = await storage.updateUser(id, validatedData);
+
+      const existingUser = await req.tenantStorage!.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (validatedData.role && validatedData.role !== existingUser.role && !TENANT_ROLES.includes(validatedData.role) && !(await userCan(req, 'users:assign-any-role'))) {
+        return res.status(403).json({ message: "Insufficient permissions to assign this role" });
+      }
+
+      if (validatedData.customRoleId !== existingUser.customRoleId) {
+        const customRoleError = await checkCustomRoleAssignment(req, validatedData.customRoleId, {
+          role: validatedData.role ?? existingUser.role,
+          entrepreneurId: existingUser.entrepreneurId,
+        });
+        if (customRoleError) {
+          return res.status(customRoleError.status).json({ message: customRoleError.message });
+        }
+      }
+
+      if (validatedData.isActive === false && id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+
+      const user = await req.tenantStorage!.updateUser(id, validatedData);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+
+      if (existingUser.isActive && !user.isActive) {
+        await reassignSupportTickets(id);
+      }
+      res.json(toPublicUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -199,552 +305,416 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/users/:id", async (req, res) => {
+  /**
+   * @swagger
+   * /api/users/{id}/invite:
+   *   post:
+   *     tags: [Users]
+   *     summary: Resend invite
+   *     description: Email the user a new link to set their password. Links sent before it stop working.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: User ID
+   *     responses:
+   *       202:
+   *         description: Invite queued
+   *       400:
+   *         description: The user is deactivated
+   *       404:
+   *         description: User not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/users/:id/invite", authenticateToken, requirePermission('users:security'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteUser(id);
-      if (!success) {
+      const user = await req.tenantStorage!.getUser(id);
+      if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.status(204).send();
+      if (!user.isActive) {
+        return res.status(400).json({ message: "Activate the user before inviting them" });
+      }
+
+      await sendInvite(user, await storage.getUser(req.user!.id));
+      res.status(202).json({ message: "Invite sent" });
     } catch (error) {
-      console.error("Error deleting user:", error);
-      res.status(500).json({ message: "Failed to delete user" });
+      console.error("Error sending invite:", error);
+      res.status(500).json({ message: "Failed to send invite" });
     }
   });
 
-  // Payment Gateways CRUD routes
   /**
    * @swagger
-   * /api/payment-gateways:
-   *   get:
-   *     tags: [Payment Gateways]
-   *     summary: Get all payment gateways
-   *     description: Retrieve payment gateways based on user role and permissions. Super-admins see all gateways, entrepreneurs see their own.
+   * /api/users/{id}/unlock:
+   *   post:
+   *     tags: [Users]
+   *     summary: Unlock a user's login
+   *     description: Lift the lockout that too many failed sign-in attempts put on a user, and start their failure count over
    *     parameters:
-   *       - in: query
-   *         name: role
+   *       - in: path
+   *         name: id
    *         required: true
    *         schema:
-   *           type: string
-   *           enum: [super-admin, entrepreneur, collaborator, customer]
-   *         description: User role for filtering gateways
-   *       - in: query
-   *         name: entrepreneurId
-   *         schema:
    *           type: integer
-   *         description: Entrepreneur ID for filtering (required for non-super-admin users)
-   *       - in: query
-   *         name: type
-   *         schema:
-   *           type: string
-   *           enum: [asaas, mercado_pago, pagseguro]
-   *         description: Filter by gateway type
-   *       - in: query
-   *         name: isActive
-   *         schema:
-   *           type: boolean
-   *         description: Filter by active status
+   *         description: User ID
    *     responses:
    *       200:
-   *         description: List of payment gateways
+   *         description: Unlocked, or the user was not locked
    *         content:
    *           application/json:
    *             schema:
-   *               type: array
-   *               items:
-   *                 $ref: '#/components/schemas/PaymentGateway'
-   *       400:
-   *         description: Bad request
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 wasLocked:
+   *                   type: boolean
+   *       404:
+   *         description: User not found
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/payment-gateways", async (req, res) => {
+  app.post("/api/users/:id/unlock", authenticateToken, requirePermission('users:security'), resolveTenant, async (req, res) => {
     try {
-      const userRole = req.query.role as string;
-      const entrepreneurId = req.query.entrepreneurId ? parseInt(req.query.entrepreneurId as string) : undefined;
-      
-      let gateways: any[];
-      if (userRole === 'super-admin') {
-        // Super admin sees all payment gateways
-        gateways = await storage.getAllPaymentGateways();
-      } else if ((userRole === 'entrepreneur' || userRole === 'collaborator') && entrepreneurId) {
-        // Entrepreneur and collaborators see their entrepreneur's gateways
-        gateways = await storage.getAllPaymentGateways(entrepreneurId);
-      } else {
-        gateways = [];
+      const user = await req.tenantStorage!.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      res.json(gateways);
+
+      const wasLocked = await unlockAccount(user.email);
+      res.json({ message: wasLocked ? "Account unlocked" : "Account was not locked", wasLocked });
     } catch (error) {
-      console.error("Error fetching payment gateways:", error);
-      res.status(500).json({ message: "Failed to fetch payment gateways" });
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Failed to unlock user" });
     }
   });
 
   /**
    * @swagger
-   * /api/payment-gateways/{id}:
-   *   get:
-   *     tags: [Payment Gateways]
-   *     summary: Get payment gateway by ID
-   *     description: Retrieve a specific payment gateway by its ID
+   * /api/users/{id}/mfa:
+   *   delete:
+   *     tags: [Users]
+   *     summary: Reset two-factor authentication
+   *     description: Remove the authenticator and recovery codes of a user who lost them, and sign them out everywhere. Users whose role requires two-factor enrol again at their next login.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Payment gateway ID
+   *         description: User ID
    *     responses:
-   *       200:
-   *         description: Payment gateway details
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/PaymentGateway'
+   *       204:
+   *         description: Two-factor reset
+   *       400:
+   *         description: Own account; use the two-factor settings instead
    *       404:
-   *         description: Payment gateway not found
+   *         description: User not found or has no two-factor authentication
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/payment-gateways/:id", async (req, res) => {
+  app.delete("/api/users/:id/mfa", authenticateToken, requirePermission('users:security'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const gateway = await storage.getPaymentGateway(id);
-      if (!gateway) {
-        return res.status(404).json({ message: "Payment gateway not found" });
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "Use your own two-factor settings to change your authenticator" });
+      }
+
+      const user = await req.tenantStorage!.getUser(id);
+      if (!user || !(await storage.deleteUserMfa(id))) {
+        return res.status(404).json({ message: "Two-factor authentication not found" });
       }
-      res.json(gateway);
+
+      await storage.revokeAllUserTokens(id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching payment gateway:", error);
-      res.status(500).json({ message: "Failed to fetch payment gateway" });
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
     }
   });
 
   /**
    * @swagger
-   * /api/payment-gateways:
-   *   post:
-   *     tags: [Payment Gateways]
-   *     summary: Create a new payment gateway
-   *     description: Create a new payment gateway configuration for processing payments
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             $ref: '#/components/schemas/CreatePaymentGateway'
-   *           examples:
-   *             asaas:
-   *               summary: Asaas Gateway
-   *               value:
-   *                 name: "Asaas Production Gateway"
-   *                 type: "asaas"
-   *                 apiUrl: "https://www.asaas.com/api/v3"
-   *                 publicKey: "pub_asaas123456789"
-   *                 token: "$aact_YTU5YTE0M2M2N2I4MTliNzk0YTI5N2U5MzAwNjJmNDQ6OjAwMDAwMDAwMDAwMDAwMDAwMDA="
-   *                 email: "payments@company.com"
-   *                 isActive: true
-   *             mercadoPago:
-   *               summary: Mercado Pago Gateway
-   *               value:
-   *                 name: "Mercado Pago Gateway"
-   *                 type: "mercado_pago"
-   *                 apiUrl: "https://api.mercadopago.com"
-   *                 publicKey: "APP_USR-abc123456789-def456"
-   *                 token: "APP_USR-123456789-012345-xyz789"
-   *                 email: "payments@company.com"
-   *                 isActive: true
-   *             pagseguro:
-   *               summary: PagSeguro Gateway
-   *               value:
-   *                 name: "PagSeguro Gateway"
-   *                 type: "pagseguro"
-   *                 apiUrl: "https://ws.pagseguro.uol.com.br"
-   *                 publicKey: "pagseguro_public_key"
-   *                 token: "pagseguro_token_123456"
-   *                 email: "payments@company.com"
-   *                 isActive: true
+   * /api/users/{id}/sessions:
+   *   get:
+   *     tags: [Users]
+   *     summary: List a user's sessions
+   *     description: Devices the user is signed in on, most recently used first. Super-admin only.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: User ID
    *     responses:
-   *       201:
-   *         description: Payment gateway created successfully
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/PaymentGateway'
-   *       400:
-   *         description: Invalid data
+   *       200:
+   *         description: Active sessions
    *         content:
    *           application/json:
    *             schema:
-   *               type: object
-   *               properties:
-   *                 message:
-   *                   type: string
-   *                 errors:
-   *                   type: array
-   *                   items:
-   *                     type: object
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/UserSession'
+   *       404:
+   *         description: User not found
    *       500:
    *         description: Internal server error
-   */
-  app.post("/api/payment-gateways", async (req, res) => {
-    try {
-      const validatedData = insertPaymentGatewaySchema.parse(req.body);
-      const entrepreneurId = req.body.entrepreneurId || 2; // Default to entrepreneur ID 2
-      const gateway = await storage.createPaymentGateway({ 
-        ...validatedData, 
-        createdBy: 1, 
-        entrepreneurId: entrepreneurId 
-      });
-      res.status(201).json(gateway);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
-      }
-      console.error("Error creating payment gateway:", error);
-      res.status(500).json({ message: "Failed to create payment gateway" });
-    }
-  });
-
-  /**
-   * @swagger
-   * /api/payment-gateways/{id}:
-   *   put:
-   *     tags: [Payment Gateways]
-   *     summary: Update payment gateway
-   *     description: Update an existing payment gateway configuration
+   *   delete:
+   *     tags: [Users]
+   *     summary: Revoke all of a user's sessions
+   *     description: Sign the user out on every device. Super-admin only.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Payment gateway ID
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             properties:
-   *               name:
-   *                 type: string
-   *                 example: "Updated Asaas Gateway"
-   *               type:
-   *                 type: string
-   *                 enum: [asaas, mercado_pago, pagseguro]
-   *                 example: "asaas"
-   *               apiUrl:
-   *                 type: string
-   *                 example: "https://www.asaas.com/api/v3"
-   *               publicKey:
-   *                 type: string
-   *                 example: "pub_updated123456789"
-   *               token:
-   *                 type: string
-   *                 example: "$aact_updated_token"
-   *               email:
-   *                 type: string
-   *                 example: "updated@company.com"
-   *               isActive:
-   *                 type: boolean
-   *                 example: true
-   *           examples:
-   *             updateGateway:
-   *               summary: Update gateway configuration
-   *               value:
-   *                 name: "Updated Production Gateway"
-   *                 apiUrl: "https://www.asaas.com/api/v3"
-   *                 publicKey: "pub_updated123456"
-   *                 token: "$aact_updated_token"
-   *                 email: "payments-new@company.com"
-   *                 isActive: true
+   *         description: User ID
    *     responses:
-   *       200:
-   *         description: Payment gateway updated successfully
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/PaymentGateway'
-   *       400:
-   *         description: Invalid data
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 message:
-   *                   type: string
-   *                 errors:
-   *                   type: array
-   *                   items:
-   *                     type: object
+   *       204:
+   *         description: Sessions revoked
    *       404:
-   *         description: Payment gateway not found
+   *         description: User not found
    *       500:
    *         description: Internal server error
    */
-  app.put("/api/payment-gateways/:id", async (req, res) => {
+  app.get("/api/users/:id/sessions", authenticateToken, requirePermission('sessions:manage'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = updatePaymentGatewaySchema.parse(req.body);
-      const gateway = await storage.updatePaymentGateway(id, validatedData);
-      if (!gateway) {
-        return res.status(404).json({ message: "Payment gateway not found" });
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.json(gateway);
+
+      res.json(await getUserSessions(id, id === req.user!.id ? req.user!.sessionId : undefined));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions", authenticateToken, requirePermission('sessions:manage'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ message: "User not found" });
       }
-      console.error("Error updating payment gateway:", error);
-      res.status(500).json({ message: "Failed to update payment gateway" });
+
+      await storage.revokeAllUserTokens(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
     }
   });
 
   /**
    * @swagger
-   * /api/payment-gateways/{id}:
+   * /api/users/{id}/sessions/{sessionId}:
    *   delete:
-   *     tags: [Payment Gateways]
-   *     summary: Delete payment gateway
-   *     description: Delete a payment gateway by ID. This action is permanent and will affect any ongoing payment processing.
+   *     tags: [Users]
+   *     summary: Revoke one of a user's sessions
+   *     description: Sign the user out on one device. Super-admin only.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Payment gateway ID
+   *         description: User ID
+   *       - in: path
+   *         name: sessionId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Session ID
    *     responses:
    *       204:
-   *         description: Payment gateway deleted successfully
+   *         description: Session revoked
    *       404:
-   *         description: Payment gateway not found
+   *         description: Session not found
    *       500:
    *         description: Internal server error
    */
-  app.delete("/api/payment-gateways/:id", async (req, res) => {
+  app.delete("/api/users/:id/sessions/:sessionId", authenticateToken, requirePermission('sessions:manage'), async (req, res) => {
+    try {
+      const revoked = await storage.revokeUserRefreshToken(parseInt(req.params.id), parseInt(req.params.sessionId));
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.delete("/api/users/:id", authenticateToken, requirePermission('users:write'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deletePaymentGateway(id);
+
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+
+      const success = await req.tenantStorage!.deleteUser(id);
       if (!success) {
-        return res.status(404).json({ message: "Payment gateway not found" });
+        return res.status(404).json({ message: "User not found" });
       }
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting payment gateway:", error);
-      res.status(500).json({ message: "Failed to delete payment gateway" });
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Failed to delete user" });
     }
   });
 
+  // Permission and custom role routes
   /**
    * @swagger
-   * /api/collaborators:
+   * /api/permissions:
    *   get:
-   *     tags: [Collaborators]
-   *     summary: Get all collaborators
-   *     description: Retrieve collaborators based on user role and permissions. Entrepreneurs see their collaborators, super-admins see all.
-   *     parameters:
-   *       - in: query
-   *         name: entrepreneurId
-   *         schema:
-   *           type: integer
-   *         description: Filter collaborators by entrepreneur ID
+   *     tags: [Custom Roles]
+   *     summary: Permission catalogue
+   *     description: Every permission with what it allows and whether entrepreneurs may put it in a custom role
    *     responses:
    *       200:
-   *         description: List of collaborators
+   *         description: Permission catalogue
    *         content:
    *           application/json:
    *             schema:
    *               type: array
    *               items:
-   *                 $ref: '#/components/schemas/Collaborator'
+   *                 $ref: '#/components/schemas/PermissionInfo'
    *       401:
    *         description: Authentication required
-   *       403:
-   *         description: Insufficient permissions
-   *       500:
-   *         description: Internal server error
    */
-  app.get("/api/collaborators", authenticateToken, authorizeEntrepreneurOrAdmin, async (req, res) => {
-    try {
-      const entrepreneurId = req.query.entrepreneurId;
-      let collaborators;
-      
-      if (entrepreneurId) {
-        collaborators = await storage.getCollaboratorsByEntrepreneur(parseInt(entrepreneurId as string));
-      } else {
-        collaborators = await storage.getAllCollaborators();
-      }
-      
-      res.json(collaborators);
-    } catch (error) {
-      console.error("Error fetching collaborators:", error);
-      res.status(500).json({ message: "Failed to fetch collaborators" });
-    }
+  app.get("/api/permissions", authenticateToken, (req, res) => {
+    const grantable: readonly Permission[] = GRANTABLE_PERMISSIONS;
+    res.json(PERMISSIONS.map((permission) => ({
+      permission,
+      description: PERMISSION_DESCRIPTIONS[permission],
+      grantable: grantable.includes(permission),
+    })));
   });
 
   /**
    * @swagger
-   * /api/collaborators/{id}:
+   * /api/custom-roles:
    *   get:
-   *     tags: [Collaborators]
-   *     summary: Get collaborator by ID
-   *     description: Retrieve a specific collaborator by their ID
-   *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema:
-   *           type: integer
-   *         description: Collaborator ID
+   *     tags: [Custom Roles]
+   *     summary: Get custom roles
+   *     description: List the custom roles of the tenant. Super-admins see every role unless they pass entrepreneurId.
    *     responses:
    *       200:
-   *         description: Collaborator details
+   *         description: List of custom roles
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/Collaborator'
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/CustomRole'
    *       401:
    *         description: Authentication required
    *       403:
    *         description: Insufficient permissions
-   *       404:
-   *         description: Collaborator not found
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/collaborators/:id", authenticateToken, authorizeEntrepreneurOrAdmin, async (req, res) => {
+  app.get("/api/custom-roles", authenticateToken, requirePermission('roles:manage'), resolveTenant, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const collaborator = await storage.getCollaborator(id);
-      if (!collaborator) {
-        return res.status(404).json({ message: "Collaborator not found" });
-      }
-      res.json(collaborator);
+      const roles = await req.tenantStorage!.getAllCustomRoles();
+      res.json(roles);
     } catch (error) {
-      console.error("Error fetching collaborator:", error);
-      res.status(500).json({ message: "Failed to fetch collaborator" });
+      console.error("Error fetching custom roles:", error);
+      res.status(500).json({ message: "Failed to fetch custom roles" });
     }
   });
 
   /**
    * @swagger
-   * /api/collaborators:
+   * /api/custom-roles:
    *   post:
-   *     tags: [Collaborators]
-   *     summary: Create a new collaborator
-   *     description: Create a new collaborator under the authenticated entrepreneur
+   *     tags: [Custom Roles]
+   *     summary: Create custom role
+   *     description: Create a set of permissions to grant collaborators of the tenant through their customRoleId. Only grantable permissions are accepted.
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/CreateCollaborator'
+   *             $ref: '#/components/schemas/CreateCustomRole'
    *     responses:
    *       201:
-   *         description: Collaborator created successfully
+   *         description: Custom role created successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/Collaborator'
+   *               $ref: '#/components/schemas/CustomRole'
    *       400:
-   *         description: Invalid data
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 message:
-   *                   type: string
-   *                 errors:
-   *                   type: array
-   *                   items:
-   *                     type: object
+   *         description: Invalid data, or entrepreneurId is missing (super-admin)
    *       401:
    *         description: Authentication required
    *       403:
    *         description: Insufficient permissions
+   *       409:
+   *         description: The tenant already has a role with this name
    *       500:
    *         description: Internal server error
    */
-  app.post("/api/collaborators", authenticateToken, authorize(['entrepreneur', 'super-admin']), async (req, res) => {
+  app.post("/api/custom-roles", authenticateToken, requirePermission('roles:manage'), resolveTenant, async (req, res) => {
     try {
-      const validatedData = insertCollaboratorSchema.parse(req.body);
-      // Get entrepreneur ID from authenticated user or request data
-      const entrepreneurId = req.user?.role === 'super-admin' 
-        ? (validatedData.entrepreneurId || req.user.entrepreneurId || 2) 
-        : (req.user?.entrepreneurId || 2);
-      
-      const collaborator = await storage.createCollaborator({ 
-        ...validatedData, 
-        entrepreneurId 
-      });
-      res.status(201).json(collaborator);
+      const validatedData = insertCustomRoleSchema.parse(req.body);
+      if (!req.tenantId) {
+        return res.status(400).json({ message: "entrepreneurId is required to create a custom role" });
+      }
+
+      if (await hasCustomRoleNamed(req.tenantId, validatedData.name)) {
+        return res.status(409).json({ message: "A role with this name already exists" });
+      }
+
+      const role = await req.tenantStorage!.createCustomRole(validatedData);
+      res.status(201).json(role);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error creating collaborator:", error);
-      res.status(500).json({ message: "Failed to create collaborator" });
+      console.error("Error creating custom role:", error);
+      res.status(500).json({ message: "Failed to create custom role" });
     }
   });
 
   /**
    * @swagger
-   * /api/collaborators/{id}:
+   * /api/custom-roles/{id}:
    *   put:
-   *     tags: [Collaborators]
-   *     summary: Update collaborator
-   *     description: Update an existing collaborator's information
+   *     tags: [Custom Roles]
+   *     summary: Update custom role
+   *     description: Update a custom role of the tenant. Collaborators with the role get the new permissions on their next request.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Collaborator ID
+   *         description: Custom role ID
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             type: object
-   *             properties:
-   *               name:
-   *                 type: string
-   *                 example: "Jane Smith"
-   *               email:
-   *                 type: string
-   *                 example: "jane.smith@example.com"
-   *               role:
-   *                 type: string
-   *                 example: "Senior Developer"
-   *               department:
-   *                 type: string
-   *                 example: "Engineering"
-   *               phone:
-   *                 type: string
-   *                 example: "+1234567890"
-   *               skills:
-   *                 type: string
-   *                 example: "React, Node.js, TypeScript"
-   *               hireDate:
-   *                 type: string
-   *                 format: date
-   *               isActive:
-   *                 type: boolean
-   *                 default: true
+   *             $ref: '#/components/schemas/CreateCustomRole'
    *     responses:
    *       200:
-   *         description: Collaborator updated successfully
+   *         description: Custom role updated successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/Collaborator'
+   *               $ref: '#/components/schemas/CustomRole'
    *       400:
    *         description: Invalid data
    *       401:
@@ -752,211 +722,267 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       403:
    *         description: Insufficient permissions
    *       404:
-   *         description: Collaborator not found
+   *         description: Custom role not found
+   *       409:
+   *         description: The tenant already has a role with this name
    *       500:
    *         description: Internal server error
    */
-  app.put("/api/collaborators/:id", authenticateToken, authorize(['entrepreneur', 'super-admin']), async (req, res) => {
+  app.put("/api/custom-roles/:id", authenticateToken, requirePermission('roles:manage'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = updateCollaboratorSchema.parse(req.body);
-      const collaborator = await storage.updateCollaborator(id, validatedData);
-      if (!collaborator) {
-        return res.status(404).json({ message: "Collaborator not found" });
+      const validatedData = updateCustomRoleSchema.parse(req.body);
+
+      const existingRole = await req.tenantStorage!.getCustomRole(id);
+      if (!existingRole) {
+        return res.status(404).json({ message: "Custom role not found" });
       }
-      res.json(collaborator);
+
+      if (validatedData.name && await hasCustomRoleNamed(existingRole.entrepreneurId, validatedData.name, id)) {
+        return res.status(409).json({ message: "A role with this name already exists" });
+      }
+
+      const role = await req.tenantStorage!.updateCustomRole(id, validatedData);
+      res.json(role);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error updating collaborator:", error);
-      res.status(500).json({ message: "Failed to update collaborator" });
+      console.error("Error updating custom role:", error);
+      res.status(500).json({ message: "Failed to update custom role" });
     }
   });
 
   /**
    * @swagger
-   * /api/collaborators/{id}:
+   * /api/custom-roles/{id}:
    *   delete:
-   *     tags: [Collaborators]
-   *     summary: Delete collaborator
-   *     description: Delete a collaborator by ID. Only entrepreneurs and super-admins can delete collaborators.
+   *     tags: [Custom Roles]
+   *     summary: Delete custom role
+   *     description: Delete a custom role of the tenant. Its collaborators keep the permissions of the collaborator role only.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Collaborator ID
+   *         description: Custom role ID
    *     responses:
    *       204:
-   *         description: Collaborator deleted successfully
+   *         description: Custom role deleted successfully
    *       401:
    *         description: Authentication required
    *       403:
    *         description: Insufficient permissions
    *       404:
-   *         description: Collaborator not found
+   *         description: Custom role not found
    *       500:
    *         description: Internal server error
    */
-  app.delete("/api/collaborators/:id", authenticateToken, authorize(['entrepreneur', 'super-admin']), async (req, res) => {
+  app.delete("/api/custom-roles/:id", authenticateToken, requirePermission('roles:manage'), resolveTenant, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteCollaborator(id);
+      const success = await req.tenantStorage!.deleteCustomRole(parseInt(req.params.id));
       if (!success) {
-        return res.status(404).json({ message: "Collaborator not found" });
+        return res.status(404).json({ message: "Custom role not found" });
       }
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting collaborator:", error);
-      res.status(500).json({ message: "Failed to delete collaborator" });
+      console.error("Error deleting custom role:", error);
+      res.status(500).json({ message: "Failed to delete custom role" });
     }
   });
 
-  // WhatsApp Instances routes
+  // Payment Gateways CRUD routes
   /**
    * @swagger
-   * /api/whatsapp-instances:
+   * /api/payment-gateways:
    *   get:
-   *     tags: [WhatsApp Instances]
-   *     summary: Get all WhatsApp instances
-   *     description: Retrieve WhatsApp instances based on user role and permissions. Super-admins see all instances, entrepreneurs see their own.
-   *     security:
-   *       - bearerAuth: []
+   *     tags: [Payment Gateways]
+   *     summary: Get all payment gateways
+   *     description: Retrieve payment gateways of the authenticated tenant. Super-admins see all gateways, entrepreneurs see their own. Credentials are masked to their last four characters.
    *     parameters:
    *       - in: query
-   *         name: isActive
-   *         schema:
-   *           type: boolean
-   *         description: Filter by active status
-   *       - in: query
    *         name: entrepreneurId
    *         schema:
    *           type: integer
    *         description: Filter by entrepreneur ID (super-admin only)
-   *     responses:
-   *       200:
-   *         description: List of WhatsApp instances
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [asaas, mercado_pago, pagseguro]
+   *         description: Filter by gateway type
+   *       - in: query
+   *         name: isActive
+   *         schema:
+   *           type: boolean
+   *         description: Filter by active status
+   *     responses:
+   *       200:
+   *         description: List of payment gateways
    *         content:
    *           application/json:
    *             schema:
    *               type: array
    *               items:
-   *                 $ref: '#/components/schemas/WhatsappInstance'
-   *       401:
-   *         description: Authentication required
-   *       404:
-   *         description: User not found
+   *                 $ref: '#/components/schemas/PaymentGateway'
+   *       400:
+   *         description: Bad request
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/whatsapp-instances", requireAuth, async (req: any, res) => {
+  app.get("/api/payment-gateways", authenticateToken, requirePermission('gateways:read'), resolveTenant, async (req, res) => {
     try {
-      const userId = req.userId;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const gateways = await req.tenantStorage!.getAllPaymentGateways();
+      res.json(gateways.map(maskPaymentGateway));
+    } catch (error) {
+      console.error("Error fetching payment gateways:", error);
+      res.status(500).json({ message: "Failed to fetch payment gateways" });
+    }
+  });
 
-      let instances;
-      if (user.role === 'super-admin') {
-        instances = await storage.getAllWhatsappInstances();
-      } else if (user.role === 'entrepreneur') {
-        instances = await storage.getAllWhatsappInstances(user.id);
-      } else {
-        instances = await storage.getAllWhatsappInstances(user.entrepreneurId!);
+  /**
+   * @swagger
+   * /api/payment-gateways/{id}:
+   *   get:
+   *     tags: [Payment Gateways]
+   *     summary: Get payment gateway by ID
+   *     description: Retrieve a specific payment gateway by its ID. Credentials are masked to their last four characters.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Payment gateway ID
+   *     responses:
+   *       200:
+   *         description: Payment gateway details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PaymentGateway'
+   *       404:
+   *         description: Payment gateway not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/payment-gateways/:id", authenticateToken, requirePermission('gateways:read'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const gateway = await req.tenantStorage!.getPaymentGateway(id);
+      if (!gateway) {
+        return res.status(404).json({ message: "Payment gateway not found" });
       }
-      
-      res.json(instances);
+      res.json(maskPaymentGateway(gateway));
     } catch (error) {
-      console.error("Error fetching WhatsApp instances:", error);
-      res.status(500).json({ message: "Failed to fetch WhatsApp instances" });
+      console.error("Error fetching payment gateway:", error);
+      res.status(500).json({ message: "Failed to fetch payment gateway" });
     }
   });
 
   /**
    * @swagger
-   * /api/whatsapp-instances/{id}:
-   *   get:
-   *     tags: [WhatsApp Instances]
-   *     summary: Get WhatsApp instance by ID
-   *     description: Retrieve a specific WhatsApp instance by its ID
-   *     security:
-   *       - bearerAuth: []
+   * /api/payment-gateways/{id}/reveal:
+   *   post:
+   *     tags: [Payment Gateways]
+   *     summary: Reveal payment gateway credentials
+   *     description: Return the unmasked public key and token of a payment gateway. Every call is recorded in the audit log.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: WhatsApp instance ID
+   *         description: Payment gateway ID
    *     responses:
    *       200:
-   *         description: WhatsApp instance details
+   *         description: Unmasked credentials
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/WhatsappInstance'
-   *       401:
-   *         description: Authentication required
+   *               $ref: '#/components/schemas/PaymentGatewayCredentials'
    *       404:
-   *         description: WhatsApp instance not found
+   *         description: Payment gateway not found
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/whatsapp-instances/:id", requireAuth, async (req, res) => {
+  app.post("/api/payment-gateways/:id/reveal", authenticateToken, requirePermission('gateways:reveal'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const instance = await storage.getWhatsappInstance(id);
-      if (!instance) {
-        return res.status(404).json({ message: "WhatsApp instance not found" });
+      const gateway = await req.tenantStorage!.getPaymentGateway(id);
+      if (!gateway) {
+        return res.status(404).json({ message: "Payment gateway not found" });
       }
-      res.json(instance);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        entrepreneurId: gateway.entrepreneurId,
+        action: 'payment_gateway.reveal',
+        resourceType: 'payment_gateway',
+        resourceId: gateway.id,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.json({ publicKey: gateway.publicKey, token: gateway.token, webhookSecret: gateway.webhookSecret });
     } catch (error) {
-      console.error("Error fetching WhatsApp instance:", error);
-      res.status(500).json({ message: "Failed to fetch WhatsApp instance" });
+      console.error("Error revealing payment gateway credentials:", error);
+      res.status(500).json({ message: "Failed to reveal payment gateway credentials" });
     }
   });
 
   /**
    * @swagger
-   * /api/whatsapp-instances:
+   * /api/payment-gateways:
    *   post:
-   *     tags: [WhatsApp Instances]
-   *     summary: Create a new WhatsApp instance
-   *     description: Create a new WhatsApp instance configuration for messaging automation
-   *     security:
-   *       - bearerAuth: []
+   *     tags: [Payment Gateways]
+   *     summary: Create a new payment gateway
+   *     description: Create a new payment gateway configuration for processing payments
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/CreateWhatsappInstance'
+   *             $ref: '#/components/schemas/CreatePaymentGateway'
    *           examples:
-   *             businessInstance:
-   *               summary: Business WhatsApp Instance
+   *             asaas:
+   *               summary: Asaas Gateway
    *               value:
-   *                 name: "Customer Support WhatsApp"
-   *                 instanceNumber: "wa_business_001"
-   *                 apiUrl: "https://api.whatsapp.business.com/v1/instance/001"
+   *                 name: "Asaas Production Gateway"
+   *                 type: "asaas"
+   *                 apiUrl: "https://www.asaas.com/api/v3"
+   *                 publicKey: "pub_asaas123456789"
+   *                 token: "$aact_YTU5YTE0M2M2N2I4MTliNzk0YTI5N2U5MzAwNjJmNDQ6OjAwMDAwMDAwMDAwMDAwMDAwMDA="
+   *                 email: "payments@company.com"
    *                 isActive: true
-   *             marketingInstance:
-   *               summary: Marketing WhatsApp Instance
+   *             mercadoPago:
+   *               summary: Mercado Pago Gateway
    *               value:
-   *                 name: "Marketing Campaigns"
-   *                 instanceNumber: "wa_marketing_002"
-   *                 apiUrl: "https://api.whatsapp.business.com/v1/instance/002"
+   *                 name: "Mercado Pago Gateway"
+   *                 type: "mercado_pago"
+   *                 apiUrl: "https://api.mercadopago.com"
+   *                 publicKey: "APP_USR-abc123456789-def456"
+   *                 token: "APP_USR-123456789-012345-xyz789"
+   *                 email: "payments@company.com"
+   *                 isActive: true
+   *             pagseguro:
+   *               summary: PagSeguro Gateway
+   *               value:
+   *                 name: "PagSeguro Gateway"
+   *                 type: "pagseguro"
+   *                 apiUrl: "https://ws.pagseguro.uol.com.br"
+   *                 publicKey: "pagseguro_public_key"
+   *                 token: "pagseguro_token_123456"
+   *                 email: "payments@company.com"
    *                 isActive: true
    *     responses:
    *       201:
-   *         description: WhatsApp instance created successfully
+   *         description: Payment gateway created successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/WhatsappInstance'
+   *               $ref: '#/components/schemas/PaymentGateway'
    *       400:
    *         description: Invalid data
    *         content:
@@ -970,58 +996,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *                   type: array
    *                   items:
    *                     type: object
-   *       401:
-   *         description: Authentication required
-   *       404:
-   *         description: User not found
    *       500:
    *         description: Internal server error
    */
-  app.post("/api/whatsapp-instances", requireAuth, async (req: any, res) => {
+  app.post("/api/payment-gateways", authenticateToken, requirePermission('gateways:write'), resolveTenant, async (req, res) => {
     try {
-      const userId = req.userId;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const validatedData = insertPaymentGatewaySchema.parse(req.body);
+      if (!req.tenantId) {
+        return res.status(400).json({ message: "entrepreneurId is required" });
       }
 
-      const validatedData = insertWhatsappInstanceSchema.parse(req.body);
-      
-      const entrepreneurId = user.role === 'entrepreneur' ? user.id : user.entrepreneurId!;
-      
-      const instance = await storage.createWhatsappInstance({
-        ...validatedData,
-        createdBy: user.id,
-        entrepreneurId: entrepreneurId,
-      });
-      
-      res.status(201).json(instance);
+      const gateway = await req.tenantStorage!.createPaymentGateway(validatedData);
+      res.status(201).json(maskPaymentGateway(gateway));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error creating WhatsApp instance:", error);
-      res.status(500).json({ message: "Failed to create WhatsApp instance" });
+      console.error("Error creating payment gateway:", error);
+      res.status(500).json({ message: "Failed to create payment gateway" });
     }
   });
 
   /**
    * @swagger
-   * /api/whatsapp-instances/{id}:
+   * /api/payment-gateways/{id}:
    *   put:
-   *     tags: [WhatsApp Instances]
-   *     summary: Update WhatsApp instance
-   *     description: Update an existing WhatsApp instance configuration
-   *     security:
-   *       - bearerAuth: []
+   *     tags: [Payment Gateways]
+   *     summary: Update payment gateway
+   *     description: Update an existing payment gateway configuration. Omit publicKey and token to keep the stored credentials.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: WhatsApp instance ID
+   *         description: Payment gateway ID
    *     requestBody:
    *       required: true
    *       content:
@@ -1031,223 +1040,3780 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *             properties:
    *               name:
    *                 type: string
-   *                 example: "Updated Customer Support WhatsApp"
-   *               instanceNumber:
+   *                 example: "Updated Asaas Gateway"
+   *               type:
    *                 type: string
-   *                 example: "wa_updated_001"
+   *                 enum: [asaas, mercado_pago, pagseguro]
+   *                 example: "asaas"
    *               apiUrl:
    *                 type: string
-   *                 example: "https://api.whatsapp.business.com/v1/instance/updated001"
+   *                 example: "https://www.asaas.com/api/v3"
+   *               publicKey:
+   *                 type: string
+   *                 example: "pub_updated123456789"
+   *               token:
+   *                 type: string
+   *                 example: "$aact_updated_token"
+   *               email:
+   *                 type: string
+   *                 example: "updated@company.com"
    *               isActive:
    *                 type: boolean
    *                 example: true
+   *           examples:
+   *             updateGateway:
+   *               summary: Update gateway configuration
+   *               value:
+   *                 name: "Updated Production Gateway"
+   *                 apiUrl: "https://www.asaas.com/api/v3"
+   *                 publicKey: "pub_updated123456"
+   *                 token: "$aact_updated_token"
+   *                 email: "payments-new@company.com"
+   *                 isActive: true
    *     responses:
    *       200:
-   *         description: WhatsApp instance updated successfully
+   *         description: Payment gateway updated successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/WhatsappInstance'
+   *               $ref: '#/components/schemas/PaymentGateway'
    *       400:
    *         description: Invalid data
-   *       401:
-   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 errors:
+   *                   type: array
+   *                   items:
+   *                     type: object
    *       404:
-   *         description: WhatsApp instance not found
+   *         description: Payment gateway not found
    *       500:
    *         description: Internal server error
    */
-  app.put("/api/whatsapp-instances/:id", requireAuth, async (req, res) => {
+  app.put("/api/payment-gateways/:id", authenticateToken, requirePermission('gateways:write'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = updateWhatsappInstanceSchema.parse(req.body);
-      
-      const instance = await storage.updateWhatsappInstance(id, validatedData);
-      if (!instance) {
-        return res.status(404).json({ message: "WhatsApp instance not found" });
+      const validatedData = updatePaymentGatewaySchema.parse(req.body);
+      const gateway = await req.tenantStorage!.updatePaymentGateway(id, validatedData);
+      if (!gateway) {
+        return res.status(404).json({ message: "Payment gateway not found" });
       }
-      
-      res.json(instance);
+      res.json(maskPaymentGateway(gateway));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error updating WhatsApp instance:", error);
-      res.status(500).json({ message: "Failed to update WhatsApp instance" });
+      console.error("Error updating payment gateway:", error);
+      res.status(500).json({ message: "Failed to update payment gateway" });
     }
   });
 
   /**
    * @swagger
-   * /api/whatsapp-instances/{id}:
+   * /api/payment-gateways/{id}:
    *   delete:
-   *     tags: [WhatsApp Instances]
-   *     summary: Delete WhatsApp instance
-   *     description: Delete a WhatsApp instance by ID. This action is permanent and will stop all messaging automation.
-   *     security:
-   *       - bearerAuth: []
+   *     tags: [Payment Gateways]
+   *     summary: Delete payment gateway
+   *     description: Delete a payment gateway by ID. This action is permanent and will affect any ongoing payment processing.
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: WhatsApp instance ID
+   *         description: Payment gateway ID
    *     responses:
    *       204:
-   *         description: WhatsApp instance deleted successfully
-   *       401:
-   *         description: Authentication required
+   *         description: Payment gateway deleted successfully
    *       404:
-   *         description: WhatsApp instance not found
+   *         description: Payment gateway not found
    *       500:
    *         description: Internal server error
    */
-  app.delete("/api/whatsapp-instances/:id", requireAuth, async (req, res) => {
+  app.delete("/api/payment-gateways/:id", authenticateToken, requirePermission('gateways:write'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteWhatsappInstance(id);
+      const success = await req.tenantStorage!.deletePaymentGateway(id);
       if (!success) {
-        return res.status(404).json({ message: "WhatsApp instance not found" });
+        return res.status(404).json({ message: "Payment gateway not found" });
       }
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting WhatsApp instance:", error);
-      res.status(500).json({ message: "Failed to delete WhatsApp instance" });
+      console.error("Error deleting payment gateway:", error);
+      res.status(500).json({ message: "Failed to delete payment gateway" });
     }
   });
 
-  // QR Code generation endpoint
-  app.post("/api/whatsapp-instances/:id/qrcode", requireAuth, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const instance = await storage.getWhatsappInstance(id);
-      
-      if (!instance) {
-        return res.status(404).json({ message: "WhatsApp instance not found" });
+  // Payment webhook routes - called by the gateways, authenticated by signature
+  /**
+   * @swagger
+   * /api/webhooks/payments/{gatewayId}:
+   *   post:
+   *     tags: [Payment Webhooks]
+   *     summary: Receive a payment notification
+   *     description: |
+   *       Endpoint to register at the provider. The signature is checked per gateway type
+   *       (Asaas asaas-access-token, Mercado Pago x-signature, PagSeguro x-authenticity-token).
+   *       The matching customer plan is moved from pending to paid, failed or expired, and
+   *       repeated deliveries of the same event are acknowledged without changes.
+   *     security: []
+   *     parameters:
+   *       - in: path
+   *         name: gatewayId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Payment gateway ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             description: Provider-specific notification body
+   *     responses:
+   *       200:
+   *         description: Notification received
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 received:
+   *                   type: boolean
+   *                   example: true
+   *                 result:
+   *                   type: string
+   *                   enum: [applied, ignored, unmatched, duplicate]
+   *       401:
+   *         description: Invalid webhook signature
+   *       404:
+   *         description: Payment gateway not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/webhooks/payments/:gatewayId", async (req, res) => {
+    try {
+      const gatewayId = parseInt(req.params.gatewayId);
+      const gateway = await storage.getPaymentGateway(gatewayId);
+      if (!gateway) {
+        return res.status(404).json({ message: "Payment gateway not found" });
       }
 
-      // Make request to external API to get QR code
-      const qrResponse = await fetch(`${instance.apiUrl}/qrcode/${instance.instanceNumber}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!qrResponse.ok) {
-        throw new Error(`QR API responded with status: ${qrResponse.status}`);
+      const adapter = getPaymentGatewayAdapter(gateway);
+      if (!req.rawBody || !adapter.verifyWebhook({ headers: req.headers, query: req.query, rawBody: req.rawBody })) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
       }
 
-      const qrData = await qrResponse.json();
-      res.json(qrData);
+      const result = await receivePaymentEvent(gateway, req.body, req.rawBody);
+      res.json({ received: true, result });
     } catch (error) {
-      console.error("Error generating QR code:", error);
-      res.status(500).json({ message: "Failed to generate QR code" });
+      // A 500 makes the provider retry the delivery
+      console.error("Error processing payment webhook:", error);
+      res.status(500).json({ message: "Failed to process payment webhook" });
     }
   });
 
-  // Price Table routes - Super admin only for CRUD, public access for display
   /**
    * @swagger
-   * /api/price-tables:
+   * /api/payment-events:
    *   get:
-   *     tags: [Price Tables]
-   *     summary: Get all price tables
-   *     description: Retrieve all available pricing plans and tables. Public access for customers to view pricing options.
+   *     tags: [Payment Webhooks]
+   *     summary: List received payment events
+   *     description: Raw payment notifications as received, newest first. Super admin only.
    *     parameters:
    *       - in: query
-   *         name: isActive
+   *         name: paymentGatewayId
    *         schema:
-   *           type: boolean
-   *         description: Filter by active status
+   *           type: integer
+   *         description: Filter by payment gateway
+   *     responses:
+   *       200:
+   *         description: List of payment events
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/payment-events", authenticateToken, requirePermission('payment-events:read'), async (req, res) => {
+    try {
+      const paymentGatewayId = req.query.paymentGatewayId ? parseInt(req.query.paymentGatewayId as string) : undefined;
+      const events = await storage.getAllPaymentEvents(paymentGatewayId);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching payment events:", error);
+      res.status(500).json({ message: "Failed to fetch payment events" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/payment-events/{id}/replay:
+   *   post:
+   *     tags: [Payment Webhooks]
+   *     summary: Replay a stored payment event
+   *     description: Apply a stored payment notification again, e.g. after it arrived before its plan could be matched. Super admin only.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Payment event ID
+   *     responses:
+   *       200:
+   *         description: Event replayed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 result:
+   *                   type: string
+   *                   enum: [applied, ignored, unmatched]
+   *       404:
+   *         description: Payment event not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/payment-events/:id/replay", authenticateToken, requirePermission('payment-events:replay'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const event = await storage.getPaymentEvent(id);
+      if (!event) {
+        return res.status(404).json({ message: "Payment event not found" });
+      }
+
+      const result = await replayPaymentEvent(event);
+      res.json({ result });
+    } catch (error) {
+      console.error("Error replaying payment event:", error);
+      res.status(500).json({ message: "Failed to replay payment event" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/collaborators:
+   *   get:
+   *     tags: [Collaborators]
+   *     summary: Get all collaborators
+   *     description: Retrieve collaborators based on user role and permissions. Entrepreneurs see their collaborators, super-admins see all.
+   *     parameters:
    *       - in: query
-   *         name: displayOrder
+   *         name: entrepreneurId
    *         schema:
    *           type: integer
-   *         description: Sort by display order
+   *         description: Filter collaborators by entrepreneur ID
    *     responses:
    *       200:
-   *         description: List of price tables
+   *         description: List of collaborators
    *         content:
    *           application/json:
    *             schema:
    *               type: array
    *               items:
-   *                 $ref: '#/components/schemas/PriceTable'
+   *                 $ref: '#/components/schemas/Collaborator'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/price-tables", async (req, res) => {
+  app.get("/api/collaborators", authenticateToken, requirePermission('collaborators:read'), resolveTenant, async (req, res) => {
     try {
-      const priceTables = await storage.getAllPriceTables();
-      res.json(priceTables);
+      const collaborators = await req.tenantStorage!.getAllCollaborators();
+      res.json(collaborators);
     } catch (error) {
-      console.error("Error fetching price tables:", error);
-      res.status(500).json({ message: "Failed to fetch price tables" });
+      console.error("Error fetching collaborators:", error);
+      res.status(500).json({ message: "Failed to fetch collaborators" });
     }
   });
 
   /**
    * @swagger
-   * /api/price-tables/{id}:
+   * /api/collaborators/{id}:
    *   get:
-   *     tags: [Price Tables]
-   *     summary: Get price table by ID
-   *     description: Retrieve a specific pricing plan by its ID. Public access for customers to view specific plan details.
+   *     tags: [Collaborators]
+   *     summary: Get collaborator by ID
+   *     description: Retrieve a specific collaborator by their ID
    *     parameters:
    *       - in: path
    *         name: id
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Price table ID
+   *         description: Collaborator ID
+   *     responses:
+   *       200:
+   *         description: Collaborator details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Collaborator'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Collaborator not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/collaborators/:id", authenticateToken, requirePermission('collaborators:read'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const collaborator = await req.tenantStorage!.getCollaborator(id);
+      if (!collaborator) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+      res.json(collaborator);
+    } catch (error) {
+      console.error("Error fetching collaborator:", error);
+      res.status(500).json({ message: "Failed to fetch collaborator" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/collaborators:
+   *   post:
+   *     tags: [Collaborators]
+   *     summary: Create a new collaborator
+   *     description: Create a new collaborator under the authenticated entrepreneur
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateCollaborator'
+   *     responses:
+   *       201:
+   *         description: Collaborator created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Collaborator'
+   *       400:
+   *         description: Invalid data
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 errors:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/collaborators", authenticateToken, requirePermission('collaborators:write'), resolveTenant, async (req, res) => {
+    try {
+      const validatedData = insertCollaboratorSchema.parse(req.body);
+      if (!req.tenantId) {
+        return res.status(400).json({ message: "entrepreneurId is required" });
+      }
+      
+      const collaborator = await req.tenantStorage!.createCollaborator(validatedData);
+      res.status(201).json(collaborator);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating collaborator:", error);
+      res.status(500).json({ message: "Failed to create collaborator" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/collaborators/{id}:
+   *   put:
+   *     tags: [Collaborators]
+   *     summary: Update collaborator
+   *     description: Update an existing collaborator's information
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Collaborator ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: "Jane Smith"
+   *               email:
+   *                 type: string
+   *                 example: "jane.smith@example.com"
+   *               role:
+   *                 type: string
+   *                 example: "Senior Developer"
+   *               department:
+   *                 type: string
+   *                 example: "Engineering"
+   *               phone:
+   *                 type: string
+   *                 example: "+1234567890"
+   *               skills:
+   *                 type: string
+   *                 example: "React, Node.js, TypeScript"
+   *               hireDate:
+   *                 type: string
+   *                 format: date
+   *               isActive:
+   *                 type: boolean
+   *                 default: true
+   *     responses:
+   *       200:
+   *         description: Collaborator updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Collaborator'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Collaborator not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.put("/api/collaborators/:id", authenticateToken, requirePermission('collaborators:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateCollaboratorSchema.parse(req.body);
+      const collaborator = await req.tenantStorage!.updateCollaborator(id, validatedData);
+      if (!collaborator) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+      res.json(collaborator);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating collaborator:", error);
+      res.status(500).json({ message: "Failed to update collaborator" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/collaborators/{id}:
+   *   delete:
+   *     tags: [Collaborators]
+   *     summary: Delete collaborator
+   *     description: Delete a collaborator by ID. Only entrepreneurs and super-admins can delete collaborators.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Collaborator ID
+   *     responses:
+   *       204:
+   *         description: Collaborator deleted successfully
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Collaborator not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.delete("/api/collaborators/:id", authenticateToken, requirePermission('collaborators:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await req.tenantStorage!.deleteCollaborator(id);
+      if (!success) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting collaborator:", error);
+      res.status(500).json({ message: "Failed to delete collaborator" });
+    }
+  });
+
+  // WhatsApp Instances routes
+  /**
+   * @swagger
+   * /api/whatsapp-instances:
+   *   get:
+   *     tags: [WhatsApp Instances]
+   *     summary: Get all WhatsApp instances
+   *     description: Retrieve WhatsApp instances based on user role and permissions. Super-admins see all instances, entrepreneurs see their own.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: isActive
+   *         schema:
+   *           type: boolean
+   *         description: Filter by active status
+   *       - in: query
+   *         name: entrepreneurId
+   *         schema:
+   *           type: integer
+   *         description: Filter by entrepreneur ID (super-admin only)
+   *     responses:
+   *       200:
+   *         description: List of WhatsApp instances
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/WhatsappInstance'
+   *       401:
+   *         description: Authentication required
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/whatsapp-instances", authenticateToken, requirePermission('whatsapp:read'), resolveTenant, async (req, res) => {
+    try {
+      const instances = await req.tenantStorage!.getAllWhatsappInstances();
+      res.json(instances.map(maskWhatsappInstance));
+    } catch (error) {
+      console.error("Error fetching WhatsApp instances:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp instances" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}:
+   *   get:
+   *     tags: [WhatsApp Instances]
+   *     summary: Get WhatsApp instance by ID
+   *     description: Retrieve a specific WhatsApp instance by its ID
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     responses:
+   *       200:
+   *         description: WhatsApp instance details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappInstance'
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: WhatsApp instance not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/whatsapp-instances/:id", authenticateToken, requirePermission('whatsapp:read'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const instance = await req.tenantStorage!.getWhatsappInstance(id);
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+      res.json(maskWhatsappInstance(instance));
+    } catch (error) {
+      console.error("Error fetching WhatsApp instance:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp instance" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances:
+   *   post:
+   *     tags: [WhatsApp Instances]
+   *     summary: Create a new WhatsApp instance
+   *     description: Create a new WhatsApp instance configuration for messaging automation
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateWhatsappInstance'
+   *           examples:
+   *             businessInstance:
+   *               summary: Business WhatsApp Instance
+   *               value:
+   *                 name: "Customer Support WhatsApp"
+   *                 instanceNumber: "wa_business_001"
+   *                 apiUrl: "https://api.whatsapp.business.com/v1/instance/001"
+   *                 isActive: true
+   *             marketingInstance:
+   *               summary: Marketing WhatsApp Instance
+   *               value:
+   *                 name: "Marketing Campaigns"
+   *                 instanceNumber: "wa_marketing_002"
+   *                 apiUrl: "https://api.whatsapp.business.com/v1/instance/002"
+   *                 isActive: true
+   *     responses:
+   *       201:
+   *         description: WhatsApp instance created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappInstance'
+   *       400:
+   *         description: Invalid data
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 errors:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/whatsapp-instances", authenticateToken, requirePermission('whatsapp:manage'), resolveTenant, async (req, res) => {
+    try {
+      const validatedData = insertWhatsappInstanceSchema.parse(req.body);
+      if (!req.tenantId) {
+        return res.status(400).json({ message: "entrepreneurId is required" });
+      }
+      
+      const instance = await req.tenantStorage!.createWhatsappInstance(validatedData);
+      
+      res.status(201).json(maskWhatsappInstance(instance));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating WhatsApp instance:", error);
+      res.status(500).json({ message: "Failed to create WhatsApp instance" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}:
+   *   put:
+   *     tags: [WhatsApp Instances]
+   *     summary: Update WhatsApp instance
+   *     description: Update an existing WhatsApp instance configuration
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: "Updated Customer Support WhatsApp"
+   *               instanceNumber:
+   *                 type: string
+   *                 example: "wa_updated_001"
+   *               apiUrl:
+   *                 type: string
+   *                 example: "https://api.whatsapp.business.com/v1/instance/updated001"
+   *               isActive:
+   *                 type: boolean
+   *                 example: true
+   *     responses:
+   *       200:
+   *         description: WhatsApp instance updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappInstance'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: WhatsApp instance not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.put("/api/whatsapp-instances/:id", authenticateToken, requirePermission('whatsapp:manage'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateWhatsappInstanceSchema.parse(req.body);
+      
+      const instance = await req.tenantStorage!.updateWhatsappInstance(id, validatedData);
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+      
+      res.json(maskWhatsappInstance(instance));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating WhatsApp instance:", error);
+      res.status(500).json({ message: "Failed to update WhatsApp instance" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}:
+   *   delete:
+   *     tags: [WhatsApp Instances]
+   *     summary: Delete WhatsApp instance
+   *     description: Delete a WhatsApp instance by ID. This action is permanent and will stop all messaging automation.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     responses:
+   *       204:
+   *         description: WhatsApp instance deleted successfully
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: WhatsApp instance not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.delete("/api/whatsapp-instances/:id", authenticateToken, requirePermission('whatsapp:manage'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await req.tenantStorage!.deleteWhatsappInstance(id);
+      if (!success) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting WhatsApp instance:", error);
+      res.status(500).json({ message: "Failed to delete WhatsApp instance" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}/qrcode:
+   *   post:
+   *     summary: Get a QR code to pair the instance
+   *     description: Requests a fresh QR code from the instance API, also used to reconnect an instance that dropped. The instance is awaiting_qr until a health check finds it connected.
+   *     tags: [WhatsApp Instances]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     responses:
+   *       200:
+   *         description: QR code as an image data URL
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 qrCode:
+   *                   type: string
+   *       404:
+   *         description: WhatsApp instance not found
+   *       500:
+   *         description: The instance API could not generate a QR code
+   */
+  app.post("/api/whatsapp-instances/:id/qrcode", authenticateToken, requirePermission('whatsapp:manage'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const instance = await req.tenantStorage!.getWhatsappInstance(id);
+      
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+
+      const qrData = await requestWhatsappQrCode(instance);
+      res.json(qrData);
+    } catch (error) {
+      console.error("Error generating QR code:", error);
+      res.status(500).json({ message: "Failed to generate QR code" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}/check-connection:
+   *   post:
+   *     summary: Check the connection of a WhatsApp instance now
+   *     description: Runs the health check that otherwise runs every WHATSAPP_HEALTH_INTERVAL_SECONDS and returns the instance with its updated connection status.
+   *     tags: [WhatsApp Instances]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     responses:
+   *       200:
+   *         description: Instance with its connection status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappInstance'
+   *       404:
+   *         description: WhatsApp instance not found
+   */
+  app.post("/api/whatsapp-instances/:id/check-connection", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const instance = await req.tenantStorage!.getWhatsappInstance(parseInt(req.params.id));
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+
+      res.json(maskWhatsappInstance(await checkWhatsappInstanceConnection(instance)));
+    } catch (error) {
+      console.error("Error checking WhatsApp instance connection:", error);
+      res.status(500).json({ message: "Failed to check WhatsApp instance connection" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}/webhook:
+   *   get:
+   *     summary: Get the webhook settings of an instance
+   *     description: URL to register at the instance API so inbound messages, delivery statuses and connection changes reach the inbox. The secret is created on the first request.
+   *     tags: [WhatsApp Instances]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     responses:
+   *       200:
+   *         description: Webhook settings
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappWebhookSettings'
+   *       404:
+   *         description: WhatsApp instance not found
+   */
+  app.get("/api/whatsapp-instances/:id/webhook", authenticateToken, requirePermission('whatsapp:manage'), resolveTenant, async (req, res) => {
+    try {
+      const instance = await req.tenantStorage!.getWhatsappInstance(parseInt(req.params.id));
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+
+      const secret = await getWhatsappWebhookSecret(instance);
+      res.json({
+        url: `${req.protocol}://${req.get('host')}/api/webhooks/whatsapp/${instance.id}?token=${secret}`,
+        secret,
+      });
+    } catch (error) {
+      console.error("Error fetching WhatsApp webhook settings:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp webhook settings" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}/webhook/rotate:
+   *   post:
+   *     summary: Replace the webhook secret of an instance
+   *     description: Calls with the previous secret are rejected from now on, so the new URL must be registered at the instance API.
+   *     tags: [WhatsApp Instances]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     responses:
+   *       200:
+   *         description: Webhook settings with the new secret
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappWebhookSettings'
+   *       404:
+   *         description: WhatsApp instance not found
+   */
+  app.post("/api/whatsapp-instances/:id/webhook/rotate", authenticateToken, requirePermission('whatsapp:manage'), resolveTenant, async (req, res) => {
+    try {
+      const instance = await req.tenantStorage!.getWhatsappInstance(parseInt(req.params.id));
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+
+      const secret = await rotateWhatsappWebhookSecret(instance);
+      res.json({
+        url: `${req.protocol}://${req.get('host')}/api/webhooks/whatsapp/${instance.id}?token=${secret}`,
+        secret,
+      });
+    } catch (error) {
+      console.error("Error rotating WhatsApp webhook secret:", error);
+      res.status(500).json({ message: "Failed to rotate WhatsApp webhook secret" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}/send-text:
+   *   post:
+   *     tags: [WhatsApp Messages]
+   *     summary: Send a text message
+   *     description: Send a text message through a WhatsApp instance of the tenant. The message is logged even when the instance API rejects it.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/SendWhatsappText'
+   *     responses:
+   *       201:
+   *         description: Message accepted by the instance
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappMessage'
+   *       400:
+   *         description: Invalid data
+   *       404:
+   *         description: WhatsApp instance not found
+   *       422:
+   *         description: Instance inactive or customer outside the tenant
+   *       502:
+   *         description: The instance API rejected the message; the failed message is returned in whatsappMessage
+   */
+  app.post("/api/whatsapp-instances/:id/send-text", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const input = sendWhatsappTextSchema.parse(req.body);
+      const instance = await req.tenantStorage!.getWhatsappInstance(parseInt(req.params.id));
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+
+      const message = await sendWhatsappText(instance, input, req.user!.id);
+      if (message.status === 'failed') {
+        return res.status(502).json({ message: `WhatsApp instance rejected the message: ${message.error}`, whatsappMessage: message });
+      }
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof WhatsappError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error sending WhatsApp text message:", error);
+      res.status(500).json({ message: "Failed to send WhatsApp message" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}/send-media:
+   *   post:
+   *     tags: [WhatsApp Messages]
+   *     summary: Send a media message
+   *     description: Send an image, video, audio or document by URL through a WhatsApp instance of the tenant.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/SendWhatsappMedia'
+   *     responses:
+   *       201:
+   *         description: Message accepted by the instance
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappMessage'
+   *       400:
+   *         description: Invalid data
+   *       404:
+   *         description: WhatsApp instance not found
+   *       422:
+   *         description: Instance inactive or customer outside the tenant
+   *       502:
+   *         description: The instance API rejected the message; the failed message is returned in whatsappMessage
+   */
+  app.post("/api/whatsapp-instances/:id/send-media", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const input = sendWhatsappMediaSchema.parse(req.body);
+      const instance = await req.tenantStorage!.getWhatsappInstance(parseInt(req.params.id));
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+
+      const message = await sendWhatsappMedia(instance, input, req.user!.id);
+      if (message.status === 'failed') {
+        return res.status(502).json({ message: `WhatsApp instance rejected the message: ${message.error}`, whatsappMessage: message });
+      }
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof WhatsappError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error sending WhatsApp media message:", error);
+      res.status(500).json({ message: "Failed to send WhatsApp message" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-instances/{id}/send-template:
+   *   post:
+   *     tags: [WhatsApp Messages]
+   *     summary: Send a template message
+   *     description: Send an approved message template, filling its body placeholders in order with the given parameters.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/SendWhatsappTemplate'
+   *     responses:
+   *       201:
+   *         description: Message accepted by the instance
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappMessage'
+   *       400:
+   *         description: Invalid data
+   *       404:
+   *         description: WhatsApp instance not found
+   *       422:
+   *         description: Instance inactive or customer outside the tenant
+   *       502:
+   *         description: The instance API rejected the message; the failed message is returned in whatsappMessage
+   */
+  app.post("/api/whatsapp-instances/:id/send-template", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const input = sendWhatsappTemplateSchema.parse(req.body);
+      const instance = await req.tenantStorage!.getWhatsappInstance(parseInt(req.params.id));
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+
+      const message = await sendWhatsappTemplate(instance, input, req.user!.id);
+      if (message.status === 'failed') {
+        return res.status(502).json({ message: `WhatsApp instance rejected the message: ${message.error}`, whatsappMessage: message });
+      }
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof WhatsappError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error sending WhatsApp template message:", error);
+      res.status(500).json({ message: "Failed to send WhatsApp message" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-messages:
+   *   get:
+   *     tags: [WhatsApp Messages]
+   *     summary: Get the message log
+   *     description: Messages sent and received through the tenant's WhatsApp instances, newest first. Super-admins see every tenant unless entrepreneurId is given.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: instanceId
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: customerId
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: direction
+   *         schema:
+   *           type: string
+   *           enum: [outbound, inbound]
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [queued, sent, delivered, read, failed, received]
+   *     responses:
+   *       200:
+   *         description: Message log
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/WhatsappMessage'
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/whatsapp-messages", authenticateToken, requirePermission('whatsapp:read'), resolveTenant, async (req, res) => {
+    try {
+      const messages = await req.tenantStorage!.getAllWhatsappMessages({
+        instanceId: req.query.instanceId ? parseInt(req.query.instanceId as string) : undefined,
+        customerId: req.query.customerId ? parseInt(req.query.customerId as string) : undefined,
+        direction: req.query.direction ? req.query.direction as string : undefined,
+        status: req.query.status ? req.query.status as string : undefined,
+      });
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching WhatsApp messages:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp messages" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-messages/{id}:
+   *   get:
+   *     tags: [WhatsApp Messages]
+   *     summary: Get a logged message
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Message details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappMessage'
+   *       404:
+   *         description: Message not found
+   */
+  app.get("/api/whatsapp-messages/:id", authenticateToken, requirePermission('whatsapp:read'), resolveTenant, async (req, res) => {
+    try {
+      const message = await req.tenantStorage!.getWhatsappMessage(parseInt(req.params.id));
+      if (!message) {
+        return res.status(404).json({ message: "WhatsApp message not found" });
+      }
+      res.json(message);
+    } catch (error) {
+      console.error("Error fetching WhatsApp message:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp message" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-messages/{id}/refresh-status:
+   *   post:
+   *     tags: [WhatsApp Messages]
+   *     summary: Refresh delivery status
+   *     description: Ask the instance API whether a sent message was delivered or read and store the answer. Statuses only move forward.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Message with its current delivery status
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappMessage'
+   *       404:
+   *         description: Message not found
+   *       422:
+   *         description: The message was never accepted by an instance
+   *       502:
+   *         description: The instance API could not be reached
+   */
+  app.post("/api/whatsapp-messages/:id/refresh-status", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const message = await req.tenantStorage!.getWhatsappMessage(parseInt(req.params.id));
+      if (!message) {
+        return res.status(404).json({ message: "WhatsApp message not found" });
+      }
+      res.json(await refreshWhatsappMessageStatus(message));
+    } catch (error) {
+      if (error instanceof WhatsappError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error refreshing WhatsApp message status:", error);
+      res.status(502).json({ message: "Failed to reach the WhatsApp instance" });
+    }
+  });
+
+  // WhatsApp webhook - called by the instance API, authenticated by the token in the URL
+  /**
+   * @swagger
+   * /api/webhooks/whatsapp/{instanceId}:
+   *   post:
+   *     tags: [WhatsApp Inbox]
+   *     summary: Receive an instance event
+   *     description: |
+   *       Endpoint to register at the instance API, as returned by GET /api/whatsapp-instances/{id}/webhook.
+   *       Handles messages.upsert (inbound messages, added to the conversation with the contact),
+   *       messages.update (delivery statuses of sent messages) and connection.update. Repeated
+   *       deliveries of the same message are acknowledged without changes.
+   *     security: []
+   *     parameters:
+   *       - in: path
+   *         name: instanceId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: WhatsApp instance ID
+   *       - in: query
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Webhook secret of the instance
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               event:
+   *                 type: string
+   *                 example: messages.upsert
+   *               data:
+   *                 type: object
+   *     responses:
+   *       200:
+   *         description: Event received
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 received:
+   *                   type: boolean
+   *                   example: true
+   *                 result:
+   *                   type: string
+   *                   enum: [received, updated, ignored, duplicate]
+   *       401:
+   *         description: Invalid webhook token
+   *       404:
+   *         description: WhatsApp instance not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/webhooks/whatsapp/:instanceId", async (req, res) => {
+    try {
+      const instance = await storage.getWhatsappInstance(parseInt(req.params.instanceId));
+      if (!instance) {
+        return res.status(404).json({ message: "WhatsApp instance not found" });
+      }
+      if (!verifyWhatsappWebhook(instance, req.query.token)) {
+        return res.status(401).json({ message: "Invalid webhook token" });
+      }
+
+      const result = await receiveWhatsappWebhook(instance, req.body);
+      res.json({ received: true, result });
+    } catch (error) {
+      // A 500 makes the instance API retry the delivery
+      console.error("Error processing WhatsApp webhook:", error);
+      res.status(500).json({ message: "Failed to process WhatsApp webhook" });
+    }
+  });
+
+  // WhatsApp Inbox routes - shared by the entrepreneur and their collaborators
+  /**
+   * @swagger
+   * /api/whatsapp-conversations:
+   *   get:
+   *     tags: [WhatsApp Inbox]
+   *     summary: Get conversations
+   *     description: Conversations of the tenant's WhatsApp instances, most recent activity first.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: instanceId
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: assignedTo
+   *         schema:
+   *           type: string
+   *         description: User ID, or "me" for the current user
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [open, closed]
+   *     responses:
+   *       200:
+   *         description: List of conversations
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/WhatsappConversation'
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/whatsapp-conversations", authenticateToken, requirePermission('whatsapp:read'), resolveTenant, async (req, res) => {
+    try {
+      const assignedTo = req.query.assignedTo === 'me'
+        ? req.user!.id
+        : req.query.assignedTo ? parseInt(req.query.assignedTo as string) : undefined;
+      const conversations = await req.tenantStorage!.getAllWhatsappConversations({
+        instanceId: req.query.instanceId ? parseInt(req.query.instanceId as string) : undefined,
+        assignedTo,
+        status: req.query.status ? req.query.status as string : undefined,
+      });
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching WhatsApp conversations:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp conversations" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-conversations/{id}:
+   *   get:
+   *     tags: [WhatsApp Inbox]
+   *     summary: Get a conversation
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Conversation details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappConversation'
+   *       404:
+   *         description: Conversation not found
+   */
+  app.get("/api/whatsapp-conversations/:id", authenticateToken, requirePermission('whatsapp:read'), resolveTenant, async (req, res) => {
+    try {
+      const conversation = await req.tenantStorage!.getWhatsappConversation(parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error fetching WhatsApp conversation:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp conversation" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-conversations/{id}/messages:
+   *   get:
+   *     tags: [WhatsApp Inbox]
+   *     summary: Get the messages of a conversation
+   *     description: Messages in both directions, oldest first.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Conversation thread
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/WhatsappMessage'
+   *       404:
+   *         description: Conversation not found
+   */
+  app.get("/api/whatsapp-conversations/:id/messages", authenticateToken, requirePermission('whatsapp:read'), resolveTenant, async (req, res) => {
+    try {
+      const conversation = await req.tenantStorage!.getWhatsappConversation(parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const messages = await req.tenantStorage!.getAllWhatsappMessages({ conversationId: conversation.id });
+      res.json(messages.reverse());
+    } catch (error) {
+      console.error("Error fetching WhatsApp conversation messages:", error);
+      res.status(500).json({ message: "Failed to fetch WhatsApp conversation messages" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-conversations/{id}:
+   *   put:
+   *     tags: [WhatsApp Inbox]
+   *     summary: Update a conversation
+   *     description: Assign the conversation to the entrepreneur or one of their collaborators (null to unassign), link it to a customer, or close and reopen it. A new inbound message reopens a closed conversation.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/UpdateWhatsappConversation'
+   *     responses:
+   *       200:
+   *         description: Conversation updated
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappConversation'
+   *       400:
+   *         description: Invalid input data
+   *       404:
+   *         description: Conversation not found
+   *       422:
+   *         description: Assignee or customer outside the tenant
+   */
+  app.put("/api/whatsapp-conversations/:id", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const update = updateWhatsappConversationSchema.parse(req.body);
+      const conversation = await req.tenantStorage!.getWhatsappConversation(parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      res.json(await editWhatsappConversation(conversation, update));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof WhatsappError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error updating WhatsApp conversation:", error);
+      res.status(500).json({ message: "Failed to update WhatsApp conversation" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-conversations/{id}/read:
+   *   post:
+   *     tags: [WhatsApp Inbox]
+   *     summary: Mark a conversation as read
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Conversation with no unread messages
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappConversation'
+   *       404:
+   *         description: Conversation not found
+   */
+  app.post("/api/whatsapp-conversations/:id/read", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const conversation = await req.tenantStorage!.getWhatsappConversation(parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(await markWhatsappConversationRead(conversation));
+    } catch (error) {
+      console.error("Error marking WhatsApp conversation as read:", error);
+      res.status(500).json({ message: "Failed to mark WhatsApp conversation as read" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/whatsapp-conversations/{id}/reply:
+   *   post:
+   *     tags: [WhatsApp Inbox]
+   *     summary: Reply to a conversation
+   *     description: Sends a text message to the contact through the conversation's instance.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [text]
+   *             properties:
+   *               text:
+   *                 type: string
+   *                 maxLength: 4096
+   *     responses:
+   *       201:
+   *         description: Reply sent
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/WhatsappMessage'
+   *       400:
+   *         description: Invalid input data
+   *       404:
+   *         description: Conversation not found
+   *       422:
+   *         description: The instance is not active
+   *       502:
+   *         description: The instance API rejected the message; the failed message is returned in whatsappMessage
+   */
+  app.post("/api/whatsapp-conversations/:id/reply", authenticateToken, requirePermission('whatsapp:send'), resolveTenant, async (req, res) => {
+    try {
+      const { text } = replyWhatsappConversationSchema.parse(req.body);
+      const conversation = await req.tenantStorage!.getWhatsappConversation(parseInt(req.params.id));
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const message = await replyToWhatsappConversation(conversation, text, req.user!.id);
+      if (message.status === 'failed') {
+        return res.status(502).json({ message: `WhatsApp instance rejected the message: ${message.error}`, whatsappMessage: message });
+      }
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof WhatsappError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error replying to WhatsApp conversation:", error);
+      res.status(500).json({ message: "Failed to reply to WhatsApp conversation" });
+    }
+  });
+
+  // Price Table routes - Super admin only for CRUD, public access for display
+  /**
+   * @swagger
+   * /api/price-tables:
+   *   get:
+   *     tags: [Price Tables]
+   *     summary: Get all price tables
+   *     description: Retrieve all available pricing plans and tables. Public access for customers to view pricing options.
+   *     parameters:
+   *       - in: query
+   *         name: isActive
+   *         schema:
+   *           type: boolean
+   *         description: Filter by active status
+   *       - in: query
+   *         name: displayOrder
+   *         schema:
+   *           type: integer
+   *         description: Sort by display order
+   *     responses:
+   *       200:
+   *         description: List of price tables
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/PriceTable'
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/price-tables", async (req, res) => {
+    try {
+      const priceTables = await storage.getAllPriceTables();
+      res.json(priceTables);
+    } catch (error) {
+      console.error("Error fetching price tables:", error);
+      res.status(500).json({ message: "Failed to fetch price tables" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/price-tables/{id}:
+   *   get:
+   *     tags: [Price Tables]
+   *     summary: Get price table by ID
+   *     description: Retrieve a specific pricing plan by its ID. Public access for customers to view specific plan details.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Price table ID
+   *     responses:
+   *       200:
+   *         description: Price table details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PriceTable'
+   *       404:
+   *         description: Price table not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/price-tables/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const priceTable = await storage.getPriceTable(id);
+      if (!priceTable) {
+        return res.status(404).json({ message: "Price table not found" });
+      }
+      res.json(priceTable);
+    } catch (error) {
+      console.error("Error fetching price table:", error);
+      res.status(500).json({ message: "Failed to fetch price table" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/price-tables:
+   *   post:
+   *     tags: [Price Tables]
+   *     summary: Create new price table
+   *     description: Create a new pricing plan. Requires super admin authentication.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreatePriceTable'
+   *           examples:
+   *             basicPlan:
+   *               summary: Basic Plan
+   *               value:
+   *                 title: "Basic Plan"
+   *                 subtitle: "Perfect for small businesses getting started"
+   *                 advantages: ["Up to 1,000 messages", "Basic support", "Standard templates"]
+   *                 currentPrice3x: "89.90"
+   *                 currentPrice12x: "299.90"
+   *                 currency: "BRL"
+   *                 months: 3
+   *                 buyLink: "https://checkout.example.com/basic"
+   *                 isActive: true
+   *                 displayOrder: 1
+   *             enterprisePlan:
+   *               summary: Enterprise Plan
+   *               value:
+   *                 title: "Enterprise"
+   *                 subtitle: "Advanced features for large organizations"
+   *                 advantages: ["Unlimited messages", "Priority support", "Custom integrations", "Advanced analytics"]
+   *                 oldPrice3x: "699.90"
+   *                 currentPrice3x: "599.90"
+   *                 oldPrice12x: "2199.90"
+   *                 currentPrice12x: "1999.90"
+   *                 currency: "USD"
+   *                 months: 12
+   *                 buyLink: "https://checkout.example.com/enterprise"
+   *                 isActive: true
+   *                 displayOrder: 3
+   *     responses:
+   *       201:
+   *         description: Price table created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PriceTable'
+   *       400:
+   *         description: Invalid data
+   *       403:
+   *         description: Access denied - Super admin required
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/price-tables", authenticateToken, requirePermission('price-tables:write'), async (req, res) => {
+    try {
+      const validatedData = insertPriceTableSchema.parse(req.body);
+      const priceTable = await storage.createPriceTable(validatedData);
+      res.status(201).json(priceTable);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating price table:", error);
+      res.status(500).json({ message: "Failed to create price table" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/price-tables/{id}:
+   *   put:
+   *     tags: [Price Tables]
+   *     summary: Update price table
+   *     description: Update an existing pricing plan. Requires super admin authentication.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Price table ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreatePriceTable'
+   *           examples:
+   *             updatePricing:
+   *               summary: Update pricing and features
+   *               value:
+   *                 subtitle: "Enhanced features for growing businesses"
+   *                 advantages: ["Up to 10,000 messages", "Priority support", "Custom templates", "Analytics dashboard"]
+   *                 oldPrice3x: "249.90"
+   *                 currentPrice3x: "219.90"
+   *                 currentPrice12x: "799.90"
+   *             deactivatePlan:
+   *               summary: Deactivate plan
+   *               value:
+   *                 isActive: false
+   *     responses:
+   *       200:
+   *         description: Price table updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PriceTable'
+   *       400:
+   *         description: Invalid data
+   *       403:
+   *         description: Access denied - Super admin required
+   *       404:
+   *         description: Price table not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.put("/api/price-tables/:id", authenticateToken, requirePermission('price-tables:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updatePriceTableSchema.parse(req.body);
+      
+      const priceTable = await storage.updatePriceTable(id, validatedData);
+      if (!priceTable) {
+        return res.status(404).json({ message: "Price table not found" });
+      }
+      
+      res.json(priceTable);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating price table:", error);
+      res.status(500).json({ message: "Failed to update price table" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/price-tables/{id}:
+   *   delete:
+   *     tags: [Price Tables]
+   *     summary: Delete price table
+   *     description: Delete a pricing plan. Requires super admin authentication. Cannot delete plans with active customer subscriptions.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Price table ID
+   *     responses:
+   *       200:
+   *         description: Price table deleted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                   example: "Price table deleted successfully"
+   *       403:
+   *         description: Access denied - Super admin required
+   *       404:
+   *         description: Price table not found
+   *       409:
+   *         description: Cannot delete - price table has active subscriptions
+   *       500:
+   *         description: Internal server error
+   */
+  app.delete("/api/price-tables/:id", authenticateToken, requirePermission('price-tables:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deletePriceTable(id);
+      if (!success) {
+        return res.status(404).json({ message: "Price table not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting price table:", error);
+      res.status(500).json({ message: "Failed to delete price table" });
+    }
+  });
+
+  // Customer Plans routes
+  /**
+   * @swagger
+   * /api/customer-plans:
+   *   get:
+   *     tags: [Customer Plans]
+   *     summary: Get customer plans
+   *     description: Retrieve customer subscription plans. Returns the customer's own plans, the tenant's plans for entrepreneurs and collaborators, and all plans for super-admins.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: entrepreneurId
+   *         schema:
+   *           type: integer
+   *         description: Filter by entrepreneur ID (super-admin only)
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [active, inactive, expired, cancelled]
+   *         description: Filter by subscription status
+   *       - in: query
+   *         name: priceTableId
+   *         schema:
+   *           type: integer
+   *         description: Filter by price table ID
+   *     responses:
+   *       200:
+   *         description: List of customer plans
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/CustomerPlan'
+   *       401:
+   *         description: Authentication required
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/customer-plans", authenticateToken, resolveTenant, async (req, res) => {
+    try {
+      // Customers see their own plans, tenant staff see the tenant's plans, super admin sees all
+      const customerPlans = await req.tenantStorage!.getAllCustomerPlans();
+      
+      res.json(customerPlans);
+    } catch (error) {
+      console.error("Error fetching customer plans:", error);
+      res.status(500).json({ message: "Failed to fetch customer plans" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/customer-plans/{id}:
+   *   get:
+   *     tags: [Customer Plans]
+   *     summary: Get customer plan by ID
+   *     description: Retrieve a specific customer subscription plan. Customers can only access their own plans, tenant staff can access the plans of their tenant's customers.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Customer plan ID
+   *     responses:
+   *       200:
+   *         description: Customer plan details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CustomerPlan'
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Customer plan not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/customer-plans/:id", authenticateToken, resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const plan = await req.tenantStorage!.getCustomerPlan(id);
+      
+      if (!plan) {
+        return res.status(404).json({ message: "Customer plan not found" });
+      }
+      
+      res.json(plan);
+    } catch (error) {
+      console.error("Error fetching customer plan:", error);
+      res.status(500).json({ message: "Failed to fetch customer plan" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/customer-plans/{id}/history:
+   *   get:
+   *     tags: [Customer Plans]
+   *     summary: Get customer plan status history
+   *     description: List the payment and subscription status changes of a plan, oldest first. Changes come from gateway events, manual updates and the subscription lifecycle job.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Customer plan ID
+   *     responses:
+   *       200:
+   *         description: Status history of the plan
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/CustomerPlanHistory'
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Customer plan not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/customer-plans/:id/history", authenticateToken, resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const history = await req.tenantStorage!.getCustomerPlanHistory(id);
+
+      if (!history) {
+        return res.status(404).json({ message: "Customer plan not found" });
+      }
+
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching customer plan history:", error);
+      res.status(500).json({ message: "Failed to fetch customer plan history" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/customer-plans:
+   *   post:
+   *     tags: [Customer Plans]
+   *     summary: Create customer plan subscription
+   *     description: Subscribe a user to a pricing plan. Pending plans are charged through the requested paymentGatewayId, or the first active gateway of the customer's tenant, and come back with payHash, payLink and payExpiration filled in by the gateway. Pending plans with nothing to pay, e.g. with a 100% coupon, are paid right away without a charge.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateCustomerPlan'
+   *           examples:
+   *             basicSubscription:
+   *               summary: Basic Plan Subscription
+   *               value:
+   *                 customerId: 3
+   *                 priceTableId: 1
+   *                 planType: "3x"
+   *                 amount: "119.99"
+   *             withCoupon:
+   *               summary: Plan with a coupon
+   *               value:
+   *                 customerId: 5
+   *                 priceTableId: 3
+   *                 planType: "12x"
+   *                 amount: "1800.00"
+   *                 couponCode: "WELCOME10"
+   *     responses:
+   *       201:
+   *         description: Customer plan created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CustomerPlan'
+   *       400:
+   *         description: Invalid data, or a coupon for a customer outside any tenant
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Customer or price table not found
+   *       422:
+   *         description: The coupon cannot be used, or no usable payment gateway for the customer
+   *       502:
+   *         description: The payment gateway rejected the charge
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/customer-plans", authenticateToken, requirePermission('customer-plans:write'), resolveTenant, async (req, res) => {
+    try {
+      const { couponCode, ...validatedData } = createCustomerPlanSchema.parse(req.body);
+
+      const priceTable = await storage.getPriceTable(validatedData.priceTableId);
+      if (!priceTable) {
+        return res.status(404).json({ message: "Price table not found" });
+      }
+
+      // A coupon prices the plan from the price table, ignoring the posted amount
+      const customer = await req.tenantStorage!.getUser(validatedData.customerId);
+      if (couponCode && customer && !customer.entrepreneurId) {
+        return res.status(400).json({ message: "Coupons only apply to customers of a tenant" });
+      }
+      const couponQuote = couponCode && customer?.entrepreneurId
+        ? await quoteCoupon(customer.entrepreneurId, couponCode, priceTable, validatedData.planType)
+        : undefined;
+
+      // Unpaid plans give no access until their charge is paid
+      const plan = await req.tenantStorage!.createCustomerPlan({
+        ...validatedData,
+        ...(couponQuote && { amount: couponQuote.amount }),
+        ...(validatedData.payStatus !== 'paid' && { isActive: false }),
+      });
+      if (!plan) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (couponQuote) {
+        await redeemCoupon(couponQuote, plan);
+      }
+
+      // Plans recorded as already paid (e.g. cash) need no charge
+      await recordPlanHistory(undefined, plan, 'Plan created');
+      if (plan.payStatus !== 'pending') {
+        await syncPlanAccounting(undefined, plan);
+        await notifyCustomerPlanChange(undefined, plan);
+        return res.status(201).json(plan);
+      }
+
+      // Gateways reject charges of nothing, e.g. with a 100% coupon
+      if (chargeAmount(plan) <= 0) {
+        const paidPlan = await settleCustomerPlan(plan, 'paid', new Date());
+        return res.status(201).json(paidPlan ?? plan);
+      }
+
+      try {
+        const chargedPlan = await chargeCustomerPlan(plan, priceTable);
+        res.status(201).json(chargedPlan);
+      } catch (error) {
+        if (error instanceof BillingError) {
+          return res.status(422).json({ message: error.message });
+        }
+        console.error("Error creating payment gateway charge:", error);
+        res.status(502).json({ message: "Payment gateway failed to create the charge" });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof BillingError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error creating customer plan:", error);
+      res.status(500).json({ message: "Failed to create customer plan" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/customer-plans/{id}:
+   *   put:
+   *     tags: [Customer Plans]
+   *     summary: Update customer plan
+   *     description: Update an existing customer subscription plan. Entrepreneurs can only update plans of their own customers. To move a customer to another price table with proration use POST /api/customer-plans/{id}/change. Setting payStatus to paid books a Subscriptions income entry in accounting; setting it to refunded reverses it.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Customer plan ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateCustomerPlan'
+   *     responses:
+   *       200:
+   *         description: Customer plan updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CustomerPlan'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Customer plan not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.put("/api/customer-plans/:id", authenticateToken, requirePermission('customer-plans:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateCustomerPlanSchema.parse(req.body);
+      
+      const existingPlan = await req.tenantStorage!.getCustomerPlan(id);
+      // A new payment status brings the access that goes with it
+      const access = validatedData.payStatus && validatedData.payStatus !== existingPlan?.payStatus
+        ? planAccess(validatedData.payStatus)
+        : {};
+      const plan = existingPlan && await req.tenantStorage!.updateCustomerPlan(id, { ...validatedData, ...access });
+      if (!plan) {
+        return res.status(404).json({ message: "Customer plan not found" });
+      }
+
+      // Marking a plan paid or refunded by hand books it like a gateway event would
+      await recordPlanHistory(existingPlan, plan, `Updated by ${req.user!.email}`);
+      await syncPlanAccounting(existingPlan, plan);
+      await notifyCustomerPlanChange(existingPlan, plan);
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating customer plan:", error);
+      res.status(500).json({ message: "Failed to update customer plan" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/customer-plans/{id}/change/preview:
+   *   post:
+   *     tags: [Customer Plans]
+   *     summary: Preview a plan change
+   *     description: Price an upgrade or downgrade to another price table without changing anything. The unused days left on planExpirationDate are credited pro rata against the new plan's price.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Customer plan ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ChangeCustomerPlan'
+   *     responses:
+   *       200:
+   *         description: Proration for the change
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PlanChangeQuote'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Customer plan not found
+   *       422:
+   *         description: The plan cannot be changed (not paid and active, same plan, or inactive price table)
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/customer-plans/:id/change/preview", authenticateToken, requirePermission('customer-plans:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = changeCustomerPlanSchema.parse(req.body);
+
+      const plan = await req.tenantStorage!.getCustomerPlan(id);
+      if (!plan) {
+        return res.status(404).json({ message: "Customer plan not found" });
+      }
+
+      const { priceTable, ...quote } = await quotePlanChange(plan, validatedData);
+      res.json({ ...quote, priceTableId: priceTable.id });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof BillingError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error previewing customer plan change:", error);
+      res.status(500).json({ message: "Failed to preview customer plan change" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/customer-plans/{id}/change:
+   *   post:
+   *     tags: [Customer Plans]
+   *     summary: Change a customer's plan
+   *     description: Move a paid, active plan to another price table. A new plan is created with the prorated credit from the current one and charged the difference. The current plan stays active until that charge is paid and is then closed with subscriptionStatus "changed"; both plans are kept, linked by changedFromPlanId. A change fully covered by the credit takes effect immediately.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Customer plan ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/ChangeCustomerPlan'
+   *           examples:
+   *             upgradePlan:
+   *               summary: Upgrade to higher tier
+   *               value:
+   *                 priceTableId: 3
+   *             switchInstallments:
+   *               summary: Switch to 12 installments
+   *               value:
+   *                 priceTableId: 1
+   *                 planType: "12x"
+   *     responses:
+   *       201:
+   *         description: New plan created and charged
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CustomerPlan'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Customer plan not found
+   *       422:
+   *         description: The plan cannot be changed, or no usable payment gateway
+   *       502:
+   *         description: The payment gateway rejected the charge
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/customer-plans/:id/change", authenticateToken, requirePermission('customer-plans:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = changeCustomerPlanSchema.parse(req.body);
+
+      const plan = await req.tenantStorage!.getCustomerPlan(id);
+      if (!plan) {
+        return res.status(404).json({ message: "Customer plan not found" });
+      }
+
+      try {
+        const newPlan = await changeCustomerPlan(plan, validatedData);
+        res.status(201).json(newPlan);
+      } catch (error) {
+        if (error instanceof BillingError) {
+          return res.status(422).json({ message: error.message });
+        }
+        console.error("Error creating payment gateway charge:", error);
+        res.status(502).json({ message: "Payment gateway failed to create the charge" });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error changing customer plan:", error);
+      res.status(500).json({ message: "Failed to change customer plan" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/customer-plans/{id}:
+   *   delete:
+   *     tags: [Customer Plans]
+   *     summary: Delete customer plan
+   *     description: Cancel and delete a customer subscription plan. Entrepreneurs can only delete plans of their own customers. The open charge of a pending plan is cancelled at the gateway first. Accounting entries booked for a paid plan are reversed.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Customer plan ID
+   *     responses:
+   *       200:
+   *         description: Customer plan deleted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                   example: "Customer plan deleted successfully"
+   *                 refundAmount:
+   *                   type: number
+   *                   example: 45.50
+   *                   description: "Prorated refund amount if applicable"
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Customer plan not found
+   *       502:
+   *         description: The payment gateway failed to cancel the open charge of a pending plan; the plan is kept
+   *       500:
+   *         description: Internal server error
+   */
+  app.delete("/api/customer-plans/:id", authenticateToken, requirePermission('customer-plans:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      const existingPlan = await req.tenantStorage!.getCustomerPlan(id);
+      if (!existingPlan) {
+        return res.status(404).json({ message: "Customer plan not found" });
+      }
+
+      // An open charge could still be paid, and its payment would then match
+      // no plan, so the plan is kept when the charge cannot be withdrawn
+      if (existingPlan.payStatus === 'pending') {
+        try {
+          await cancelGatewayCharge(existingPlan);
+        } catch (error) {
+          console.error(`Failed to cancel charge of customer plan ${id}:`, error);
+          return res.status(502).json({ message: "Payment gateway failed to cancel the charge, so the plan was kept" });
+        }
+      }
+
+      // Reverse any payment booked for the plan before it goes away
+      await syncPlanAccounting(existingPlan, undefined);
+      const success = await req.tenantStorage!.deleteCustomerPlan(id);
+      if (!success) {
+        return res.status(404).json({ message: "Customer plan not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting customer plan:", error);
+      res.status(500).json({ message: "Failed to delete customer plan" });
+    }
+  });
+
+  // Coupons routes
+  /**
+   * @swagger
+   * /api/coupons:
+   *   get:
+   *     tags: [Coupons]
+   *     summary: Get coupons
+   *     description: List the coupons of the tenant. Super-admins see every coupon unless they pass entrepreneurId.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of coupons
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/Coupon'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/coupons", authenticateToken, requirePermission('coupons:read'), resolveTenant, async (req, res) => {
+    try {
+      const coupons = await req.tenantStorage!.getAllCoupons();
+      res.json(coupons);
+    } catch (error) {
+      console.error("Error fetching coupons:", error);
+      res.status(500).json({ message: "Failed to fetch coupons" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/coupons/validate:
+   *   post:
+   *     tags: [Coupons]
+   *     summary: Validate a coupon
+   *     description: Price a plan of a price table with a coupon code, checking the coupon is active, inside its validity window, below its redemption limit and applicable to the price table and plan type. The coupon is looked up in the tenant of customerId when given, otherwise in the caller's tenant.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [code, priceTableId, planType]
+   *             properties:
+   *               code:
+   *                 type: string
+   *                 example: WELCOME10
+   *               priceTableId:
+   *                 type: integer
+   *                 example: 1
+   *               planType:
+   *                 type: string
+   *                 enum: [3x, 12x]
+   *               customerId:
+   *                 type: integer
+   *                 example: 5
+   *     responses:
+   *       200:
+   *         description: Discounted price
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/CouponQuote'
+   *       400:
+   *         description: Invalid data, or no tenant to look the coupon up in
+   *       401:
+   *         description: Authentication required
+   *       404:
+   *         description: Price table or customer not found
+   *       422:
+   *         description: The coupon cannot be used for this plan
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/coupons/validate", authenticateToken, resolveTenant, async (req, res) => {
+    try {
+      const validatedData = validateCouponSchema.parse(req.body);
+
+      const priceTable = await storage.getPriceTable(validatedData.priceTableId);
+      if (!priceTable) {
+        return res.status(404).json({ message: "Price table not found" });
+      }
+
+      let entrepreneurId = req.tenantId;
+      if (validatedData.customerId) {
+        const customer = await req.tenantStorage!.getUser(validatedData.customerId);
+        if (!customer?.entrepreneurId) {
+          return res.status(404).json({ message: "Customer not found" });
+        }
+        entrepreneurId = customer.entrepreneurId;
+      }
+      if (!entrepreneurId) {
+        return res.status(400).json({ message: "A tenant is required to validate a coupon" });
+      }
+
+      const quote = await quoteCoupon(entrepreneurId, validatedData.code, priceTable, validatedData.planType);
+      res.json({
+        code: quote.coupon.code,
+        originalAmount: quote.originalAmount,
+        discountAmount: quote.discountAmount,
+        amount: quote.amount,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof BillingError) {
+        return res.status(422).json({ message: error.message });
+      }
+      console.error("Error validating coupon:", error);
+      res.status(500).json({ message: "Failed to validate coupon" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/coupons/{id}:
+   *   get:
+   *     tags: [Coupons]
+   *     summary: Get coupon by ID
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Coupon ID
+   *     responses:
+   *       200:
+   *         description: Coupon details
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Coupon'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Coupon not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/coupons/:id", authenticateToken, requirePermission('coupons:read'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const coupon = await req.tenantStorage!.getCoupon(id);
+
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+
+      res.json(coupon);
+    } catch (error) {
+      console.error("Error fetching coupon:", error);
+      res.status(500).json({ message: "Failed to fetch coupon" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/coupons/{id}/redemptions:
+   *   get:
+   *     tags: [Coupons]
+   *     summary: Get coupon redemptions
+   *     description: List the customer plans that redeemed a coupon, newest first.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Coupon ID
+   *     responses:
+   *       200:
+   *         description: Redemptions of the coupon
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/CouponRedemption'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Coupon not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/coupons/:id/redemptions", authenticateToken, requirePermission('coupons:read'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const redemptions = await req.tenantStorage!.getCouponRedemptions(id);
+
+      if (!redemptions) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+
+      res.json(redemptions);
+    } catch (error) {
+      console.error("Error fetching coupon redemptions:", error);
+      res.status(500).json({ message: "Failed to fetch coupon redemptions" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/coupons:
+   *   post:
+   *     tags: [Coupons]
+   *     summary: Create coupon
+   *     description: Create a percentage or fixed-amount coupon for the tenant. Codes are unique per tenant and matched case-insensitively.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateCoupon'
+   *     responses:
+   *       201:
+   *         description: Coupon created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Coupon'
+   *       400:
+   *         description: Invalid data, or no tenant selected (super-admin)
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       409:
+   *         description: The tenant already has a coupon with this code
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/coupons", authenticateToken, requirePermission('coupons:write'), resolveTenant, async (req, res) => {
+    try {
+      const validatedData = insertCouponSchema.parse(req.body);
+      if (!req.tenantId) {
+        return res.status(400).json({ message: "entrepreneurId is required to create a coupon" });
+      }
+
+      if (await storage.getCouponByCode(req.tenantId, validatedData.code)) {
+        return res.status(409).json({ message: "A coupon with this code already exists" });
+      }
+
+      const coupon = await req.tenantStorage!.createCoupon(validatedData);
+      res.status(201).json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating coupon:", error);
+      res.status(500).json({ message: "Failed to create coupon" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/coupons/{id}:
+   *   put:
+   *     tags: [Coupons]
+   *     summary: Update coupon
+   *     description: Update a coupon of the tenant. Existing redemptions keep the discount they were given.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Coupon ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateCoupon'
+   *     responses:
+   *       200:
+   *         description: Coupon updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Coupon'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Coupon not found
+   *       409:
+   *         description: The tenant already has a coupon with this code
+   *       500:
+   *         description: Internal server error
+   */
+  app.put("/api/coupons/:id", authenticateToken, requirePermission('coupons:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateCouponSchema.parse(req.body);
+
+      const existingCoupon = await req.tenantStorage!.getCoupon(id);
+      if (!existingCoupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+
+      if (validatedData.code && validatedData.code !== existingCoupon.code
+        && await storage.getCouponByCode(existingCoupon.entrepreneurId, validatedData.code)) {
+        return res.status(409).json({ message: "A coupon with this code already exists" });
+      }
+
+      const coupon = await req.tenantStorage!.updateCoupon(id, validatedData);
+      res.json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating coupon:", error);
+      res.status(500).json({ message: "Failed to update coupon" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/coupons/{id}:
+   *   delete:
+   *     tags: [Coupons]
+   *     summary: Delete coupon
+   *     description: Delete a coupon that was never redeemed. Redeemed coupons are kept for their redemption history and can be deactivated instead.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Coupon ID
+   *     responses:
+   *       204:
+   *         description: Coupon deleted successfully
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Coupon not found
+   *       409:
+   *         description: The coupon has redemptions
+   *       500:
+   *         description: Internal server error
+   */
+  app.delete("/api/coupons/:id", authenticateToken, requirePermission('coupons:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      const coupon = await req.tenantStorage!.getCoupon(id);
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      if (await storage.countCouponRedemptions(id) > 0) {
+        return res.status(409).json({ message: "Coupon has redemptions; deactivate it instead" });
+      }
+
+      await req.tenantStorage!.deleteCoupon(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting coupon:", error);
+      res.status(500).json({ message: "Failed to delete coupon" });
+    }
+  });
+
+  // Payment reminder routes
+  /**
+   * @swagger
+   * /api/payment-reminder-rules:
+   *   get:
+   *     tags: [Payment Reminders]
+   *     summary: Get payment reminder rules
+   *     description: List the rules that send the pay link of pending customer plans over WhatsApp. Super-admins see every rule unless they pass entrepreneurId.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: List of reminder rules
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/PaymentReminderRule'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/payment-reminder-rules", authenticateToken, requirePermission('reminders:read'), resolveTenant, async (req, res) => {
+    try {
+      const rules = await req.tenantStorage!.getAllPaymentReminderRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching payment reminder rules:", error);
+      res.status(500).json({ message: "Failed to fetch payment reminder rules" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/payment-reminder-rules:
+   *   post:
+   *     tags: [Payment Reminders]
+   *     summary: Create payment reminder rule
+   *     description: Create a rule that sends the pay link of pending plans a number of hours after the plan was created or before the pay link expires. Reminders go out through an active WhatsApp instance of the tenant.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreatePaymentReminderRule'
+   *     responses:
+   *       201:
+   *         description: Rule created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PaymentReminderRule'
+   *       400:
+   *         description: Invalid data, or no tenant selected (super-admin)
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/payment-reminder-rules", authenticateToken, requirePermission('reminders:write'), resolveTenant, async (req, res) => {
+    try {
+      const validatedData = insertPaymentReminderRuleSchema.parse(req.body);
+      if (!req.tenantId) {
+        return res.status(400).json({ message: "entrepreneurId is required to create a reminder rule" });
+      }
+
+      const rule = await req.tenantStorage!.createPaymentReminderRule(validatedData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating payment reminder rule:", error);
+      res.status(500).json({ message: "Failed to create payment reminder rule" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/payment-reminder-rules/{id}:
+   *   put:
+   *     tags: [Payment Reminders]
+   *     summary: Update payment reminder rule
+   *     description: Update a reminder rule of the tenant. Plans the rule already reminded are not reminded again.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Rule ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreatePaymentReminderRule'
+   *     responses:
+   *       200:
+   *         description: Rule updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PaymentReminderRule'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Rule not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.put("/api/payment-reminder-rules/:id", authenticateToken, requirePermission('reminders:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updatePaymentReminderRuleSchema.parse(req.body);
+
+      const rule = await req.tenantStorage!.updatePaymentReminderRule(id, validatedData);
+      if (!rule) {
+        return res.status(404).json({ message: "Payment reminder rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating payment reminder rule:", error);
+      res.status(500).json({ message: "Failed to update payment reminder rule" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/payment-reminder-rules/{id}:
+   *   delete:
+   *     tags: [Payment Reminders]
+   *     summary: Delete payment reminder rule
+   *     description: Delete a reminder rule of the tenant. Reminders it already sent stay in the log.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Rule ID
+   *     responses:
+   *       204:
+   *         description: Rule deleted successfully
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Rule not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.delete("/api/payment-reminder-rules/:id", authenticateToken, requirePermission('reminders:write'), resolveTenant, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      const deleted = await req.tenantStorage!.deletePaymentReminderRule(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Payment reminder rule not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting payment reminder rule:", error);
+      res.status(500).json({ message: "Failed to delete payment reminder rule" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/payment-reminders:
+   *   get:
+   *     tags: [Payment Reminders]
+   *     summary: Get the reminder log
+   *     description: Every reminder the rules sent, failed to send or skipped (e.g. the customer has no phone number or opted out), newest first.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: customerPlanId
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: ruleId
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [sent, failed, skipped]
+   *     responses:
+   *       200:
+   *         description: Reminder log
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/PaymentReminder'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/payment-reminders", authenticateToken, requirePermission('reminders:read'), resolveTenant, async (req, res) => {
+    try {
+      const reminders = await req.tenantStorage!.getAllPaymentReminders({
+        customerPlanId: req.query.customerPlanId ? parseInt(req.query.customerPlanId as string) : undefined,
+        ruleId: req.query.ruleId ? parseInt(req.query.ruleId as string) : undefined,
+        status: req.query.status ? req.query.status as string : undefined,
+      });
+      res.json(reminders);
+    } catch (error) {
+      console.error("Error fetching payment reminders:", error);
+      res.status(500).json({ message: "Failed to fetch payment reminders" });
+    }
+  });
+
+  // Support tickets endpoint
+  /**
+   * @swagger
+   * /api/support-tickets:
+   *   post:
+   *     tags: [Support Tickets]
+   *     summary: Create a new support ticket
+   *     description: Submit a new customer support ticket with contact information and issue details. The ticket gets the first response and resolution targets of the SLA policy for its priority and category, and estimatedResponse is the policy's first response time (24 hours when no policy applies). The first matching support routing rule assigns it to an agent; without one it stays unassigned.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateSupportTicket'
+   *           examples:
+   *             technicalIssue:
+   *               summary: Technical Issue
+   *               value:
+   *                 name: "John Customer"
+   *                 email: "john@example.com"
+   *                 phone: "+1234567890"
+   *                 subject: "Cannot access my dashboard"
+   *                 category: "technical"
+   *                 priority: "high"
+   *                 message: "I'm unable to login to my dashboard. Getting error 500 when trying to access the main page."
+   *             billingInquiry:
+   *               summary: Billing Inquiry
+   *               value:
+   *                 name: "Jane Smith"
+   *                 email: "jane@company.com"
+   *                 phone: "+1987654321"
+   *                 subject: "Question about invoice charges"
+   *                 category: "billing"
+   *                 priority: "medium"
+   *                 message: "I have a question about the charges on my latest invoice. Could you please clarify the additional fees?"
+   *             featureRequest:
+   *               summary: Feature Request
+   *               value:
+   *                 name: "Bob Developer"
+   *                 email: "bob@startup.com"
+   *                 subject: "API rate limit increase request"
+   *                 category: "feature"
+   *                 priority: "low"
+   *                 message: "Could you please consider increasing the API rate limits for enterprise customers?"
+   *     responses:
+   *       201:
+   *         description: Support ticket created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 ticketId:
+   *                   type: string
+   *                   example: "TKT-2024-001"
+   *                 message:
+   *                   type: string
+   *                   example: "Support ticket submitted successfully"
+   *                 estimatedResponse:
+   *                   type: string
+   *                   example: "4 hours"
+   *                 ticket:
+   *                   $ref: '#/components/schemas/SupportTicket'
+   *       400:
+   *         description: Invalid data
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 message:
+   *                   type: string
+   *                 errors:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *       429:
+   *         description: Too many tickets from this IP or for this email. Retry-After tells when to try again.
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/support-tickets", async (req, res) => {
+    try {
+      const validatedData = insertSupportTicketSchema.parse(req.body);
+
+      // Each ticket emails a confirmation to the given address
+      const retryAt = await checkEmailRateLimit('support-ticket', req.ip, validatedData.email);
+      if (retryAt) {
+        res.set('Retry-After', retryAfterSeconds(retryAt));
+        return res.status(429).json({ success: false, message: "Too many support tickets. Try again later.", retryAt });
+      }
+
+      const { ticket, estimatedResponse } = await openSupportTicket(validatedData);
+      
+      console.log(`Support ticket created: ${ticket.ticketId}`);
+      
+      res.status(201).json({
+        success: true,
+        ticketId: ticket.ticketId,
+        message: "Support ticket submitted successfully",
+        estimatedResponse,
+        ticket
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating support ticket:", error);
+      res.status(500).json({ 
+        success: false,
+        message: "Failed to submit support ticket" 
+      });
+    }
+  });
+
+  // Support portal routes - public, keyed on the ticketId and the email the
+  // ticket was submitted with
+  /**
+   * @swagger
+   * /api/support-portal/tickets/lookup:
+   *   post:
+   *     tags: [Support Portal]
+   *     summary: Look up a ticket
+   *     description: Public. Return the status and public timeline of a ticket given its ticketId and the email it was submitted with. Internal notes are not included.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/SupportTicketLookup'
+   *     responses:
+   *       200:
+   *         description: The ticket
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PublicSupportTicket'
+   *       400:
+   *         description: Invalid data
+   *       404:
+   *         description: No ticket with this ticketId and email
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/support-portal/tickets/lookup", async (req, res) => {
+    try {
+      const { ticketId, email } = supportTicketLookupSchema.parse(req.body);
+
+      const ticket = await findPortalSupportTicket(ticketId, email);
+      if (!ticket) {
+        return res.status(404).json({ message: "Support ticket not found" });
+      }
+
+      res.json(await getPublicSupportTicket(ticket));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error looking up support ticket:", error);
+      res.status(500).json({ message: "Failed to look up support ticket" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/support-portal/tickets/{ticketId}/replies:
+   *   post:
+   *     tags: [Support Portal]
+   *     summary: Reply to a ticket
+   *     description: Public. Add a customer reply to the ticket. A reply to a resolved or closed ticket reopens it.
+   *     parameters:
+   *       - in: path
+   *         name: ticketId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The ticketId returned when the ticket was submitted
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/SupportTicketPortalReply'
+   *     responses:
+   *       201:
+   *         description: Reply added; returns the updated ticket
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PublicSupportTicket'
+   *       400:
+   *         description: Invalid data
+   *       404:
+   *         description: No ticket with this ticketId and email
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/support-portal/tickets/:ticketId/replies", async (req, res) => {
+    try {
+      const { email, body, attachments } = supportTicketPortalReplySchema.parse(req.body);
+
+      const ticket = await findPortalSupportTicket(req.params.ticketId, email);
+      if (!ticket) {
+        return res.status(404).json({ message: "Support ticket not found" });
+      }
+
+      await addSupportTicketMessage(ticket, { type: 'customer_reply', body, attachments }, getCustomerAuthor(ticket));
+      const updatedTicket = await storage.getSupportTicket(ticket.id);
+      res.status(201).json(await getPublicSupportTicket(updatedTicket ?? ticket));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error adding support ticket reply:", error);
+      res.status(500).json({ message: "Failed to add support ticket reply" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/support-portal/tickets/{ticketId}/close:
+   *   post:
+   *     tags: [Support Portal]
+   *     summary: Close a ticket
+   *     description: Public. Let the customer close their ticket. Closing an already closed ticket changes nothing.
+   *     parameters:
+   *       - in: path
+   *         name: ticketId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: The ticketId returned when the ticket was submitted
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [email]
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *                 example: "john@example.com"
+   *     responses:
+   *       200:
+   *         description: Ticket closed; returns the updated ticket
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/PublicSupportTicket'
+   *       400:
+   *         description: Invalid data
+   *       404:
+   *         description: No ticket with this ticketId and email
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/support-portal/tickets/:ticketId/close", async (req, res) => {
+    try {
+      const { email } = supportTicketPortalCloseSchema.parse(req.body);
+
+      const ticket = await findPortalSupportTicket(req.params.ticketId, email);
+      if (!ticket) {
+        return res.status(404).json({ message: "Support ticket not found" });
+      }
+
+      const closedTicket = await updateSupportTicketWithHistory(ticket, { status: 'closed' }, getCustomerAuthor(ticket));
+      res.json(await getPublicSupportTicket(closedTicket ?? ticket));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error closing support ticket:", error);
+      res.status(500).json({ message: "Failed to close support ticket" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/support-tickets:
+   *   get:
+   *     tags: [Support Tickets]
+   *     summary: Get all support tickets
+   *     description: Retrieve all support tickets in the system with optional filtering by status, category, priority, or assignee. Each ticket includes where it stands against its SLA targets. Staff only; customers look up their own ticket through the support portal endpoints.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [open, in_progress, resolved, closed]
+   *         description: Filter by ticket status
+   *       - in: query
+   *         name: category
+   *         schema:
+   *           type: string
+   *           enum: [technical, billing, feature, bug, general]
+   *         description: Filter by ticket category
+   *       - in: query
+   *         name: priority
+   *         schema:
+   *           type: string
+   *           enum: [low, medium, high, urgent]
+   *         description: Filter by ticket priority
+   *       - in: query
+   *         name: assignedTo
+   *         schema:
+   *           type: string
+   *         description: Filter by assigned user ID; "me" for the caller's queue and "none" for unassigned tickets
+   *     responses:
+   *       200:
+   *         description: List of support tickets
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/SupportTicket'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/support-tickets", authenticateToken, requirePermission('tickets:read'), async (req, res) => {
+    try {
+      const { status, category, priority, assignedTo } = req.query;
+      const tickets = await storage.getAllSupportTickets({
+        status: status ? [status as string] : undefined,
+        category: category as string | undefined,
+        priority: priority as string | undefined,
+        assignedTo: assignedTo === 'me' ? req.user!.id
+          : assignedTo === 'none' ? null
+          : assignedTo ? parseInt(assignedTo as string) : undefined,
+      });
+      const now = new Date();
+      res.json(tickets.map(ticket => withSupportSla(ticket, now)));
+    } catch (error) {
+      console.error("Error fetching support tickets:", error);
+      res.status(500).json({ message: "Failed to fetch support tickets" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/support-tickets/sla-alerts:
+   *   get:
+   *     tags: [Support Tickets]
+   *     summary: Get tickets about to breach their SLA
+   *     description: Open and in-progress tickets with a first response or resolution target that is due within SUPPORT_SLA_WARNING_MINUTES (60 by default) or already overdue, the most urgent first.
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Tickets at risk of breaching or breaching their SLA
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/SupportTicket'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/support-tickets/sla-alerts", authenticateToken, requirePermission('tickets:read'), async (req, res) => {
+    try {
+      const tickets = await getSupportSlaAlerts();
+      res.json(tickets);
+    } catch (error) {
+      console.error("Error fetching support SLA alerts:", error);
+      res.status(500).json({ message: "Failed to fetch support SLA alerts" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/support-tickets/{id}:
+   *   patch:
+   *     tags: [Support Tickets]
+   *     summary: Update support ticket
+   *     description: Update a support ticket status, assignment, or resolution details. Typically used by support staff to manage tickets. Status changes are recorded on the ticket's timeline, and resolvedAt is set on resolving and cleared on reopening unless given.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Support ticket ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               status:
+   *                 type: string
+   *                 enum: [open, in_progress, resolved, closed]
+   *                 example: "in_progress"
+   *               assignedTo:
+   *                 type: integer
+   *                 example: 2
+   *               resolution:
+   *                 type: string
+   *                 example: "Issue resolved by updating user permissions and clearing cache"
+   *               resolvedAt:
+   *                 type: string
+   *                 format: date-time
+   *                 example: "2024-01-15T16:30:00Z"
+   *           examples:
+   *             assignTicket:
+   *               summary: Assign ticket to support agent
+   *               value:
+   *                 status: "in_progress"
+   *                 assignedTo: 2
+   *             resolveTicket:
+   *               summary: Resolve ticket with solution
+   *               value:
+   *                 status: "resolved"
+   *                 resolution: "Issue resolved by updating user permissions and clearing cache"
+   *                 resolvedAt: "2024-01-15T16:30:00Z"
+   *             closeTicket:
+   *               summary: Close resolved ticket
+   *               value:
+   *                 status: "closed"
+   *     responses:
+   *       200:
+   *         description: Support ticket updated successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SupportTicket'
+   *       400:
+   *         description: Invalid data, or assignedTo is not an active super-admin
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Support ticket not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.patch("/api/support-tickets/:id", authenticateToken, requirePermission('tickets:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateSupportTicketSchema.parse(req.body);
+
+      const ticket = await storage.getSupportTicket(id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Support ticket not found" });
+      }
+
+      if (validatedData.assignedTo !== undefined && validatedData.assignedTo !== ticket.assignedTo && !(await userCan(req, 'tickets:assign'))) {
+        return res.status(403).json({ message: "Insufficient permissions to assign tickets" });
+      }
+
+      if (validatedData.assignedTo) {
+        const agent = await storage.getUser(validatedData.assignedTo);
+        if (!agent || !isSupportAgent(agent)) {
+          return res.status(400).json({ message: "Tickets can only be assigned to active support agents" });
+        }
+      }
+
+      const updatedTicket = await updateSupportTicketWithHistory(ticket, validatedData, await getStaffAuthor(req.user!.id));
+      res.json(updatedTicket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating support ticket:", error);
+      res.status(500).json({ message: "Failed to update support ticket" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/support-tickets/{id}/messages:
+   *   get:
+   *     tags: [Support Tickets]
+   *     summary: Get the ticket timeline
+   *     description: Replies, internal notes and status changes of a ticket, oldest first. The ticket's original message is not repeated here.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Support ticket ID
+   *     responses:
+   *       200:
+   *         description: Ticket timeline
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/SupportTicketMessage'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Support ticket not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.get("/api/support-tickets/:id/messages", authenticateToken, requirePermission('tickets:read'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getSupportTicket(id))) {
+        return res.status(404).json({ message: "Support ticket not found" });
+      }
+
+      const messages = await storage.getSupportTicketMessages(id);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching support ticket messages:", error);
+      res.status(500).json({ message: "Failed to fetch support ticket messages" });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/support-tickets/{id}/messages:
+   *   post:
+   *     tags: [Support Tickets]
+   *     summary: Add a reply or internal note
+   *     description: |
+   *       Add an agent reply, an internal note only staff can see, or a customer reply received elsewhere (e.g. by email) to the ticket's timeline. Attachments are metadata of files hosted elsewhere.
+   *       The first agent reply moves an open ticket to in_progress, and a customer reply reopens a resolved or closed ticket; both changes are recorded on the timeline.
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *         description: Support ticket ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/CreateSupportTicketMessage'
+   *     responses:
+   *       201:
+   *         description: Message added
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/SupportTicketMessage'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Support ticket not found
+   *       500:
+   *         description: Internal server error
+   */
+  app.post("/api/support-tickets/:id/messages", authenticateToken, requirePermission('tickets:write'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = createSupportTicketMessageSchema.parse(req.body);
+
+      const ticket = await storage.getSupportTicket(id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Support ticket not found" });
+      }
+
+      const message = await addSupportTicketMessage(ticket, validatedData, await getStaffAuthor(req.user!.id));
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error adding support ticket message:", error);
+      res.status(500).json({ message: "Failed to add support ticket message" });
+    }
+  });
+
+  // Support SLA policy routes
+  /**
+   * @swagger
+   * /api/support-sla-policies:
+   *   get:
+   *     tags: [Support SLA Policies]
+   *     summary: List SLA policies
+   *     description: First response and resolution targets per ticket priority, optionally narrowed to a category.
+   *     security:
+   *       - bearerAuth: []
    *     responses:
    *       200:
-   *         description: Price table details
+   *         description: SLA policies
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/PriceTable'
-   *       404:
-   *         description: Price table not found
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/SupportSlaPolicy'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/price-tables/:id", async (req, res) => {
+  app.get("/api/support-sla-policies", authenticateToken, requirePermission('support-settings:read'), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const priceTable = await storage.getPriceTable(id);
-      if (!priceTable) {
-        return res.status(404).json({ message: "Price table not found" });
-      }
-      res.json(priceTable);
+      const policies = await storage.getAllSupportSlaPolicies();
+      res.json(policies);
     } catch (error) {
-      console.error("Error fetching price table:", error);
-      res.status(500).json({ message: "Failed to fetch price table" });
+      console.error("Error fetching SLA policies:", error);
+      res.status(500).json({ message: "Failed to fetch SLA policies" });
     }
   });
 
-  // Super admin only routes
-  const requireSuperAdmin = async (req: any, res: any, next: any) => {
-    const userId = req.headers['x-user-id'] || '1'; // Default to Admin for demo
-    const user = await storage.getUser(parseInt(userId));
-    
-    if (!user || user.role !== 'super-admin') {
-      return res.status(403).json({ message: "Access denied. Super admin role required." });
-    }
-    
-    req.userId = user.id;
-    next();
-  };
-
   /**
    * @swagger
-   * /api/price-tables:
+   * /api/support-sla-policies:
    *   post:
-   *     tags: [Price Tables]
-   *     summary: Create new price table
-   *     description: Create a new pricing plan. Requires super admin authentication.
+   *     tags: [Support SLA Policies]
+   *     summary: Create SLA policy
+   *     description: |
+   *       Add targets for a priority. A policy with a category applies to that category only; one without applies to the priority's other tickets.
+   *       Targets are copied to tickets when they are created, so existing tickets keep theirs.
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -1255,67 +4821,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/CreatePriceTable'
-   *           examples:
-   *             basicPlan:
-   *               summary: Basic Plan
-   *               value:
-   *                 name: "Basic Plan"
-   *                 description: "Perfect for small businesses getting started"
-   *                 price: 29.99
-   *                 billingPeriod: "monthly"
-   *                 features: ["Up to 1,000 messages", "Basic support", "Standard templates"]
-   *                 maxUsers: 5
-   *                 maxMessages: 1000
-   *                 isActive: true
-   *                 displayOrder: 1
-   *             enterprisePlan:
-   *               summary: Enterprise Plan
-   *               value:
-   *                 name: "Enterprise"
-   *                 description: "Advanced features for large organizations"
-   *                 price: 199.99
-   *                 billingPeriod: "monthly"
-   *                 features: ["Unlimited messages", "Priority support", "Custom integrations", "Advanced analytics"]
-   *                 maxUsers: 100
-   *                 maxMessages: -1
-   *                 isActive: true
-   *                 displayOrder: 3
+   *             $ref: '#/components/schemas/CreateSupportSlaPolicy'
    *     responses:
    *       201:
-   *         description: Price table created successfully
+   *         description: SLA policy created successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/PriceTable'
+   *               $ref: '#/components/schemas/SupportSlaPolicy'
    *       400:
    *         description: Invalid data
+   *       401:
+   *         description: Authentication required
    *       403:
-   *         description: Access denied - Super admin required
+   *         description: Insufficient permissions
+   *       409:
+   *         description: A policy for this priority and category already exists
    *       500:
    *         description: Internal server error
    */
-  app.post("/api/price-tables", requireSuperAdmin, async (req, res) => {
+  app.post("/api/support-sla-policies", authenticateToken, requirePermission('support-settings:write'), async (req, res) => {
     try {
-      const validatedData = insertPriceTableSchema.parse(req.body);
-      const priceTable = await storage.createPriceTable(validatedData);
-      res.status(201).json(priceTable);
+      const validatedData = insertSupportSlaPolicySchema.parse(req.body);
+
+      if (await storage.getSupportSlaPolicyByScope(validatedData.priority, validatedData.category)) {
+        return res.status(409).json({ message: "A policy for this priority and category already exists" });
+      }
+
+      const policy = await storage.createSupportSlaPolicy(validatedData);
+      res.status(201).json(policy);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error creating price table:", error);
-      res.status(500).json({ message: "Failed to create price table" });
+      console.error("Error creating SLA policy:", error);
+      res.status(500).json({ message: "Failed to create SLA policy" });
     }
   });
 
   /**
    * @swagger
-   * /api/price-tables/{id}:
+   * /api/support-sla-policies/{id}:
    *   put:
-   *     tags: [Price Tables]
-   *     summary: Update price table
-   *     description: Update an existing pricing plan. Requires super admin authentication.
+   *     tags: [Support SLA Policies]
+   *     summary: Update SLA policy
+   *     description: Update an SLA policy. Only tickets created afterwards get the new targets.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -1324,73 +4874,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Price table ID
+   *         description: SLA policy ID
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/CreatePriceTable'
-   *           examples:
-   *             updatePricing:
-   *               summary: Update pricing and features
-   *               value:
-   *                 name: "Professional Plan"
-   *                 description: "Enhanced features for growing businesses"
-   *                 price: 79.99
-   *                 billingPeriod: "monthly"
-   *                 features: ["Up to 10,000 messages", "Priority support", "Custom templates", "Analytics dashboard"]
-   *                 maxUsers: 25
-   *                 maxMessages: 10000
-   *                 isActive: true
-   *                 displayOrder: 2
-   *             deactivatePlan:
-   *               summary: Deactivate plan
-   *               value:
-   *                 isActive: false
+   *             $ref: '#/components/schemas/CreateSupportSlaPolicy'
    *     responses:
    *       200:
-   *         description: Price table updated successfully
+   *         description: SLA policy updated successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/PriceTable'
+   *               $ref: '#/components/schemas/SupportSlaPolicy'
    *       400:
    *         description: Invalid data
+   *       401:
+   *         description: Authentication required
    *       403:
-   *         description: Access denied - Super admin required
+   *         description: Insufficient permissions
    *       404:
-   *         description: Price table not found
+   *         description: SLA policy not found
+   *       409:
+   *         description: A policy for this priority and category already exists
    *       500:
    *         description: Internal server error
    */
-  app.put("/api/price-tables/:id", requireSuperAdmin, async (req, res) => {
+  app.put("/api/support-sla-policies/:id", authenticateToken, requirePermission('support-settings:write'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = updatePriceTableSchema.parse(req.body);
-      
-      const priceTable = await storage.updatePriceTable(id, validatedData);
-      if (!priceTable) {
-        return res.status(404).json({ message: "Price table not found" });
+      const validatedData = updateSupportSlaPolicySchema.parse(req.body);
+
+      const existingPolicy = await storage.getSupportSlaPolicy(id);
+      if (!existingPolicy) {
+        return res.status(404).json({ message: "SLA policy not found" });
       }
-      
-      res.json(priceTable);
+
+      const priority = validatedData.priority ?? existingPolicy.priority;
+      const category = validatedData.category !== undefined ? validatedData.category : existingPolicy.category;
+      const conflictingPolicy = await storage.getSupportSlaPolicyByScope(priority, category);
+      if (conflictingPolicy && conflictingPolicy.id !== id) {
+        return res.status(409).json({ message: "A policy for this priority and category already exists" });
+      }
+
+      const policy = await storage.updateSupportSlaPolicy(id, validatedData);
+      res.json(policy);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error updating price table:", error);
-      res.status(500).json({ message: "Failed to update price table" });
+      console.error("Error updating SLA policy:", error);
+      res.status(500).json({ message: "Failed to update SLA policy" });
     }
   });
 
   /**
    * @swagger
-   * /api/price-tables/{id}:
+   * /api/support-sla-policies/{id}:
    *   delete:
-   *     tags: [Price Tables]
-   *     summary: Delete price table
-   *     description: Delete a pricing plan. Requires super admin authentication. Cannot delete plans with active customer subscriptions.
+   *     tags: [Support SLA Policies]
+   *     summary: Delete SLA policy
+   *     description: Delete an SLA policy. Tickets that got their targets from it keep them.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -1399,171 +4944,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Price table ID
+   *         description: SLA policy ID
    *     responses:
-   *       200:
-   *         description: Price table deleted successfully
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 message:
-   *                   type: string
-   *                   example: "Price table deleted successfully"
+   *       204:
+   *         description: SLA policy deleted successfully
+   *       401:
+   *         description: Authentication required
    *       403:
-   *         description: Access denied - Super admin required
+   *         description: Insufficient permissions
    *       404:
-   *         description: Price table not found
-   *       409:
-   *         description: Cannot delete - price table has active subscriptions
+   *         description: SLA policy not found
    *       500:
    *         description: Internal server error
    */
-  app.delete("/api/price-tables/:id", requireSuperAdmin, async (req, res) => {
+  app.delete("/api/support-sla-policies/:id", authenticateToken, requirePermission('support-settings:write'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deletePriceTable(id);
-      if (!success) {
-        return res.status(404).json({ message: "Price table not found" });
+      const deleted = await storage.deleteSupportSlaPolicy(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "SLA policy not found" });
       }
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting price table:", error);
-      res.status(500).json({ message: "Failed to delete price table" });
+      console.error("Error deleting SLA policy:", error);
+      res.status(500).json({ message: "Failed to delete SLA policy" });
     }
   });
 
-  // Customer Plans routes
+  // Support routing rule routes
   /**
    * @swagger
-   * /api/customer-plans:
+   * /api/support-routing-rules:
    *   get:
-   *     tags: [Customer Plans]
-   *     summary: Get customer plans
-   *     description: Retrieve customer subscription plans. Returns user's own plans for regular users, all plans for admins.
+   *     tags: [Support Routing]
+   *     summary: List routing rules
+   *     description: Rules that assign new support tickets, in the order they are tried.
    *     security:
    *       - bearerAuth: []
-   *     parameters:
-   *       - in: query
-   *         name: userId
-   *         schema:
-   *           type: integer
-   *         description: Filter by user ID (admin only)
-   *       - in: query
-   *         name: status
-   *         schema:
-   *           type: string
-   *           enum: [active, inactive, expired, cancelled]
-   *         description: Filter by subscription status
-   *       - in: query
-   *         name: priceTableId
-   *         schema:
-   *           type: integer
-   *         description: Filter by price table ID
    *     responses:
    *       200:
-   *         description: List of customer plans
+   *         description: Routing rules
    *         content:
    *           application/json:
    *             schema:
    *               type: array
    *               items:
-   *                 $ref: '#/components/schemas/CustomerPlan'
-   *       401:
-   *         description: Authentication required
-   *       500:
-   *         description: Internal server error
-   */
-  app.get("/api/customer-plans", requireAuth, async (req, res) => {
-    try {
-      const userId = req.userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      let customerPlans;
-      
-      // Super admin sees all plans, customers see their own plans
-      if (user.role === 'super-admin') {
-        customerPlans = await storage.getAllCustomerPlans();
-      } else {
-        customerPlans = await storage.getCustomerPlansByCustomer(user.id);
-      }
-      
-      res.json(customerPlans);
-    } catch (error) {
-      console.error("Error fetching customer plans:", error);
-      res.status(500).json({ message: "Failed to fetch customer plans" });
-    }
-  });
-
-  /**
-   * @swagger
-   * /api/customer-plans/{id}:
-   *   get:
-   *     tags: [Customer Plans]
-   *     summary: Get customer plan by ID
-   *     description: Retrieve a specific customer subscription plan. Users can only access their own plans unless they have admin privileges.
-   *     security:
-   *       - bearerAuth: []
-   *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema:
-   *           type: integer
-   *         description: Customer plan ID
-   *     responses:
-   *       200:
-   *         description: Customer plan details
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/CustomerPlan'
+   *                 $ref: '#/components/schemas/SupportRoutingRule'
    *       401:
    *         description: Authentication required
    *       403:
-   *         description: Access denied - can only view own plans
-   *       404:
-   *         description: Customer plan not found
+   *         description: Insufficient permissions
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/customer-plans/:id", requireAuth, async (req, res) => {
+  app.get("/api/support-routing-rules", authenticateToken, requirePermission('support-settings:read'), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const plan = await storage.getCustomerPlan(id);
-      
-      if (!plan) {
-        return res.status(404).json({ message: "Customer plan not found" });
-      }
-      
-      // Check access permissions
-      const userId = req.userId!;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'super-admin' && 
-          plan.customerId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
-      res.json(plan);
+      const rules = await storage.getAllSupportRoutingRules();
+      res.json(rules);
     } catch (error) {
-      console.error("Error fetching customer plan:", error);
-      res.status(500).json({ message: "Failed to fetch customer plan" });
+      console.error("Error fetching routing rules:", error);
+      res.status(500).json({ message: "Failed to fetch routing rules" });
     }
   });
 
   /**
    * @swagger
-   * /api/customer-plans:
+   * /api/support-routing-rules:
    *   post:
-   *     tags: [Customer Plans]
-   *     summary: Create customer plan subscription
-   *     description: Subscribe a user to a pricing plan. Creates a new customer subscription with specified plan details.
+   *     tags: [Support Routing]
+   *     summary: Create routing rule
+   *     description: |
+   *       Assign new tickets that match every condition set on the rule (category, priority, keyword in the subject) to one of its agents.
+   *       round_robin takes turns through the pool; least_open picks the agent with the fewest open and in-progress tickets.
+   *       Rules are tried by position, and a rule whose agents are all deactivated is skipped.
    *     security:
    *       - bearerAuth: []
    *     requestBody:
@@ -1571,65 +5024,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/CreateCustomerPlan'
-   *           examples:
-   *             basicSubscription:
-   *               summary: Basic Plan Subscription
-   *               value:
-   *                 userId: 3
-   *                 priceTableId: 1
-   *                 status: "active"
-   *                 startDate: "2024-01-15T00:00:00Z"
-   *                 endDate: "2024-02-15T00:00:00Z"
-   *                 customPrice: null
-   *                 discountPercentage: null
-   *             enterpriseWithDiscount:
-   *               summary: Enterprise Plan with Discount
-   *               value:
-   *                 userId: 5
-   *                 priceTableId: 3
-   *                 status: "active"
-   *                 startDate: "2024-01-15T00:00:00Z"
-   *                 endDate: "2025-01-15T00:00:00Z"
-   *                 customPrice: 1800.00
-   *                 discountPercentage: 25
+   *             $ref: '#/components/schemas/CreateSupportRoutingRule'
    *     responses:
    *       201:
-   *         description: Customer plan created successfully
+   *         description: Routing rule created successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/CustomerPlan'
+   *               $ref: '#/components/schemas/SupportRoutingRule'
    *       400:
-   *         description: Invalid data
+   *         description: Invalid data, or an agent is not an active super-admin
    *       401:
    *         description: Authentication required
-   *       404:
-   *         description: Price table not found
+   *       403:
+   *         description: Insufficient permissions
    *       500:
    *         description: Internal server error
    */
-  app.post("/api/customer-plans", requireAuth, async (req, res) => {
+  app.post("/api/support-routing-rules", authenticateToken, requirePermission('support-settings:write'), async (req, res) => {
     try {
-      const validatedData = insertCustomerPlanSchema.parse(req.body);
-      const plan = await storage.createCustomerPlan(validatedData);
-      res.status(201).json(plan);
+      const validatedData = insertSupportRoutingRuleSchema.parse(req.body);
+
+      const agents = await storage.getUsersByIds(validatedData.agentIds);
+      if (validatedData.agentIds.some(agentId => !agents.some(agent => agent.id === agentId && isSupportAgent(agent)))) {
+        return res.status(400).json({ message: "Every agent must be an active super-admin" });
+      }
+
+      const rule = await storage.createSupportRoutingRule(validatedData);
+      res.status(201).json(rule);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error creating customer plan:", error);
-      res.status(500).json({ message: "Failed to create customer plan" });
+      console.error("Error creating routing rule:", error);
+      res.status(500).json({ message: "Failed to create routing rule" });
     }
   });
 
   /**
    * @swagger
-   * /api/customer-plans/{id}:
+   * /api/support-routing-rules/{id}:
    *   put:
-   *     tags: [Customer Plans]
-   *     summary: Update customer plan
-   *     description: Update an existing customer subscription plan. Users can only update their own plans unless they have admin privileges.
+   *     tags: [Support Routing]
+   *     summary: Update routing rule
+   *     description: Update a routing rule. Tickets that are already assigned keep their agent.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -1638,89 +5076,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Customer plan ID
+   *         description: Routing rule ID
    *     requestBody:
    *       required: true
    *       content:
    *         application/json:
    *           schema:
-   *             $ref: '#/components/schemas/CreateCustomerPlan'
-   *           examples:
-   *             upgradePlan:
-   *               summary: Upgrade to higher tier
-   *               value:
-   *                 priceTableId: 3
-   *                 status: "active"
-   *                 endDate: "2025-01-15T00:00:00Z"
-   *             cancelSubscription:
-   *               summary: Cancel subscription
-   *               value:
-   *                 status: "cancelled"
-   *                 endDate: "2024-01-31T23:59:59Z"
-   *             applyDiscount:
-   *               summary: Apply discount to existing plan
-   *               value:
-   *                 customPrice: 150.00
-   *                 discountPercentage: 25
+   *             $ref: '#/components/schemas/CreateSupportRoutingRule'
    *     responses:
    *       200:
-   *         description: Customer plan updated successfully
+   *         description: Routing rule updated successfully
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/CustomerPlan'
+   *               $ref: '#/components/schemas/SupportRoutingRule'
    *       400:
-   *         description: Invalid data
+   *         description: Invalid data, or an agent is not an active super-admin
    *       401:
    *         description: Authentication required
    *       403:
-   *         description: Access denied - can only update own plans
+   *         description: Insufficient permissions
    *       404:
-   *         description: Customer plan not found
+   *         description: Routing rule not found
    *       500:
    *         description: Internal server error
    */
-  app.put("/api/customer-plans/:id", requireAuth, async (req, res) => {
+  app.put("/api/support-routing-rules/:id", authenticateToken, requirePermission('support-settings:write'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const validatedData = updateCustomerPlanSchema.parse(req.body);
-      
-      // Check if plan exists and user has permission
-      const existingPlan = await storage.getCustomerPlan(id);
-      if (!existingPlan) {
-        return res.status(404).json({ message: "Customer plan not found" });
-      }
-      
-      const userId = req.userId;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'super-admin' && 
-          existingPlan.customerId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      const validatedData = updateSupportRoutingRuleSchema.parse(req.body);
+
+      if (validatedData.agentIds) {
+        const agents = await storage.getUsersByIds(validatedData.agentIds);
+        if (validatedData.agentIds.some(agentId => !agents.some(agent => agent.id === agentId && isSupportAgent(agent)))) {
+          return res.status(400).json({ message: "Every agent must be an active super-admin" });
+        }
       }
-      
-      const plan = await storage.updateCustomerPlan(id, validatedData);
-      if (!plan) {
-        return res.status(404).json({ message: "Customer plan not found" });
+
+      const rule = await storage.updateSupportRoutingRule(id, validatedData);
+      if (!rule) {
+        return res.status(404).json({ message: "Routing rule not found" });
       }
-      
-      res.json(plan);
+      res.json(rule);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error updating customer plan:", error);
-      res.status(500).json({ message: "Failed to update customer plan" });
+      console.error("Error updating routing rule:", error);
+      res.status(500).json({ message: "Failed to update routing rule" });
     }
   });
 
   /**
    * @swagger
-   * /api/customer-plans/{id}:
+   * /api/support-routing-rules/{id}:
    *   delete:
-   *     tags: [Customer Plans]
-   *     summary: Delete customer plan
-   *     description: Cancel and delete a customer subscription plan. Users can only delete their own plans unless they have admin privileges.
+   *     tags: [Support Routing]
+   *     summary: Delete routing rule
+   *     description: Delete a routing rule. Tickets it assigned keep their agent.
    *     security:
    *       - bearerAuth: []
    *     parameters:
@@ -1729,303 +5142,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *         required: true
    *         schema:
    *           type: integer
-   *         description: Customer plan ID
+   *         description: Routing rule ID
    *     responses:
-   *       200:
-   *         description: Customer plan deleted successfully
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 message:
-   *                   type: string
-   *                   example: "Customer plan deleted successfully"
-   *                 refundAmount:
-   *                   type: number
-   *                   example: 45.50
-   *                   description: "Prorated refund amount if applicable"
+   *       204:
+   *         description: Routing rule deleted successfully
    *       401:
    *         description: Authentication required
    *       403:
-   *         description: Access denied - can only delete own plans
+   *         description: Insufficient permissions
    *       404:
-   *         description: Customer plan not found
+   *         description: Routing rule not found
    *       500:
    *         description: Internal server error
    */
-  app.delete("/api/customer-plans/:id", requireAuth, async (req, res) => {
+  app.delete("/api/support-routing-rules/:id", authenticateToken, requirePermission('support-settings:write'), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      
-      // Check if plan exists and user has permission
-      const existingPlan = await storage.getCustomerPlan(id);
-      if (!existingPlan) {
-        return res.status(404).json({ message: "Customer plan not found" });
-      }
-      
-      const userId = req.userId;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'super-admin' && 
-          existingPlan.customerId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
-      const success = await storage.deleteCustomerPlan(id);
-      if (!success) {
-        return res.status(404).json({ message: "Customer plan not found" });
+      const deleted = await storage.deleteSupportRoutingRule(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Routing rule not found" });
       }
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting customer plan:", error);
-      res.status(500).json({ message: "Failed to delete customer plan" });
+      console.error("Error deleting routing rule:", error);
+      res.status(500).json({ message: "Failed to delete routing rule" });
     }
   });
 
-  // Support tickets endpoint
+  // Notification routes
   /**
    * @swagger
-   * /api/support-tickets:
-   *   post:
-   *     tags: [Support Tickets]
-   *     summary: Create a new support ticket
-   *     description: Submit a new customer support ticket with contact information and issue details
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             $ref: '#/components/schemas/CreateSupportTicket'
-   *           examples:
-   *             technicalIssue:
-   *               summary: Technical Issue
-   *               value:
-   *                 name: "John Customer"
-   *                 email: "john@example.com"
-   *                 phone: "+1234567890"
-   *                 subject: "Cannot access my dashboard"
-   *                 category: "technical"
-   *                 priority: "high"
-   *                 message: "I'm unable to login to my dashboard. Getting error 500 when trying to access the main page."
-   *             billingInquiry:
-   *               summary: Billing Inquiry
-   *               value:
-   *                 name: "Jane Smith"
-   *                 email: "jane@company.com"
-   *                 phone: "+1987654321"
-   *                 subject: "Question about invoice charges"
-   *                 category: "billing"
-   *                 priority: "medium"
-   *                 message: "I have a question about the charges on my latest invoice. Could you please clarify the additional fees?"
-   *             featureRequest:
-   *               summary: Feature Request
-   *               value:
-   *                 name: "Bob Developer"
-   *                 email: "bob@startup.com"
-   *                 subject: "API rate limit increase request"
-   *                 category: "feature"
-   *                 priority: "low"
-   *                 message: "Could you please consider increasing the API rate limits for enterprise customers?"
+   * /api/notification-preferences:
+   *   get:
+   *     tags: [Notifications]
+   *     summary: Get my notification preferences
+   *     description: Whether the current user gets each type of email. Types are on unless turned off; invites and password resets are always sent.
+   *     security:
+   *       - bearerAuth: []
    *     responses:
-   *       201:
-   *         description: Support ticket created successfully
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                   example: true
-   *                 ticketId:
-   *                   type: string
-   *                   example: "TKT-2024-001"
-   *                 message:
-   *                   type: string
-   *                   example: "Support ticket submitted successfully"
-   *                 estimatedResponse:
-   *                   type: string
-   *                   example: "24 hours"
-   *                 ticket:
-   *                   $ref: '#/components/schemas/SupportTicket'
-   *       400:
-   *         description: Invalid data
+   *       200:
+   *         description: One entry per email type
    *         content:
    *           application/json:
    *             schema:
-   *               type: object
-   *               properties:
-   *                 message:
-   *                   type: string
-   *                 errors:
-   *                   type: array
-   *                   items:
-   *                     type: object
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/NotificationPreference'
+   *       401:
+   *         description: Authentication required
    *       500:
    *         description: Internal server error
    */
-  app.post("/api/support-tickets", async (req, res) => {
+  app.get("/api/notification-preferences", authenticateToken, async (req, res) => {
     try {
-      const validatedData = insertSupportTicketSchema.parse(req.body);
-      const ticket = await storage.createSupportTicket(validatedData);
-      
-      console.log(`Support ticket created: ${ticket.ticketId}`);
-      
-      res.status(201).json({
-        success: true,
-        ticketId: ticket.ticketId,
-        message: "Support ticket submitted successfully",
-        estimatedResponse: "24 hours",
-        ticket
-      });
+      res.json(await getNotificationSettings(req.user!.id));
     } catch (error) {
-      console.error("Error creating support ticket:", error);
-      res.status(500).json({ 
-        success: false,
-        message: "Failed to submit support ticket" 
-      });
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
     }
   });
 
   /**
    * @swagger
-   * /api/support-tickets:
-   *   get:
-   *     tags: [Support Tickets]
-   *     summary: Get all support tickets
-   *     description: Retrieve all support tickets in the system with optional filtering by status, category, or priority
-   *     parameters:
-   *       - in: query
-   *         name: status
-   *         schema:
-   *           type: string
-   *           enum: [open, in_progress, resolved, closed]
-   *         description: Filter by ticket status
-   *       - in: query
-   *         name: category
-   *         schema:
-   *           type: string
-   *           enum: [technical, billing, feature, bug, general]
-   *         description: Filter by ticket category
-   *       - in: query
-   *         name: priority
-   *         schema:
-   *           type: string
-   *           enum: [low, medium, high, urgent]
-   *         description: Filter by ticket priority
-   *       - in: query
-   *         name: assignedTo
-   *         schema:
-   *           type: integer
-   *         description: Filter by assigned user ID
+   * /api/notification-preferences:
+   *   put:
+   *     tags: [Notifications]
+   *     summary: Update my notification preferences
+   *     description: Turn email types on or off for the current user. Types left out keep their setting.
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               $ref: '#/components/schemas/NotificationPreference'
    *     responses:
    *       200:
-   *         description: List of support tickets
+   *         description: One entry per email type
    *         content:
    *           application/json:
    *             schema:
    *               type: array
    *               items:
-   *                 $ref: '#/components/schemas/SupportTicket'
+   *                 $ref: '#/components/schemas/NotificationPreference'
+   *       400:
+   *         description: Invalid data
+   *       401:
+   *         description: Authentication required
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/support-tickets", async (req, res) => {
+  app.put("/api/notification-preferences", authenticateToken, async (req, res) => {
     try {
-      const tickets = await storage.getAllSupportTickets();
-      res.json(tickets);
+      const validatedData = updateNotificationPreferencesSchema.parse(req.body);
+      await storage.setNotificationPreferences(req.user!.id, validatedData);
+      res.json(await getNotificationSettings(req.user!.id));
     } catch (error) {
-      console.error("Error fetching support tickets:", error);
-      res.status(500).json({ message: "Failed to fetch support tickets" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
     }
   });
 
   /**
    * @swagger
-   * /api/support-tickets/{id}:
-   *   patch:
-   *     tags: [Support Tickets]
-   *     summary: Update support ticket
-   *     description: Update a support ticket status, assignment, or resolution details. Typically used by support staff to manage tickets.
+   * /api/email-notifications:
+   *   get:
+   *     tags: [Notifications]
+   *     summary: List queued and sent emails
+   *     description: The most recent emails of the outgoing queue, newest first, with their delivery status.
+   *     security:
+   *       - bearerAuth: []
    *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
+   *       - in: query
+   *         name: status
    *         schema:
-   *           type: integer
-   *         description: Support ticket ID
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             properties:
-   *               status:
-   *                 type: string
-   *                 enum: [open, in_progress, resolved, closed]
-   *                 example: "in_progress"
-   *               assignedTo:
-   *                 type: integer
-   *                 example: 2
-   *               resolution:
-   *                 type: string
-   *                 example: "Issue resolved by updating user permissions and clearing cache"
-   *               resolvedAt:
-   *                 type: string
-   *                 format: date-time
-   *                 example: "2024-01-15T16:30:00Z"
-   *           examples:
-   *             assignTicket:
-   *               summary: Assign ticket to support agent
-   *               value:
-   *                 status: "in_progress"
-   *                 assignedTo: 2
-   *             resolveTicket:
-   *               summary: Resolve ticket with solution
-   *               value:
-   *                 status: "resolved"
-   *                 resolution: "Issue resolved by updating user permissions and clearing cache"
-   *                 resolvedAt: "2024-01-15T16:30:00Z"
-   *             closeTicket:
-   *               summary: Close resolved ticket
-   *               value:
-   *                 status: "closed"
+   *           type: string
+   *           enum: [pending, sent, failed, skipped]
+   *         description: Filter by delivery status
+   *       - in: query
+   *         name: type
+   *         schema:
+   *           type: string
+   *           enum: [ticket_created, ticket_replied, ticket_resolved, plan_paid, plan_expiring, user_invited, password_reset]
+   *         description: Filter by email type
    *     responses:
    *       200:
-   *         description: Support ticket updated successfully
+   *         description: Up to 100 emails
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/SupportTicket'
-   *       400:
-   *         description: Invalid data
-   *       404:
-   *         description: Support ticket not found
+   *               type: array
+   *               items:
+   *                 $ref: '#/components/schemas/EmailNotification'
+   *       401:
+   *         description: Authentication required
+   *       403:
+   *         description: Insufficient permissions
    *       500:
    *         description: Internal server error
    */
-  app.patch("/api/support-tickets/:id", async (req, res) => {
+  app.get("/api/email-notifications", authenticateToken, requirePermission('notifications:read'), async (req, res) => {
     try {
-      const ticketId = parseInt(req.params.id);
-      const updateData = { ...req.body };
-      
-      // Convert string dates to Date objects
-      if (updateData.resolvedAt) {
-        updateData.resolvedAt = new Date(updateData.resolvedAt);
-      }
-      
-      const updatedTicket = await storage.updateSupportTicket(ticketId, updateData);
-      
-      if (!updatedTicket) {
-        return res.status(404).json({ message: "Support ticket not found" });
-      }
-
-      res.json(updatedTicket);
+      const { status, type } = req.query;
+      const emails = await storage.getEmailNotifications({
+        status: status as string | undefined,
+        type: type as string | undefined,
+      });
+      res.json(emails.map(redactEmailSecrets));
     } catch (error) {
-      console.error("Error updating support ticket:", error);
-      res.status(500).json({ message: "Failed to update support ticket" });
+      console.error("Error fetching email notifications:", error);
+      res.status(500).json({ message: "Failed to fetch email notifications" });
     }
   });
 
@@ -2068,10 +5340,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/accounting", requireAuth, async (req, res) => {
+  app.get("/api/accounting", authenticateToken, requirePermission('accounting:read'), resolveTenant, async (req, res) => {
     try {
-      const entrepreneurId = parseInt(req.query.entrepreneurId as string) || req.userId;
-      const entries = await storage.getAllAccountingEntries(entrepreneurId);
+      const entries = await req.tenantStorage!.getAllAccountingEntries();
       res.json(entries);
     } catch (error) {
       console.error("Error fetching accounting entries:", error);
@@ -2107,10 +5378,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       500:
    *         description: Internal server error
    */
-  app.get("/api/accounting/:id", requireAuth, async (req, res) => {
+  app.get("/api/accounting/:id", authenticateToken, requirePermission('accounting:read'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const entry = await storage.getAccountingEntry(id);
+      const entry = await req.tenantStorage!.getAccountingEntry(id);
       if (!entry) {
         return res.status(404).json({ message: "Accounting entry not found" });
       }
@@ -2178,15 +5449,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       500:
    *         description: Internal server error
    */
-  app.post("/api/accounting", requireAuth, async (req, res) => {
+  app.post("/api/accounting", authenticateToken, requirePermission('accounting:write'), resolveTenant, async (req, res) => {
     try {
       const { date, ...otherData } = req.body;
       const processedData = {
         ...otherData,
         date: new Date(date)
       };
-      const validatedData = insertAccountingSchema.parse(processedData);
-      const entry = await storage.createAccountingEntry(validatedData);
+      const validatedData = insertAccountingSchema.omit({ entrepreneurId: true }).parse(processedData);
+      if (!req.tenantId) {
+        return res.status(400).json({ message: "entrepreneurId is required" });
+      }
+
+      const entry = await req.tenantStorage!.createAccountingEntry(validatedData);
       res.status(201).json(entry);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -2279,11 +5554,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       500:
    *         description: Internal server error
    */
-  app.patch("/api/accounting/:id", requireAuth, async (req, res) => {
+  app.patch("/api/accounting/:id", authenticateToken, requirePermission('accounting:write'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = updateAccountingSchema.parse(req.body);
-      const entry = await storage.updateAccountingEntry(id, validatedData);
+      const entry = await req.tenantStorage!.updateAccountingEntry(id, validatedData);
       if (!entry) {
         return res.status(404).json({ message: "Accounting entry not found" });
       }
@@ -2324,10 +5599,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
    *       500:
    *         description: Internal server error
    */
-  app.delete("/api/accounting/:id", requireAuth, async (req, res) => {
+  app.delete("/api/accounting/:id", authenticateToken, requirePermission('accounting:write'), resolveTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await storage.deleteAccountingEntry(id);
+      const deleted = await req.tenantStorage!.deleteAccountingEntry(id);
       if (!deleted) {
         return res.status(404).json({ message: "Accounting entry not found" });
       }
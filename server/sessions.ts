@@ -0,0 +1,75 @@
+import type { Request } from 'express';
+import type { RefreshToken, UserSession } from '@shared/schema';
+import { storage } from './storage';
+import { getTenantId } from './auth';
+
+const USER_AGENT_MAX_LENGTH = 512;
+const CLEANUP_INTERVAL_MINUTES = parseInt(process.env.REFRESH_TOKEN_CLEANUP_INTERVAL_MINUTES || '60');
+
+// Where a login or refresh comes from, stored on its refresh token
+export function getClientInfo(req: Request): Pick<RefreshToken, 'userAgent' | 'ipAddress'> {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+    ipAddress: req.ip ?? null,
+  };
+}
+
+function toUserSession(token: RefreshToken, currentSessionId?: number): UserSession {
+  return {
+    id: token.id,
+    userAgent: token.userAgent,
+    ipAddress: token.ipAddress,
+    signedInAt: token.signedInAt,
+    lastUsedAt: token.lastUsedAt,
+    expiresAt: token.expiresAt,
+    current: token.id === currentSessionId,
+  };
+}
+
+// Signed-in sessions of a user, without the token values
+export async function getUserSessions(userId: number, currentSessionId?: number): Promise<UserSession[]> {
+  const tokens = await storage.getActiveRefreshTokens(userId);
+  return tokens.map((token) => toUserSession(token, currentSessionId));
+}
+
+// A rotated refresh token came back, so more than one party holds tokens of
+// this session: the client and whoever copied a token from it. Sign the whole
+// session out and leave a trace for the admins.
+export async function revokeReusedRefreshToken(token: RefreshToken, req: Request) {
+  const revoked = await storage.revokeRefreshTokenFamily(token.familyId);
+  console.warn(`Refresh token reuse for user #${token.userId}, suspected theft: revoked ${revoked} token(s) of session ${token.familyId}`);
+
+  const user = await storage.getUser(token.userId);
+  await storage.createAuditLog({
+    userId: token.userId,
+    entrepreneurId: user ? getTenantId(user) ?? null : null,
+    action: 'refresh_token.reuse',
+    resourceType: 'refresh_token',
+    resourceId: token.id,
+    ...getClientInfo(req),
+  });
+}
+
+let running = false;
+
+// Delete expired refresh tokens now and then every
+// REFRESH_TOKEN_CLEANUP_INTERVAL_MINUTES
+export function startRefreshTokenCleanupJob(): NodeJS.Timeout {
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const deleted = await storage.cleanExpiredTokens();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} expired refresh token(s)`);
+      }
+    } catch (error) {
+      console.error('Refresh token cleanup failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+}
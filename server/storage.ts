@@ -1,16 +1,76 @@
-import { users, paymentGateways, collaborators, whatsappInstances, priceTables, customerPlans, supportTickets, accounting, refreshTokens, type User, type InsertUser, type UpdateUser, type PaymentGateway, type InsertPaymentGateway, type UpdatePaymentGateway, type Collaborator, type InsertCollaborator, type UpdateCollaborator, type WhatsappInstance, type InsertWhatsappInstance, type UpdateWhatsappInstance, type PriceTable, type InsertPriceTable, type UpdatePriceTable, type CustomerPlan, type InsertCustomerPlan, type UpdateCustomerPlan, type CustomerPlanWithDetails, type SupportTicket, type InsertSupportTicket, type UpdateSupportTicket, type SupportTicketWithAssignee, type Accounting, type InsertAccounting, type UpdateAccounting, type RefreshToken, type InsertRefreshToken } from "@shared/schema";
+import { users, paymentGateways, collaborators, whatsappInstances, priceTables, customerPlans, supportTickets, accounting, refreshTokens, auditLogs, paymentEvents, customerPlanHistory, coupons, couponRedemptions, whatsappMessages, whatsappConversations, paymentReminderRules, paymentReminders, supportTicketMessages, supportTicketAttachments, supportSlaPolicies, supportRoutingRules, notificationPreferences, emailNotifications, passwordTokens, userMfa, mfaRecoveryCodes, rateLimitCounters, customRoles, type User, type InsertUser, type UpdateUser, type PaymentGateway, type InsertPaymentGateway, type UpdatePaymentGateway, type Collaborator, type InsertCollaborator, type UpdateCollaborator, type WhatsappInstance, type InsertWhatsappInstance, type UpdateWhatsappInstance, type WhatsappInstanceConnection, type PriceTable, type InsertPriceTable, type UpdatePriceTable, type CustomerPlan, type InsertCustomerPlan, type UpdateCustomerPlan, type CustomerPlanWithDetails, type SupportTicket, type InsertSupportTicket, type UpdateSupportTicket, type SupportTicketWithAssignee, type Accounting, type InsertAccounting, type UpdateAccounting, type RefreshToken, type InsertRefreshToken, type RefreshTokenRevokeReason, type AuditLog, type InsertAuditLog, type PaymentEvent, type InsertPaymentEvent, type CustomerPlanHistory, type InsertCustomerPlanHistory, type Coupon, type InsertCoupon, type UpdateCoupon, type CouponRedemption, type InsertCouponRedemption, type WhatsappMessage, type InsertWhatsappMessage, type WhatsappConversation, type WhatsappConversationWithAssignee, type PaymentReminderRule, type InsertPaymentReminderRule, type UpdatePaymentReminderRule, type PaymentReminder, type InsertPaymentReminder, type PaymentReminderWithDetails, type InsertSupportTicketMessage, type SupportTicketAttachmentInput, type SupportTicketMessageWithAttachments, type SupportSlaPolicy, type InsertSupportSlaPolicy, type UpdateSupportSlaPolicy, type SupportTicketSlaTargets, type SupportRoutingRule, type InsertSupportRoutingRule, type UpdateSupportRoutingRule, type NotificationPreference, type UpdateNotificationPreferences, type EmailNotification, type InsertEmailNotification, type PasswordToken, type InsertPasswordToken, type UserMfa, type RateLimitCounter, type CustomRole, type InsertCustomRole, type UpdateCustomRole } from "@shared/schema";
+import { DEFAULT_CURRENCY } from "@shared/money";
+import crypto from "crypto";
 import { db } from "./db";
-import { eq, and, lt } from "drizzle-orm";
+import { eq, and, or, lt, lte, gt, desc, inArray, isNull, isNotNull, count, sql } from "drizzle-orm";
 import { hashPassword } from "./auth";
+import { encryptCredential, decryptCredential } from "./credentials";
+
+// Fields set by billing when a plan is created as a renewal or plan change
+type CustomerPlanLinks = Pick<Partial<CustomerPlan>, 'renewedFromPlanId' | 'changedFromPlanId' | 'creditAmount'>;
+
+export interface WhatsappMessageFilters {
+  entrepreneurId?: number;
+  instanceId?: number;
+  conversationId?: number;
+  customerId?: number;
+  direction?: string;
+  status?: string;
+}
+
+export interface PaymentReminderFilters {
+  entrepreneurId?: number;
+  customerPlanId?: number;
+  ruleId?: number;
+  status?: string;
+}
+
+export interface SupportTicketFilters {
+  status?: string[];
+  category?: string;
+  priority?: string;
+  assignedTo?: number | null; // null for unassigned tickets
+}
+
+export interface EmailNotificationFilters {
+  status?: string;
+  type?: string;
+  limit?: number;
+}
+
+export interface WhatsappConversationFilters {
+  entrepreneurId?: number;
+  instanceId?: number;
+  assignedTo?: number;
+  status?: string;
+}
+
+// Ticket fields the server sets itself: SLA targets on creation and the time
+// of the first agent reply
+type SupportTicketTracking = Partial<SupportTicketSlaTargets & Pick<SupportTicket, 'firstRespondedAt'>>;
+
+// Fields of a message set on creation when it was not sent through dispatch,
+// i.e. inbound messages and messages sent from the phone itself
+export type WhatsappMessageOrigin = Partial<Pick<WhatsappMessage, 'direction' | 'status' | 'externalId' | 'sentAt'>>;
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getCustomerByPhone(entrepreneurId: number, phone: string): Promise<User | undefined>;
   getAllUsers(entrepreneurId?: number): Promise<User[]>; // Super admin sees all, entrepreneur sees their users
+  getUsersByIds(ids: number[]): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: UpdateUser): Promise<User | undefined>;
+  setUserPassword(id: number, passwordHash: string): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
+
+  // Custom Role operations
+  getCustomRole(id: number): Promise<CustomRole | undefined>;
+  getAllCustomRoles(entrepreneurId?: number): Promise<CustomRole[]>; // Super admin sees all, entrepreneur sees their roles
+  createCustomRole(role: InsertCustomRole & { entrepreneurId: number }): Promise<CustomRole>;
+  updateCustomRole(id: number, role: UpdateCustomRole): Promise<CustomRole | undefined>;
+  deleteCustomRole(id: number): Promise<boolean>; // Takes the role away from its users
   
   // Payment Gateway operations
   getPaymentGateway(id: number): Promise<PaymentGateway | undefined>;
@@ -32,8 +92,24 @@ export interface IStorage {
   getAllWhatsappInstances(entrepreneurId?: number): Promise<WhatsappInstance[]>;
   createWhatsappInstance(instance: InsertWhatsappInstance & { createdBy: number; entrepreneurId: number }): Promise<WhatsappInstance>;
   updateWhatsappInstance(id: number, instance: UpdateWhatsappInstance): Promise<WhatsappInstance | undefined>;
+  updateWhatsappInstanceConnection(id: number, connection: Partial<WhatsappInstanceConnection>): Promise<WhatsappInstance | undefined>;
+  setWhatsappInstanceWebhookSecret(id: number, webhookSecret: string): Promise<WhatsappInstance | undefined>;
   deleteWhatsappInstance(id: number): Promise<boolean>;
 
+  // WhatsApp Message operations
+  getWhatsappMessage(id: number): Promise<WhatsappMessage | undefined>;
+  getWhatsappMessages(filters: WhatsappMessageFilters): Promise<WhatsappMessage[]>; // Newest first
+  getWhatsappMessageByExternalId(instanceId: number, externalId: string): Promise<WhatsappMessage | undefined>;
+  createWhatsappMessage(message: InsertWhatsappMessage & WhatsappMessageOrigin): Promise<WhatsappMessage>;
+  updateWhatsappMessage(id: number, message: Partial<Pick<WhatsappMessage, 'status' | 'externalId' | 'error' | 'sentAt' | 'deliveredAt' | 'readAt'>>): Promise<WhatsappMessage | undefined>;
+
+  // WhatsApp Conversation operations
+  getWhatsappConversation(id: number): Promise<WhatsappConversation | undefined>;
+  getWhatsappConversations(filters: WhatsappConversationFilters): Promise<WhatsappConversationWithAssignee[]>; // Most recent activity first
+  findOrCreateWhatsappConversation(conversation: Pick<WhatsappConversation, 'instanceId' | 'entrepreneurId' | 'contact'>): Promise<WhatsappConversation>;
+  updateWhatsappConversation(id: number, conversation: Partial<Pick<WhatsappConversation, 'contactName' | 'customerId' | 'assignedTo' | 'status' | 'unreadCount'>>): Promise<WhatsappConversation | undefined>;
+  recordWhatsappConversationActivity(id: number, message: Pick<WhatsappMessage, 'direction' | 'createdAt'> & { preview: string }): Promise<void>;
+
   // Price Table operations  
   getPriceTable(id: number): Promise<PriceTable | undefined>;
   getAllPriceTables(): Promise<PriceTable[]>;
@@ -45,30 +121,165 @@ export interface IStorage {
   getCustomerPlan(id: number): Promise<CustomerPlan | undefined>;
   getAllCustomerPlans(): Promise<CustomerPlanWithDetails[]>;
   getCustomerPlansByCustomer(customerId: number): Promise<CustomerPlanWithDetails[]>;
-  createCustomerPlan(plan: InsertCustomerPlan): Promise<CustomerPlan>;
+  getCustomerPlansByEntrepreneur(entrepreneurId: number): Promise<CustomerPlanWithDetails[]>;
+  getCustomerPlanByPayHash(paymentGatewayId: number, payHash: string): Promise<CustomerPlan | undefined>;
+  getCustomerPlanRenewal(customerPlanId: number): Promise<CustomerPlan | undefined>; // Latest renewal attempt
+  getPaidCustomerPlansExpiringBefore(date: Date): Promise<CustomerPlan[]>; // Active or past-due subscriptions only
+  getPendingCustomerPlansPayableBefore(date: Date): Promise<CustomerPlan[]>;
+  getRemindableCustomerPlans(entrepreneurId: number, now: Date): Promise<CustomerPlan[]>; // Pending with a pay link that has not expired
+  createCustomerPlan(plan: InsertCustomerPlan & CustomerPlanLinks): Promise<CustomerPlan>;
   updateCustomerPlan(id: number, plan: UpdateCustomerPlan): Promise<CustomerPlan | undefined>;
+  // Updates the plan only while its payStatus is one of `fromPayStatuses`, so
+  // of concurrent changes from the same status only one applies
+  transitionCustomerPlan(id: number, fromPayStatuses: string[], plan: UpdateCustomerPlan): Promise<CustomerPlan | undefined>;
   deleteCustomerPlan(id: number): Promise<boolean>;
+  getCustomerPlanHistory(customerPlanId: number): Promise<CustomerPlanHistory[]>;
+  createCustomerPlanHistory(entry: InsertCustomerPlanHistory): Promise<CustomerPlanHistory>;
+
+  // Coupon operations
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  getCouponByCode(entrepreneurId: number, code: string): Promise<Coupon | undefined>;
+  getAllCoupons(entrepreneurId?: number): Promise<Coupon[]>; // Super admin sees all, entrepreneur sees their coupons
+  createCoupon(coupon: InsertCoupon & { entrepreneurId: number }): Promise<Coupon>;
+  updateCoupon(id: number, coupon: UpdateCoupon): Promise<Coupon | undefined>;
+  deleteCoupon(id: number): Promise<boolean>;
+  countCouponRedemptions(couponId: number): Promise<number>;
+  getCouponRedemptions(couponId: number): Promise<CouponRedemption[]>;
+  getCouponRedemptionByCustomerPlan(customerPlanId: number): Promise<CouponRedemption | undefined>;
+  // Checks maxRedemptions under a lock on the coupon row, so concurrent
+  // redemptions cannot overshoot it. Undefined when the coupon is used up.
+  createCouponRedemption(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined>;
+
+  // Payment Reminder operations
+  getPaymentReminderRule(id: number): Promise<PaymentReminderRule | undefined>;
+  getAllPaymentReminderRules(entrepreneurId?: number): Promise<PaymentReminderRule[]>; // Super admin sees all, entrepreneur sees their rules
+  getActivePaymentReminderRules(): Promise<PaymentReminderRule[]>;
+  createPaymentReminderRule(rule: InsertPaymentReminderRule & { entrepreneurId: number }): Promise<PaymentReminderRule>;
+  updatePaymentReminderRule(id: number, rule: UpdatePaymentReminderRule): Promise<PaymentReminderRule | undefined>;
+  deletePaymentReminderRule(id: number): Promise<boolean>;
+  getPaymentReminders(filters: PaymentReminderFilters): Promise<PaymentReminderWithDetails[]>; // Newest first
+  createPaymentReminder(reminder: InsertPaymentReminder): Promise<PaymentReminder>;
 
   // Support Ticket operations
   getSupportTicket(id: number): Promise<SupportTicket | undefined>;
-  getAllSupportTickets(): Promise<SupportTicketWithAssignee[]>;
-  createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket>;
-  updateSupportTicket(id: number, ticket: UpdateSupportTicket): Promise<SupportTicket | undefined>;
+  getSupportTicketByTicketId(ticketId: string): Promise<SupportTicket | undefined>;
+  countOpenSupportTicketsByAssignee(agentIds: number[]): Promise<Map<number, number>>; // Open and in progress tickets
+  getAllSupportTickets(filters?: SupportTicketFilters): Promise<SupportTicketWithAssignee[]>;
+  createSupportTicket(ticket: InsertSupportTicket & SupportTicketTracking): Promise<SupportTicket>;
+  updateSupportTicket(id: number, ticket: UpdateSupportTicket & SupportTicketTracking): Promise<SupportTicket | undefined>;
   deleteSupportTicket(id: number): Promise<boolean>;
+  getSupportTicketMessages(supportTicketId: number): Promise<SupportTicketMessageWithAttachments[]>; // Oldest first
+  createSupportTicketMessage(message: InsertSupportTicketMessage, attachments?: SupportTicketAttachmentInput[]): Promise<SupportTicketMessageWithAttachments>;
+
+  // Support SLA Policy operations
+  getSupportSlaPolicy(id: number): Promise<SupportSlaPolicy | undefined>;
+  getAllSupportSlaPolicies(): Promise<SupportSlaPolicy[]>;
+  getSupportSlaPolicyByScope(priority: string, category: string | null): Promise<SupportSlaPolicy | undefined>;
+  findSupportSlaPolicy(priority: string, category: string): Promise<SupportSlaPolicy | undefined>; // Active policy that applies to a new ticket
+  createSupportSlaPolicy(policy: InsertSupportSlaPolicy): Promise<SupportSlaPolicy>;
+  updateSupportSlaPolicy(id: number, policy: UpdateSupportSlaPolicy): Promise<SupportSlaPolicy | undefined>;
+  deleteSupportSlaPolicy(id: number): Promise<boolean>;
+
+  // Support Routing Rule operations
+  getSupportRoutingRule(id: number): Promise<SupportRoutingRule | undefined>;
+  getAllSupportRoutingRules(): Promise<SupportRoutingRule[]>; // By position
+  getActiveSupportRoutingRules(): Promise<SupportRoutingRule[]>; // By position
+  createSupportRoutingRule(rule: InsertSupportRoutingRule): Promise<SupportRoutingRule>;
+  updateSupportRoutingRule(id: number, rule: UpdateSupportRoutingRule & Partial<Pick<SupportRoutingRule, 'lastAssignedTo'>>): Promise<SupportRoutingRule | undefined>;
+  deleteSupportRoutingRule(id: number): Promise<boolean>;
 
   // Accounting operations
   getAccountingEntry(id: number): Promise<Accounting | undefined>;
-  getAllAccountingEntries(entrepreneurId: number): Promise<Accounting[]>;
-  createAccountingEntry(entry: InsertAccounting): Promise<Accounting>;
+  getAllAccountingEntries(entrepreneurId?: number): Promise<Accounting[]>; // Super admin sees all, entrepreneur sees their entries
+  createAccountingEntry(entry: InsertAccounting & { customerPlanId?: number | null }): Promise<Accounting>;
+  // Books what `decide` returns given the plan and its entries, holding a lock
+  // on the plan row so concurrent calls for one plan see each other's entries
+  bookCustomerPlanEntry(
+    customerPlanId: number,
+    decide: (plan: CustomerPlan | undefined, entries: Accounting[]) => (InsertAccounting & { customerPlanId: number }) | undefined,
+  ): Promise<Accounting | undefined>;
   updateAccountingEntry(id: number, entry: UpdateAccounting): Promise<Accounting | undefined>;
   deleteAccountingEntry(id: number): Promise<boolean>;
 
   // Refresh Token operations
   createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
-  getRefreshToken(token: string): Promise<RefreshToken | undefined>;
-  revokeRefreshToken(token: string): Promise<boolean>;
+  getRefreshToken(token: string): Promise<RefreshToken | undefined>; // Revoked tokens too, to detect reuse
+  revokeRefreshToken(token: string, reason: RefreshTokenRevokeReason): Promise<boolean>; // false when it was already revoked
+  revokeRefreshTokenFamily(familyId: string): Promise<number>;
   revokeAllUserTokens(userId: number): Promise<boolean>;
-  cleanExpiredTokens(): Promise<number>;
+  cleanExpiredTokens(): Promise<number>; // Deletes expired tokens
+  getActiveRefreshTokens(userId: number): Promise<RefreshToken[]>; // Unrevoked and unexpired, most recently used first
+  revokeUserRefreshToken(userId: number, id: number): Promise<boolean>;
+  // Whether the session of an access token is still signed in: its refresh
+  // token is unrevoked or was rotated, and its family has a live token
+  isRefreshSessionActive(id: number): Promise<boolean>;
+
+  // Password Token operations
+  createPasswordToken(token: InsertPasswordToken): Promise<PasswordToken>;
+  getPasswordTokenByHash(tokenHash: string): Promise<PasswordToken | undefined>;
+  usePasswordToken(id: number): Promise<boolean>; // false when it was already used
+  expireUserPasswordTokens(userId: number): Promise<number>; // Marks every unused token of the user as used
+
+  // Rate limit operations
+  incrementRateLimitCounter(key: string, windowMs: number): Promise<RateLimitCounter>; // Starts a new window once the last one ended
+  getRateLimitCounter(key: string): Promise<RateLimitCounter | undefined>; // undefined when no window is running
+  deleteRateLimitCounter(key: string): Promise<boolean>;
+  deleteExpiredRateLimitCounters(): Promise<number>;
+
+  // MFA operations
+  getUserMfa(userId: number): Promise<UserMfa | undefined>;
+  setUserMfaSecret(userId: number, secret: string): Promise<UserMfa>; // Starts over an unconfirmed enrolment
+  enableUserMfa(userId: number, step: number): Promise<UserMfa | undefined>;
+  useMfaStep(userId: number, step: number): Promise<boolean>; // false when a code of this or a later step was used
+  deleteUserMfa(userId: number): Promise<boolean>; // Removes the recovery codes too
+  replaceMfaRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useMfaRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countMfaRecoveryCodes(userId: number): Promise<number>; // Unused only
+
+  // Audit Log operations
+  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+
+  // Payment Event operations
+  getPaymentEvent(id: number): Promise<PaymentEvent | undefined>;
+  getPaymentEventByEventId(paymentGatewayId: number, eventId: string): Promise<PaymentEvent | undefined>;
+  getAllPaymentEvents(paymentGatewayId?: number): Promise<PaymentEvent[]>;
+  createPaymentEvent(event: InsertPaymentEvent): Promise<PaymentEvent | undefined>; // undefined when the event was already received
+  updatePaymentEvent(id: number, event: Partial<Pick<PaymentEvent, 'customerPlanId' | 'status' | 'result' | 'processedAt'>>): Promise<PaymentEvent | undefined>;
+
+  // Notification operations
+  getNotificationPreferences(userId: number): Promise<NotificationPreference[]>;
+  setNotificationPreferences(userId: number, preferences: UpdateNotificationPreferences): Promise<NotificationPreference[]>;
+  createEmailNotification(email: InsertEmailNotification): Promise<EmailNotification>;
+  getEmailNotifications(filters: EmailNotificationFilters): Promise<EmailNotification[]>; // Newest first
+  getDueEmailNotifications(now: Date, limit: number): Promise<EmailNotification[]>; // Pending and due, oldest first
+  updateEmailNotification(id: number, email: Partial<Pick<EmailNotification, 'text' | 'html' | 'status' | 'attempts' | 'nextAttemptAt' | 'reason' | 'transportMessageId' | 'sentAt'>>): Promise<EmailNotification | undefined>;
+}
+
+// Gateway credentials are encrypted on write and decrypted on read, so callers
+// only ever handle plaintext and must mask it before responding
+function decryptGateway(gateway: PaymentGateway): PaymentGateway {
+  return {
+    ...gateway,
+    publicKey: decryptCredential(gateway.publicKey),
+    token: decryptCredential(gateway.token),
+    webhookSecret: gateway.webhookSecret && decryptCredential(gateway.webhookSecret),
+  };
+}
+
+function encryptGatewayFields<T extends { publicKey?: string; token?: string; webhookSecret?: string | null }>(gateway: T): T {
+  return {
+    ...gateway,
+    ...(gateway.publicKey !== undefined && { publicKey: encryptCredential(gateway.publicKey) }),
+    ...(gateway.token !== undefined && { token: encryptCredential(gateway.token) }),
+    ...(gateway.webhookSecret && { webhookSecret: encryptCredential(gateway.webhookSecret) }),
+  };
+}
+
+function decryptWhatsappInstance(instance: WhatsappInstance): WhatsappInstance {
+  return {
+    ...instance,
+    webhookSecret: instance.webhookSecret && decryptCredential(instance.webhookSecret),
+  };
 }
 
 export class DatabaseStorage implements IStorage {
@@ -82,6 +293,14 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getCustomerByPhone(entrepreneurId: number, phone: string): Promise<User | undefined> {
+    const [user] = await db.select()
+      .from(users)
+      .where(and(eq(users.entrepreneurId, entrepreneurId), eq(users.role, 'customer'), eq(users.phone, phone)))
+      .limit(1);
+    return user || undefined;
+  }
+
   async getAllUsers(entrepreneurId?: number): Promise<User[]> {
     if (entrepreneurId) {
       // Entrepreneur sees only their users (collaborators and customers)
@@ -91,10 +310,15 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(users).where(inArray(users.id, ids));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
-    // Hash the password before storing
-    const hashedPassword = await hashPassword(insertUser.password);
-    
+    // Nobody knows this password; the user sets their own from the invite link
+    const hashedPassword = await hashPassword(crypto.randomBytes(32).toString('hex'));
+
     const [user] = await db
       .insert(users)
       .values({ ...insertUser, password: hashedPassword })
@@ -103,13 +327,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUser(id: number, updateUser: UpdateUser): Promise<User | undefined> {
-    const updateData = { ...updateUser, updatedAt: new Date() };
-    
-    // Hash password if it's being updated and not already hashed
-    if (updateUser.password && !updateUser.password.startsWith('$2b$')) {
-      updateData.password = await hashPassword(updateUser.password);
-    }
-    
+    const { whatsappOptOut, ...fields } = updateUser;
+    const updateData = {
+      ...fields,
+      // Keep the original opt-out time when it is confirmed again
+      ...(whatsappOptOut !== undefined && {
+        whatsappOptOutAt: whatsappOptOut ? sql`coalesce(${users.whatsappOptOutAt}, now())` : null,
+      }),
+      updatedAt: new Date(),
+    };
+
     const [user] = await db
       .update(users)
       .set(updateData)
@@ -118,41 +345,92 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // Only for password links, which check who is asking first
+  async setUserPassword(id: number, passwordHash: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password: passwordHash, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async deleteUser(id: number): Promise<boolean> {
     const result = await db.delete(users).where(eq(users.id, id));
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Custom Role operations
+  async getCustomRole(id: number): Promise<CustomRole | undefined> {
+    const [role] = await db.select().from(customRoles).where(eq(customRoles.id, id));
+    return role || undefined;
+  }
+
+  async getAllCustomRoles(entrepreneurId?: number): Promise<CustomRole[]> {
+    if (entrepreneurId) {
+      return await db.select().from(customRoles).where(eq(customRoles.entrepreneurId, entrepreneurId)).orderBy(customRoles.name);
+    }
+    return await db.select().from(customRoles).orderBy(customRoles.name);
+  }
+
+  async createCustomRole(role: InsertCustomRole & { entrepreneurId: number }): Promise<CustomRole> {
+    const [newRole] = await db
+      .insert(customRoles)
+      .values(role)
+      .returning();
+    return newRole;
+  }
+
+  async updateCustomRole(id: number, role: UpdateCustomRole): Promise<CustomRole | undefined> {
+    const [updatedRole] = await db
+      .update(customRoles)
+      .set({ ...role, updatedAt: new Date() })
+      .where(eq(customRoles.id, id))
+      .returning();
+    return updatedRole || undefined;
+  }
+
+  async deleteCustomRole(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.update(users).set({ customRoleId: null, updatedAt: new Date() }).where(eq(users.customRoleId, id));
+      const result = await tx.delete(customRoles).where(eq(customRoles.id, id));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
   // Payment Gateway operations
   async getPaymentGateway(id: number): Promise<PaymentGateway | undefined> {
     const [gateway] = await db.select().from(paymentGateways).where(eq(paymentGateways.id, id));
-    return gateway || undefined;
+    return gateway ? decryptGateway(gateway) : undefined;
   }
 
   async getAllPaymentGateways(entrepreneurId?: number): Promise<PaymentGateway[]> {
+    let gateways: PaymentGateway[];
     if (entrepreneurId) {
       // Entrepreneur sees only their payment gateways
-      return await db.select().from(paymentGateways).where(eq(paymentGateways.entrepreneurId, entrepreneurId));
+      gateways = await db.select().from(paymentGateways).where(eq(paymentGateways.entrepreneurId, entrepreneurId));
+    } else {
+      // Super admin sees all payment gateways
+      gateways = await db.select().from(paymentGateways);
     }
-    // Super admin sees all payment gateways
-    return await db.select().from(paymentGateways);
+    return gateways.map(decryptGateway);
   }
 
   async createPaymentGateway(gateway: InsertPaymentGateway & { createdBy: number; entrepreneurId: number }): Promise<PaymentGateway> {
     const [createdGateway] = await db
       .insert(paymentGateways)
-      .values(gateway)
+      .values(encryptGatewayFields(gateway))
       .returning();
-    return createdGateway;
+    return decryptGateway(createdGateway);
   }
 
   async updatePaymentGateway(id: number, gateway: UpdatePaymentGateway): Promise<PaymentGateway | undefined> {
     const [updatedGateway] = await db
       .update(paymentGateways)
-      .set({ ...gateway, updatedAt: new Date() })
+      .set({ ...encryptGatewayFields(gateway), updatedAt: new Date() })
       .where(eq(paymentGateways.id, id))
       .returning();
-    return updatedGateway || undefined;
+    return updatedGateway ? decryptGateway(updatedGateway) : undefined;
   }
 
   async deletePaymentGateway(id: number): Promise<boolean> {
@@ -199,14 +477,16 @@ export class DatabaseStorage implements IStorage {
   // WhatsApp Instance operations
   async getWhatsappInstance(id: number): Promise<WhatsappInstance | undefined> {
     const [instance] = await db.select().from(whatsappInstances).where(eq(whatsappInstances.id, id));
-    return instance || undefined;
+    return instance ? decryptWhatsappInstance(instance) : undefined;
   }
 
   async getAllWhatsappInstances(entrepreneurId?: number): Promise<WhatsappInstance[]> {
     if (entrepreneurId) {
-      return await db.select().from(whatsappInstances).where(eq(whatsappInstances.entrepreneurId, entrepreneurId));
+      const instances = await db.select().from(whatsappInstances).where(eq(whatsappInstances.entrepreneurId, entrepreneurId));
+      return instances.map(decryptWhatsappInstance);
     }
-    return await db.select().from(whatsappInstances);
+    const instances = await db.select().from(whatsappInstances);
+    return instances.map(decryptWhatsappInstance);
   }
 
   async createWhatsappInstance(instance: InsertWhatsappInstance & { createdBy: number; entrepreneurId: number }): Promise<WhatsappInstance> {
@@ -214,7 +494,7 @@ export class DatabaseStorage implements IStorage {
       .insert(whatsappInstances)
       .values(instance)
       .returning();
-    return newInstance;
+    return decryptWhatsappInstance(newInstance);
   }
 
   async updateWhatsappInstance(id: number, instance: UpdateWhatsappInstance): Promise<WhatsappInstance | undefined> {
@@ -223,7 +503,26 @@ export class DatabaseStorage implements IStorage {
       .set({ ...instance, updatedAt: new Date() })
       .where(eq(whatsappInstances.id, id))
       .returning();
-    return updatedInstance || undefined;
+    return updatedInstance ? decryptWhatsappInstance(updatedInstance) : undefined;
+  }
+
+  // Health check results; not an edit of the instance, so updatedAt is left alone
+  async updateWhatsappInstanceConnection(id: number, connection: Partial<WhatsappInstanceConnection>): Promise<WhatsappInstance | undefined> {
+    const [updatedInstance] = await db
+      .update(whatsappInstances)
+      .set(connection)
+      .where(eq(whatsappInstances.id, id))
+      .returning();
+    return updatedInstance ? decryptWhatsappInstance(updatedInstance) : undefined;
+  }
+
+  async setWhatsappInstanceWebhookSecret(id: number, webhookSecret: string): Promise<WhatsappInstance | undefined> {
+    const [updatedInstance] = await db
+      .update(whatsappInstances)
+      .set({ webhookSecret: encryptCredential(webhookSecret), updatedAt: new Date() })
+      .where(eq(whatsappInstances.id, id))
+      .returning();
+    return updatedInstance ? decryptWhatsappInstance(updatedInstance) : undefined;
   }
 
   async deleteWhatsappInstance(id: number): Promise<boolean> {
@@ -231,6 +530,124 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  // WhatsApp Message operations
+  async getWhatsappMessage(id: number): Promise<WhatsappMessage | undefined> {
+    const [message] = await db.select().from(whatsappMessages).where(eq(whatsappMessages.id, id));
+    return message || undefined;
+  }
+
+  async getWhatsappMessages(filters: WhatsappMessageFilters): Promise<WhatsappMessage[]> {
+    return await db.select()
+      .from(whatsappMessages)
+      .where(and(
+        filters.entrepreneurId !== undefined ? eq(whatsappMessages.entrepreneurId, filters.entrepreneurId) : undefined,
+        filters.instanceId !== undefined ? eq(whatsappMessages.instanceId, filters.instanceId) : undefined,
+        filters.conversationId !== undefined ? eq(whatsappMessages.conversationId, filters.conversationId) : undefined,
+        filters.customerId !== undefined ? eq(whatsappMessages.customerId, filters.customerId) : undefined,
+        filters.direction !== undefined ? eq(whatsappMessages.direction, filters.direction) : undefined,
+        filters.status !== undefined ? eq(whatsappMessages.status, filters.status) : undefined,
+      ))
+      .orderBy(desc(whatsappMessages.id));
+  }
+
+  async getWhatsappMessageByExternalId(instanceId: number, externalId: string): Promise<WhatsappMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(whatsappMessages)
+      .where(and(eq(whatsappMessages.instanceId, instanceId), eq(whatsappMessages.externalId, externalId)));
+    return message || undefined;
+  }
+
+  async createWhatsappMessage(message: InsertWhatsappMessage & WhatsappMessageOrigin): Promise<WhatsappMessage> {
+    const [newMessage] = await db
+      .insert(whatsappMessages)
+      .values(message)
+      .returning();
+    return newMessage;
+  }
+
+  async updateWhatsappMessage(id: number, message: Partial<Pick<WhatsappMessage, 'status' | 'externalId' | 'error' | 'sentAt' | 'deliveredAt' | 'readAt'>>): Promise<WhatsappMessage | undefined> {
+    const [updatedMessage] = await db
+      .update(whatsappMessages)
+      .set({ ...message, updatedAt: new Date() })
+      .where(eq(whatsappMessages.id, id))
+      .returning();
+    return updatedMessage || undefined;
+  }
+
+  // WhatsApp Conversation operations
+  async getWhatsappConversation(id: number): Promise<WhatsappConversation | undefined> {
+    const [conversation] = await db.select().from(whatsappConversations).where(eq(whatsappConversations.id, id));
+    return conversation || undefined;
+  }
+
+  async getWhatsappConversations(filters: WhatsappConversationFilters): Promise<WhatsappConversationWithAssignee[]> {
+    const results = await db
+      .select({
+        conversation: whatsappConversations,
+        assignee: users,
+      })
+      .from(whatsappConversations)
+      .leftJoin(users, eq(whatsappConversations.assignedTo, users.id))
+      .where(and(
+        filters.entrepreneurId !== undefined ? eq(whatsappConversations.entrepreneurId, filters.entrepreneurId) : undefined,
+        filters.instanceId !== undefined ? eq(whatsappConversations.instanceId, filters.instanceId) : undefined,
+        filters.assignedTo !== undefined ? eq(whatsappConversations.assignedTo, filters.assignedTo) : undefined,
+        filters.status !== undefined ? eq(whatsappConversations.status, filters.status) : undefined,
+      ))
+      .orderBy(sql`${whatsappConversations.lastMessageAt} desc nulls last`, desc(whatsappConversations.id));
+
+    return results.map(row => ({
+      ...row.conversation,
+      assignee: row.assignee ? {
+        id: row.assignee.id,
+        name: row.assignee.name,
+        email: row.assignee.email,
+      } : null,
+    }));
+  }
+
+  async findOrCreateWhatsappConversation(conversation: Pick<WhatsappConversation, 'instanceId' | 'entrepreneurId' | 'contact'>): Promise<WhatsappConversation> {
+    const [created] = await db
+      .insert(whatsappConversations)
+      .values(conversation)
+      .onConflictDoNothing({ target: [whatsappConversations.instanceId, whatsappConversations.contact] })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db
+      .select()
+      .from(whatsappConversations)
+      .where(and(
+        eq(whatsappConversations.instanceId, conversation.instanceId),
+        eq(whatsappConversations.contact, conversation.contact),
+      ));
+    return existing;
+  }
+
+  async updateWhatsappConversation(id: number, conversation: Partial<Pick<WhatsappConversation, 'contactName' | 'customerId' | 'assignedTo' | 'status' | 'unreadCount'>>): Promise<WhatsappConversation | undefined> {
+    const [updatedConversation] = await db
+      .update(whatsappConversations)
+      .set({ ...conversation, updatedAt: new Date() })
+      .where(eq(whatsappConversations.id, id))
+      .returning();
+    return updatedConversation || undefined;
+  }
+
+  // Inbound messages count as unread and reopen a closed conversation
+  async recordWhatsappConversationActivity(id: number, message: Pick<WhatsappMessage, 'direction' | 'createdAt'> & { preview: string }): Promise<void> {
+    const inbound = message.direction === 'inbound';
+    await db
+      .update(whatsappConversations)
+      .set({
+        lastMessageAt: message.createdAt ?? new Date(),
+        lastMessagePreview: message.preview,
+        ...(inbound && { unreadCount: sql`${whatsappConversations.unreadCount} + 1`, status: 'open' }),
+        updatedAt: new Date(),
+      })
+      .where(eq(whatsappConversations.id, id));
+  }
+
   // Price Table operations
   async getPriceTable(id: number): Promise<PriceTable | undefined> {
     const [priceTable] = await db.select().from(priceTables).where(eq(priceTables.id, id));
@@ -271,34 +688,7 @@ export class DatabaseStorage implements IStorage {
 
   async getAllCustomerPlans(): Promise<CustomerPlanWithDetails[]> {
     const plans = await db.select().from(customerPlans).orderBy(customerPlans.createdAt);
-    
-    // Fetch related data for each plan
-    const plansWithDetails: CustomerPlanWithDetails[] = [];
-    
-    for (const plan of plans) {
-      const [customer] = await db.select({
-        id: users.id,
-        name: users.name,
-        email: users.email,
-      }).from(users).where(eq(users.id, plan.customerId));
-
-      const [priceTable] = await db.select({
-        id: priceTables.id,
-        title: priceTables.title,
-        subtitle: priceTables.subtitle,
-        currentPrice3x: priceTables.currentPrice3x,
-        currentPrice12x: priceTables.currentPrice12x,
-        months: priceTables.months,
-      }).from(priceTables).where(eq(priceTables.id, plan.priceTableId));
-
-      plansWithDetails.push({
-        ...plan,
-        customer: customer || { id: 0, name: '', email: '' },
-        priceTable: priceTable || { id: 0, title: '', subtitle: '', currentPrice3x: '', currentPrice12x: '', months: 0 }
-      });
-    }
-
-    return plansWithDetails;
+    return await this.withPlanDetails(plans);
   }
 
   async getCustomerPlansByCustomer(customerId: number): Promise<CustomerPlanWithDetails[]> {
@@ -306,7 +696,66 @@ export class DatabaseStorage implements IStorage {
       .from(customerPlans)
       .where(eq(customerPlans.customerId, customerId))
       .orderBy(customerPlans.createdAt);
+    return await this.withPlanDetails(plans);
+  }
+
+  async getCustomerPlansByEntrepreneur(entrepreneurId: number): Promise<CustomerPlanWithDetails[]> {
+    // Plans belong to a tenant through their customer
+    const rows = await db.select({ plan: customerPlans })
+      .from(customerPlans)
+      .innerJoin(users, eq(customerPlans.customerId, users.id))
+      .where(eq(users.entrepreneurId, entrepreneurId))
+      .orderBy(customerPlans.createdAt);
+    return await this.withPlanDetails(rows.map(row => row.plan));
+  }
+
+  async getCustomerPlanByPayHash(paymentGatewayId: number, payHash: string): Promise<CustomerPlan | undefined> {
+    const [plan] = await db.select()
+      .from(customerPlans)
+      .where(and(eq(customerPlans.paymentGatewayId, paymentGatewayId), eq(customerPlans.payHash, payHash)));
+    return plan || undefined;
+  }
 
+  async getCustomerPlanRenewal(customerPlanId: number): Promise<CustomerPlan | undefined> {
+    const [plan] = await db.select()
+      .from(customerPlans)
+      .where(eq(customerPlans.renewedFromPlanId, customerPlanId))
+      .orderBy(desc(customerPlans.id))
+      .limit(1);
+    return plan || undefined;
+  }
+
+  async getPaidCustomerPlansExpiringBefore(date: Date): Promise<CustomerPlan[]> {
+    return await db.select()
+      .from(customerPlans)
+      .where(and(
+        eq(customerPlans.payStatus, 'paid'),
+        inArray(customerPlans.subscriptionStatus, ['active', 'past_due']),
+        lte(customerPlans.planExpirationDate, date),
+      ));
+  }
+
+  async getPendingCustomerPlansPayableBefore(date: Date): Promise<CustomerPlan[]> {
+    return await db.select()
+      .from(customerPlans)
+      .where(and(eq(customerPlans.payStatus, 'pending'), lt(customerPlans.payExpiration, date)));
+  }
+
+  async getRemindableCustomerPlans(entrepreneurId: number, now: Date): Promise<CustomerPlan[]> {
+    const rows = await db.select({ plan: customerPlans })
+      .from(customerPlans)
+      .innerJoin(users, eq(customerPlans.customerId, users.id))
+      .where(and(
+        eq(users.entrepreneurId, entrepreneurId),
+        eq(customerPlans.payStatus, 'pending'),
+        isNotNull(customerPlans.payLink),
+        gt(customerPlans.payExpiration, now),
+      ));
+    return rows.map(row => row.plan);
+  }
+
+  // Fetch related customer and price table data for each plan
+  private async withPlanDetails(plans: CustomerPlan[]): Promise<CustomerPlanWithDetails[]> {
     const plansWithDetails: CustomerPlanWithDetails[] = [];
     
     for (const plan of plans) {
@@ -322,20 +771,21 @@ export class DatabaseStorage implements IStorage {
         subtitle: priceTables.subtitle,
         currentPrice3x: priceTables.currentPrice3x,
         currentPrice12x: priceTables.currentPrice12x,
+        currency: priceTables.currency,
         months: priceTables.months,
       }).from(priceTables).where(eq(priceTables.id, plan.priceTableId));
 
       plansWithDetails.push({
         ...plan,
         customer: customer || { id: 0, name: '', email: '' },
-        priceTable: priceTable || { id: 0, title: '', subtitle: '', currentPrice3x: '', currentPrice12x: '', months: 0 }
+        priceTable: priceTable || { id: 0, title: '', subtitle: '', currentPrice3x: '0.00', currentPrice12x: '0.00', currency: DEFAULT_CURRENCY, months: 0 }
       });
     }
 
     return plansWithDetails;
   }
 
-  async createCustomerPlan(insertPlan: InsertCustomerPlan): Promise<CustomerPlan> {
+  async createCustomerPlan(insertPlan: InsertCustomerPlan & CustomerPlanLinks): Promise<CustomerPlan> {
     const [plan] = await db
       .insert(customerPlans)
       .values(insertPlan)
@@ -352,18 +802,217 @@ export class DatabaseStorage implements IStorage {
     return updatedPlan || undefined;
   }
 
+  async transitionCustomerPlan(id: number, fromPayStatuses: string[], plan: UpdateCustomerPlan): Promise<CustomerPlan | undefined> {
+    if (fromPayStatuses.length === 0) return undefined;
+    const [updatedPlan] = await db
+      .update(customerPlans)
+      .set({ ...plan, updatedAt: new Date() })
+      .where(and(eq(customerPlans.id, id), inArray(customerPlans.payStatus, fromPayStatuses)))
+      .returning();
+    return updatedPlan || undefined;
+  }
+
   async deleteCustomerPlan(id: number): Promise<boolean> {
     const result = await db.delete(customerPlans).where(eq(customerPlans.id, id));
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getCustomerPlanHistory(customerPlanId: number): Promise<CustomerPlanHistory[]> {
+    return await db.select()
+      .from(customerPlanHistory)
+      .where(eq(customerPlanHistory.customerPlanId, customerPlanId))
+      .orderBy(customerPlanHistory.createdAt);
+  }
+
+  async createCustomerPlanHistory(entry: InsertCustomerPlanHistory): Promise<CustomerPlanHistory> {
+    const [historyEntry] = await db
+      .insert(customerPlanHistory)
+      .values(entry)
+      .returning();
+    return historyEntry;
+  }
+
+  // Coupon operations
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon || undefined;
+  }
+
+  async getCouponByCode(entrepreneurId: number, code: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select()
+      .from(coupons)
+      .where(and(eq(coupons.entrepreneurId, entrepreneurId), eq(coupons.code, code.trim().toUpperCase())));
+    return coupon || undefined;
+  }
+
+  async getAllCoupons(entrepreneurId?: number): Promise<Coupon[]> {
+    if (entrepreneurId) {
+      return await db.select().from(coupons).where(eq(coupons.entrepreneurId, entrepreneurId)).orderBy(desc(coupons.createdAt));
+    }
+    return await db.select().from(coupons).orderBy(desc(coupons.createdAt));
+  }
+
+  async createCoupon(coupon: InsertCoupon & { entrepreneurId: number }): Promise<Coupon> {
+    const [newCoupon] = await db
+      .insert(coupons)
+      .values(coupon)
+      .returning();
+    return newCoupon;
+  }
+
+  async updateCoupon(id: number, coupon: UpdateCoupon): Promise<Coupon | undefined> {
+    const [updatedCoupon] = await db
+      .update(coupons)
+      .set({ ...coupon, updatedAt: new Date() })
+      .where(eq(coupons.id, id))
+      .returning();
+    return updatedCoupon || undefined;
+  }
+
+  async deleteCoupon(id: number): Promise<boolean> {
+    const result = await db.delete(coupons).where(eq(coupons.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countCouponRedemptions(couponId: number): Promise<number> {
+    const [result] = await db.select({ total: count() })
+      .from(couponRedemptions)
+      .where(eq(couponRedemptions.couponId, couponId));
+    return result.total;
+  }
+
+  async getCouponRedemptions(couponId: number): Promise<CouponRedemption[]> {
+    return await db.select()
+      .from(couponRedemptions)
+      .where(eq(couponRedemptions.couponId, couponId))
+      .orderBy(desc(couponRedemptions.redeemedAt));
+  }
+
+  async getCouponRedemptionByCustomerPlan(customerPlanId: number): Promise<CouponRedemption | undefined> {
+    const [redemption] = await db.select().from(couponRedemptions).where(eq(couponRedemptions.customerPlanId, customerPlanId));
+    return redemption || undefined;
+  }
+
+  async createCouponRedemption(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined> {
+    return await db.transaction(async (tx) => {
+      const [coupon] = await tx.select().from(coupons).where(eq(coupons.id, redemption.couponId)).for('update');
+      if (coupon?.maxRedemptions != null) {
+        const [result] = await tx.select({ total: count() })
+          .from(couponRedemptions)
+          .where(eq(couponRedemptions.couponId, redemption.couponId));
+        if (result.total >= coupon.maxRedemptions) return undefined;
+      }
+
+      const [newRedemption] = await tx
+        .insert(couponRedemptions)
+        .values(redemption)
+        .returning();
+      return newRedemption;
+    });
+  }
+
+  // Payment Reminder operations
+  async getPaymentReminderRule(id: number): Promise<PaymentReminderRule | undefined> {
+    const [rule] = await db.select().from(paymentReminderRules).where(eq(paymentReminderRules.id, id));
+    return rule || undefined;
+  }
+
+  async getAllPaymentReminderRules(entrepreneurId?: number): Promise<PaymentReminderRule[]> {
+    if (entrepreneurId) {
+      return await db.select()
+        .from(paymentReminderRules)
+        .where(eq(paymentReminderRules.entrepreneurId, entrepreneurId))
+        .orderBy(paymentReminderRules.createdAt);
+    }
+    return await db.select().from(paymentReminderRules).orderBy(paymentReminderRules.createdAt);
+  }
+
+  async getActivePaymentReminderRules(): Promise<PaymentReminderRule[]> {
+    return await db.select().from(paymentReminderRules).where(eq(paymentReminderRules.isActive, true));
+  }
+
+  async createPaymentReminderRule(rule: InsertPaymentReminderRule & { entrepreneurId: number }): Promise<PaymentReminderRule> {
+    const [newRule] = await db
+      .insert(paymentReminderRules)
+      .values(rule)
+      .returning();
+    return newRule;
+  }
+
+  async updatePaymentReminderRule(id: number, rule: UpdatePaymentReminderRule): Promise<PaymentReminderRule | undefined> {
+    const [updatedRule] = await db
+      .update(paymentReminderRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(paymentReminderRules.id, id))
+      .returning();
+    return updatedRule || undefined;
+  }
+
+  async deletePaymentReminderRule(id: number): Promise<boolean> {
+    const result = await db.delete(paymentReminderRules).where(eq(paymentReminderRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getPaymentReminders(filters: PaymentReminderFilters): Promise<PaymentReminderWithDetails[]> {
+    const rows = await db
+      .select({
+        reminder: paymentReminders,
+        rule: {
+          id: paymentReminderRules.id,
+          name: paymentReminderRules.name,
+        },
+        customer: {
+          id: users.id,
+          name: users.name,
+          phone: users.phone,
+        },
+      })
+      .from(paymentReminders)
+      .leftJoin(paymentReminderRules, eq(paymentReminders.ruleId, paymentReminderRules.id))
+      .innerJoin(users, eq(paymentReminders.customerId, users.id))
+      .where(and(
+        filters.entrepreneurId !== undefined ? eq(paymentReminders.entrepreneurId, filters.entrepreneurId) : undefined,
+        filters.customerPlanId !== undefined ? eq(paymentReminders.customerPlanId, filters.customerPlanId) : undefined,
+        filters.ruleId !== undefined ? eq(paymentReminders.ruleId, filters.ruleId) : undefined,
+        filters.status !== undefined ? eq(paymentReminders.status, filters.status) : undefined,
+      ))
+      .orderBy(desc(paymentReminders.createdAt));
+
+    return rows.map(row => ({ ...row.reminder, rule: row.rule, customer: row.customer }));
+  }
+
+  async createPaymentReminder(reminder: InsertPaymentReminder): Promise<PaymentReminder> {
+    const [newReminder] = await db
+      .insert(paymentReminders)
+      .values(reminder)
+      .returning();
+    return newReminder;
+  }
+
   // Support Ticket operations
   async getSupportTicket(id: number): Promise<SupportTicket | undefined> {
     const [ticket] = await db.select().from(supportTickets).where(eq(supportTickets.id, id));
     return ticket || undefined;
   }
 
-  async getAllSupportTickets(): Promise<SupportTicketWithAssignee[]> {
+  async getSupportTicketByTicketId(ticketId: string): Promise<SupportTicket | undefined> {
+    const [ticket] = await db.select().from(supportTickets).where(eq(supportTickets.ticketId, ticketId));
+    return ticket || undefined;
+  }
+
+  async countOpenSupportTicketsByAssignee(agentIds: number[]): Promise<Map<number, number>> {
+    if (agentIds.length === 0) return new Map();
+    const rows = await db.select({ assignedTo: supportTickets.assignedTo, total: count() })
+      .from(supportTickets)
+      .where(and(
+        inArray(supportTickets.assignedTo, agentIds),
+        inArray(supportTickets.status, ['open', 'in_progress']),
+      ))
+      .groupBy(supportTickets.assignedTo);
+    return new Map(rows.map(row => [row.assignedTo!, row.total]));
+  }
+
+  async getAllSupportTickets(filters: SupportTicketFilters = {}): Promise<SupportTicketWithAssignee[]> {
     const results = await db
       .select({
         ticket: supportTickets,
@@ -371,6 +1020,14 @@ export class DatabaseStorage implements IStorage {
       })
       .from(supportTickets)
       .leftJoin(users, eq(supportTickets.assignedTo, users.id))
+      .where(and(
+        filters.status ? inArray(supportTickets.status, filters.status) : undefined,
+        filters.category ? eq(supportTickets.category, filters.category) : undefined,
+        filters.priority ? eq(supportTickets.priority, filters.priority) : undefined,
+        filters.assignedTo !== undefined
+          ? filters.assignedTo === null ? isNull(supportTickets.assignedTo) : eq(supportTickets.assignedTo, filters.assignedTo)
+          : undefined,
+      ))
       .orderBy(supportTickets.createdAt);
 
     return results.map(row => ({
@@ -383,7 +1040,7 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async createSupportTicket(insertTicket: InsertSupportTicket): Promise<SupportTicket> {
+  async createSupportTicket(insertTicket: InsertSupportTicket & SupportTicketTracking): Promise<SupportTicket> {
     const ticketId = `TICKET-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
     const [ticket] = await db
@@ -396,7 +1053,7 @@ export class DatabaseStorage implements IStorage {
     return ticket;
   }
 
-  async updateSupportTicket(id: number, updateTicket: UpdateSupportTicket): Promise<SupportTicket | undefined> {
+  async updateSupportTicket(id: number, updateTicket: UpdateSupportTicket & SupportTicketTracking): Promise<SupportTicket | undefined> {
     const [ticket] = await db
       .update(supportTickets)
       .set({
@@ -413,17 +1070,146 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getSupportTicketMessages(supportTicketId: number): Promise<SupportTicketMessageWithAttachments[]> {
+    const messages = await db.select()
+      .from(supportTicketMessages)
+      .where(eq(supportTicketMessages.supportTicketId, supportTicketId))
+      .orderBy(supportTicketMessages.createdAt, supportTicketMessages.id);
+    if (messages.length === 0) return [];
+
+    const attachments = await db.select()
+      .from(supportTicketAttachments)
+      .where(inArray(supportTicketAttachments.messageId, messages.map(message => message.id)))
+      .orderBy(supportTicketAttachments.id);
+
+    return messages.map(message => ({
+      ...message,
+      attachments: attachments.filter(attachment => attachment.messageId === message.id),
+    }));
+  }
+
+  async createSupportTicketMessage(message: InsertSupportTicketMessage, attachments: SupportTicketAttachmentInput[] = []): Promise<SupportTicketMessageWithAttachments> {
+    return await db.transaction(async (tx) => {
+      const [newMessage] = await tx
+        .insert(supportTicketMessages)
+        .values(message)
+        .returning();
+      const newAttachments = attachments.length > 0
+        ? await tx
+          .insert(supportTicketAttachments)
+          .values(attachments.map(attachment => ({ ...attachment, messageId: newMessage.id })))
+          .returning()
+        : [];
+      return { ...newMessage, attachments: newAttachments };
+    });
+  }
+
+  // Support SLA Policy operations
+  async getSupportSlaPolicy(id: number): Promise<SupportSlaPolicy | undefined> {
+    const [policy] = await db.select().from(supportSlaPolicies).where(eq(supportSlaPolicies.id, id));
+    return policy || undefined;
+  }
+
+  async getAllSupportSlaPolicies(): Promise<SupportSlaPolicy[]> {
+    return await db.select().from(supportSlaPolicies).orderBy(supportSlaPolicies.priority, supportSlaPolicies.category);
+  }
+
+  async getSupportSlaPolicyByScope(priority: string, category: string | null): Promise<SupportSlaPolicy | undefined> {
+    const [policy] = await db.select()
+      .from(supportSlaPolicies)
+      .where(and(
+        eq(supportSlaPolicies.priority, priority),
+        category ? eq(supportSlaPolicies.category, category) : isNull(supportSlaPolicies.category),
+      ));
+    return policy || undefined;
+  }
+
+  async findSupportSlaPolicy(priority: string, category: string): Promise<SupportSlaPolicy | undefined> {
+    const policies = await db.select()
+      .from(supportSlaPolicies)
+      .where(and(
+        eq(supportSlaPolicies.isActive, true),
+        eq(supportSlaPolicies.priority, priority),
+        or(eq(supportSlaPolicies.category, category), isNull(supportSlaPolicies.category)),
+      ));
+    return policies.find(policy => policy.category === category) ?? policies[0];
+  }
+
+  async createSupportSlaPolicy(policy: InsertSupportSlaPolicy): Promise<SupportSlaPolicy> {
+    const [newPolicy] = await db
+      .insert(supportSlaPolicies)
+      .values(policy)
+      .returning();
+    return newPolicy;
+  }
+
+  async updateSupportSlaPolicy(id: number, policy: UpdateSupportSlaPolicy): Promise<SupportSlaPolicy | undefined> {
+    const [updatedPolicy] = await db
+      .update(supportSlaPolicies)
+      .set({ ...policy, updatedAt: new Date() })
+      .where(eq(supportSlaPolicies.id, id))
+      .returning();
+    return updatedPolicy || undefined;
+  }
+
+  async deleteSupportSlaPolicy(id: number): Promise<boolean> {
+    const result = await db.delete(supportSlaPolicies).where(eq(supportSlaPolicies.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Support Routing Rule operations
+  async getSupportRoutingRule(id: number): Promise<SupportRoutingRule | undefined> {
+    const [rule] = await db.select().from(supportRoutingRules).where(eq(supportRoutingRules.id, id));
+    return rule || undefined;
+  }
+
+  async getAllSupportRoutingRules(): Promise<SupportRoutingRule[]> {
+    return await db.select().from(supportRoutingRules).orderBy(supportRoutingRules.position, supportRoutingRules.id);
+  }
+
+  async getActiveSupportRoutingRules(): Promise<SupportRoutingRule[]> {
+    return await db.select()
+      .from(supportRoutingRules)
+      .where(eq(supportRoutingRules.isActive, true))
+      .orderBy(supportRoutingRules.position, supportRoutingRules.id);
+  }
+
+  async createSupportRoutingRule(rule: InsertSupportRoutingRule): Promise<SupportRoutingRule> {
+    const [newRule] = await db
+      .insert(supportRoutingRules)
+      .values(rule)
+      .returning();
+    return newRule;
+  }
+
+  async updateSupportRoutingRule(id: number, rule: UpdateSupportRoutingRule & Partial<Pick<SupportRoutingRule, 'lastAssignedTo'>>): Promise<SupportRoutingRule | undefined> {
+    const [updatedRule] = await db
+      .update(supportRoutingRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(supportRoutingRules.id, id))
+      .returning();
+    return updatedRule || undefined;
+  }
+
+  async deleteSupportRoutingRule(id: number): Promise<boolean> {
+    const result = await db.delete(supportRoutingRules).where(eq(supportRoutingRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // Accounting operations
   async getAccountingEntry(id: number): Promise<Accounting | undefined> {
     const [entry] = await db.select().from(accounting).where(eq(accounting.id, id));
     return entry || undefined;
   }
 
-  async getAllAccountingEntries(entrepreneurId: number): Promise<Accounting[]> {
-    return await db.select().from(accounting).where(eq(accounting.entrepreneurId, entrepreneurId));
+  async getAllAccountingEntries(entrepreneurId?: number): Promise<Accounting[]> {
+    if (entrepreneurId) {
+      return await db.select().from(accounting).where(eq(accounting.entrepreneurId, entrepreneurId));
+    }
+    return await db.select().from(accounting);
   }
 
-  async createAccountingEntry(insertEntry: InsertAccounting): Promise<Accounting> {
+  async createAccountingEntry(insertEntry: InsertAccounting & { customerPlanId?: number | null }): Promise<Accounting> {
     const [entry] = await db
       .insert(accounting)
       .values(insertEntry)
@@ -431,6 +1217,21 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
 
+  async bookCustomerPlanEntry(
+    customerPlanId: number,
+    decide: (plan: CustomerPlan | undefined, entries: Accounting[]) => (InsertAccounting & { customerPlanId: number }) | undefined,
+  ): Promise<Accounting | undefined> {
+    return await db.transaction(async (tx) => {
+      const [plan] = await tx.select().from(customerPlans).where(eq(customerPlans.id, customerPlanId)).for('update');
+      const entries = await tx.select().from(accounting).where(eq(accounting.customerPlanId, customerPlanId));
+
+      const entry = decide(plan, entries);
+      if (!entry) return undefined;
+      const [newEntry] = await tx.insert(accounting).values(entry).returning();
+      return newEntry;
+    });
+  }
+
   async updateAccountingEntry(id: number, updateEntry: UpdateAccounting): Promise<Accounting | undefined> {
     const [entry] = await db
       .update(accounting)
@@ -458,24 +1259,43 @@ export class DatabaseStorage implements IStorage {
     const [refreshToken] = await db
       .select()
       .from(refreshTokens)
+      .where(eq(refreshTokens.token, token));
+    return refreshToken || undefined;
+  }
+
+  async revokeRefreshToken(token: string, reason: RefreshTokenRevokeReason): Promise<boolean> {
+    // Conditional so only one of two requests racing with a token can rotate it
+    const result = await db
+      .update(refreshTokens)
+      .set({ 
+        isRevoked: true, 
+        revokedAt: new Date(),
+        revokeReason: reason,
+      })
       .where(
         and(
           eq(refreshTokens.token, token),
           eq(refreshTokens.isRevoked, false)
         )
       );
-    return refreshToken || undefined;
+    return (result.rowCount ?? 0) > 0;
   }
 
-  async revokeRefreshToken(token: string): Promise<boolean> {
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
     const result = await db
       .update(refreshTokens)
-      .set({ 
-        isRevoked: true, 
-        revokedAt: new Date() 
+      .set({
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokeReason: 'reused',
       })
-      .where(eq(refreshTokens.token, token));
-    return (result.rowCount ?? 0) > 0;
+      .where(
+        and(
+          eq(refreshTokens.familyId, familyId),
+          eq(refreshTokens.isRevoked, false)
+        )
+      );
+    return result.rowCount ?? 0;
   }
 
   async revokeAllUserTokens(userId: number): Promise<boolean> {
@@ -483,7 +1303,8 @@ export class DatabaseStorage implements IStorage {
       .update(refreshTokens)
       .set({ 
         isRevoked: true, 
-        revokedAt: new Date() 
+        revokedAt: new Date(),
+        revokeReason: 'revoked',
       })
       .where(
         and(
@@ -495,20 +1316,315 @@ export class DatabaseStorage implements IStorage {
   }
 
   async cleanExpiredTokens(): Promise<number> {
+    // Revoked tokens are kept until they expire: presenting one again reveals a stolen token
+    const result = await db
+      .delete(refreshTokens)
+      .where(lt(refreshTokens.expiresAt, new Date()));
+    return result.rowCount ?? 0;
+  }
+
+  async getActiveRefreshTokens(userId: number): Promise<RefreshToken[]> {
+    return await db
+      .select()
+      .from(refreshTokens)
+      .where(
+        and(
+          eq(refreshTokens.userId, userId),
+          eq(refreshTokens.isRevoked, false),
+          gt(refreshTokens.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(refreshTokens.lastUsedAt));
+  }
+
+  async isRefreshSessionActive(id: number): Promise<boolean> {
+    const family = db
+      .select({ familyId: refreshTokens.familyId })
+      .from(refreshTokens)
+      .where(
+        and(
+          eq(refreshTokens.id, id),
+          or(eq(refreshTokens.isRevoked, false), eq(refreshTokens.revokeReason, 'rotated'))
+        )
+      );
+    const [liveToken] = await db
+      .select({ id: refreshTokens.id })
+      .from(refreshTokens)
+      .where(
+        and(
+          inArray(refreshTokens.familyId, family),
+          eq(refreshTokens.isRevoked, false),
+          gt(refreshTokens.expiresAt, new Date())
+        )
+      )
+      .limit(1);
+    return !!liveToken;
+  }
+
+  async revokeUserRefreshToken(userId: number, id: number): Promise<boolean> {
     const result = await db
       .update(refreshTokens)
-      .set({ 
-        isRevoked: true, 
-        revokedAt: new Date() 
+      .set({
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokeReason: 'revoked',
       })
       .where(
         and(
-          lt(refreshTokens.expiresAt, new Date()),
+          eq(refreshTokens.id, id),
+          eq(refreshTokens.userId, userId),
           eq(refreshTokens.isRevoked, false)
         )
       );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Password Token operations
+  async createPasswordToken(token: InsertPasswordToken): Promise<PasswordToken> {
+    const [newToken] = await db
+      .insert(passwordTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async getPasswordTokenByHash(tokenHash: string): Promise<PasswordToken | undefined> {
+    const [token] = await db.select().from(passwordTokens).where(eq(passwordTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async usePasswordToken(id: number): Promise<boolean> {
+    // Conditional on usedAt so two requests racing with one link cannot both win
+    const result = await db
+      .update(passwordTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordTokens.id, id), isNull(passwordTokens.usedAt)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async expireUserPasswordTokens(userId: number): Promise<number> {
+    const result = await db
+      .update(passwordTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordTokens.userId, userId), isNull(passwordTokens.usedAt)));
+    return result.rowCount ?? 0;
+  }
+
+  // Rate limit operations
+  async incrementRateLimitCounter(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    // One statement, so concurrent attempts cannot lose a count
+    const [counter] = await db
+      .insert(rateLimitCounters)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimitCounters.key,
+        set: {
+          count: sql`case when ${rateLimitCounters.resetAt} <= ${now} then 1 else ${rateLimitCounters.count} + 1 end`,
+          resetAt: sql`case when ${rateLimitCounters.resetAt} <= ${now} then ${resetAt} else ${rateLimitCounters.resetAt} end`,
+        },
+      })
+      .returning({ count: rateLimitCounters.count, resetAt: rateLimitCounters.resetAt });
+    return counter;
+  }
+
+  async getRateLimitCounter(key: string): Promise<RateLimitCounter | undefined> {
+    const [counter] = await db
+      .select({ count: rateLimitCounters.count, resetAt: rateLimitCounters.resetAt })
+      .from(rateLimitCounters)
+      .where(and(eq(rateLimitCounters.key, key), gt(rateLimitCounters.resetAt, new Date())));
+    return counter || undefined;
+  }
+
+  async deleteRateLimitCounter(key: string): Promise<boolean> {
+    const result = await db.delete(rateLimitCounters).where(eq(rateLimitCounters.key, key));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteExpiredRateLimitCounters(): Promise<number> {
+    const result = await db.delete(rateLimitCounters).where(lte(rateLimitCounters.resetAt, new Date()));
     return result.rowCount ?? 0;
   }
+
+  // MFA operations
+  async getUserMfa(userId: number): Promise<UserMfa | undefined> {
+    const [mfa] = await db.select().from(userMfa).where(eq(userMfa.userId, userId));
+    return mfa ? { ...mfa, secret: decryptCredential(mfa.secret) } : undefined;
+  }
+
+  async setUserMfaSecret(userId: number, secret: string): Promise<UserMfa> {
+    const values = { secret: encryptCredential(secret), enabledAt: null, lastUsedStep: null, createdAt: new Date() };
+    const [mfa] = await db
+      .insert(userMfa)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: userMfa.userId, set: values })
+      .returning();
+    return { ...mfa, secret };
+  }
+
+  async enableUserMfa(userId: number, step: number): Promise<UserMfa | undefined> {
+    const [mfa] = await db
+      .update(userMfa)
+      .set({ enabledAt: new Date(), lastUsedStep: step })
+      .where(eq(userMfa.userId, userId))
+      .returning();
+    return mfa ? { ...mfa, secret: decryptCredential(mfa.secret) } : undefined;
+  }
+
+  async useMfaStep(userId: number, step: number): Promise<boolean> {
+    // Conditional so a code cannot be replayed, even by two requests at once
+    const result = await db
+      .update(userMfa)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userMfa.userId, userId),
+        or(isNull(userMfa.lastUsedStep), lt(userMfa.lastUsedStep, step)),
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteUserMfa(userId: number): Promise<boolean> {
+    await db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+    const result = await db.delete(userMfa).where(eq(userMfa.userId, userId));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async replaceMfaRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(mfaRecoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  async useMfaRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(mfaRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(mfaRecoveryCodes.userId, userId),
+        eq(mfaRecoveryCodes.codeHash, codeHash),
+        isNull(mfaRecoveryCodes.usedAt),
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countMfaRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db.select({ total: count() })
+      .from(mfaRecoveryCodes)
+      .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+    return result.total;
+  }
+
+  // Audit Log operations
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    const [auditLog] = await db
+      .insert(auditLogs)
+      .values(log)
+      .returning();
+    return auditLog;
+  }
+
+  // Payment Event operations
+  async getPaymentEvent(id: number): Promise<PaymentEvent | undefined> {
+    const [event] = await db.select().from(paymentEvents).where(eq(paymentEvents.id, id));
+    return event || undefined;
+  }
+
+  async getPaymentEventByEventId(paymentGatewayId: number, eventId: string): Promise<PaymentEvent | undefined> {
+    const [event] = await db.select()
+      .from(paymentEvents)
+      .where(and(eq(paymentEvents.paymentGatewayId, paymentGatewayId), eq(paymentEvents.eventId, eventId)));
+    return event || undefined;
+  }
+
+  async getAllPaymentEvents(paymentGatewayId?: number): Promise<PaymentEvent[]> {
+    if (paymentGatewayId) {
+      return await db.select()
+        .from(paymentEvents)
+        .where(eq(paymentEvents.paymentGatewayId, paymentGatewayId))
+        .orderBy(desc(paymentEvents.createdAt));
+    }
+    return await db.select().from(paymentEvents).orderBy(desc(paymentEvents.createdAt));
+  }
+
+  async createPaymentEvent(event: InsertPaymentEvent): Promise<PaymentEvent | undefined> {
+    // Providers retry deliveries, so a repeated event id is not an error
+    const [createdEvent] = await db
+      .insert(paymentEvents)
+      .values(event)
+      .onConflictDoNothing({ target: [paymentEvents.paymentGatewayId, paymentEvents.eventId] })
+      .returning();
+    return createdEvent || undefined;
+  }
+
+  async updatePaymentEvent(id: number, event: Partial<Pick<PaymentEvent, 'customerPlanId' | 'status' | 'result' | 'processedAt'>>): Promise<PaymentEvent | undefined> {
+    const [updatedEvent] = await db
+      .update(paymentEvents)
+      .set(event)
+      .where(eq(paymentEvents.id, id))
+      .returning();
+    return updatedEvent || undefined;
+  }
+
+  // Notification operations
+  async getNotificationPreferences(userId: number): Promise<NotificationPreference[]> {
+    return await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  }
+
+  async setNotificationPreferences(userId: number, preferences: UpdateNotificationPreferences): Promise<NotificationPreference[]> {
+    for (const preference of preferences) {
+      await db
+        .insert(notificationPreferences)
+        .values({ userId, ...preference })
+        .onConflictDoUpdate({
+          target: [notificationPreferences.userId, notificationPreferences.type],
+          set: { email: preference.email, updatedAt: new Date() },
+        });
+    }
+    return await this.getNotificationPreferences(userId);
+  }
+
+  async createEmailNotification(email: InsertEmailNotification): Promise<EmailNotification> {
+    const [newEmail] = await db
+      .insert(emailNotifications)
+      .values(email)
+      .returning();
+    return newEmail;
+  }
+
+  async getEmailNotifications(filters: EmailNotificationFilters): Promise<EmailNotification[]> {
+    return await db.select()
+      .from(emailNotifications)
+      .where(and(
+        filters.status !== undefined ? eq(emailNotifications.status, filters.status) : undefined,
+        filters.type !== undefined ? eq(emailNotifications.type, filters.type) : undefined,
+      ))
+      .orderBy(desc(emailNotifications.createdAt), desc(emailNotifications.id))
+      .limit(filters.limit ?? 100);
+  }
+
+  async getDueEmailNotifications(now: Date, limit: number): Promise<EmailNotification[]> {
+    return await db.select()
+      .from(emailNotifications)
+      .where(and(
+        eq(emailNotifications.status, 'pending'),
+        lte(emailNotifications.nextAttemptAt, now),
+      ))
+      .orderBy(emailNotifications.id)
+      .limit(limit);
+  }
+
+  async updateEmailNotification(id: number, email: Partial<Pick<EmailNotification, 'text' | 'html' | 'status' | 'attempts' | 'nextAttemptAt' | 'reason' | 'transportMessageId' | 'sentAt'>>): Promise<EmailNotification | undefined> {
+    const [updatedEmail] = await db
+      .update(emailNotifications)
+      .set(email)
+      .where(eq(emailNotifications.id, id))
+      .returning();
+    return updatedEmail || undefined;
+  }
 }
 
 export const storage = new DatabaseStorage();
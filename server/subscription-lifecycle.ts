@@ -0,0 +1,140 @@
+import type { CustomerPlan } from '@shared/schema';
+import { storage } from './storage';
+import { cancelCustomerPlanCharge, chargeCustomerPlan, recordPlanHistory, settleCustomerPlan } from './billing';
+import { notifyPlanExpiring } from './notifications';
+
+const RENEWAL_LEAD_DAYS = parseInt(process.env.RENEWAL_LEAD_DAYS || '7');
+const GRACE_PERIOD_DAYS = parseInt(process.env.GRACE_PERIOD_DAYS || '5');
+const JOB_INTERVAL_MINUTES = parseInt(process.env.SUBSCRIPTION_JOB_INTERVAL_MINUTES || '60');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SubscriptionLifecycleResult {
+  expiredCharges: number;
+  renewalsIssued: number;
+  expiredPlans: number;
+  pastDuePlans: number;
+  cancelledPlans: number;
+}
+
+async function updateSubscription(plan: CustomerPlan, subscriptionStatus: string, note: string): Promise<CustomerPlan | undefined> {
+  const updatedPlan = await storage.updateCustomerPlan(plan.id, {
+    subscriptionStatus,
+    // Past-due plans stay usable during the grace period
+    isActive: subscriptionStatus === 'past_due' ? plan.isActive : false,
+  });
+  await recordPlanHistory(plan, updatedPlan, note);
+  return updatedPlan;
+}
+
+// Create the next period of a plan and charge it through the plan's gateway.
+// Returns undefined when the charge could not be created; the next run retries.
+async function issueRenewal(plan: CustomerPlan): Promise<CustomerPlan | undefined> {
+  const priceTable = await storage.getPriceTable(plan.priceTableId);
+  if (!priceTable?.isActive) {
+    return undefined;
+  }
+
+  // Coupons only discount the first period
+  const redemption = await storage.getCouponRedemptionByCustomerPlan(plan.id);
+
+  const renewal = await storage.createCustomerPlan({
+    customerId: plan.customerId,
+    priceTableId: plan.priceTableId,
+    planType: plan.planType,
+    amount: redemption?.originalAmount ?? plan.amount,
+    paymentGatewayId: plan.paymentGatewayId,
+    payStatus: 'pending',
+    isActive: false,
+    renewedFromPlanId: plan.id,
+  });
+  await recordPlanHistory(undefined, renewal, `Renewal of plan ${plan.id}`);
+
+  try {
+    return await chargeCustomerPlan(renewal, priceTable);
+  } catch (error) {
+    console.error(`Failed to charge renewal of customer plan ${plan.id}:`, error);
+    return undefined;
+  }
+}
+
+// One pass of the subscription lifecycle:
+// - pending charges past their payment deadline are marked expired
+// - plans expiring within RENEWAL_LEAD_DAYS get a renewal plan and charge,
+//   re-issued while the previous attempt failed or expired; the customer is
+//   emailed the pay link of each one
+// - expired plans whose renewal is paid are closed; the others become
+//   past_due and are cancelled once GRACE_PERIOD_DAYS have passed
+export async function runSubscriptionLifecycle(now: Date = new Date()): Promise<SubscriptionLifecycleResult> {
+  const result: SubscriptionLifecycleResult = {
+    expiredCharges: 0,
+    renewalsIssued: 0,
+    expiredPlans: 0,
+    pastDuePlans: 0,
+    cancelledPlans: 0,
+  };
+
+  for (const plan of await storage.getPendingCustomerPlansPayableBefore(now)) {
+    if (await settleCustomerPlan(plan, 'expired', now)) {
+      result.expiredCharges++;
+    }
+  }
+
+  const renewBefore = new Date(now.getTime() + RENEWAL_LEAD_DAYS * DAY_MS);
+  for (const plan of await storage.getPaidCustomerPlansExpiringBefore(renewBefore)) {
+    try {
+      let renewal = await storage.getCustomerPlanRenewal(plan.id);
+      const expiresAt = plan.planExpirationDate!;
+
+      if (expiresAt > now || plan.subscriptionStatus === 'past_due') {
+        if (!renewal || renewal.payStatus === 'failed' || renewal.payStatus === 'expired') {
+          renewal = await issueRenewal(plan);
+          if (renewal) {
+            result.renewalsIssued++;
+            await notifyPlanExpiring(plan, renewal);
+          }
+        }
+      }
+
+      if (expiresAt > now) continue;
+
+      if (renewal?.payStatus === 'paid') {
+        await updateSubscription(plan, 'expired', `Renewed by plan ${renewal.id}`);
+        result.expiredPlans++;
+      } else if (plan.subscriptionStatus === 'active') {
+        await updateSubscription(plan, 'past_due', 'Plan expired without a paid renewal');
+        result.pastDuePlans++;
+      } else if (expiresAt.getTime() + GRACE_PERIOD_DAYS * DAY_MS <= now.getTime()) {
+        if (renewal) await cancelCustomerPlanCharge(renewal, now);
+        await updateSubscription(plan, 'cancelled', `Not renewed within the ${GRACE_PERIOD_DAYS}-day grace period`);
+        result.cancelledPlans++;
+      }
+    } catch (error) {
+      console.error(`Subscription lifecycle failed for customer plan ${plan.id}:`, error);
+    }
+  }
+
+  return result;
+}
+
+let running = false;
+
+// Run the lifecycle now and then every SUBSCRIPTION_JOB_INTERVAL_MINUTES.
+// A run is skipped while the previous one is still going.
+export function startSubscriptionLifecycleJob(): NodeJS.Timeout {
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await runSubscriptionLifecycle();
+      console.log('Subscription lifecycle run:', result);
+    } catch (error) {
+      console.error('Subscription lifecycle run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, JOB_INTERVAL_MINUTES * 60 * 1000);
+}
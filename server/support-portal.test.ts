@@ -0,0 +1,184 @@
+import { test, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import type { SupportTicket, SupportTicketMessageWithAttachments } from '@shared/schema';
+
+let server: Server;
+let baseUrl: string;
+
+// The portal's tickets and their timelines, in place of the database
+let tickets: SupportTicket[];
+let messages: SupportTicketMessageWithAttachments[];
+
+function makeTicket(overrides: Partial<SupportTicket> = {}): SupportTicket {
+  return {
+    id: 1,
+    ticketId: 'ST-000001',
+    name: 'Jane Customer',
+    email: 'jane@example.com',
+    phone: null,
+    subject: 'Cannot open the dashboard',
+    category: 'technical',
+    priority: 'medium',
+    message: 'The page stays blank',
+    status: 'open',
+    assignedTo: 7,
+    resolution: null,
+    createdAt: new Date('2026-01-05T10:00:00Z'),
+    updatedAt: new Date('2026-01-05T10:00:00Z'),
+    resolvedAt: null,
+    slaPolicyId: null,
+    firstResponseDueAt: null,
+    resolutionDueAt: null,
+    firstRespondedAt: null,
+    ...overrides,
+  };
+}
+
+function makeMessage(overrides: Partial<SupportTicketMessageWithAttachments>): SupportTicketMessageWithAttachments {
+  return {
+    id: messages.length + 1,
+    supportTicketId: 1,
+    type: 'agent_reply',
+    authorId: 7,
+    authorName: 'Alex Agent',
+    body: null,
+    fromStatus: null,
+    toStatus: null,
+    createdAt: new Date('2026-01-05T11:00:00Z'),
+    attachments: [],
+    ...overrides,
+  };
+}
+
+before(async () => {
+  // Invalid requests are turned away before any query, and the rest only
+  // reach the storage methods replaced below, so no database is needed;
+  // server/db only asks for a connection string
+  process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
+  const { storage } = await import('./storage');
+  const { registerRoutes } = await import('./routes');
+
+  mock.method(storage, 'getSupportTicketByTicketId', async (ticketId: string) =>
+    tickets.find((ticket) => ticket.ticketId === ticketId));
+  mock.method(storage, 'getSupportTicket', async (id: number) =>
+    tickets.find((ticket) => ticket.id === id));
+  mock.method(storage, 'updateSupportTicket', async (id: number, update: Partial<SupportTicket>) => {
+    const index = tickets.findIndex((ticket) => ticket.id === id);
+    if (index === -1) return undefined;
+    tickets[index] = { ...tickets[index], ...update, updatedAt: new Date() };
+    return tickets[index];
+  });
+  mock.method(storage, 'getSupportTicketMessages', async (supportTicketId: number) =>
+    messages.filter((message) => message.supportTicketId === supportTicketId));
+  mock.method(storage, 'createSupportTicketMessage', async (message: Partial<SupportTicketMessageWithAttachments>) => {
+    const created = makeMessage({ ...message, createdAt: new Date() });
+    messages.push(created);
+    return created;
+  });
+  mock.method(storage, 'getUser', async () => undefined);
+  mock.method(storage, 'getUserByEmail', async () => undefined);
+  mock.method(storage, 'createEmailNotification', async () => undefined);
+  mock.method(storage, 'getDueEmailNotifications', async () => []);
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+beforeEach(() => {
+  tickets = [makeTicket()];
+  messages = [];
+});
+
+after(() => {
+  server.close();
+});
+
+function post(path: string, body: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+test('portal replies reject javascript: attachment links', async () => {
+  const response = await post('/api/support-portal/tickets/ST-000001/replies', {
+    email: 'customer@example.com',
+    body: 'See the attached file',
+    attachments: [{ fileName: 'invoice.pdf', url: 'javascript:alert(document.cookie)' }],
+  });
+
+  assert.equal(response.status, 400);
+  const data = await response.json();
+  assert.equal(data.message, 'Invalid data');
+  assert.deepEqual(data.errors[0].path, ['attachments', 0, 'url']);
+});
+
+test('a lookup with the wrong email looks the same as an unknown ticket', async () => {
+  const wrongEmail = await post('/api/support-portal/tickets/lookup', { ticketId: 'ST-000001', email: 'someone@example.com' });
+  const unknownTicket = await post('/api/support-portal/tickets/lookup', { ticketId: 'ST-999999', email: 'jane@example.com' });
+
+  assert.equal(wrongEmail.status, 404);
+  assert.equal(unknownTicket.status, 404);
+  assert.deepEqual(await wrongEmail.json(), await unknownTicket.json());
+});
+
+test('a lookup matches the email regardless of case and leaves internal notes out', async () => {
+  messages.push(
+    makeMessage({ type: 'agent_reply', body: 'Could you clear the cache?' }),
+    makeMessage({ type: 'internal_note', body: 'Probably the CDN again' }),
+    makeMessage({ type: 'status_change', fromStatus: 'open', toStatus: 'in_progress' }),
+  );
+
+  const response = await post('/api/support-portal/tickets/lookup', { ticketId: 'ST-000001', email: ' Jane@Example.com ' });
+
+  assert.equal(response.status, 200);
+  const ticket = await response.json();
+  assert.equal(ticket.ticketId, 'ST-000001');
+  assert.equal(ticket.assignedTo, undefined);
+  assert.deepEqual(ticket.messages.map((message: SupportTicketMessageWithAttachments) => message.type), ['agent_reply', 'status_change']);
+  assert.ok(ticket.messages.every((message: SupportTicketMessageWithAttachments) => !('authorId' in message)));
+});
+
+test('a customer reply reopens a resolved ticket', async () => {
+  tickets = [makeTicket({ status: 'resolved', resolvedAt: new Date('2026-01-06T10:00:00Z') })];
+
+  const response = await post('/api/support-portal/tickets/ST-000001/replies', {
+    email: 'jane@example.com',
+    body: 'It is blank again',
+  });
+
+  assert.equal(response.status, 201);
+  const ticket = await response.json();
+  assert.equal(ticket.status, 'open');
+  assert.equal(ticket.resolvedAt, null);
+  const reply = ticket.messages.find((message: SupportTicketMessageWithAttachments) => message.type === 'customer_reply');
+  assert.equal(reply.authorName, 'Jane Customer');
+  assert.equal(reply.body, 'It is blank again');
+});
+
+test('a customer can close their ticket', async () => {
+  const response = await post('/api/support-portal/tickets/ST-000001/close', { email: 'jane@example.com' });
+
+  assert.equal(response.status, 200);
+  const ticket = await response.json();
+  assert.equal(ticket.status, 'closed');
+  assert.notEqual(ticket.resolvedAt, null);
+  assert.deepEqual(
+    ticket.messages.map((message: SupportTicketMessageWithAttachments) => [message.type, message.fromStatus, message.toStatus]),
+    [['status_change', 'open', 'closed']],
+  );
+});
+
+test('closing with the wrong email changes nothing', async () => {
+  const response = await post('/api/support-portal/tickets/ST-000001/close', { email: 'someone@example.com' });
+
+  assert.equal(response.status, 404);
+  assert.equal(tickets[0].status, 'open');
+});
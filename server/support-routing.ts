@@ -0,0 +1,66 @@
+import { SUPPORT_AGENT_ROLES, type SupportRoutingRule, type SupportTicket, type User } from '@shared/schema';
+import { storage } from './storage';
+
+export interface SupportReassignmentResult {
+  reassigned: number;
+  unassigned: number;
+}
+
+export function isSupportAgent(user: User): boolean {
+  return user.isActive && SUPPORT_AGENT_ROLES.includes(user.role);
+}
+
+function matchesRule(rule: SupportRoutingRule, ticket: SupportTicket): boolean {
+  return (!rule.category || rule.category === ticket.category) &&
+    (!rule.priority || rule.priority === ticket.priority) &&
+    (!rule.keyword || ticket.subject.toLowerCase().includes(rule.keyword.toLowerCase()));
+}
+
+// The pool's active agents, starting with the one after the last agent the
+// rule assigned
+async function getAgentQueue(rule: SupportRoutingRule, excludeUserId?: number): Promise<User[]> {
+  const agents = (await storage.getUsersByIds(rule.agentIds))
+    .filter((agent) => isSupportAgent(agent) && agent.id !== excludeUserId);
+  const size = rule.agentIds.length;
+  const lastIndex = rule.lastAssignedTo ? rule.agentIds.indexOf(rule.lastAssignedTo) : -1;
+  const turn = (agent: User) => (rule.agentIds.indexOf(agent.id) - lastIndex - 1 + size) % size;
+  return agents.sort((a, b) => turn(a) - turn(b));
+}
+
+async function pickAgent(rule: SupportRoutingRule, queue: User[]): Promise<User | undefined> {
+  if (rule.strategy !== 'least_open' || queue.length === 0) {
+    return queue[0];
+  }
+  // Ties go to whoever is next in round-robin order
+  const openTickets = await storage.countOpenSupportTicketsByAssignee(queue.map((agent) => agent.id));
+  return queue.reduce((best, agent) =>
+    (openTickets.get(agent.id) ?? 0) < (openTickets.get(best.id) ?? 0) ? agent : best);
+}
+
+// The agent the routing rules pick for a ticket, or null when no rule matches.
+// A rule whose pool has no active agent left is passed over for the next one.
+export async function findSupportAgent(ticket: SupportTicket, excludeUserId?: number): Promise<number | null> {
+  for (const rule of await storage.getActiveSupportRoutingRules()) {
+    if (!matchesRule(rule, ticket)) continue;
+
+    const agent = await pickAgent(rule, await getAgentQueue(rule, excludeUserId));
+    if (agent) {
+      await storage.updateSupportRoutingRule(rule.id, { lastAssignedTo: agent.id });
+      return agent.id;
+    }
+  }
+  return null;
+}
+
+// Route the unresolved tickets of a deactivated agent to other agents; the
+// ones no rule can place are left unassigned
+export async function reassignSupportTickets(userId: number): Promise<SupportReassignmentResult> {
+  const result: SupportReassignmentResult = { reassigned: 0, unassigned: 0 };
+  const tickets = await storage.getAllSupportTickets({ status: ['open', 'in_progress'], assignedTo: userId });
+  for (const ticket of tickets) {
+    const assignedTo = await findSupportAgent(ticket, userId);
+    await storage.updateSupportTicket(ticket.id, { assignedTo });
+    result[assignedTo ? 'reassigned' : 'unassigned']++;
+  }
+  return result;
+}
@@ -0,0 +1,171 @@
+import { addMinutes } from 'date-fns';
+import { PUBLIC_SUPPORT_TICKET_MESSAGE_TYPES, type CreateSupportTicketMessage, type InsertSupportTicket, type PublicSupportTicket, type SupportTicket, type SupportTicketMessage, type SupportTicketMessageWithAttachments, type SupportTicketWithAssignee, type UpdateSupportTicket } from '@shared/schema';
+import { formatSlaDuration, getSupportTicketSla, type SupportSlaTarget } from '@shared/sla';
+import { storage } from './storage';
+import { findSupportAgent } from './support-routing';
+import { queueEmail } from './notifications';
+
+// How long before a target is due a ticket shows up as at risk
+const SLA_WARNING_MINUTES = parseInt(process.env.SUPPORT_SLA_WARNING_MINUTES || '60');
+
+// Promised to customers when no SLA policy matches their ticket
+const DEFAULT_ESTIMATED_RESPONSE = '24 hours';
+
+export type SupportTicketStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+
+// Who wrote a message or made a change; authorId is null for the customer
+export type SupportTicketAuthor = Pick<SupportTicketMessage, 'authorId' | 'authorName'>;
+
+export async function getStaffAuthor(userId: number): Promise<SupportTicketAuthor> {
+  const user = await storage.getUser(userId);
+  return { authorId: userId, authorName: user?.name ?? 'Unknown user' };
+}
+
+export function getCustomerAuthor(ticket: SupportTicket): SupportTicketAuthor {
+  return { authorId: null, authorName: ticket.name };
+}
+
+// Create a ticket with the targets of the SLA policy that matches its priority
+// and category, and assign it through the routing rules. Returns the first
+// response time to promise the customer.
+export async function openSupportTicket(input: InsertSupportTicket): Promise<{ ticket: SupportTicket; estimatedResponse: string }> {
+  const policy = await storage.findSupportSlaPolicy(input.priority ?? 'medium', input.category);
+  const now = new Date();
+  const ticket = await storage.createSupportTicket({
+    ...input,
+    ...(policy && {
+      slaPolicyId: policy.id,
+      firstResponseDueAt: addMinutes(now, policy.firstResponseMinutes),
+      resolutionDueAt: addMinutes(now, policy.resolutionMinutes),
+    }),
+  });
+
+  const assignedTo = await findSupportAgent(ticket);
+  const assignedTicket = assignedTo ? await storage.updateSupportTicket(ticket.id, { assignedTo }) : undefined;
+  const estimatedResponse = policy ? formatSlaDuration(policy.firstResponseMinutes) : DEFAULT_ESTIMATED_RESPONSE;
+
+  await queueEmail('ticket_created', ticket.email, { ticket, estimatedResponse });
+  return { ticket: assignedTicket ?? ticket, estimatedResponse };
+}
+
+export function withSupportSla<T extends SupportTicket>(ticket: T, now: Date = new Date()): T & Pick<SupportTicketWithAssignee, 'sla'> {
+  return { ...ticket, sla: getSupportTicketSla(ticket, now, SLA_WARNING_MINUTES) };
+}
+
+// Unresolved tickets with a target that is at risk or overdue, the most
+// urgent first
+export async function getSupportSlaAlerts(now: Date = new Date()): Promise<SupportTicketWithAssignee[]> {
+  const isAlert = (target: SupportSlaTarget | null | undefined): target is SupportSlaTarget =>
+    target?.status === 'at_risk' || target?.status === 'overdue';
+  const nextDue = (ticket: SupportTicketWithAssignee) => Math.min(
+    ...[ticket.sla?.firstResponse, ticket.sla?.resolution].filter(isAlert).map((target) => target.dueAt.getTime()),
+  );
+
+  const tickets = await storage.getAllSupportTickets({ status: ['open', 'in_progress'] });
+  return tickets
+    .map((ticket) => withSupportSla(ticket, now))
+    .filter((ticket) => isAlert(ticket.sla?.firstResponse) || isAlert(ticket.sla?.resolution))
+    .sort((a, b) => nextDue(a) - nextDue(b));
+}
+
+// Update a ticket and record a status change on its timeline. resolvedAt
+// follows the status unless the caller sets it; closing an unresolved ticket
+// resolves it too, which stops its resolution clock. The customer is emailed
+// when the ticket is resolved.
+export async function updateSupportTicketWithHistory(
+  ticket: SupportTicket,
+  update: UpdateSupportTicket,
+  author: SupportTicketAuthor,
+): Promise<SupportTicket | undefined> {
+  const statusChanged = update.status !== undefined && update.status !== ticket.status;
+  const updatedTicket = await storage.updateSupportTicket(ticket.id, {
+    ...update,
+    ...(statusChanged && update.resolvedAt === undefined && {
+      resolvedAt: update.status === 'resolved' ? new Date() : update.status === 'closed' ? ticket.resolvedAt ?? new Date() : null,
+    }),
+  });
+
+  if (updatedTicket && statusChanged) {
+    await storage.createSupportTicketMessage({
+      supportTicketId: ticket.id,
+      type: 'status_change',
+      ...author,
+      fromStatus: ticket.status,
+      toStatus: updatedTicket.status,
+    });
+    if (updatedTicket.status === 'resolved') {
+      await queueEmail('ticket_resolved', updatedTicket.email, { ticket: updatedTicket });
+    }
+  }
+  return updatedTicket;
+}
+
+// Add a reply or internal note. The first staff reply takes an open ticket in
+// progress and counts as the ticket's first response, and a customer reply
+// reopens a resolved or closed ticket. Replies are emailed to the other side:
+// staff replies to the customer, customer replies to the assigned agent.
+export async function addSupportTicketMessage(
+  ticket: SupportTicket,
+  input: CreateSupportTicketMessage,
+  author: SupportTicketAuthor,
+): Promise<SupportTicketMessageWithAttachments> {
+  const messageAuthor = input.type === 'customer_reply' ? getCustomerAuthor(ticket) : author;
+  const message = await storage.createSupportTicketMessage({
+    supportTicketId: ticket.id,
+    type: input.type,
+    ...messageAuthor,
+    body: input.body,
+  }, input.attachments);
+
+  const nextStatus: SupportTicketStatus | undefined =
+    input.type === 'agent_reply' && ticket.status === 'open' ? 'in_progress' :
+    input.type === 'customer_reply' && (ticket.status === 'resolved' || ticket.status === 'closed') ? 'open' :
+    undefined;
+
+  if (input.type === 'agent_reply' && !ticket.firstRespondedAt) {
+    await storage.updateSupportTicket(ticket.id, { firstRespondedAt: message.createdAt ?? new Date() });
+  }
+  if (nextStatus) {
+    await updateSupportTicketWithHistory(ticket, { status: nextStatus }, messageAuthor);
+  } else {
+    await storage.updateSupportTicket(ticket.id, {});
+  }
+
+  if (input.type === 'agent_reply') {
+    await queueEmail('ticket_replied', ticket.email, { ticket, body: input.body, toCustomer: true });
+  } else if (input.type === 'customer_reply' && ticket.assignedTo) {
+    const agent = await storage.getUser(ticket.assignedTo);
+    if (agent) {
+      await queueEmail('ticket_replied', agent, { ticket, body: input.body, toCustomer: false });
+    }
+  }
+  return message;
+}
+
+// The ticket with this ticketId, when it was submitted with this email.
+// A wrong email looks the same as an unknown ticket.
+export async function findPortalSupportTicket(ticketId: string, email: string): Promise<SupportTicket | undefined> {
+  const ticket = await storage.getSupportTicketByTicketId(ticketId);
+  return ticket && ticket.email.trim().toLowerCase() === email.trim().toLowerCase() ? ticket : undefined;
+}
+
+// What the customer sees of a ticket: no internal notes, assignment or staff ids
+export async function getPublicSupportTicket(ticket: SupportTicket): Promise<PublicSupportTicket> {
+  const publicTypes: readonly string[] = PUBLIC_SUPPORT_TICKET_MESSAGE_TYPES;
+  const messages = await storage.getSupportTicketMessages(ticket.id);
+  return {
+    ticketId: ticket.ticketId,
+    name: ticket.name,
+    subject: ticket.subject,
+    category: ticket.category,
+    priority: ticket.priority,
+    message: ticket.message,
+    status: ticket.status,
+    createdAt: ticket.createdAt,
+    updatedAt: ticket.updatedAt,
+    resolvedAt: ticket.resolvedAt,
+    messages: messages
+      .filter((message) => publicTypes.includes(message.type))
+      .map(({ authorId, ...message }) => message),
+  };
+}
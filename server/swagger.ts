@@ -1,6 +1,7 @@
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
 import { Express } from 'express';
+import { GRANTABLE_PERMISSIONS, PERMISSIONS } from '@shared/permissions';
 
 const options = {
   definition: {
@@ -50,25 +51,79 @@ const options = {
               example: 'entrepreneur'
             },
             avatar: { type: 'string', nullable: true, example: 'https://example.com/avatar.jpg' },
+            phone: { type: 'string', nullable: true, description: 'Digits only, with country code', example: '5511987654321' },
+            whatsappOptOutAt: { type: 'string', format: 'date-time', nullable: true, description: 'When the customer opted out of WhatsApp reminders' },
+            isActive: { type: 'boolean', description: 'Deactivated users cannot sign in and get no support tickets', example: true },
             entrepreneurId: { type: 'integer', nullable: true, example: 2 },
+            customRoleId: { type: 'integer', nullable: true, description: 'Custom role of a collaborator', example: 3 },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
           }
         },
         CreateUser: {
           type: 'object',
-          required: ['name', 'email', 'password', 'role'],
+          required: ['name', 'email', 'role'],
           properties: {
             name: { type: 'string', example: 'John Doe' },
             email: { type: 'string', format: 'email', example: 'john@example.com' },
-            password: { type: 'string', minLength: 6, example: 'securePassword123' },
             role: { 
               type: 'string', 
               enum: ['super-admin', 'entrepreneur', 'collaborator', 'customer'],
               example: 'entrepreneur'
             },
             avatar: { type: 'string', example: 'https://example.com/avatar.jpg' },
-            entrepreneurId: { type: 'integer', nullable: true, example: 2 }
+            phone: { type: 'string', nullable: true, description: 'Formatting is stripped; 10 to 15 digits with country code', example: '+55 11 98765-4321' },
+            whatsappOptOut: { type: 'boolean', description: 'Updates only. Stops (true) or resumes (false) WhatsApp payment reminders' },
+            isActive: { type: 'boolean', default: true, description: 'Deactivating a user hands their open support tickets to the routing rules' },
+            entrepreneurId: { type: 'integer', nullable: true, example: 2 },
+            customRoleId: { type: 'integer', nullable: true, description: 'Custom role of a tenant collaborator; requires roles:manage', example: 3 }
+          }
+        },
+        Permission: {
+          type: 'string',
+          enum: [...PERMISSIONS],
+          example: 'accounting:write'
+        },
+        UserPermissions: {
+          type: 'object',
+          properties: {
+            role: { type: 'string', example: 'collaborator' },
+            permissions: { type: 'array', items: { $ref: '#/components/schemas/Permission' } }
+          }
+        },
+        PermissionInfo: {
+          type: 'object',
+          properties: {
+            permission: { $ref: '#/components/schemas/Permission' },
+            description: { type: 'string', example: 'Create, edit and delete accounting entries' },
+            grantable: { type: 'boolean', description: 'Can be part of a custom role' }
+          }
+        },
+        CustomRole: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 3 },
+            name: { type: 'string', example: 'Finance' },
+            description: { type: 'string', nullable: true, example: 'Keeps the books and chases payments' },
+            permissions: { type: 'array', items: { $ref: '#/components/schemas/Permission' } },
+            entrepreneurId: { type: 'integer', example: 2 },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        CreateCustomRole: {
+          type: 'object',
+          required: ['name', 'permissions'],
+          properties: {
+            name: { type: 'string', maxLength: 100, example: 'Finance' },
+            description: { type: 'string', nullable: true, maxLength: 500 },
+            permissions: {
+              type: 'array',
+              description: 'Granted on top of what the collaborator role allows',
+              items: { type: 'string', enum: [...GRANTABLE_PERMISSIONS] },
+              example: ['accounting:read', 'accounting:write', 'reminders:read']
+            },
+            entrepreneurId: { type: 'integer', description: 'Super-admin only: tenant the role belongs to' }
           }
         },
         PaymentGateway: {
@@ -82,8 +137,9 @@ const options = {
               example: 'asaas'
             },
             apiUrl: { type: 'string', example: 'https://www.asaas.com/api/v3' },
-            publicKey: { type: 'string', example: 'pub_abc123456789' },
-            token: { type: 'string', example: '$aact_YTU5YTE0M2M2N2I4MTliNzk0YTI5...' },
+            publicKey: { type: 'string', description: 'Masked, only the last four characters are shown', example: '••••6789' },
+            token: { type: 'string', description: 'Masked, only the last four characters are shown', example: '••••MDA=' },
+            webhookSecret: { type: 'string', nullable: true, description: 'Masked, only the last four characters are shown', example: '••••f00d' },
             email: { type: 'string', nullable: true, example: 'payment@business.com' },
             isActive: { type: 'boolean', example: true },
             createdBy: { type: 'integer', nullable: true, example: 1 },
@@ -105,10 +161,19 @@ const options = {
             apiUrl: { type: 'string', example: 'https://www.asaas.com/api/v3' },
             publicKey: { type: 'string', example: 'pub_abc123456789' },
             token: { type: 'string', example: '$aact_YTU5YTE0M2M2N2I4MTliNzk0YTI5...' },
+            webhookSecret: { type: 'string', description: 'Secret used to verify payment webhooks (Asaas auth token, Mercado Pago signature secret)', example: 'whsec_1b2c3d4ef00d' },
             email: { type: 'string', example: 'payment@business.com' },
             isActive: { type: 'boolean', default: true }
           }
         },
+        PaymentGatewayCredentials: {
+          type: 'object',
+          properties: {
+            publicKey: { type: 'string', example: 'pub_abc123456789' },
+            token: { type: 'string', example: '$aact_YTU5YTE0M2M2N2I4MTliNzk0YTI5...' },
+            webhookSecret: { type: 'string', nullable: true, example: 'whsec_1b2c3d4ef00d' }
+          }
+        },
         Collaborator: {
           type: 'object',
           properties: {
@@ -148,6 +213,11 @@ const options = {
             instanceNumber: { type: 'string', example: 'wa_instance_123' },
             apiUrl: { type: 'string', example: 'https://api.whatsapp.com/instance/123' },
             isActive: { type: 'boolean', example: true },
+            connectionStatus: { type: 'string', enum: ['unknown', 'disconnected', 'awaiting_qr', 'connected'], example: 'connected', description: 'Result of the last health check' },
+            connectionError: { type: 'string', nullable: true, description: 'Why the last health check could not reach the instance API' },
+            lastCheckedAt: { type: 'string', format: 'date-time', nullable: true },
+            lastSeenAt: { type: 'string', format: 'date-time', nullable: true, description: 'Last health check that found the instance connected' },
+            webhookSecret: { type: 'string', nullable: true, description: 'Masked, only the last four characters are shown', example: '••••9c1e' },
             entrepreneurId: { type: 'integer', example: 1 },
             createdBy: { type: 'integer', example: 1 },
             createdAt: { type: 'string', format: 'date-time' },
@@ -164,6 +234,109 @@ const options = {
             isActive: { type: 'boolean', default: true }
           }
         },
+        WhatsappMessage: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            instanceId: { type: 'integer', nullable: true, example: 1 },
+            entrepreneurId: { type: 'integer', example: 2 },
+            conversationId: { type: 'integer', nullable: true, example: 3 },
+            direction: { type: 'string', enum: ['outbound', 'inbound'], example: 'outbound' },
+            customerId: { type: 'integer', nullable: true, example: 7 },
+            to: { type: 'string', example: '5511987654321', description: "The contact's number, in both directions" },
+            type: { type: 'string', enum: ['text', 'media', 'template'], example: 'text' },
+            body: { type: 'string', nullable: true, example: 'Your plan renews tomorrow' },
+            mediaUrl: { type: 'string', nullable: true },
+            mediaType: { type: 'string', nullable: true, enum: ['image', 'video', 'audio', 'document'] },
+            fileName: { type: 'string', nullable: true },
+            templateName: { type: 'string', nullable: true },
+            templateLanguage: { type: 'string', nullable: true },
+            templateParams: { type: 'array', items: { type: 'string' } },
+            status: { type: 'string', enum: ['queued', 'sent', 'delivered', 'read', 'failed', 'received'], example: 'sent', description: 'received for inbound messages' },
+            externalId: { type: 'string', nullable: true, description: 'Message id at the instance API' },
+            error: { type: 'string', nullable: true },
+            sentBy: { type: 'integer', nullable: true },
+            sentAt: { type: 'string', format: 'date-time', nullable: true },
+            deliveredAt: { type: 'string', format: 'date-time', nullable: true },
+            readAt: { type: 'string', format: 'date-time', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        WhatsappWebhookSettings: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', example: 'https://app.example.com/api/webhooks/whatsapp/1?token=4f1c...9c1e', description: 'URL to register at the instance API' },
+            secret: { type: 'string', example: '4f1c...9c1e' }
+          }
+        },
+        WhatsappConversation: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 3 },
+            instanceId: { type: 'integer', example: 1 },
+            entrepreneurId: { type: 'integer', example: 2 },
+            contact: { type: 'string', example: '5511987654321' },
+            contactName: { type: 'string', nullable: true, example: 'Maria Silva', description: 'WhatsApp profile name of the contact' },
+            customerId: { type: 'integer', nullable: true, example: 7 },
+            assignedTo: { type: 'integer', nullable: true, example: 5 },
+            assignee: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'integer' },
+                name: { type: 'string' },
+                email: { type: 'string' }
+              }
+            },
+            status: { type: 'string', enum: ['open', 'closed'], example: 'open' },
+            unreadCount: { type: 'integer', example: 2 },
+            lastMessageAt: { type: 'string', format: 'date-time', nullable: true },
+            lastMessagePreview: { type: 'string', nullable: true, example: 'Can I pay by pix?' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        UpdateWhatsappConversation: {
+          type: 'object',
+          properties: {
+            assignedTo: { type: 'integer', nullable: true, description: 'The entrepreneur or one of their collaborators; null to unassign', example: 5 },
+            customerId: { type: 'integer', nullable: true, example: 7 },
+            status: { type: 'string', enum: ['open', 'closed'] }
+          }
+        },
+        SendWhatsappText: {
+          type: 'object',
+          required: ['to', 'text'],
+          properties: {
+            to: { type: 'string', example: '+55 11 98765-4321', description: 'Phone number with country code; non-digits are ignored' },
+            customerId: { type: 'integer', description: 'Customer the message is about', example: 7 },
+            text: { type: 'string', maxLength: 4096, example: 'Your plan renews tomorrow' }
+          }
+        },
+        SendWhatsappMedia: {
+          type: 'object',
+          required: ['to', 'mediaUrl', 'mediaType'],
+          properties: {
+            to: { type: 'string', example: '5511987654321' },
+            customerId: { type: 'integer', example: 7 },
+            mediaUrl: { type: 'string', format: 'uri', example: 'https://example.com/invoice.pdf' },
+            mediaType: { type: 'string', enum: ['image', 'video', 'audio', 'document'], example: 'document' },
+            caption: { type: 'string', maxLength: 1024, example: 'Your invoice' },
+            fileName: { type: 'string', example: 'invoice.pdf' }
+          }
+        },
+        SendWhatsappTemplate: {
+          type: 'object',
+          required: ['to', 'templateName'],
+          properties: {
+            to: { type: 'string', example: '5511987654321' },
+            customerId: { type: 'integer', example: 7 },
+            templateName: { type: 'string', example: 'payment_reminder' },
+            language: { type: 'string', default: 'pt_BR' },
+            parameters: { type: 'array', items: { type: 'string' }, example: ['Maria', 'R$ 119,90'] }
+          }
+        },
         PriceTable: {
           type: 'object',
           properties: {
@@ -175,10 +348,11 @@ const options = {
               items: { type: 'string' },
               example: ['Unlimited users', '24/7 support', 'Advanced analytics', 'Custom integrations']
             },
-            oldPrice3x: { type: 'string', nullable: true, example: '49.99' },
-            currentPrice3x: { type: 'string', example: '39.99' },
-            oldPrice12x: { type: 'string', nullable: true, example: '149.99' },
-            currentPrice12x: { type: 'string', example: '119.99' },
+            oldPrice3x: { type: 'string', format: 'decimal', nullable: true, example: '149.90', description: 'Previous 3x plan total' },
+            currentPrice3x: { type: 'string', format: 'decimal', example: '119.90', description: '3x plan total; each installment is a third of it' },
+            oldPrice12x: { type: 'string', format: 'decimal', nullable: true, example: '479.90', description: 'Previous 12x plan total' },
+            currentPrice12x: { type: 'string', format: 'decimal', example: '419.90', description: '12x plan total; each installment is a twelfth of it' },
+            currency: { type: 'string', enum: ['BRL', 'USD', 'EUR'], default: 'BRL', example: 'BRL' },
             months: { type: 'integer', default: 3, example: 3 },
             image1: { type: 'string', nullable: true, example: 'https://example.com/plan-image1.jpg', maxLength: 500 },
             image2: { type: 'string', nullable: true, example: 'https://example.com/plan-image2.jpg', maxLength: 500 },
@@ -200,10 +374,11 @@ const options = {
               items: { type: 'string' },
               example: ['Unlimited users', '24/7 support', 'Advanced analytics']
             },
-            oldPrice3x: { type: 'string', example: '49.99' },
-            currentPrice3x: { type: 'string', example: '39.99' },
-            oldPrice12x: { type: 'string', example: '149.99' },
-            currentPrice12x: { type: 'string', example: '119.99' },
+            oldPrice3x: { type: 'string', format: 'decimal', nullable: true, example: '149.90' },
+            currentPrice3x: { type: 'string', format: 'decimal', example: '119.90' },
+            oldPrice12x: { type: 'string', format: 'decimal', nullable: true, example: '479.90' },
+            currentPrice12x: { type: 'string', format: 'decimal', example: '419.90' },
+            currency: { type: 'string', enum: ['BRL', 'USD', 'EUR'], default: 'BRL' },
             months: { type: 'integer', default: 3, example: 3 },
             image1: { type: 'string', example: 'https://example.com/plan-image1.jpg', maxLength: 500 },
             image2: { type: 'string', example: 'https://example.com/plan-image2.jpg', maxLength: 500 },
@@ -228,10 +403,11 @@ const options = {
               pattern: '^\\d+\\.\\d{2}$',
               example: '119.99'
             },
-            payHash: { type: 'string', nullable: true, example: 'hash_abc123456' },
+            paymentGatewayId: { type: 'integer', nullable: true, example: 1 },
+            payHash: { type: 'string', nullable: true, description: 'Charge id at the payment gateway', example: 'pay_080225913252' },
             payStatus: { 
               type: 'string', 
-              enum: ['pending', 'paid', 'failed', 'expired'],
+              enum: ['pending', 'paid', 'failed', 'expired', 'refunded'],
               default: 'pending',
               example: 'paid'
             },
@@ -239,11 +415,168 @@ const options = {
             payLink: { type: 'string', nullable: true, example: 'https://payment.example.com/pay/123' },
             payExpiration: { type: 'string', format: 'date-time', nullable: true },
             planExpirationDate: { type: 'string', format: 'date-time', nullable: true },
-            isActive: { type: 'boolean', default: true, example: true },
+            subscriptionStatus: {
+              type: 'string',
+              enum: ['active', 'past_due', 'cancelled', 'expired', 'changed'],
+              default: 'active',
+              description: 'past_due once the plan expired without a paid renewal, cancelled after the grace period or on refund, changed once replaced by another price table',
+              example: 'active'
+            },
+            renewedFromPlanId: { type: 'integer', nullable: true, description: 'Plan whose period this plan renews', example: null },
+            changedFromPlanId: { type: 'integer', nullable: true, description: 'Plan this one replaced on an upgrade or downgrade', example: null },
+            creditAmount: { type: 'string', nullable: true, description: 'Prorated credit from the replaced plan, deducted from the charge', example: '39.99' },
+            isActive: { type: 'boolean', description: 'Whether the plan gives access: false until paid and after a refund', example: true },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
           }
         },
+        Coupon: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            code: { type: 'string', example: 'WELCOME10' },
+            description: { type: 'string', nullable: true, example: '10% off the first period' },
+            discountType: { type: 'string', enum: ['percentage', 'fixed'], example: 'percentage' },
+            discountValue: { type: 'string', example: '10.00' },
+            validFrom: { type: 'string', format: 'date-time', nullable: true },
+            validUntil: { type: 'string', format: 'date-time', nullable: true },
+            maxRedemptions: { type: 'integer', nullable: true, description: 'null for unlimited', example: 100 },
+            priceTableIds: { type: 'array', items: { type: 'integer' }, description: 'Empty for every price table', example: [1, 2] },
+            planTypes: { type: 'array', items: { type: 'string', enum: ['3x', '12x'] }, description: 'Empty for both plan types', example: ['12x'] },
+            isActive: { type: 'boolean', example: true },
+            entrepreneurId: { type: 'integer', example: 2 },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        CreateCoupon: {
+          type: 'object',
+          required: ['code', 'discountType', 'discountValue'],
+          properties: {
+            code: { type: 'string', description: 'Stored upper-case', example: 'WELCOME10' },
+            description: { type: 'string', example: '10% off the first period' },
+            discountType: { type: 'string', enum: ['percentage', 'fixed'], example: 'percentage' },
+            discountValue: { type: 'string', example: '10.00' },
+            validFrom: { type: 'string', format: 'date-time' },
+            validUntil: { type: 'string', format: 'date-time' },
+            maxRedemptions: { type: 'integer', example: 100 },
+            priceTableIds: { type: 'array', items: { type: 'integer' }, example: [1, 2] },
+            planTypes: { type: 'array', items: { type: 'string', enum: ['3x', '12x'] }, example: ['12x'] },
+            isActive: { type: 'boolean', default: true }
+          }
+        },
+        CouponRedemption: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            couponId: { type: 'integer', example: 1 },
+            customerPlanId: { type: 'integer', example: 12 },
+            customerId: { type: 'integer', example: 5 },
+            originalAmount: { type: 'string', example: '119.99' },
+            discountAmount: { type: 'string', example: '12.00' },
+            redeemedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        CouponQuote: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', example: 'WELCOME10' },
+            originalAmount: { type: 'string', example: '119.99' },
+            discountAmount: { type: 'string', example: '12.00' },
+            amount: { type: 'string', example: '107.99' }
+          }
+        },
+        PaymentReminderRule: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            entrepreneurId: { type: 'integer', example: 2 },
+            name: { type: 'string', example: 'Day before expiry' },
+            trigger: { type: 'string', enum: ['after_creation', 'before_expiration'], example: 'before_expiration' },
+            offsetHours: { type: 'integer', description: 'Hours after the plan was created or before the pay link expires', example: 24 },
+            messageTemplate: { type: 'string', example: 'Hi {{name}}! Pay your {{plan}} plan ({{amount}}) here: {{payLink}}' },
+            isActive: { type: 'boolean', example: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        CreatePaymentReminderRule: {
+          type: 'object',
+          required: ['name', 'trigger', 'offsetHours', 'messageTemplate'],
+          properties: {
+            name: { type: 'string', example: 'Day before expiry' },
+            trigger: { type: 'string', enum: ['after_creation', 'before_expiration'], example: 'before_expiration' },
+            offsetHours: { type: 'integer', minimum: 0, example: 24 },
+            messageTemplate: {
+              type: 'string',
+              description: 'Must include {{payLink}}. Also accepts {{name}}, {{plan}}, {{amount}} and {{expiresAt}}',
+              example: 'Hi {{name}}! Pay your {{plan}} plan ({{amount}}) here: {{payLink}}'
+            },
+            isActive: { type: 'boolean', default: true }
+          }
+        },
+        PaymentReminder: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            entrepreneurId: { type: 'integer', example: 2 },
+            ruleId: { type: 'integer', nullable: true, description: 'null once the rule is deleted', example: 1 },
+            customerPlanId: { type: 'integer', example: 12 },
+            customerId: { type: 'integer', example: 5 },
+            whatsappMessageId: { type: 'integer', nullable: true, example: 40 },
+            status: { type: 'string', enum: ['sent', 'failed', 'skipped'], example: 'sent' },
+            reason: { type: 'string', nullable: true, example: 'Customer opted out of WhatsApp reminders' },
+            rule: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'integer' },
+                name: { type: 'string' }
+              }
+            },
+            customer: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer' },
+                name: { type: 'string' },
+                phone: { type: 'string', nullable: true }
+              }
+            },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        ChangeCustomerPlan: {
+          type: 'object',
+          required: ['priceTableId'],
+          properties: {
+            priceTableId: { type: 'integer', example: 3 },
+            planType: { type: 'string', enum: ['3x', '12x'], description: 'Defaults to the current plan type' },
+            paymentGatewayId: { type: 'integer', description: 'Defaults to the gateway of the current plan' }
+          }
+        },
+        PlanChangeQuote: {
+          type: 'object',
+          properties: {
+            priceTableId: { type: 'integer', example: 3 },
+            planType: { type: 'string', enum: ['3x', '12x'], example: '12x' },
+            amount: { type: 'string', description: 'Full price of the new plan', example: '199.99' },
+            credit: { type: 'string', description: 'Prorated value left on the current plan, capped at the new price', example: '39.99' },
+            amountDue: { type: 'string', example: '160.00' },
+            remainingDays: { type: 'integer', example: 30 }
+          }
+        },
+        CustomerPlanHistory: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            customerPlanId: { type: 'integer', example: 1 },
+            field: { type: 'string', enum: ['payStatus', 'subscriptionStatus'], example: 'subscriptionStatus' },
+            fromStatus: { type: 'string', nullable: true, example: 'active' },
+            toStatus: { type: 'string', example: 'past_due' },
+            note: { type: 'string', nullable: true, example: 'Plan expired without a paid renewal' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
         CreateCustomerPlan: {
           type: 'object',
           required: ['customerId', 'priceTableId', 'planType', 'amount'],
@@ -260,15 +593,14 @@ const options = {
               pattern: '^\\d+\\.\\d{2}$',
               example: '119.99'
             },
-            payHash: { type: 'string', example: 'hash_abc123456' },
+            paymentGatewayId: { type: 'integer', description: 'Gateway used to charge the customer. Defaults to the first active gateway of the customer\'s tenant', example: 1 },
+            couponCode: { type: 'string', description: 'Coupon of the customer\'s tenant. When given, amount is replaced by the discounted price table price', example: 'WELCOME10' },
             payStatus: { 
               type: 'string', 
-              enum: ['pending', 'paid', 'failed', 'expired'],
+              enum: ['pending', 'paid', 'failed', 'expired', 'refunded'],
               default: 'pending'
             },
             payDate: { type: 'string', format: 'date-time' },
-            payLink: { type: 'string', example: 'https://payment.example.com/pay/123' },
-            payExpiration: { type: 'string', format: 'date-time' },
             planExpirationDate: { type: 'string', format: 'date-time' },
             isActive: { type: 'boolean', default: true }
           }
@@ -301,10 +633,127 @@ const options = {
             },
             customerId: { type: 'integer', example: 1 },
             assignedTo: { type: 'integer', nullable: true, example: 2 },
+            slaPolicyId: { type: 'integer', nullable: true, example: 3 },
+            firstResponseDueAt: { type: 'string', format: 'date-time', nullable: true },
+            resolutionDueAt: { type: 'string', format: 'date-time', nullable: true },
+            firstRespondedAt: { type: 'string', format: 'date-time', nullable: true },
+            sla: { $ref: '#/components/schemas/SupportTicketSla' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        SupportSlaTarget: {
+          type: 'object',
+          properties: {
+            dueAt: { type: 'string', format: 'date-time' },
+            status: {
+              type: 'string',
+              enum: ['on_track', 'at_risk', 'overdue', 'met', 'missed'],
+              description: 'at_risk targets are due within SUPPORT_SLA_WARNING_MINUTES; missed ones were reached late',
+              example: 'at_risk'
+            }
+          }
+        },
+        SupportTicketSla: {
+          type: 'object',
+          nullable: true,
+          description: 'Where the ticket stands against its SLA targets; null for tickets without a policy',
+          properties: {
+            firstResponse: { allOf: [{ $ref: '#/components/schemas/SupportSlaTarget' }], nullable: true },
+            resolution: { allOf: [{ $ref: '#/components/schemas/SupportSlaTarget' }], nullable: true },
+            breached: { type: 'boolean', description: 'Some target is overdue or was missed', example: false }
+          }
+        },
+        SupportSlaPolicy: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            name: { type: 'string', example: 'Urgent billing' },
+            priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'], example: 'urgent' },
+            category: {
+              type: 'string',
+              enum: ['technical', 'billing', 'feature', 'bug', 'general'],
+              nullable: true,
+              description: 'null for every category of the priority without a policy of its own',
+              example: 'billing'
+            },
+            firstResponseMinutes: { type: 'integer', example: 60 },
+            resolutionMinutes: { type: 'integer', example: 480 },
+            isActive: { type: 'boolean', example: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        CreateSupportSlaPolicy: {
+          type: 'object',
+          required: ['name', 'priority', 'category', 'firstResponseMinutes', 'resolutionMinutes'],
+          properties: {
+            name: { type: 'string', example: 'Urgent billing' },
+            priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'], example: 'urgent' },
+            category: { type: 'string', enum: ['technical', 'billing', 'feature', 'bug', 'general'], nullable: true, example: 'billing' },
+            firstResponseMinutes: { type: 'integer', minimum: 1, example: 60 },
+            resolutionMinutes: { type: 'integer', minimum: 1, example: 480 },
+            isActive: { type: 'boolean', default: true }
+          }
+        },
+        SupportRoutingRule: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            name: { type: 'string', example: 'Billing team' },
+            category: { type: 'string', nullable: true, description: 'null matches every category', example: 'billing' },
+            priority: { type: 'string', nullable: true, description: 'null matches every priority', example: null },
+            keyword: { type: 'string', nullable: true, description: 'Matched in the subject, ignoring case', example: 'refund' },
+            agentIds: { type: 'array', items: { type: 'integer' }, example: [2, 5] },
+            strategy: { type: 'string', enum: ['round_robin', 'least_open'], example: 'round_robin' },
+            lastAssignedTo: { type: 'integer', nullable: true, description: 'The agent the rule assigned last' },
+            position: { type: 'integer', description: 'Rules are tried from the lowest position', example: 0 },
+            isActive: { type: 'boolean', example: true },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
           }
         },
+        CreateSupportRoutingRule: {
+          type: 'object',
+          required: ['name', 'agentIds', 'strategy', 'position'],
+          properties: {
+            name: { type: 'string', example: 'Billing team' },
+            category: { type: 'string', enum: ['technical', 'billing', 'feature', 'bug', 'general'], nullable: true, example: 'billing' },
+            priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'], nullable: true, example: null },
+            keyword: { type: 'string', nullable: true, maxLength: 100, example: 'refund' },
+            agentIds: { type: 'array', items: { type: 'integer' }, minItems: 1, description: 'Active super-admins', example: [2, 5] },
+            strategy: { type: 'string', enum: ['round_robin', 'least_open'], example: 'round_robin' },
+            position: { type: 'integer', minimum: 0, example: 0 },
+            isActive: { type: 'boolean', default: true }
+          }
+        },
+        NotificationPreference: {
+          type: 'object',
+          required: ['type', 'email'],
+          properties: {
+            type: { type: 'string', enum: ['ticket_created', 'ticket_replied', 'ticket_resolved', 'plan_paid', 'plan_expiring'], example: 'ticket_replied' },
+            email: { type: 'boolean', example: true }
+          }
+        },
+        EmailNotification: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            type: { type: 'string', enum: ['ticket_created', 'ticket_replied', 'ticket_resolved', 'plan_paid', 'plan_expiring', 'user_invited', 'password_reset'], example: 'ticket_created' },
+            userId: { type: 'integer', nullable: true, description: 'Set when the recipient has an account' },
+            to: { type: 'string', format: 'email', example: 'john@example.com' },
+            subject: { type: 'string', example: '[#TK-1234] We received your request: Payment Issue' },
+            text: { type: 'string' },
+            html: { type: 'string' },
+            status: { type: 'string', enum: ['pending', 'sent', 'failed', 'skipped'], example: 'sent' },
+            attempts: { type: 'integer', example: 1 },
+            nextAttemptAt: { type: 'string', format: 'date-time' },
+            reason: { type: 'string', nullable: true, description: 'Last delivery error, or why the email was skipped' },
+            transportMessageId: { type: 'string', nullable: true },
+            sentAt: { type: 'string', format: 'date-time', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
         CreateSupportTicket: {
           type: 'object',
           required: ['name', 'email', 'subject', 'category', 'message'],
@@ -326,6 +775,78 @@ const options = {
             message: { type: 'string', example: 'I am having trouble with my payment method and need assistance.' }
           }
         },
+        SupportTicketAttachment: {
+          type: 'object',
+          required: ['fileName', 'url'],
+          properties: {
+            fileName: { type: 'string', example: 'screenshot.png' },
+            url: { type: 'string', format: 'uri', example: 'https://files.example.com/screenshot.png' },
+            contentType: { type: 'string', nullable: true, example: 'image/png' },
+            size: { type: 'integer', nullable: true, description: 'Bytes', example: 48213 }
+          }
+        },
+        SupportTicketMessage: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 1 },
+            supportTicketId: { type: 'integer', example: 3 },
+            type: { type: 'string', enum: ['customer_reply', 'agent_reply', 'internal_note', 'status_change'], example: 'agent_reply' },
+            authorId: { type: 'integer', nullable: true, description: 'null for the customer', example: 2 },
+            authorName: { type: 'string', example: 'Maria Support' },
+            body: { type: 'string', nullable: true, description: 'null for status changes', example: 'Could you send a screenshot of the error?' },
+            fromStatus: { type: 'string', nullable: true, example: 'open' },
+            toStatus: { type: 'string', nullable: true, example: 'in_progress' },
+            attachments: { type: 'array', items: { $ref: '#/components/schemas/SupportTicketAttachment' } },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        CreateSupportTicketMessage: {
+          type: 'object',
+          required: ['type', 'body'],
+          properties: {
+            type: { type: 'string', enum: ['agent_reply', 'internal_note', 'customer_reply'], example: 'agent_reply' },
+            body: { type: 'string', example: 'Could you send a screenshot of the error?' },
+            attachments: { type: 'array', maxItems: 10, items: { $ref: '#/components/schemas/SupportTicketAttachment' } }
+          }
+        },
+        SupportTicketLookup: {
+          type: 'object',
+          required: ['ticketId', 'email'],
+          properties: {
+            ticketId: { type: 'string', example: 'TICKET-1705312200000-k3j9x2m1q' },
+            email: { type: 'string', format: 'email', example: 'john@example.com' }
+          }
+        },
+        SupportTicketPortalReply: {
+          type: 'object',
+          required: ['email', 'body'],
+          properties: {
+            email: { type: 'string', format: 'email', example: 'john@example.com' },
+            body: { type: 'string', example: 'Here is the screenshot you asked for.' },
+            attachments: { type: 'array', maxItems: 10, items: { $ref: '#/components/schemas/SupportTicketAttachment' } }
+          }
+        },
+        PublicSupportTicket: {
+          type: 'object',
+          description: 'What the customer sees of a ticket',
+          properties: {
+            ticketId: { type: 'string', example: 'TICKET-1705312200000-k3j9x2m1q' },
+            name: { type: 'string', example: 'John Customer' },
+            subject: { type: 'string', example: 'Payment Issue' },
+            category: { type: 'string', example: 'billing' },
+            priority: { type: 'string', example: 'high' },
+            message: { type: 'string', example: 'I am having trouble with my payment method...' },
+            status: { type: 'string', enum: ['open', 'in_progress', 'resolved', 'closed'], example: 'in_progress' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+            resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+            messages: {
+              type: 'array',
+              description: 'Replies and status changes, oldest first, without internal notes or author ids',
+              items: { $ref: '#/components/schemas/SupportTicketMessage' }
+            }
+          }
+        },
         Accounting: {
           type: 'object',
           properties: {
@@ -340,6 +861,7 @@ const options = {
               example: 'receives'
             },
             amount: { type: 'string', example: '1299.99' },
+            customerPlanId: { type: 'integer', nullable: true, description: 'Customer plan that generated this entry', example: 12 },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
           }
@@ -373,7 +895,23 @@ const options = {
             expiresAt: { type: 'string', format: 'date-time' },
             isRevoked: { type: 'boolean', example: false },
             createdAt: { type: 'string', format: 'date-time' },
-            revokedAt: { type: 'string', format: 'date-time', nullable: true }
+            revokedAt: { type: 'string', format: 'date-time', nullable: true },
+            userAgent: { type: 'string', nullable: true },
+            ipAddress: { type: 'string', nullable: true },
+            signedInAt: { type: 'string', format: 'date-time' },
+            lastUsedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        UserSession: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer', example: 42 },
+            userAgent: { type: 'string', nullable: true, example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36' },
+            ipAddress: { type: 'string', nullable: true, example: '203.0.113.7' },
+            signedInAt: { type: 'string', format: 'date-time', description: 'When the user signed in on this device' },
+            lastUsedAt: { type: 'string', format: 'date-time', description: 'Last token refresh' },
+            expiresAt: { type: 'string', format: 'date-time', description: 'Signed out after this unless used again' },
+            current: { type: 'boolean', description: 'The session making the request', example: true }
           }
         },
         AuthRequest: {
@@ -390,7 +928,88 @@ const options = {
             accessToken: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
             refreshToken: { type: 'string', example: 'a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0' },
             expiresIn: { type: 'string', example: '15m' },
-            user: { $ref: '#/components/schemas/User' }
+            user: {
+              allOf: [
+                { $ref: '#/components/schemas/User' },
+                { type: 'object', properties: { permissions: { type: 'array', items: { $ref: '#/components/schemas/Permission' } } } }
+              ]
+            }
+          }
+        },
+        MfaPendingResponse: {
+          type: 'object',
+          description: 'Password accepted, but a second step is due before signing in',
+          properties: {
+            mfaRequired: { type: 'boolean', description: 'Enter a code at /api/auth/mfa/verify', example: true },
+            mfaSetupRequired: { type: 'boolean', description: 'The role requires two-factor; enrol through /api/auth/mfa/setup and /api/auth/mfa/enable', example: false },
+            mfaToken: { type: 'string', description: 'Valid for 5 minutes', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' }
+          }
+        },
+        LoginLockedResponse: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', example: 'Too many failed sign-in attempts. The account is temporarily locked.' },
+            lockedUntil: { type: 'string', format: 'date-time', description: 'When the lockout ends unless an admin lifts it earlier' }
+          }
+        },
+        LoginRateLimitedResponse: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', example: 'Too many sign-in attempts. Try again later.' },
+            retryAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        EmailRateLimitedResponse: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', example: 'Too many reset requests. Try again later.' },
+            retryAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        MfaChallenge: {
+          type: 'object',
+          description: 'Either a code from the authenticator app or a recovery code',
+          properties: {
+            code: { type: 'string', example: '123456' },
+            recoveryCode: { type: 'string', example: 'a1b2c-3d4e5' }
+          }
+        },
+        MfaVerifyRequest: {
+          allOf: [
+            { $ref: '#/components/schemas/MfaChallenge' },
+            {
+              type: 'object',
+              required: ['mfaToken'],
+              properties: {
+                mfaToken: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' }
+              }
+            }
+          ]
+        },
+        MfaStatus: {
+          type: 'object',
+          properties: {
+            enabled: { type: 'boolean', example: true },
+            required: { type: 'boolean', description: 'The role of the user cannot turn two-factor off', example: true },
+            recoveryCodesLeft: { type: 'integer', example: 8 }
+          }
+        },
+        MfaEnrolment: {
+          type: 'object',
+          properties: {
+            secret: { type: 'string', description: 'Base32 secret, for entering in the app by hand', example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP' },
+            otpauthUrl: { type: 'string', example: 'otpauth://totp/Business%20Management%3Auser%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Business%20Management' },
+            qrCode: { type: 'string', description: 'PNG data URL of otpauthUrl' }
+          }
+        },
+        MfaRecoveryCodes: {
+          type: 'object',
+          properties: {
+            recoveryCodes: {
+              type: 'array',
+              description: 'Single-use codes; only shown once',
+              items: { type: 'string', example: 'a1b2c-3d4e5' }
+            }
           }
         },
         RefreshTokenRequest: {
@@ -427,225 +1046,6 @@ const options = {
             error: { type: 'string', example: 'Error message' },
             details: { type: 'string', example: 'Detailed error information' }
           }
-        },
-        PriceTable: {
-          type: "object",
-          properties: {
-            id: {
-              type: "integer",
-              description: "Unique identifier for the price table",
-              example: 1
-            },
-            name: {
-              type: "string",
-              description: "Name of the pricing plan",
-              example: "Professional Plan"
-            },
-            description: {
-              type: "string",
-              description: "Detailed description of the plan",
-              example: "Perfect for growing businesses with advanced features"
-            },
-            price: {
-              type: "number",
-              format: "decimal",
-              description: "Plan price",
-              example: 79.99
-            },
-            billingPeriod: {
-              type: "string",
-              enum: ["monthly", "yearly", "one-time"],
-              description: "Billing frequency",
-              example: "monthly"
-            },
-            features: {
-              type: "array",
-              items: {
-                type: "string"
-              },
-              description: "List of features included in the plan",
-              example: ["Up to 10,000 messages", "Priority support", "Custom templates"]
-            },
-            maxUsers: {
-              type: "integer",
-              description: "Maximum number of users allowed",
-              example: 25
-            },
-            maxMessages: {
-              type: "integer",
-              description: "Maximum messages per billing period (-1 for unlimited)",
-              example: 10000
-            },
-            isActive: {
-              type: "boolean",
-              description: "Whether the plan is currently available for selection",
-              example: true
-            },
-            displayOrder: {
-              type: "integer",
-              description: "Order for displaying plans",
-              example: 2
-            }
-          }
-        },
-        CreatePriceTable: {
-          type: "object",
-          required: ["name", "description", "price", "billingPeriod", "features", "maxUsers", "maxMessages"],
-          properties: {
-            name: {
-              type: "string",
-              description: "Name of the pricing plan",
-              example: "Professional Plan"
-            },
-            description: {
-              type: "string",
-              description: "Detailed description of the plan",
-              example: "Perfect for growing businesses with advanced features"
-            },
-            price: {
-              type: "number",
-              format: "decimal",
-              description: "Plan price",
-              example: 79.99
-            },
-            billingPeriod: {
-              type: "string",
-              enum: ["monthly", "yearly", "one-time"],
-              description: "Billing frequency",
-              example: "monthly"
-            },
-            features: {
-              type: "array",
-              items: {
-                type: "string"
-              },
-              description: "List of features included in the plan",
-              example: ["Up to 10,000 messages", "Priority support", "Custom templates"]
-            },
-            maxUsers: {
-              type: "integer",
-              description: "Maximum number of users allowed",
-              example: 25
-            },
-            maxMessages: {
-              type: "integer",
-              description: "Maximum messages per billing period (-1 for unlimited)",
-              example: 10000
-            },
-            isActive: {
-              type: "boolean",
-              description: "Whether the plan is currently available for selection",
-              example: true,
-              default: true
-            },
-            displayOrder: {
-              type: "integer",
-              description: "Order for displaying plans",
-              example: 2,
-              default: 0
-            }
-          }
-        },
-        CustomerPlan: {
-          type: "object",
-          properties: {
-            id: {
-              type: "integer",
-              description: "Unique identifier for the customer plan",
-              example: 1
-            },
-            userId: {
-              type: "integer",
-              description: "ID of the subscribed user",
-              example: 3
-            },
-            priceTableId: {
-              type: "integer",
-              description: "ID of the associated price table",
-              example: 2
-            },
-            status: {
-              type: "string",
-              enum: ["active", "inactive", "expired", "cancelled"],
-              description: "Current status of the subscription",
-              example: "active"
-            },
-            startDate: {
-              type: "string",
-              format: "date-time",
-              description: "Subscription start date",
-              example: "2024-01-15T00:00:00Z"
-            },
-            endDate: {
-              type: "string",
-              format: "date-time",
-              description: "Subscription end date",
-              example: "2024-02-15T00:00:00Z"
-            },
-            customPrice: {
-              type: "number",
-              format: "decimal",
-              nullable: true,
-              description: "Custom pricing override (null for standard pricing)",
-              example: 150.00
-            },
-            discountPercentage: {
-              type: "number",
-              format: "decimal",
-              nullable: true,
-              description: "Discount percentage applied",
-              example: 25.0
-            }
-          }
-        },
-        CreateCustomerPlan: {
-          type: "object",
-          required: ["userId", "priceTableId", "status", "startDate", "endDate"],
-          properties: {
-            userId: {
-              type: "integer",
-              description: "ID of the user to subscribe",
-              example: 3
-            },
-            priceTableId: {
-              type: "integer",
-              description: "ID of the price table to subscribe to",
-              example: 2
-            },
-            status: {
-              type: "string",
-              enum: ["active", "inactive", "expired", "cancelled"],
-              description: "Initial subscription status",
-              example: "active",
-              default: "active"
-            },
-            startDate: {
-              type: "string",
-              format: "date-time",
-              description: "Subscription start date",
-              example: "2024-01-15T00:00:00Z"
-            },
-            endDate: {
-              type: "string",
-              format: "date-time",
-              description: "Subscription end date",
-              example: "2024-02-15T00:00:00Z"
-            },
-            customPrice: {
-              type: "number",
-              format: "decimal",
-              nullable: true,
-              description: "Custom pricing override (null for standard pricing)",
-              example: null
-            },
-            discountPercentage: {
-              type: "number",
-              format: "decimal",
-              nullable: true,
-              description: "Discount percentage to apply",
-              example: null
-            }
-          }
         }
       }
     },
@@ -657,13 +1057,24 @@ const options = {
     tags: [
       { name: 'Authentication', description: 'Authentication endpoints' },
       { name: 'Users', description: 'User management endpoints' },
+      { name: 'Custom Roles', description: 'Permission sets entrepreneurs grant to their collaborators' },
       { name: 'Payment Gateways', description: 'Payment gateway management' },
+      { name: 'Payment Webhooks', description: 'Inbound payment notifications from gateways' },
       { name: 'Collaborators', description: 'Collaborator management' },
       { name: 'WhatsApp Instances', description: 'WhatsApp instance management' },
+      { name: 'WhatsApp Messages', description: 'Messages sent through WhatsApp instances and their delivery status' },
+      { name: 'WhatsApp Inbox', description: 'Inbound WhatsApp webhook and conversations shared by the entrepreneur and their collaborators' },
       { name: 'Price Tables', description: 'Price table management' },
       { name: 'Customer Plans', description: 'Customer plan management' },
+      { name: 'Coupons', description: 'Discount codes for customer plans' },
+      { name: 'Payment Reminders', description: 'WhatsApp reminders with the pay link of pending customer plans' },
       { name: 'Support Tickets', description: 'Support ticket management' },
-      { name: 'Accounting', description: 'Financial accounting management' }
+      { name: 'Support Portal', description: 'Public ticket lookup, replies and closing for customers' },
+      { name: 'Support SLA Policies', description: 'First response and resolution targets of support tickets' },
+      { name: 'Support Routing', description: 'Rules that assign new support tickets to agents' },
+      { name: 'Notifications', description: 'Email preferences and the outgoing email queue' },
+      { name: 'Accounting', description: 'Financial accounting management' },
+      { name: 'Utilities', description: 'Helpers for generating mock data' }
     ]
   },
   apis: ['./server/routes.ts', './server/auth.ts'], // paths to files containing OpenAPI definitions
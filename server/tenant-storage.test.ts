@@ -0,0 +1,180 @@
+import { test, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Accounting, Coupon, CustomerPlan, User } from '@shared/schema';
+import type { IStorage } from './storage';
+import type { JWTPayload } from './auth';
+import type { TenantStorage as TenantStorageClass } from './tenant-storage';
+
+let TenantStorage: typeof TenantStorageClass;
+
+const SUPER_ADMIN: JWTPayload = { id: 100, email: 'admin@example.com', role: 'super-admin' };
+const ENTREPRENEUR_1: JWTPayload = { id: 1, email: 'one@example.com', role: 'entrepreneur' };
+const CUSTOMER_1: JWTPayload = { id: 11, email: 'customer-one@example.com', role: 'customer', entrepreneurId: 1 };
+
+let users: Partial<User>[];
+let plans: Partial<CustomerPlan>[];
+let coupons: Partial<Coupon>[];
+let entries: Partial<Accounting>[];
+let writes: { method: string; args: unknown[] }[];
+
+function byId<T extends { id?: number }>(rows: T[], id: number): T | undefined {
+  return rows.find((row) => row.id === id);
+}
+
+// The part of IStorage TenantStorage uses in these tests. Writes are recorded
+// rather than applied, so a test can check what reached the storage.
+function fakeStorage(): IStorage {
+  const record = (method: string) => async (...args: unknown[]) => {
+    writes.push({ method, args });
+    return method.startsWith('delete') ? true : { id: 999, ...(args[args.length - 1] as object) };
+  };
+
+  return {
+    getUser: async (id: number) => byId(users, id),
+    getAllUsers: async (entrepreneurId?: number) =>
+      users.filter((user) => entrepreneurId === undefined || user.entrepreneurId === entrepreneurId),
+    createUser: record('createUser'),
+    updateUser: record('updateUser'),
+    deleteUser: record('deleteUser'),
+    getCustomerPlan: async (id: number) => byId(plans, id),
+    getCustomerPlansByCustomer: async (customerId: number) => plans.filter((plan) => plan.customerId === customerId),
+    createCustomerPlan: record('createCustomerPlan'),
+    updateCustomerPlan: record('updateCustomerPlan'),
+    deleteCustomerPlan: record('deleteCustomerPlan'),
+    getCoupon: async (id: number) => byId(coupons, id),
+    createCoupon: record('createCoupon'),
+    updateCoupon: record('updateCoupon'),
+    getAccountingEntry: async (id: number) => byId(entries, id),
+    createAccountingEntry: record('createAccountingEntry'),
+    updateAccountingEntry: record('updateAccountingEntry'),
+    deleteAccountingEntry: record('deleteAccountingEntry'),
+  } as unknown as IStorage;
+}
+
+function tenantStorage(user: JWTPayload, requestedTenantId?: number) {
+  return new TenantStorage(fakeStorage(), user, requestedTenantId);
+}
+
+before(async () => {
+  // server/db only asks for a connection string; no query is made
+  process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
+  ({ TenantStorage } = await import('./tenant-storage'));
+});
+
+beforeEach(() => {
+  // Two tenants, entrepreneurs 1 and 2, each with a customer, a plan, a coupon
+  // and an accounting entry
+  users = [
+    { id: 1, role: 'entrepreneur', entrepreneurId: null },
+    { id: 2, role: 'entrepreneur', entrepreneurId: null },
+    { id: 11, role: 'customer', entrepreneurId: 1 },
+    { id: 12, role: 'customer', entrepreneurId: 1 },
+    { id: 21, role: 'customer', entrepreneurId: 2 },
+  ];
+  plans = [
+    { id: 101, customerId: 11 },
+    { id: 102, customerId: 12 },
+    { id: 201, customerId: 21 },
+  ];
+  coupons = [
+    { id: 301, entrepreneurId: 1 },
+    { id: 302, entrepreneurId: 2 },
+  ];
+  entries = [
+    { id: 401, entrepreneurId: 1 },
+    { id: 402, entrepreneurId: 2 },
+  ];
+  writes = [];
+});
+
+test('accounts outside any tenant are refused, except super-admins', () => {
+  assert.throws(() => tenantStorage({ id: 5, email: 'x@example.com', role: 'collaborator', entrepreneurId: null }), /No tenant/);
+  assert.equal(tenantStorage(SUPER_ADMIN).tenantId, undefined);
+  assert.equal(tenantStorage(SUPER_ADMIN, 2).tenantId, 2);
+  assert.equal(tenantStorage(ENTREPRENEUR_1, 2).tenantId, 1);
+});
+
+test('rows of another tenant read like rows that do not exist', async () => {
+  const tenant = tenantStorage(ENTREPRENEUR_1);
+
+  assert.equal(await tenant.getUser(21), undefined);
+  assert.equal(await tenant.getCoupon(302), undefined);
+  assert.equal(await tenant.getAccountingEntry(402), undefined);
+  assert.equal((await tenant.getUser(11))?.id, 11);
+  assert.equal((await tenant.getCoupon(301))?.id, 301);
+  assert.equal((await tenant.getAccountingEntry(401))?.id, 401);
+  assert.deepEqual((await tenant.getAllUsers()).map((user) => user.id), [11, 12]);
+});
+
+test('writes to rows of another tenant never reach the storage', async () => {
+  const tenant = tenantStorage(ENTREPRENEUR_1);
+
+  assert.equal(await tenant.updateUser(21, { name: 'Taken over' }), undefined);
+  assert.equal(await tenant.deleteUser(21), false);
+  assert.equal(await tenant.updateCoupon(302, { isActive: false }), undefined);
+  assert.equal(await tenant.updateAccountingEntry(402, { amount: '0.00' }), undefined);
+  assert.equal(await tenant.deleteAccountingEntry(402), false);
+  assert.deepEqual(writes, []);
+});
+
+test('new rows are stamped with the tenant of the user', async () => {
+  const tenant = tenantStorage(ENTREPRENEUR_1);
+
+  await tenant.createCoupon({ code: 'WELCOME', entrepreneurId: 2 } as never);
+  await tenant.createUser({ name: 'New', email: 'new@example.com', role: 'customer', entrepreneurId: 2 });
+
+  assert.equal((writes[0].args[0] as Coupon).entrepreneurId, 1);
+  assert.equal((writes[1].args[0] as User).entrepreneurId, 1);
+});
+
+test('super-admins must pick a tenant to create tenant rows', async () => {
+  await assert.rejects(tenantStorage(SUPER_ADMIN).createCoupon({ code: 'WELCOME' } as never), /A tenant is required/);
+
+  await tenantStorage(SUPER_ADMIN, 2).createCoupon({ code: 'WELCOME' } as never);
+  assert.equal((writes[0].args[0] as Coupon).entrepreneurId, 2);
+});
+
+test('users and accounting entries cannot be moved to another tenant', async () => {
+  const tenant = tenantStorage(ENTREPRENEUR_1);
+
+  await tenant.updateUser(11, { name: 'Renamed', entrepreneurId: 2 });
+  await tenant.updateAccountingEntry(401, { amount: '10.00', entrepreneurId: 2 } as never);
+
+  assert.deepEqual(writes[0].args, [11, { name: 'Renamed' }]);
+  assert.deepEqual(writes[1].args, [401, { amount: '10.00' }]);
+});
+
+test('super-admins can move users between tenants', async () => {
+  await tenantStorage(SUPER_ADMIN).updateUser(11, { entrepreneurId: 2 });
+
+  assert.deepEqual(writes[0].args, [11, { entrepreneurId: 2 }]);
+});
+
+test('customer plans belong to the tenant of their customer', async () => {
+  const tenant = tenantStorage(ENTREPRENEUR_1);
+
+  assert.equal((await tenant.getCustomerPlan(101))?.id, 101);
+  assert.equal(await tenant.getCustomerPlan(201), undefined);
+  assert.equal(await tenant.getCustomerPlanHistory(201), undefined);
+  assert.equal(await tenant.createCustomerPlan({ customerId: 21 } as never), undefined);
+  assert.equal(await tenant.deleteCustomerPlan(201), false);
+  assert.deepEqual(writes, []);
+});
+
+test('a plan cannot be handed to a customer of another tenant', async () => {
+  const tenant = tenantStorage(ENTREPRENEUR_1);
+
+  assert.equal(await tenant.updateCustomerPlan(101, { customerId: 21 }), undefined);
+  assert.deepEqual(writes, []);
+
+  await tenant.updateCustomerPlan(101, { customerId: 12 });
+  assert.deepEqual(writes[0].args, [101, { customerId: 12 }]);
+});
+
+test('customers only see their own plans', async () => {
+  const tenant = tenantStorage(CUSTOMER_1);
+
+  assert.equal((await tenant.getCustomerPlan(101))?.id, 101);
+  assert.equal(await tenant.getCustomerPlan(102), undefined);
+  assert.deepEqual((await tenant.getAllCustomerPlans()).map((plan) => plan.id), [101]);
+});
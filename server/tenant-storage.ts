@@ -0,0 +1,400 @@
+import type { User, InsertUser, UpdateUser, CustomRole, InsertCustomRole, UpdateCustomRole, PaymentGateway, InsertPaymentGateway, UpdatePaymentGateway, Collaborator, InsertCollaborator, UpdateCollaborator, WhatsappInstance, InsertWhatsappInstance, UpdateWhatsappInstance, CustomerPlan, InsertCustomerPlan, UpdateCustomerPlan, CustomerPlanWithDetails, CustomerPlanHistory, Coupon, InsertCoupon, UpdateCoupon, CouponRedemption, PaymentReminderRule, InsertPaymentReminderRule, UpdatePaymentReminderRule, PaymentReminderWithDetails, WhatsappMessage, WhatsappConversation, WhatsappConversationWithAssignee, Accounting, InsertAccounting, UpdateAccounting } from "@shared/schema";
+import type { IStorage, WhatsappMessageFilters, WhatsappConversationFilters, PaymentReminderFilters } from "./storage";
+import { getTenantId, type JWTPayload } from "./auth";
+
+// Tenant-aware view over IStorage. Every read is filtered by the tenant of the
+// authenticated user and every insert is stamped with it, so rows of another
+// tenant behave exactly like rows that do not exist.
+export interface ITenantStorage {
+  readonly tenantId: number | undefined;
+
+  // User operations
+  getUser(id: number): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: UpdateUser): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+
+  // Custom Role operations
+  getCustomRole(id: number): Promise<CustomRole | undefined>;
+  getAllCustomRoles(): Promise<CustomRole[]>;
+  createCustomRole(role: InsertCustomRole): Promise<CustomRole>;
+  updateCustomRole(id: number, role: UpdateCustomRole): Promise<CustomRole | undefined>;
+  deleteCustomRole(id: number): Promise<boolean>;
+
+  // Payment Gateway operations
+  getPaymentGateway(id: number): Promise<PaymentGateway | undefined>;
+  getAllPaymentGateways(): Promise<PaymentGateway[]>;
+  createPaymentGateway(gateway: InsertPaymentGateway): Promise<PaymentGateway>;
+  updatePaymentGateway(id: number, gateway: UpdatePaymentGateway): Promise<PaymentGateway | undefined>;
+  deletePaymentGateway(id: number): Promise<boolean>;
+
+  // Collaborator operations
+  getCollaborator(id: number): Promise<Collaborator | undefined>;
+  getAllCollaborators(): Promise<Collaborator[]>;
+  createCollaborator(collaborator: InsertCollaborator): Promise<Collaborator>;
+  updateCollaborator(id: number, collaborator: UpdateCollaborator): Promise<Collaborator | undefined>;
+  deleteCollaborator(id: number): Promise<boolean>;
+
+  // WhatsApp Instance operations
+  getWhatsappInstance(id: number): Promise<WhatsappInstance | undefined>;
+  getAllWhatsappInstances(): Promise<WhatsappInstance[]>;
+  createWhatsappInstance(instance: InsertWhatsappInstance): Promise<WhatsappInstance>;
+  updateWhatsappInstance(id: number, instance: UpdateWhatsappInstance): Promise<WhatsappInstance | undefined>;
+  deleteWhatsappInstance(id: number): Promise<boolean>;
+
+  // WhatsApp Message operations - messages are sent through server/whatsapp.ts
+  getWhatsappMessage(id: number): Promise<WhatsappMessage | undefined>;
+  getAllWhatsappMessages(filters?: Omit<WhatsappMessageFilters, 'entrepreneurId'>): Promise<WhatsappMessage[]>;
+
+  // WhatsApp Conversation operations - changes go through server/whatsapp-inbox.ts
+  getWhatsappConversation(id: number): Promise<WhatsappConversation | undefined>;
+  getAllWhatsappConversations(filters?: Omit<WhatsappConversationFilters, 'entrepreneurId'>): Promise<WhatsappConversationWithAssignee[]>;
+
+  // Customer Plan operations
+  getCustomerPlan(id: number): Promise<CustomerPlan | undefined>;
+  getAllCustomerPlans(): Promise<CustomerPlanWithDetails[]>;
+  createCustomerPlan(plan: InsertCustomerPlan): Promise<CustomerPlan | undefined>; // undefined when the customer is outside the tenant
+  updateCustomerPlan(id: number, plan: UpdateCustomerPlan): Promise<CustomerPlan | undefined>;
+  deleteCustomerPlan(id: number): Promise<boolean>;
+  getCustomerPlanHistory(customerPlanId: number): Promise<CustomerPlanHistory[] | undefined>; // undefined when the plan is outside the tenant
+
+  // Coupon operations
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  getAllCoupons(): Promise<Coupon[]>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  updateCoupon(id: number, coupon: UpdateCoupon): Promise<Coupon | undefined>;
+  deleteCoupon(id: number): Promise<boolean>;
+  getCouponRedemptions(couponId: number): Promise<CouponRedemption[] | undefined>; // undefined when the coupon is outside the tenant
+
+  // Payment Reminder operations - reminders are sent by server/payment-reminders.ts
+  getPaymentReminderRule(id: number): Promise<PaymentReminderRule | undefined>;
+  getAllPaymentReminderRules(): Promise<PaymentReminderRule[]>;
+  createPaymentReminderRule(rule: InsertPaymentReminderRule): Promise<PaymentReminderRule>;
+  updatePaymentReminderRule(id: number, rule: UpdatePaymentReminderRule): Promise<PaymentReminderRule | undefined>;
+  deletePaymentReminderRule(id: number): Promise<boolean>;
+  getAllPaymentReminders(filters?: Omit<PaymentReminderFilters, 'entrepreneurId'>): Promise<PaymentReminderWithDetails[]>;
+
+  // Accounting operations
+  getAccountingEntry(id: number): Promise<Accounting | undefined>;
+  getAllAccountingEntries(): Promise<Accounting[]>;
+  createAccountingEntry(entry: Omit<InsertAccounting, 'entrepreneurId'>): Promise<Accounting>;
+  updateAccountingEntry(id: number, entry: UpdateAccounting): Promise<Accounting | undefined>;
+  deleteAccountingEntry(id: number): Promise<boolean>;
+}
+
+export class TenantStorage implements ITenantStorage {
+  readonly tenantId: number | undefined;
+
+  // Super-admins are not bound to a tenant but may target one explicitly
+  constructor(private storage: IStorage, private user: JWTPayload, requestedTenantId?: number) {
+    this.tenantId = this.isSuperAdmin ? requestedTenantId : getTenantId(user);
+
+    if (!this.isSuperAdmin && this.tenantId === undefined) {
+      throw new Error('No tenant associated with this account');
+    }
+  }
+
+  private get isSuperAdmin(): boolean {
+    return this.user.role === 'super-admin';
+  }
+
+  // Without a tenant (super-admin only) every row is visible
+  private owns(entrepreneurId: number | null | undefined): boolean {
+    return this.tenantId === undefined || entrepreneurId === this.tenantId;
+  }
+
+  private requireTenantId(): number {
+    if (this.tenantId === undefined) {
+      throw new Error('A tenant is required to create this resource');
+    }
+    return this.tenantId;
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const user = await this.storage.getUser(id);
+    if (!user) return undefined;
+    // Users can always see themselves
+    return user.id === this.user.id || this.owns(user.entrepreneurId) ? user : undefined;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await this.storage.getAllUsers(this.tenantId);
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (this.isSuperAdmin) {
+      return await this.storage.createUser(user);
+    }
+    return await this.storage.createUser({ ...user, entrepreneurId: this.requireTenantId() });
+  }
+
+  async updateUser(id: number, user: UpdateUser): Promise<User | undefined> {
+    if (!(await this.getUser(id))) return undefined;
+    // Users cannot be moved to another tenant
+    const { entrepreneurId, ...data } = user;
+    return await this.storage.updateUser(id, this.isSuperAdmin ? user : data);
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    if (!(await this.getUser(id))) return false;
+    return await this.storage.deleteUser(id);
+  }
+
+  // Custom Role operations
+  async getCustomRole(id: number): Promise<CustomRole | undefined> {
+    const role = await this.storage.getCustomRole(id);
+    return role && this.owns(role.entrepreneurId) ? role : undefined;
+  }
+
+  async getAllCustomRoles(): Promise<CustomRole[]> {
+    return await this.storage.getAllCustomRoles(this.tenantId);
+  }
+
+  async createCustomRole(role: InsertCustomRole): Promise<CustomRole> {
+    return await this.storage.createCustomRole({ ...role, entrepreneurId: this.requireTenantId() });
+  }
+
+  async updateCustomRole(id: number, role: UpdateCustomRole): Promise<CustomRole | undefined> {
+    if (!(await this.getCustomRole(id))) return undefined;
+    return await this.storage.updateCustomRole(id, role);
+  }
+
+  async deleteCustomRole(id: number): Promise<boolean> {
+    if (!(await this.getCustomRole(id))) return false;
+    return await this.storage.deleteCustomRole(id);
+  }
+
+  // Payment Gateway operations
+  async getPaymentGateway(id: number): Promise<PaymentGateway | undefined> {
+    const gateway = await this.storage.getPaymentGateway(id);
+    return gateway && this.owns(gateway.entrepreneurId) ? gateway : undefined;
+  }
+
+  async getAllPaymentGateways(): Promise<PaymentGateway[]> {
+    return await this.storage.getAllPaymentGateways(this.tenantId);
+  }
+
+  async createPaymentGateway(gateway: InsertPaymentGateway): Promise<PaymentGateway> {
+    return await this.storage.createPaymentGateway({
+      ...gateway,
+      createdBy: this.user.id,
+      entrepreneurId: this.requireTenantId(),
+    });
+  }
+
+  async updatePaymentGateway(id: number, gateway: UpdatePaymentGateway): Promise<PaymentGateway | undefined> {
+    if (!(await this.getPaymentGateway(id))) return undefined;
+    return await this.storage.updatePaymentGateway(id, gateway);
+  }
+
+  async deletePaymentGateway(id: number): Promise<boolean> {
+    if (!(await this.getPaymentGateway(id))) return false;
+    return await this.storage.deletePaymentGateway(id);
+  }
+
+  // Collaborator operations
+  async getCollaborator(id: number): Promise<Collaborator | undefined> {
+    const collaborator = await this.storage.getCollaborator(id);
+    return collaborator && this.owns(collaborator.entrepreneurId) ? collaborator : undefined;
+  }
+
+  async getAllCollaborators(): Promise<Collaborator[]> {
+    if (this.tenantId === undefined) {
+      return await this.storage.getAllCollaborators();
+    }
+    return await this.storage.getCollaboratorsByEntrepreneur(this.tenantId);
+  }
+
+  async createCollaborator(collaborator: InsertCollaborator): Promise<Collaborator> {
+    return await this.storage.createCollaborator({ ...collaborator, entrepreneurId: this.requireTenantId() });
+  }
+
+  async updateCollaborator(id: number, collaborator: UpdateCollaborator): Promise<Collaborator | undefined> {
+    if (!(await this.getCollaborator(id))) return undefined;
+    return await this.storage.updateCollaborator(id, collaborator);
+  }
+
+  async deleteCollaborator(id: number): Promise<boolean> {
+    if (!(await this.getCollaborator(id))) return false;
+    return await this.storage.deleteCollaborator(id);
+  }
+
+  // WhatsApp Instance operations
+  async getWhatsappInstance(id: number): Promise<WhatsappInstance | undefined> {
+    const instance = await this.storage.getWhatsappInstance(id);
+    return instance && this.owns(instance.entrepreneurId) ? instance : undefined;
+  }
+
+  async getAllWhatsappInstances(): Promise<WhatsappInstance[]> {
+    return await this.storage.getAllWhatsappInstances(this.tenantId);
+  }
+
+  async createWhatsappInstance(instance: InsertWhatsappInstance): Promise<WhatsappInstance> {
+    return await this.storage.createWhatsappInstance({
+      ...instance,
+      createdBy: this.user.id,
+      entrepreneurId: this.requireTenantId(),
+    });
+  }
+
+  async updateWhatsappInstance(id: number, instance: UpdateWhatsappInstance): Promise<WhatsappInstance | undefined> {
+    if (!(await this.getWhatsappInstance(id))) return undefined;
+    return await this.storage.updateWhatsappInstance(id, instance);
+  }
+
+  async deleteWhatsappInstance(id: number): Promise<boolean> {
+    if (!(await this.getWhatsappInstance(id))) return false;
+    return await this.storage.deleteWhatsappInstance(id);
+  }
+
+  // WhatsApp Message operations
+  async getWhatsappMessage(id: number): Promise<WhatsappMessage | undefined> {
+    const message = await this.storage.getWhatsappMessage(id);
+    return message && this.owns(message.entrepreneurId) ? message : undefined;
+  }
+
+  async getAllWhatsappMessages(filters: Omit<WhatsappMessageFilters, 'entrepreneurId'> = {}): Promise<WhatsappMessage[]> {
+    return await this.storage.getWhatsappMessages({ ...filters, entrepreneurId: this.tenantId });
+  }
+
+  // WhatsApp Conversation operations
+  async getWhatsappConversation(id: number): Promise<WhatsappConversation | undefined> {
+    const conversation = await this.storage.getWhatsappConversation(id);
+    return conversation && this.owns(conversation.entrepreneurId) ? conversation : undefined;
+  }
+
+  async getAllWhatsappConversations(filters: Omit<WhatsappConversationFilters, 'entrepreneurId'> = {}): Promise<WhatsappConversationWithAssignee[]> {
+    return await this.storage.getWhatsappConversations({ ...filters, entrepreneurId: this.tenantId });
+  }
+
+  // Customer Plan operations - plans belong to a tenant through their customer
+  private async ownsCustomer(customerId: number): Promise<boolean> {
+    if (this.user.role === 'customer') {
+      return customerId === this.user.id;
+    }
+    const customer = await this.storage.getUser(customerId);
+    return !!customer && this.owns(customer.entrepreneurId);
+  }
+
+  async getCustomerPlan(id: number): Promise<CustomerPlan | undefined> {
+    const plan = await this.storage.getCustomerPlan(id);
+    return plan && await this.ownsCustomer(plan.customerId) ? plan : undefined;
+  }
+
+  async getAllCustomerPlans(): Promise<CustomerPlanWithDetails[]> {
+    if (this.user.role === 'customer') {
+      return await this.storage.getCustomerPlansByCustomer(this.user.id);
+    }
+    if (this.tenantId === undefined) {
+      return await this.storage.getAllCustomerPlans();
+    }
+    return await this.storage.getCustomerPlansByEntrepreneur(this.tenantId);
+  }
+
+  async createCustomerPlan(plan: InsertCustomerPlan): Promise<CustomerPlan | undefined> {
+    if (!(await this.ownsCustomer(plan.customerId))) return undefined;
+    return await this.storage.createCustomerPlan(plan);
+  }
+
+  async updateCustomerPlan(id: number, plan: UpdateCustomerPlan): Promise<CustomerPlan | undefined> {
+    if (!(await this.getCustomerPlan(id))) return undefined;
+    // A plan can only be reassigned to a customer of the same tenant
+    if (plan.customerId !== undefined && !(await this.ownsCustomer(plan.customerId))) return undefined;
+    return await this.storage.updateCustomerPlan(id, plan);
+  }
+
+  async deleteCustomerPlan(id: number): Promise<boolean> {
+    if (!(await this.getCustomerPlan(id))) return false;
+    return await this.storage.deleteCustomerPlan(id);
+  }
+
+  async getCustomerPlanHistory(customerPlanId: number): Promise<CustomerPlanHistory[] | undefined> {
+    if (!(await this.getCustomerPlan(customerPlanId))) return undefined;
+    return await this.storage.getCustomerPlanHistory(customerPlanId);
+  }
+
+  // Coupon operations
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    const coupon = await this.storage.getCoupon(id);
+    return coupon && this.owns(coupon.entrepreneurId) ? coupon : undefined;
+  }
+
+  async getAllCoupons(): Promise<Coupon[]> {
+    return await this.storage.getAllCoupons(this.tenantId);
+  }
+
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon> {
+    return await this.storage.createCoupon({ ...coupon, entrepreneurId: this.requireTenantId() });
+  }
+
+  async updateCoupon(id: number, coupon: UpdateCoupon): Promise<Coupon | undefined> {
+    if (!(await this.getCoupon(id))) return undefined;
+    return await this.storage.updateCoupon(id, coupon);
+  }
+
+  async deleteCoupon(id: number): Promise<boolean> {
+    if (!(await this.getCoupon(id))) return false;
+    return await this.storage.deleteCoupon(id);
+  }
+
+  async getCouponRedemptions(couponId: number): Promise<CouponRedemption[] | undefined> {
+    if (!(await this.getCoupon(couponId))) return undefined;
+    return await this.storage.getCouponRedemptions(couponId);
+  }
+
+  // Payment Reminder operations
+  async getPaymentReminderRule(id: number): Promise<PaymentReminderRule | undefined> {
+    const rule = await this.storage.getPaymentReminderRule(id);
+    return rule && this.owns(rule.entrepreneurId) ? rule : undefined;
+  }
+
+  async getAllPaymentReminderRules(): Promise<PaymentReminderRule[]> {
+    return await this.storage.getAllPaymentReminderRules(this.tenantId);
+  }
+
+  async createPaymentReminderRule(rule: InsertPaymentReminderRule): Promise<PaymentReminderRule> {
+    return await this.storage.createPaymentReminderRule({ ...rule, entrepreneurId: this.requireTenantId() });
+  }
+
+  async updatePaymentReminderRule(id: number, rule: UpdatePaymentReminderRule): Promise<PaymentReminderRule | undefined> {
+    if (!(await this.getPaymentReminderRule(id))) return undefined;
+    return await this.storage.updatePaymentReminderRule(id, rule);
+  }
+
+  async deletePaymentReminderRule(id: number): Promise<boolean> {
+    if (!(await this.getPaymentReminderRule(id))) return false;
+    return await this.storage.deletePaymentReminderRule(id);
+  }
+
+  async getAllPaymentReminders(filters: Omit<PaymentReminderFilters, 'entrepreneurId'> = {}): Promise<PaymentReminderWithDetails[]> {
+    return await this.storage.getPaymentReminders({ ...filters, entrepreneurId: this.tenantId });
+  }
+
+  // Accounting operations
+  async getAccountingEntry(id: number): Promise<Accounting | undefined> {
+    const entry = await this.storage.getAccountingEntry(id);
+    return entry && this.owns(entry.entrepreneurId) ? entry : undefined;
+  }
+
+  async getAllAccountingEntries(): Promise<Accounting[]> {
+    return await this.storage.getAllAccountingEntries(this.tenantId);
+  }
+
+  async createAccountingEntry(entry: Omit<InsertAccounting, 'entrepreneurId'>): Promise<Accounting> {
+    return await this.storage.createAccountingEntry({ ...entry, entrepreneurId: this.requireTenantId() });
+  }
+
+  async updateAccountingEntry(id: number, entry: UpdateAccounting): Promise<Accounting | undefined> {
+    if (!(await this.getAccountingEntry(id))) return undefined;
+    // Entries cannot be moved to another tenant
+    const { entrepreneurId, ...data } = entry;
+    return await this.storage.updateAccountingEntry(id, data);
+  }
+
+  async deleteAccountingEntry(id: number): Promise<boolean> {
+    if (!(await this.getAccountingEntry(id))) return false;
+    return await this.storage.deleteAccountingEntry(id);
+  }
+}
@@ -0,0 +1,63 @@
+import { storage } from './storage';
+import { checkWhatsappInstanceConnection } from './whatsapp';
+
+const JOB_INTERVAL_SECONDS = parseInt(process.env.WHATSAPP_HEALTH_INTERVAL_SECONDS || '60');
+
+export interface WhatsappHealthResult {
+  checked: number;
+  connected: number;
+  awaitingQr: number;
+  disconnected: number;
+}
+
+// Check the connection of every active instance. Instances that dropped since
+// the previous check are logged, so a lost connection shows up in the server
+// log as well as on the instances page.
+export async function runWhatsappHealthCheck(now: Date = new Date()): Promise<WhatsappHealthResult> {
+  const result: WhatsappHealthResult = { checked: 0, connected: 0, awaitingQr: 0, disconnected: 0 };
+
+  const instances = (await storage.getAllWhatsappInstances()).filter((instance) => instance.isActive);
+  for (const instance of instances) {
+    try {
+      const checked = await checkWhatsappInstanceConnection(instance, now);
+      result.checked++;
+
+      if (checked.connectionStatus === 'connected') {
+        result.connected++;
+      } else if (checked.connectionStatus === 'awaiting_qr') {
+        result.awaitingQr++;
+      } else {
+        result.disconnected++;
+      }
+
+      if (instance.connectionStatus === 'connected' && checked.connectionStatus !== 'connected') {
+        console.warn(`WhatsApp instance ${instance.id} (${instance.name}) lost its connection: ${checked.connectionError ?? checked.connectionStatus}`);
+      }
+    } catch (error) {
+      console.error(`WhatsApp health check failed for instance ${instance.id}:`, error);
+    }
+  }
+
+  return result;
+}
+
+let running = false;
+
+// Check the instances now and then every WHATSAPP_HEALTH_INTERVAL_SECONDS.
+// A run is skipped while the previous one is still going.
+export function startWhatsappHealthJob(): NodeJS.Timeout {
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runWhatsappHealthCheck();
+    } catch (error) {
+      console.error('WhatsApp health check run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, JOB_INTERVAL_SECONDS * 1000);
+}
@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import type { UpdateWhatsappConversation, WhatsappConversation, WhatsappInstance, WhatsappMessage } from '@shared/schema';
+import { storage } from './storage';
+import { secureCompare } from './payment-gateways/adapter';
+import {
+  WhatsappError,
+  applyWhatsappStatus,
+  logWhatsappMessage,
+  mapWhatsappConnectionState,
+  mapWhatsappStatus,
+  sendWhatsappText,
+} from './whatsapp';
+import { handlePaymentReminderOptOut } from './payment-reminders';
+
+// The instance API calls POST /api/webhooks/whatsapp/{instanceId}?token={webhookSecret}
+// (Evolution API style) with:
+//   messages.upsert    { data: { key: { remoteJid, fromMe, id }, pushName, message, messageTimestamp } }
+//   messages.update    { data: { keyId, status } }
+//   connection.update  { data: { state } }
+// Event names are also accepted in upper snake case (MESSAGES_UPSERT).
+
+// received: a message was added to a conversation; updated: a message or the
+// instance changed; ignored: nothing to do; duplicate: already received
+export type WhatsappWebhookResult = 'received' | 'updated' | 'ignored' | 'duplicate';
+
+interface WebhookMessageKey {
+  remoteJid?: string;
+  fromMe?: boolean;
+  id?: string;
+}
+
+interface WebhookMediaMessage {
+  caption?: string;
+  url?: string;
+  mimetype?: string;
+  fileName?: string;
+}
+
+interface WebhookPayload {
+  event?: string;
+  data?: {
+    key?: WebhookMessageKey;
+    keyId?: string;
+    pushName?: string;
+    message?: {
+      conversation?: string;
+      extendedTextMessage?: { text?: string };
+      imageMessage?: WebhookMediaMessage;
+      videoMessage?: WebhookMediaMessage;
+      audioMessage?: WebhookMediaMessage;
+      documentMessage?: WebhookMediaMessage;
+    };
+    messageTimestamp?: number | string;
+    status?: string;
+    state?: string;
+  };
+}
+
+type WebhookMessageContent = Pick<WhatsappMessage, 'type'> & Partial<Pick<WhatsappMessage, 'body' | 'mediaUrl' | 'mediaType' | 'fileName'>>;
+
+const MEDIA_KINDS = ['image', 'video', 'audio', 'document'] as const;
+
+function parseContent(message: NonNullable<WebhookPayload['data']>['message']): WebhookMessageContent | undefined {
+  if (!message) return undefined;
+
+  const text = message.conversation ?? message.extendedTextMessage?.text;
+  if (text !== undefined) {
+    return { type: 'text', body: text };
+  }
+
+  for (const kind of MEDIA_KINDS) {
+    const media = message[`${kind}Message`];
+    if (media) {
+      return {
+        type: 'media',
+        body: media.caption ?? null,
+        mediaUrl: media.url ?? null,
+        mediaType: kind,
+        fileName: media.fileName ?? null,
+      };
+    }
+  }
+  return undefined;
+}
+
+// "5511987654321@s.whatsapp.net" -> "5511987654321"; group chats are not handled
+function contactFromJid(jid: string | undefined): string | undefined {
+  const match = jid?.match(/^(\d{10,15})@s\.whatsapp\.net$/);
+  return match?.[1];
+}
+
+function timestampToDate(timestamp: number | string | undefined): Date {
+  const seconds = Number(timestamp);
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : new Date();
+}
+
+export function verifyWhatsappWebhook(instance: WhatsappInstance, token: unknown): boolean {
+  return typeof token === 'string' && secureCompare(token, instance.webhookSecret ?? undefined);
+}
+
+// The secret is created the first time the webhook settings are requested
+export async function getWhatsappWebhookSecret(instance: WhatsappInstance): Promise<string> {
+  if (instance.webhookSecret) return instance.webhookSecret;
+  return await rotateWhatsappWebhookSecret(instance);
+}
+
+export async function rotateWhatsappWebhookSecret(instance: WhatsappInstance): Promise<string> {
+  const secret = crypto.randomBytes(24).toString('hex');
+  await storage.setWhatsappInstanceWebhookSecret(instance.id, secret);
+  return secret;
+}
+
+async function receiveMessage(instance: WhatsappInstance, data: NonNullable<WebhookPayload['data']>): Promise<WhatsappWebhookResult> {
+  const contact = contactFromJid(data.key?.remoteJid);
+  const content = parseContent(data.message);
+  if (!contact || !data.key?.id || !content) {
+    return 'ignored';
+  }
+
+  if (await storage.getWhatsappMessageByExternalId(instance.id, data.key.id)) {
+    // Includes the echo of messages sent through the API
+    return 'duplicate';
+  }
+
+  const occurredAt = timestampToDate(data.messageTimestamp);
+  // fromMe: sent from the phone paired with the instance
+  const message = await logWhatsappMessage(instance, {
+    ...content,
+    to: contact,
+    direction: data.key.fromMe ? 'outbound' : 'inbound',
+    status: data.key.fromMe ? 'sent' : 'received',
+    externalId: data.key.id,
+    sentAt: occurredAt,
+  });
+
+  if (!data.key.fromMe && message.conversationId) {
+    const conversation = await storage.getWhatsappConversation(message.conversationId);
+    if (conversation && data.pushName && conversation.contactName !== data.pushName) {
+      await storage.updateWhatsappConversation(conversation.id, { contactName: data.pushName });
+    }
+    await handlePaymentReminderOptOut(instance.entrepreneurId, contact, conversation?.customerId ?? null, message.body);
+  }
+  return 'received';
+}
+
+async function updateMessageStatus(instance: WhatsappInstance, data: NonNullable<WebhookPayload['data']>): Promise<WhatsappWebhookResult> {
+  const externalId = data.keyId ?? data.key?.id;
+  const message = externalId && await storage.getWhatsappMessageByExternalId(instance.id, externalId);
+  if (!message || !data.status) {
+    return 'ignored';
+  }
+  return await applyWhatsappStatus(message, mapWhatsappStatus(data.status)) ? 'updated' : 'ignored';
+}
+
+async function updateConnection(instance: WhatsappInstance, data: NonNullable<WebhookPayload['data']>): Promise<WhatsappWebhookResult> {
+  if (!data.state) {
+    return 'ignored';
+  }
+  const now = new Date();
+  const connectionStatus = mapWhatsappConnectionState(data.state);
+  await storage.updateWhatsappInstanceConnection(instance.id, {
+    connectionStatus,
+    connectionError: null,
+    lastCheckedAt: now,
+    ...(connectionStatus === 'connected' && { lastSeenAt: now }),
+  });
+  return 'updated';
+}
+
+// Apply a webhook call whose token has already been verified
+export async function receiveWhatsappWebhook(instance: WhatsappInstance, body: unknown): Promise<WhatsappWebhookResult> {
+  const payload = (body ?? {}) as WebhookPayload;
+  if (!payload.data) {
+    return 'ignored';
+  }
+
+  switch (payload.event?.toLowerCase().replace(/_/g, '.')) {
+    case 'messages.upsert':
+      return await receiveMessage(instance, payload.data);
+    case 'messages.update':
+      return await updateMessageStatus(instance, payload.data);
+    case 'connection.update':
+      return await updateConnection(instance, payload.data);
+    default:
+      return 'ignored';
+  }
+}
+
+// Assign a conversation to the entrepreneur or one of their collaborators, link
+// it to a customer, or close and reopen it
+export async function editWhatsappConversation(
+  conversation: WhatsappConversation,
+  update: UpdateWhatsappConversation,
+): Promise<WhatsappConversation | undefined> {
+  if (update.assignedTo) {
+    const assignee = await storage.getUser(update.assignedTo);
+    const isTeamMember = assignee && (
+      (assignee.role === 'entrepreneur' && assignee.id === conversation.entrepreneurId) ||
+      (assignee.role === 'collaborator' && assignee.entrepreneurId === conversation.entrepreneurId)
+    );
+    if (!isTeamMember) {
+      throw new WhatsappError('Conversations can only be assigned to the entrepreneur or their collaborators');
+    }
+  }
+  if (update.customerId) {
+    const customer = await storage.getUser(update.customerId);
+    if (customer?.role !== 'customer' || customer.entrepreneurId !== conversation.entrepreneurId) {
+      throw new WhatsappError('Customer not found');
+    }
+  }
+
+  return await storage.updateWhatsappConversation(conversation.id, update);
+}
+
+export async function markWhatsappConversationRead(conversation: WhatsappConversation): Promise<WhatsappConversation | undefined> {
+  if (conversation.unreadCount === 0) return conversation;
+  return await storage.updateWhatsappConversation(conversation.id, { unreadCount: 0 });
+}
+
+// Answer the contact through the conversation's instance. Replying reads the
+// conversation.
+export async function replyToWhatsappConversation(conversation: WhatsappConversation, text: string, sentBy: number): Promise<WhatsappMessage> {
+  const instance = await storage.getWhatsappInstance(conversation.instanceId);
+  if (!instance) {
+    throw new WhatsappError('WhatsApp instance not found');
+  }
+
+  const message = await sendWhatsappText(instance, {
+    to: conversation.contact,
+    customerId: conversation.customerId ?? undefined,
+    text,
+  }, sentBy);
+  await markWhatsappConversationRead(conversation);
+  return message;
+}
@@ -0,0 +1,284 @@
+import type { InsertWhatsappMessage, SendWhatsappMedia, SendWhatsappTemplate, SendWhatsappText, WhatsappInstance, WhatsappMessage } from '@shared/schema';
+import { storage, type WhatsappMessageOrigin } from './storage';
+import { gatewayRequest, joinUrl } from './payment-gateways/adapter';
+
+// Messages go out through the instance API at `apiUrl` (Evolution API style),
+// addressed by the instance number:
+//   POST {apiUrl}/message/sendText/{instanceNumber}      { number, text }
+//   POST {apiUrl}/message/sendMedia/{instanceNumber}     { number, mediatype, media, caption, fileName }
+//   POST {apiUrl}/message/sendTemplate/{instanceNumber}  { number, name, language, components }
+//   GET  {apiUrl}/message/status/{instanceNumber}/{id}   -> { status }
+//   GET  {apiUrl}/instance/connectionState/{instanceNumber} -> { instance: { state } }
+//   POST {apiUrl}/qrcode/{instanceNumber}                -> { qrCode }
+// Send responses carry the message id in key.id. Run `npm run whatsapp:mock`
+// for a local server that speaks this protocol.
+
+export type WhatsappMessageStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type WhatsappConnectionStatus = 'unknown' | 'disconnected' | 'awaiting_qr' | 'connected';
+
+// Order of the delivery statuses; a message never moves back
+const STATUS_ORDER: WhatsappMessageStatus[] = ['queued', 'sent', 'delivered', 'read'];
+
+// Expected failures the caller can fix (e.g. an inactive instance), as opposed
+// to errors returned by the instance API itself
+export class WhatsappError extends Error {}
+
+interface SendResponse {
+  key?: { id?: string };
+  status?: string;
+}
+
+export function mapWhatsappStatus(status: string | undefined): WhatsappMessageStatus {
+  switch (status?.toUpperCase()) {
+    case 'DELIVERY_ACK':
+    case 'DELIVERED':
+      return 'delivered';
+    case 'READ':
+    case 'PLAYED':
+      return 'read';
+    case 'ERROR':
+    case 'FAILED':
+      return 'failed';
+    default:
+      return 'sent';
+  }
+}
+
+export function mapWhatsappConnectionState(state: string | undefined): WhatsappConnectionStatus {
+  switch (state?.toLowerCase()) {
+    case 'open':
+    case 'connected':
+      return 'connected';
+    case 'connecting':
+    case 'qr':
+      return 'awaiting_qr';
+    default:
+      return 'disconnected';
+  }
+}
+
+// Request to an instance API route such as /message/sendText, which takes the
+// instance number (and optionally more path segments) after it. Defaults to
+// POST when there is a body and GET otherwise.
+function instanceRequest<T>(
+  instance: WhatsappInstance,
+  route: string,
+  options: { method?: string; body?: unknown; suffix?: string } = {},
+): Promise<T> {
+  const path = `${route}/${encodeURIComponent(instance.instanceNumber)}${options.suffix ?? ''}`;
+  return gatewayRequest<T>('WhatsApp', joinUrl(instance.apiUrl, path), {
+    method: options.method ?? (options.body === undefined ? 'GET' : 'POST'),
+    body: options.body,
+  });
+}
+
+// Apply a delivery status to a logged message. Returns the updated message, or
+// undefined when the status does not move the message forward, so repeated or
+// out-of-order reports are harmless.
+export async function applyWhatsappStatus(
+  message: WhatsappMessage,
+  status: WhatsappMessageStatus,
+  occurredAt: Date = new Date(),
+  error?: string,
+): Promise<WhatsappMessage | undefined> {
+  if (message.direction === 'inbound') return undefined;
+  if (message.status === 'failed' || message.status === status) return undefined;
+  if (status !== 'failed' && STATUS_ORDER.indexOf(status) < STATUS_ORDER.indexOf(message.status as WhatsappMessageStatus)) {
+    return undefined;
+  }
+
+  return await storage.updateWhatsappMessage(message.id, {
+    status,
+    ...(status === 'failed' && { error: error ?? 'Reported as failed by the instance' }),
+    ...(status === 'sent' && !message.sentAt && { sentAt: occurredAt }),
+    ...(status === 'delivered' && { deliveredAt: occurredAt }),
+    ...(status === 'read' && { readAt: occurredAt, deliveredAt: message.deliveredAt ?? occurredAt }),
+  });
+}
+
+// Short text for conversation lists
+export function previewWhatsappMessage(message: Pick<WhatsappMessage, 'type' | 'body' | 'mediaType' | 'templateName'>): string {
+  switch (message.type) {
+    case 'media':
+      return message.body || `[${message.mediaType ?? 'media'}]`;
+    case 'template':
+      return `[template ${message.templateName}]`;
+    default:
+      return message.body ?? '';
+  }
+}
+
+// Log a message in the conversation with its contact, starting the
+// conversation if needed
+export async function logWhatsappMessage(
+  instance: WhatsappInstance,
+  message: Omit<InsertWhatsappMessage, 'instanceId' | 'entrepreneurId' | 'conversationId'> & WhatsappMessageOrigin,
+): Promise<WhatsappMessage> {
+  const conversation = await storage.findOrCreateWhatsappConversation({
+    instanceId: instance.id,
+    entrepreneurId: instance.entrepreneurId,
+    contact: message.to,
+  });
+  const logged = await storage.createWhatsappMessage({
+    ...message,
+    instanceId: instance.id,
+    entrepreneurId: instance.entrepreneurId,
+    conversationId: conversation.id,
+  });
+  await storage.recordWhatsappConversationActivity(conversation.id, {
+    direction: logged.direction,
+    createdAt: logged.createdAt,
+    preview: previewWhatsappMessage(logged),
+  });
+  return logged;
+}
+
+// Log a message, then hand it to the instance API. The returned message is
+// 'sent' on success or 'failed' with the API error; it is logged either way,
+// in the conversation with the recipient.
+async function dispatch(
+  instance: WhatsappInstance,
+  message: Omit<InsertWhatsappMessage, 'instanceId' | 'entrepreneurId' | 'conversationId'>,
+  route: string,
+  body: unknown,
+): Promise<WhatsappMessage> {
+  if (!instance.isActive) {
+    throw new WhatsappError('WhatsApp instance is not active');
+  }
+  if (message.customerId) {
+    const customer = await storage.getUser(message.customerId);
+    if (customer?.role !== 'customer' || customer.entrepreneurId !== instance.entrepreneurId) {
+      throw new WhatsappError('Customer not found');
+    }
+  }
+
+  const logged = await logWhatsappMessage(instance, message);
+
+  try {
+    const response = await instanceRequest<SendResponse | undefined>(instance, route, { body });
+    const sent = await storage.updateWhatsappMessage(logged.id, {
+      status: 'sent',
+      externalId: response?.key?.id ?? null,
+      sentAt: new Date(),
+    });
+    const status = mapWhatsappStatus(response?.status);
+    if (sent && status !== 'sent') {
+      return await applyWhatsappStatus(sent, status) ?? sent;
+    }
+    return sent ?? logged;
+  } catch (error) {
+    console.error(`Failed to send WhatsApp message ${logged.id} through instance ${instance.id}:`, error);
+    const failed = await storage.updateWhatsappMessage(logged.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return failed ?? logged;
+  }
+}
+
+// sentBy is null for automated messages such as payment reminders
+export async function sendWhatsappText(instance: WhatsappInstance, input: SendWhatsappText, sentBy: number | null): Promise<WhatsappMessage> {
+  return await dispatch(instance, {
+    to: input.to,
+    customerId: input.customerId ?? null,
+    type: 'text',
+    body: input.text,
+    sentBy,
+  }, '/message/sendText', { number: input.to, text: input.text });
+}
+
+export async function sendWhatsappMedia(instance: WhatsappInstance, input: SendWhatsappMedia, sentBy: number): Promise<WhatsappMessage> {
+  return await dispatch(instance, {
+    to: input.to,
+    customerId: input.customerId ?? null,
+    type: 'media',
+    body: input.caption ?? null,
+    mediaUrl: input.mediaUrl,
+    mediaType: input.mediaType,
+    fileName: input.fileName ?? null,
+    sentBy,
+  }, '/message/sendMedia', {
+    number: input.to,
+    mediatype: input.mediaType,
+    media: input.mediaUrl,
+    caption: input.caption,
+    fileName: input.fileName,
+  });
+}
+
+export async function sendWhatsappTemplate(instance: WhatsappInstance, input: SendWhatsappTemplate, sentBy: number): Promise<WhatsappMessage> {
+  return await dispatch(instance, {
+    to: input.to,
+    customerId: input.customerId ?? null,
+    type: 'template',
+    templateName: input.templateName,
+    templateLanguage: input.language,
+    templateParams: input.parameters,
+    sentBy,
+  }, '/message/sendTemplate', {
+    number: input.to,
+    name: input.templateName,
+    language: input.language,
+    components: input.parameters.length > 0
+      ? [{ type: 'body', parameters: input.parameters.map((text) => ({ type: 'text', text })) }]
+      : [],
+  });
+}
+
+// Ask the instance API for the current delivery status of a sent message
+export async function refreshWhatsappMessageStatus(message: WhatsappMessage): Promise<WhatsappMessage> {
+  if (!message.externalId || !message.instanceId) {
+    throw new WhatsappError('Message was not accepted by an instance, so it has no delivery status');
+  }
+  const instance = await storage.getWhatsappInstance(message.instanceId);
+  if (!instance) {
+    throw new WhatsappError('WhatsApp instance not found');
+  }
+
+  const response = await instanceRequest<{ status?: string }>(instance, '/message/status', {
+    suffix: `/${encodeURIComponent(message.externalId)}`,
+  });
+  return await applyWhatsappStatus(message, mapWhatsappStatus(response.status)) ?? message;
+}
+
+// Ask the instance API whether the instance is connected to WhatsApp and store
+// the result. An unreachable API counts as disconnected, with the error kept in
+// connectionError.
+export async function checkWhatsappInstanceConnection(instance: WhatsappInstance, now: Date = new Date()): Promise<WhatsappInstance> {
+  let connectionStatus: WhatsappConnectionStatus;
+  let connectionError: string | null = null;
+  try {
+    const response = await instanceRequest<{ instance?: { state?: string }; state?: string } | undefined>(
+      instance,
+      '/instance/connectionState',
+    );
+    connectionStatus = mapWhatsappConnectionState(response?.instance?.state ?? response?.state);
+  } catch (error) {
+    connectionStatus = 'disconnected';
+    connectionError = error instanceof Error ? error.message : String(error);
+  }
+
+  const updated = await storage.updateWhatsappInstanceConnection(instance.id, {
+    connectionStatus,
+    connectionError,
+    lastCheckedAt: now,
+    ...(connectionStatus === 'connected' && { lastSeenAt: now }),
+  });
+  return updated ?? instance;
+}
+
+// Request a fresh QR code to pair (or re-pair) the instance. The instance is
+// awaiting the scan until a health check finds it connected.
+export async function requestWhatsappQrCode(instance: WhatsappInstance): Promise<{ qrCode?: string }> {
+  const qrData = await instanceRequest<{ qrCode?: string; qr_code?: string; qrCodeBase64?: string; base64?: string } | undefined>(
+    instance,
+    '/qrcode',
+    { method: 'POST' },
+  );
+  await storage.updateWhatsappInstanceConnection(instance.id, {
+    connectionStatus: 'awaiting_qr',
+    connectionError: null,
+  });
+  return { qrCode: qrData?.qrCode ?? qrData?.qr_code ?? qrData?.qrCodeBase64 ?? qrData?.base64 };
+}
@@ -0,0 +1,77 @@
+// Money helpers shared by the server and the client. Amounts travel as
+// decimal strings ("1299.90"), the way Postgres numeric columns are returned.
+
+export const CURRENCIES = ['BRL', 'USD', 'EUR'] as const;
+export type Currency = typeof CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: Currency = 'BRL';
+
+// Number of installments of each plan type
+export const PLAN_INSTALLMENTS: Record<string, number> = {
+  '3x': 3,
+  '12x': 12,
+};
+
+// Locale used to format a currency when the caller does not pick one
+const CURRENCY_LOCALES: Record<string, string> = {
+  BRL: 'pt-BR',
+  USD: 'en-US',
+  EUR: 'de-DE',
+};
+
+export function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function formatMoney(amount: string | number | null | undefined, currency: string = DEFAULT_CURRENCY, locale?: string): string {
+  return new Intl.NumberFormat(locale ?? CURRENCY_LOCALES[currency], {
+    style: 'currency',
+    currency,
+  }).format(Number(amount ?? 0));
+}
+
+// Split a total into installments that add up to the total to the cent.
+// Leftover cents go to the first installments.
+export function splitInstallments(total: string | number, count: number): string[] {
+  const cents = toCents(total);
+  const base = Math.floor(cents / count);
+  const remainder = cents - base * count;
+  return Array.from({ length: count }, (_, i) => fromCents(base + (i < remainder ? 1 : 0)));
+}
+
+// Value of one installment of a plan type (the first, which is the largest)
+export function installmentAmount(total: string | number, planType: string): string {
+  return splitInstallments(total, PLAN_INSTALLMENTS[planType] ?? 1)[0];
+}
+
+// Parse a price typed as free text ("R$ 1.299,90", "$89.99", "1,299.90")
+// into a decimal string. Returns null when there is no number in it.
+export function parseMoney(value: string): string | null {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) {
+    return null;
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  let normalized: string;
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Whichever separator comes last is the decimal one
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const parts = cleaned.split(separator);
+    // A single separator followed by exactly three digits groups thousands
+    const isThousands = parts.length > 2 || (parts.length === 2 && parts[1].length === 3);
+    normalized = isThousands ? parts.join('') : parts.join('.');
+  }
+
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? amount.toFixed(2) : null;
+}
@@ -0,0 +1,140 @@
+// Everything a user can be allowed to do. Server routes, the sidebar and
+// buttons check these instead of role names.
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'users:assign-any-role',
+  'users:security',
+  'sessions:manage',
+  'roles:manage',
+  'gateways:read',
+  'gateways:write',
+  'gateways:reveal',
+  'payment-events:read',
+  'payment-events:replay',
+  'collaborators:read',
+  'collaborators:write',
+  'whatsapp:read',
+  'whatsapp:send',
+  'whatsapp:manage',
+  'price-tables:write',
+  'customer-plans:write',
+  'coupons:read',
+  'coupons:write',
+  'reminders:read',
+  'reminders:write',
+  'tickets:read',
+  'tickets:write',
+  'tickets:assign',
+  'support-settings:read',
+  'support-settings:write',
+  'notifications:read',
+  'accounting:read',
+  'accounting:write',
+  'utilities:hash',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'users:read': 'See users',
+  'users:write': 'Create, edit and delete users',
+  'users:assign-any-role': 'Give users any role, not only collaborator or customer',
+  'users:security': 'Send invites, unlock sign-ins and reset two-factor authentication',
+  'sessions:manage': "See and sign out other users' sessions",
+  'roles:manage': 'Create custom roles and grant them to collaborators',
+  'gateways:read': 'See payment gateways',
+  'gateways:write': 'Add, edit and remove payment gateways',
+  'gateways:reveal': 'Reveal payment gateway credentials',
+  'payment-events:read': 'See payment webhook events',
+  'payment-events:replay': 'Replay payment webhook events',
+  'collaborators:read': 'See collaborators',
+  'collaborators:write': 'Add, edit and remove collaborators',
+  'whatsapp:read': 'See WhatsApp instances, messages and conversations',
+  'whatsapp:send': 'Send WhatsApp messages and handle conversations',
+  'whatsapp:manage': 'Add, connect, edit and remove WhatsApp instances and their webhooks',
+  'price-tables:write': 'Create, edit and delete price tables',
+  'customer-plans:write': 'Create, change and cancel customer plans',
+  'coupons:read': 'See coupons and their redemptions',
+  'coupons:write': 'Create, edit and delete coupons',
+  'reminders:read': 'See payment reminders and their rules',
+  'reminders:write': 'Create, edit and delete payment reminder rules',
+  'tickets:read': 'See support tickets and their timeline',
+  'tickets:write': 'Update and reply to support tickets',
+  'tickets:assign': 'Assign support tickets to agents',
+  'support-settings:read': 'See support SLA policies and routing rules',
+  'support-settings:write': 'Change support SLA policies and routing rules',
+  'notifications:read': 'See the outgoing email queue',
+  'accounting:read': 'See accounting entries',
+  'accounting:write': 'Create, edit and delete accounting entries',
+  'utilities:hash': 'Hash passwords for mock data',
+};
+
+// What entrepreneurs may put in a custom role. Only permissions over data of
+// their own tenant: support tickets, for one, are shared by every tenant.
+export const GRANTABLE_PERMISSIONS = [
+  'gateways:read',
+  'gateways:write',
+  'gateways:reveal',
+  'collaborators:read',
+  'collaborators:write',
+  'whatsapp:read',
+  'whatsapp:send',
+  'whatsapp:manage',
+  'customer-plans:write',
+  'coupons:read',
+  'coupons:write',
+  'reminders:read',
+  'reminders:write',
+  'accounting:read',
+  'accounting:write',
+] as const satisfies readonly Permission[];
+
+export type BuiltInRole = 'super-admin' | 'entrepreneur' | 'collaborator' | 'customer';
+
+export const ROLE_PERMISSIONS: Record<BuiltInRole, readonly Permission[]> = {
+  'super-admin': PERMISSIONS,
+  'entrepreneur': [
+    'users:read',
+    'users:write',
+    'users:security',
+    'roles:manage',
+    'gateways:read',
+    'gateways:write',
+    'gateways:reveal',
+    'collaborators:read',
+    'collaborators:write',
+    'whatsapp:read',
+    'whatsapp:send',
+    'whatsapp:manage',
+    'customer-plans:write',
+    'coupons:read',
+    'coupons:write',
+    'reminders:read',
+    'reminders:write',
+    'accounting:read',
+    'accounting:write',
+  ],
+  'collaborator': [
+    'users:read',
+    'whatsapp:read',
+    'whatsapp:send',
+  ],
+  'customer': [],
+};
+
+// Permissions of a user: those of their role plus, for collaborators, the
+// grantable ones of the custom role their entrepreneur gave them
+export function getPermissions(role: string, granted: readonly string[] = []): Permission[] {
+  const permissions = new Set<Permission>(ROLE_PERMISSIONS[role as BuiltInRole] ?? []);
+  if (role === 'collaborator') {
+    for (const permission of GRANTABLE_PERMISSIONS) {
+      if (granted.includes(permission)) permissions.add(permission);
+    }
+  }
+  return PERMISSIONS.filter((permission) => permissions.has(permission));
+}
+
+export function hasPermission(permissions: readonly string[] | undefined, permission: Permission): boolean {
+  return !!permissions?.includes(permission);
+}
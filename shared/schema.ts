@@ -1,6 +1,9 @@
-import { pgTable, text, serial, timestamp, varchar, boolean, integer, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, varchar, boolean, integer, decimal, unique, uuid } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CURRENCIES, DEFAULT_CURRENCY } from "./money";
+import type { SupportTicketSla } from "./sla";
+import { GRANTABLE_PERMISSIONS } from "./permissions";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -9,33 +12,92 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   role: varchar("role", { length: 50 }).notNull().default("customer"),
   avatar: text("avatar"),
+  phone: varchar("phone", { length: 20 }), // Digits only, with country code; used for WhatsApp
+  whatsappOptOutAt: timestamp("whatsapp_opt_out_at"), // Set when the customer asked not to receive WhatsApp reminders
   entrepreneurId: integer("entrepreneur_id"), // References users.id, null for super-admin and entrepreneurs
+  customRoleId: integer("custom_role_id"), // References custom_roles.id; extra permissions of a collaborator
+  isActive: boolean("is_active").default(true).notNull(), // Deactivated users cannot sign in
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Phone numbers are stored as digits only, e.g. "+55 (11) 98765-4321" -> "5511987654321"
+const phoneNumber = z.string()
+  .transform((phone) => phone.replace(/\D/g, ''))
+  .pipe(z.string().regex(/^\d{10,15}$/, "Enter the phone number with country and area code"));
+
+const optionalPhoneNumber = z.union([z.literal('').transform(() => null), phoneNumber]).nullish();
+
+// New users choose their own password through the invite link
 export const insertUserSchema = createInsertSchema(users).pick({
   name: true,
   email: true,
-  password: true,
   role: true,
   avatar: true,
   entrepreneurId: true,
+  customRoleId: true,
+}).extend({
+  phone: optionalPhoneNumber,
 });
 
+// No password: it is only ever set through an invite or reset link
 export const updateUserSchema = createInsertSchema(users).pick({
   name: true,
   email: true,
-  password: true,
   role: true,
   avatar: true,
   entrepreneurId: true,
+  customRoleId: true,
+  isActive: true,
+}).extend({
+  phone: optionalPhoneNumber,
+  whatsappOptOut: z.boolean(), // Stored as whatsappOptOutAt
 }).partial();
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// A user as sent to clients, without the password hash
+export type PublicUser = Omit<User, 'password'>;
+
+export function toPublicUser({ password, ...user }: User): PublicUser {
+  return user;
+}
+
+// Permission sets an entrepreneur defines for their collaborators, on top of
+// what the collaborator role allows (see shared/permissions.ts)
+export const customRoles = pgTable("custom_roles", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(), // Unique per entrepreneur
+  description: text("description"),
+  permissions: text("permissions").array().notNull().default([]), // From GRANTABLE_PERMISSIONS
+  entrepreneurId: integer("entrepreneur_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  nameUnique: unique().on(table.entrepreneurId, table.name),
+}));
+
+const customRoleFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  permissions: z.array(z.enum(GRANTABLE_PERMISSIONS)),
+};
+
+export const insertCustomRoleSchema = createInsertSchema(customRoles).omit({
+  id: true,
+  entrepreneurId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(customRoleFields);
+
+export const updateCustomRoleSchema = insertCustomRoleSchema.partial();
+
+export type CustomRole = typeof customRoles.$inferSelect;
+export type InsertCustomRole = z.infer<typeof insertCustomRoleSchema>;
+export type UpdateCustomRole = z.infer<typeof updateCustomRoleSchema>;
+
 // Refresh Tokens table for JWT token management
 export const refreshTokens = pgTable("refresh_tokens", {
   id: serial("id").primaryKey(),
@@ -45,24 +107,128 @@ export const refreshTokens = pgTable("refresh_tokens", {
   isRevoked: boolean("is_revoked").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   revokedAt: timestamp("revoked_at"),
+  revokeReason: varchar("revoke_reason", { length: 20 }), // See RefreshTokenRevokeReason
+  // Each refresh replaces the token with a new one of the same family. A
+  // family is one signed-in session; rotation hands these to the next token.
+  familyId: uuid("family_id").defaultRandom().notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  signedInAt: timestamp("signed_in_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
 });
 
 export const insertRefreshTokenSchema = createInsertSchema(refreshTokens).pick({
   token: true,
   userId: true,
   expiresAt: true,
+  familyId: true,
+  userAgent: true,
+  ipAddress: true,
+  signedInAt: true,
 });
 
 export type InsertRefreshToken = z.infer<typeof insertRefreshTokenSchema>;
 export type RefreshToken = typeof refreshTokens.$inferSelect;
 
+// rotated: replaced by the next token of its session on refresh. revoked:
+// signed out, expired, or ended by a password reset or deactivation.
+// reused: its session was ended because a rotated token came back.
+export type RefreshTokenRevokeReason = 'rotated' | 'revoked' | 'reused';
+
+// A signed-in device as shown to users: a refresh token without its secret
+export type UserSession = Pick<RefreshToken, 'id' | 'userAgent' | 'ipAddress' | 'signedInAt' | 'lastUsedAt' | 'expiresAt'> & {
+  current: boolean; // The session making the request
+};
+
+// Single-use links that let a user set their password: "invite" for new
+// accounts, "reset" for forgotten passwords. Only a hash of the token is kept.
+export const passwordTokens = pgTable("password_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(), // SHA-256, hex
+  purpose: varchar("purpose", { length: 20 }).notNull(), // invite, reset
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type PasswordTokenPurpose = 'invite' | 'reset';
+export type PasswordToken = typeof passwordTokens.$inferSelect;
+export type InsertPasswordToken = Pick<PasswordToken, 'userId' | 'tokenHash' | 'purpose' | 'expiresAt'>;
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email().max(255),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().trim().min(1).max(128),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
+});
+
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+
+// Counters of the database rate limit store (server/rate-limit-stores), e.g.
+// failed logins per IP and per account. A counter starts over after resetAt.
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  count: integer("count").notNull().default(0),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+export type RateLimitCounter = Pick<typeof rateLimitCounters.$inferSelect, 'count' | 'resetAt'>;
+
+// TOTP second factor of a user. The secret is stored on enrolment but only
+// asked for at login once it was confirmed with a code (enabledAt).
+export const userMfa = pgTable("user_mfa", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32, encrypted at rest (server/credentials.ts)
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so each code works once
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use codes to sign in without the authenticator app. Only hashes are kept.
+export const mfaRecoveryCodes = pgTable("mfa_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(), // SHA-256, hex
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type UserMfa = typeof userMfa.$inferSelect;
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+
+const totpCode = z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code");
+
+export const mfaCodeSchema = z.object({
+  code: totpCode,
+});
+
+// Proof of the second factor: the code from the app or one of the recovery codes
+const mfaChallengeSchema = z.object({
+  code: totpCode.optional(),
+  recoveryCode: z.string().trim().min(1).max(32).optional(),
+});
+
+const hasOneMfaAnswer = (data: z.infer<typeof mfaChallengeSchema>) => !!data.code !== !!data.recoveryCode;
+
+// Second login step, after the password
+export const verifyMfaSchema = mfaChallengeSchema.extend({
+  mfaToken: z.string().min(1),
+}).refine(hasOneMfaAnswer, { message: "Provide either a code or a recovery code" });
+
+export const disableMfaSchema = mfaChallengeSchema
+  .refine(hasOneMfaAnswer, { message: "Provide either a code or a recovery code" });
+
 export const paymentGateways = pgTable("payment_gateways", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  type: varchar("type", { length: 50 }).notNull(), // 'asaas', 'mercado_pago', 'pagseguro'
+  type: varchar("type", { length: 50 }).notNull(), // 'asaas', 'mercado_pago', 'pagseguro' ('fake' outside production)
   apiUrl: text("api_url").notNull(),
-  publicKey: text("public_key").notNull(),
-  token: text("token").notNull(),
+  publicKey: text("public_key").notNull(), // Encrypted at rest (server/credentials.ts)
+  token: text("token").notNull(), // Encrypted at rest (server/credentials.ts)
+  webhookSecret: text("webhook_secret"), // Verifies inbound payment webhooks, encrypted at rest
   email: text("email"), // Gateway associated email
   isActive: boolean("is_active").default(true).notNull(),
   createdBy: integer("created_by").references(() => users.id),
@@ -77,6 +243,7 @@ export const insertPaymentGatewaySchema = createInsertSchema(paymentGateways).pi
   apiUrl: true,
   publicKey: true,
   token: true,
+  webhookSecret: true,
   email: true,
   isActive: true,
 });
@@ -87,6 +254,7 @@ export const updatePaymentGatewaySchema = createInsertSchema(paymentGateways).pi
   apiUrl: true,
   publicKey: true,
   token: true,
+  webhookSecret: true,
   email: true,
   isActive: true,
 }).partial();
@@ -143,6 +311,11 @@ export const whatsappInstances = pgTable("whatsapp_instances", {
   instanceNumber: text("instance_number").notNull().unique(),
   apiUrl: text("api_url").notNull(),
   isActive: boolean("is_active").default(true).notNull(),
+  connectionStatus: varchar("connection_status", { length: 20 }).default("unknown").notNull(), // unknown, disconnected, awaiting_qr, connected
+  connectionError: text("connection_error"), // Why the last health check could not reach the instance
+  lastCheckedAt: timestamp("last_checked_at"),
+  lastSeenAt: timestamp("last_seen_at"), // Last health check that found the instance connected
+  webhookSecret: text("webhook_secret"), // Encrypted; authenticates the instance's webhook calls
   createdBy: integer("created_by").references(() => users.id),
   entrepreneurId: integer("entrepreneur_id").references(() => users.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -166,6 +339,119 @@ export const updateWhatsappInstanceSchema = createInsertSchema(whatsappInstances
 export type InsertWhatsappInstance = z.infer<typeof insertWhatsappInstanceSchema>;
 export type UpdateWhatsappInstance = z.infer<typeof updateWhatsappInstanceSchema>;
 export type WhatsappInstance = typeof whatsappInstances.$inferSelect;
+export type WhatsappInstanceConnection = Pick<WhatsappInstance, 'connectionStatus' | 'connectionError' | 'lastCheckedAt' | 'lastSeenAt'>;
+
+// WhatsApp Conversations - one thread per contact and instance, shared by the
+// entrepreneur and their collaborators in the inbox
+export const whatsappConversations = pgTable("whatsapp_conversations", {
+  id: serial("id").primaryKey(),
+  instanceId: integer("instance_id").references(() => whatsappInstances.id, { onDelete: "cascade" }).notNull(),
+  entrepreneurId: integer("entrepreneur_id").references(() => users.id).notNull(),
+  contact: varchar("contact", { length: 20 }).notNull(), // Digits only, with country code
+  contactName: varchar("contact_name", { length: 255 }), // WhatsApp profile name of the contact
+  customerId: integer("customer_id").references(() => users.id, { onDelete: "set null" }),
+  assignedTo: integer("assigned_to").references(() => users.id, { onDelete: "set null" }),
+  status: varchar("status", { length: 20 }).notNull().default("open"), // open, closed
+  unreadCount: integer("unread_count").notNull().default(0),
+  lastMessageAt: timestamp("last_message_at"),
+  lastMessagePreview: text("last_message_preview"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  instanceContactUnique: unique("whatsapp_conversations_instance_contact_unique").on(table.instanceId, table.contact),
+}));
+
+export const updateWhatsappConversationSchema = z.object({
+  assignedTo: z.number().int().nullable(),
+  customerId: z.number().int().nullable(),
+  status: z.enum(['open', 'closed']),
+}).partial();
+
+export const replyWhatsappConversationSchema = z.object({
+  text: z.string().trim().min(1).max(4096),
+});
+
+export type UpdateWhatsappConversation = z.infer<typeof updateWhatsappConversationSchema>;
+export type ReplyWhatsappConversation = z.infer<typeof replyWhatsappConversationSchema>;
+export type WhatsappConversation = typeof whatsappConversations.$inferSelect;
+
+export type WhatsappConversationWithAssignee = WhatsappConversation & {
+  assignee?: Pick<User, 'id' | 'name' | 'email'> | null;
+};
+
+// WhatsApp Messages - log of every message sent or received through an instance
+export const whatsappMessages = pgTable("whatsapp_messages", {
+  id: serial("id").primaryKey(),
+  instanceId: integer("instance_id").references(() => whatsappInstances.id, { onDelete: "set null" }), // Kept in the log when the instance is removed
+  entrepreneurId: integer("entrepreneur_id").references(() => users.id).notNull(),
+  conversationId: integer("conversation_id").references(() => whatsappConversations.id, { onDelete: "set null" }),
+  direction: varchar("direction", { length: 10 }).notNull().default("outbound"), // outbound, inbound
+  customerId: integer("customer_id").references(() => users.id, { onDelete: "set null" }),
+  to: varchar("to", { length: 20 }).notNull(), // The contact's number, digits only with country code, in both directions
+  type: varchar("type", { length: 20 }).notNull(), // text, media, template
+  body: text("body"), // Text or media caption
+  mediaUrl: text("media_url"),
+  mediaType: varchar("media_type", { length: 20 }), // image, video, audio, document
+  fileName: varchar("file_name", { length: 255 }),
+  templateName: varchar("template_name", { length: 255 }),
+  templateLanguage: varchar("template_language", { length: 20 }),
+  templateParams: text("template_params").array().notNull().default([]),
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, sent, delivered, read, failed; received for inbound
+  externalId: varchar("external_id", { length: 255 }), // Message id at the instance API
+  error: text("error"),
+  sentBy: integer("sent_by").references(() => users.id, { onDelete: "set null" }),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  instanceExternalIdUnique: unique("whatsapp_messages_instance_external_id_unique").on(table.instanceId, table.externalId),
+}));
+
+export const insertWhatsappMessageSchema = createInsertSchema(whatsappMessages).omit({
+  id: true,
+  direction: true,
+  status: true,
+  externalId: true,
+  error: true,
+  sentAt: true,
+  deliveredAt: true,
+  readAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+const whatsappRecipient = {
+  to: phoneNumber,
+  customerId: z.number().int().optional(),
+};
+
+export const sendWhatsappTextSchema = z.object({
+  ...whatsappRecipient,
+  text: z.string().trim().min(1).max(4096),
+});
+
+export const sendWhatsappMediaSchema = z.object({
+  ...whatsappRecipient,
+  mediaUrl: z.string().url(),
+  mediaType: z.enum(['image', 'video', 'audio', 'document']),
+  caption: z.string().trim().max(1024).optional(),
+  fileName: z.string().trim().max(255).optional(),
+});
+
+export const sendWhatsappTemplateSchema = z.object({
+  ...whatsappRecipient,
+  templateName: z.string().trim().min(1).max(255),
+  language: z.string().trim().min(2).max(20).default('pt_BR'),
+  parameters: z.array(z.string()).default([]),
+});
+
+export type InsertWhatsappMessage = z.infer<typeof insertWhatsappMessageSchema>;
+export type SendWhatsappText = z.infer<typeof sendWhatsappTextSchema>;
+export type SendWhatsappMedia = z.infer<typeof sendWhatsappMediaSchema>;
+export type SendWhatsappTemplate = z.infer<typeof sendWhatsappTemplateSchema>;
+export type WhatsappMessage = typeof whatsappMessages.$inferSelect;
 
 // Price Tables
 export const priceTables = pgTable("price_tables", {
@@ -173,10 +459,12 @@ export const priceTables = pgTable("price_tables", {
   title: varchar("title", { length: 255 }).notNull(),
   subtitle: varchar("subtitle", { length: 500 }),
   advantages: text("advantages").array().notNull().default([]),
-  oldPrice3x: text("old_price_3x"),
-  currentPrice3x: text("current_price_3x").notNull(),
-  oldPrice12x: text("old_price_12x"),
-  currentPrice12x: text("current_price_12x").notNull(),
+  // Plan totals; the installment values are derived from them
+  oldPrice3x: decimal("old_price_3x", { precision: 10, scale: 2 }),
+  currentPrice3x: decimal("current_price_3x", { precision: 10, scale: 2 }).notNull(),
+  oldPrice12x: decimal("old_price_12x", { precision: 10, scale: 2 }),
+  currentPrice12x: decimal("current_price_12x", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default(DEFAULT_CURRENCY),
   months: integer("months").default(3),
   image1: varchar("image1", { length: 500 }),
   image2: varchar("image2", { length: 500 }),
@@ -187,17 +475,29 @@ export const priceTables = pgTable("price_tables", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+const moneyAmount = z.string().trim().regex(/^\d{1,8}(\.\d{1,2})?$/, "Enter an amount such as 89.90");
+// Old prices are optional; forms send an empty string to clear them
+const optionalMoneyAmount = moneyAmount.nullish().or(z.literal("").transform(() => null));
+
+const priceTableFields = {
+  currentPrice3x: moneyAmount,
+  currentPrice12x: moneyAmount,
+  oldPrice3x: optionalMoneyAmount,
+  oldPrice12x: optionalMoneyAmount,
+  currency: z.enum(CURRENCIES).default(DEFAULT_CURRENCY),
+};
+
 export const insertPriceTableSchema = createInsertSchema(priceTables).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-});
+}).extend(priceTableFields);
 
 export const updatePriceTableSchema = createInsertSchema(priceTables).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
-}).partial();
+}).extend(priceTableFields).partial();
 
 export type InsertPriceTable = z.infer<typeof insertPriceTableSchema>;
 export type UpdatePriceTable = z.infer<typeof updatePriceTableSchema>;
@@ -210,12 +510,17 @@ export const customerPlans = pgTable("customer_plans", {
   priceTableId: integer("price_table_id").references(() => priceTables.id).notNull(),
   planType: varchar("plan_type", { length: 10 }).notNull(), // '3x' or '12x'
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  payHash: varchar("pay_hash", { length: 255 }),
-  payStatus: varchar("pay_status", { length: 50 }).notNull().default("pending"), // pending, paid, failed, expired
+  paymentGatewayId: integer("payment_gateway_id").references(() => paymentGateways.id), // Gateway that issued the charge
+  payHash: varchar("pay_hash", { length: 255 }), // Charge id at the payment gateway
+  payStatus: varchar("pay_status", { length: 50 }).notNull().default("pending"), // pending, paid, failed, expired, refunded
   payDate: timestamp("pay_date"),
   payLink: text("pay_link"),
   payExpiration: timestamp("pay_expiration"),
   planExpirationDate: timestamp("plan_expiration_date"),
+  subscriptionStatus: varchar("subscription_status", { length: 20 }).notNull().default("active"), // active, past_due, cancelled, expired, changed
+  renewedFromPlanId: integer("renewed_from_plan_id"), // References customerPlans.id of the period this plan renews
+  changedFromPlanId: integer("changed_from_plan_id"), // References customerPlans.id of the plan this one replaces on upgrade/downgrade
+  creditAmount: decimal("credit_amount", { precision: 10, scale: 2 }), // Prorated credit from the replaced plan, deducted from the charge
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -226,6 +531,7 @@ export const insertCustomerPlanSchema = createInsertSchema(customerPlans).pick({
   priceTableId: true,
   planType: true,
   amount: true,
+  paymentGatewayId: true,
   payHash: true,
   payStatus: true,
   payDate: true,
@@ -240,25 +546,329 @@ export const updateCustomerPlanSchema = createInsertSchema(customerPlans).pick({
   priceTableId: true,
   planType: true,
   amount: true,
+  paymentGatewayId: true,
   payHash: true,
   payStatus: true,
   payDate: true,
   payLink: true,
   payExpiration: true,
   planExpirationDate: true,
+  subscriptionStatus: true,
   isActive: true,
 }).partial();
 
+// Move a paid plan to another price table (upgrade or downgrade)
+export const changeCustomerPlanSchema = z.object({
+  priceTableId: z.number().int().positive(),
+  planType: z.enum(['3x', '12x']).optional(), // Defaults to the current plan type
+  paymentGatewayId: z.number().int().positive().optional(),
+});
+
+// Creating a plan may redeem a coupon of the customer's tenant
+export const createCustomerPlanSchema = insertCustomerPlanSchema.extend({
+  couponCode: z.string().trim().min(1).optional(),
+});
+
 export type InsertCustomerPlan = z.infer<typeof insertCustomerPlanSchema>;
+export type CreateCustomerPlan = z.infer<typeof createCustomerPlanSchema>;
 export type UpdateCustomerPlan = z.infer<typeof updateCustomerPlanSchema>;
+export type ChangeCustomerPlan = z.infer<typeof changeCustomerPlanSchema>;
 export type CustomerPlan = typeof customerPlans.$inferSelect;
 
+// Status history of customer plans (payment and subscription status changes)
+export const customerPlanHistory = pgTable("customer_plan_history", {
+  id: serial("id").primaryKey(),
+  customerPlanId: integer("customer_plan_id").references(() => customerPlans.id, { onDelete: "cascade" }).notNull(),
+  field: varchar("field", { length: 50 }).notNull(), // 'payStatus' or 'subscriptionStatus'
+  fromStatus: varchar("from_status", { length: 50 }),
+  toStatus: varchar("to_status", { length: 50 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertCustomerPlanHistorySchema = createInsertSchema(customerPlanHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCustomerPlanHistory = z.infer<typeof insertCustomerPlanHistorySchema>;
+export type CustomerPlanHistory = typeof customerPlanHistory.$inferSelect;
+
+// Coupons (discount codes) of an entrepreneur, applied when a customer plan is created
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 50 }).notNull(), // Stored upper-case, unique per entrepreneur
+  description: text("description"),
+  discountType: varchar("discount_type", { length: 20 }).notNull(), // 'percentage' or 'fixed'
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxRedemptions: integer("max_redemptions"), // null for unlimited
+  priceTableIds: integer("price_table_ids").array().notNull().default([]), // Empty for every price table
+  planTypes: text("plan_types").array().notNull().default([]), // '3x' and/or '12x', empty for both
+  isActive: boolean("is_active").default(true).notNull(),
+  entrepreneurId: integer("entrepreneur_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  codeUnique: unique().on(table.entrepreneurId, table.code),
+}));
+
+const couponFields = {
+  code: z.string().trim().min(1).max(50).transform((code) => code.toUpperCase()),
+  discountType: z.enum(['percentage', 'fixed']),
+  discountValue: z.string().regex(/^\d+(\.\d{1,2})?$/, "Discount must be a positive amount"),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  priceTableIds: z.array(z.number().int()).optional(),
+  planTypes: z.array(z.enum(['3x', '12x'])).optional(),
+};
+
+export const insertCouponSchema = createInsertSchema(coupons).omit({
+  id: true,
+  entrepreneurId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(couponFields).refine((coupon) => coupon.discountType !== 'percentage' || parseFloat(coupon.discountValue) <= 100, {
+  message: "A percentage discount cannot exceed 100",
+  path: ["discountValue"],
+});
+
+export const updateCouponSchema = createInsertSchema(coupons).omit({
+  id: true,
+  entrepreneurId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(couponFields).partial();
+
+// Price a plan with a coupon before creating it
+export const validateCouponSchema = z.object({
+  code: z.string().trim().min(1),
+  priceTableId: z.number().int().positive(),
+  planType: z.enum(['3x', '12x']),
+  customerId: z.number().int().positive().optional(), // Use the customer's tenant instead of the caller's
+});
+
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type UpdateCoupon = z.infer<typeof updateCouponSchema>;
+export type ValidateCoupon = z.infer<typeof validateCouponSchema>;
+export type Coupon = typeof coupons.$inferSelect;
+
+// Coupon redemptions, one per customer plan
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: serial("id").primaryKey(),
+  couponId: integer("coupon_id").references(() => coupons.id).notNull(),
+  customerPlanId: integer("customer_plan_id").references(() => customerPlans.id, { onDelete: "cascade" }).notNull().unique(),
+  customerId: integer("customer_id").references(() => users.id).notNull(),
+  originalAmount: decimal("original_amount", { precision: 10, scale: 2 }).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  redeemedAt: timestamp("redeemed_at").defaultNow(),
+});
+
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).omit({
+  id: true,
+  redeemedAt: true,
+});
+
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+
+// Payment events received from gateway webhooks, kept raw for auditing and replay
+export const paymentEvents = pgTable("payment_events", {
+  id: serial("id").primaryKey(),
+  paymentGatewayId: integer("payment_gateway_id").references(() => paymentGateways.id).notNull(),
+  eventId: varchar("event_id", { length: 255 }).notNull(), // Provider event id, used for idempotency
+  customerPlanId: integer("customer_plan_id").references(() => customerPlans.id, { onDelete: "set null" }),
+  payload: text("payload").notNull(), // Raw request body as received
+  status: varchar("status", { length: 50 }), // Charge status reported by the event
+  result: varchar("result", { length: 50 }).notNull().default("received"), // received, applied, ignored, unmatched
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  gatewayEventUnique: unique("payment_events_gateway_event_unique").on(table.paymentGatewayId, table.eventId),
+}));
+
+export const insertPaymentEventSchema = createInsertSchema(paymentEvents).pick({
+  paymentGatewayId: true,
+  eventId: true,
+  payload: true,
+});
+
+export type InsertPaymentEvent = z.infer<typeof insertPaymentEventSchema>;
+export type PaymentEvent = typeof paymentEvents.$inferSelect;
+
+// Payment reminder rules of an entrepreneur - when to send the pay link of a
+// pending plan to the customer over WhatsApp
+export const paymentReminderRules = pgTable("payment_reminder_rules", {
+  id: serial("id").primaryKey(),
+  entrepreneurId: integer("entrepreneur_id").references(() => users.id).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  trigger: varchar("trigger", { length: 30 }).notNull(), // 'after_creation' or 'before_expiration'
+  offsetHours: integer("offset_hours").notNull(), // Hours after the plan was created or before the pay link expires
+  messageTemplate: text("message_template").notNull(), // Placeholders: {{name}}, {{plan}}, {{amount}}, {{payLink}}, {{expiresAt}}
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const PAYMENT_REMINDER_PLACEHOLDERS = ['name', 'plan', 'amount', 'payLink', 'expiresAt'] as const;
+
+export const DEFAULT_PAYMENT_REMINDER_TEMPLATE =
+  "Hi {{name}}! Your {{plan}} plan ({{amount}}) is waiting for payment. Pay here: {{payLink}} (valid until {{expiresAt}}). Reply STOP to stop these reminders.";
+
+const paymentReminderRuleFields = {
+  name: z.string().trim().min(1).max(255),
+  trigger: z.enum(['after_creation', 'before_expiration']),
+  offsetHours: z.number().int().min(0).max(24 * 90),
+  messageTemplate: z.string().trim().min(1).max(1024).refine((template) => template.includes('{{payLink}}'), {
+    message: "The message must include the {{payLink}} placeholder",
+  }),
+};
+
+export const insertPaymentReminderRuleSchema = createInsertSchema(paymentReminderRules).omit({
+  id: true,
+  entrepreneurId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(paymentReminderRuleFields);
+
+export const updatePaymentReminderRuleSchema = createInsertSchema(paymentReminderRules).omit({
+  id: true,
+  entrepreneurId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(paymentReminderRuleFields).partial();
+
+export type InsertPaymentReminderRule = z.infer<typeof insertPaymentReminderRuleSchema>;
+export type UpdatePaymentReminderRule = z.infer<typeof updatePaymentReminderRuleSchema>;
+export type PaymentReminderRule = typeof paymentReminderRules.$inferSelect;
+
+// Payment reminders - one row per attempt of a rule on a plan
+export const paymentReminders = pgTable("payment_reminders", {
+  id: serial("id").primaryKey(),
+  entrepreneurId: integer("entrepreneur_id").references(() => users.id).notNull(),
+  ruleId: integer("rule_id").references(() => paymentReminderRules.id, { onDelete: "set null" }),
+  customerPlanId: integer("customer_plan_id").references(() => customerPlans.id, { onDelete: "cascade" }).notNull(),
+  customerId: integer("customer_id").references(() => users.id).notNull(),
+  whatsappMessageId: integer("whatsapp_message_id").references(() => whatsappMessages.id, { onDelete: "set null" }),
+  status: varchar("status", { length: 20 }).notNull(), // sent, failed, skipped
+  reason: text("reason"), // Why the reminder failed or was skipped
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertPaymentReminderSchema = createInsertSchema(paymentReminders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPaymentReminder = z.infer<typeof insertPaymentReminderSchema>;
+export type PaymentReminder = typeof paymentReminders.$inferSelect;
+
+export type PaymentReminderWithDetails = PaymentReminder & {
+  rule?: Pick<PaymentReminderRule, 'id' | 'name'> | null;
+  customer: Pick<User, 'id' | 'name' | 'phone'>;
+};
+
 // Customer Plan with joined data type
 export type CustomerPlanWithDetails = CustomerPlan & {
   customer: Pick<User, 'id' | 'name' | 'email'>;
-  priceTable: Pick<PriceTable, 'id' | 'title' | 'subtitle' | 'currentPrice3x' | 'currentPrice12x' | 'months'>;
+  priceTable: Pick<PriceTable, 'id' | 'title' | 'subtitle' | 'currentPrice3x' | 'currentPrice12x' | 'currency' | 'months'>;
+};
+
+// Support SLA Policies - first response and resolution targets per priority,
+// optionally narrowed to one category. A ticket gets its category's policy,
+// or else the catch-all policy of its priority.
+export const supportSlaPolicies = pgTable("support_sla_policies", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  priority: varchar("priority", { length: 20 }).notNull(), // low, medium, high, urgent
+  category: varchar("category", { length: 50 }), // null for every category
+  firstResponseMinutes: integer("first_response_minutes").notNull(),
+  resolutionMinutes: integer("resolution_minutes").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  scopeUnique: unique().on(table.priority, table.category).nullsNotDistinct(),
+}));
+
+export const SUPPORT_TICKET_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+export const SUPPORT_TICKET_CATEGORIES = ['technical', 'billing', 'feature', 'bug', 'general'] as const;
+
+const supportSlaPolicyFields = {
+  name: z.string().trim().min(1).max(255),
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES),
+  category: z.enum(SUPPORT_TICKET_CATEGORIES).nullable(),
+  firstResponseMinutes: z.number().int().min(1).max(60 * 24 * 90),
+  resolutionMinutes: z.number().int().min(1).max(60 * 24 * 90),
+};
+
+export const insertSupportSlaPolicySchema = createInsertSchema(supportSlaPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(supportSlaPolicyFields);
+
+export const updateSupportSlaPolicySchema = createInsertSchema(supportSlaPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(supportSlaPolicyFields).partial();
+
+export type InsertSupportSlaPolicy = z.infer<typeof insertSupportSlaPolicySchema>;
+export type UpdateSupportSlaPolicy = z.infer<typeof updateSupportSlaPolicySchema>;
+export type SupportSlaPolicy = typeof supportSlaPolicies.$inferSelect;
+
+// Support Routing Rules - assign new tickets to an agent or a pool of agents.
+// Rules are tried by position and the first whose conditions all match wins.
+export const supportRoutingRules = pgTable("support_routing_rules", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  category: varchar("category", { length: 50 }), // null matches every category
+  priority: varchar("priority", { length: 20 }), // null matches every priority
+  keyword: varchar("keyword", { length: 100 }), // Matched in the subject, ignoring case; null matches every subject
+  agentIds: integer("agent_ids").array().notNull(), // One agent, or a pool to pick from
+  strategy: varchar("strategy", { length: 20 }).notNull().default("round_robin"), // round_robin, least_open
+  lastAssignedTo: integer("last_assigned_to").references(() => users.id, { onDelete: "set null" }), // Round-robin position
+  position: integer("position").notNull().default(0),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Users that can work support tickets. Tickets belong to no tenant, so only
+// platform staff: an entrepreneur would see every tenant's customers
+export const SUPPORT_AGENT_ROLES = ['super-admin'];
+
+const supportRoutingRuleFields = {
+  name: z.string().trim().min(1).max(255),
+  category: z.enum(SUPPORT_TICKET_CATEGORIES).nullish(),
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES).nullish(),
+  keyword: z.string().trim().max(100).nullish().transform((keyword) => keyword || null),
+  agentIds: z.array(z.number().int().positive()).min(1).max(50),
+  strategy: z.enum(['round_robin', 'least_open']),
+  position: z.number().int().min(0),
 };
 
+export const insertSupportRoutingRuleSchema = createInsertSchema(supportRoutingRules).omit({
+  id: true,
+  lastAssignedTo: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(supportRoutingRuleFields);
+
+export const updateSupportRoutingRuleSchema = createInsertSchema(supportRoutingRules).omit({
+  id: true,
+  lastAssignedTo: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend(supportRoutingRuleFields).partial();
+
+export type InsertSupportRoutingRule = z.infer<typeof insertSupportRoutingRuleSchema>;
+export type UpdateSupportRoutingRule = z.infer<typeof updateSupportRoutingRuleSchema>;
+export type SupportRoutingRule = typeof supportRoutingRules.$inferSelect;
+
 // Support Tickets
 export const supportTickets = pgTable("support_tickets", {
   id: serial("id").primaryKey(),
@@ -276,6 +886,11 @@ export const supportTickets = pgTable("support_tickets", {
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   resolvedAt: timestamp("resolved_at"),
+  // SLA targets, copied from the matching policy when the ticket is created
+  slaPolicyId: integer("sla_policy_id").references(() => supportSlaPolicies.id, { onDelete: "set null" }),
+  firstResponseDueAt: timestamp("first_response_due_at"),
+  resolutionDueAt: timestamp("resolution_due_at"),
+  firstRespondedAt: timestamp("first_responded_at"), // First agent reply
 });
 
 export const insertSupportTicketSchema = createInsertSchema(supportTickets).pick({
@@ -293,14 +908,113 @@ export const updateSupportTicketSchema = createInsertSchema(supportTickets).pick
   assignedTo: true,
   resolution: true,
   resolvedAt: true,
+}).extend({
+  status: z.enum(['open', 'in_progress', 'resolved', 'closed']),
+  resolvedAt: z.coerce.date().nullable(),
 }).partial();
 
 export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
 export type UpdateSupportTicket = z.infer<typeof updateSupportTicketSchema>;
 export type SupportTicket = typeof supportTickets.$inferSelect;
 
+export type SupportTicketSlaTargets = Pick<SupportTicket, 'slaPolicyId' | 'firstResponseDueAt' | 'resolutionDueAt'>;
+
 export type SupportTicketWithAssignee = SupportTicket & {
   assignee?: Pick<User, 'id' | 'name' | 'email'> | null;
+  sla?: SupportTicketSla | null;
+};
+
+// Support Ticket Messages - the ticket's timeline: replies to and from the
+// customer, internal notes only staff can see, and status changes
+export const supportTicketMessages = pgTable("support_ticket_messages", {
+  id: serial("id").primaryKey(),
+  supportTicketId: integer("support_ticket_id").references(() => supportTickets.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // customer_reply, agent_reply, internal_note, status_change
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }), // null for the customer and for system events
+  authorName: varchar("author_name", { length: 255 }).notNull(), // Kept when the author is removed
+  body: text("body"), // null for status changes
+  fromStatus: varchar("from_status", { length: 20 }),
+  toStatus: varchar("to_status", { length: 20 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Attachments are stored elsewhere (e.g. a file host); only their metadata is kept
+export const supportTicketAttachments = pgTable("support_ticket_attachments", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").references(() => supportTicketMessages.id, { onDelete: "cascade" }).notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  url: text("url").notNull(),
+  contentType: varchar("content_type", { length: 100 }),
+  size: integer("size"), // Bytes
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Attachment links are shown to staff and customers, so only web links:
+// javascript: or data: URLs would run in their browser
+export function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+export const supportTicketAttachmentSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  url: z.string().url().refine(isWebUrl, "Use an http or https link"),
+  contentType: z.string().trim().max(100).nullish(),
+  size: z.number().int().nonnegative().nullish(),
+});
+
+// Staff add replies and notes; customer replies received elsewhere (e.g. by
+// email) can be logged on the customer's behalf
+export const createSupportTicketMessageSchema = z.object({
+  type: z.enum(['agent_reply', 'internal_note', 'customer_reply']),
+  body: z.string().trim().min(1).max(10000),
+  attachments: z.array(supportTicketAttachmentSchema).max(10).default([]),
+});
+
+export const insertSupportTicketMessageSchema = createInsertSchema(supportTicketMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type SupportTicketAttachmentInput = z.infer<typeof supportTicketAttachmentSchema>;
+export type CreateSupportTicketMessage = z.infer<typeof createSupportTicketMessageSchema>;
+export type InsertSupportTicketMessage = z.infer<typeof insertSupportTicketMessageSchema>;
+export type SupportTicketMessage = typeof supportTicketMessages.$inferSelect;
+export type SupportTicketAttachment = typeof supportTicketAttachments.$inferSelect;
+
+export type SupportTicketMessageWithAttachments = SupportTicketMessage & {
+  attachments: SupportTicketAttachment[];
+};
+
+// Support ticket portal - customers look their ticket up by its ticketId and
+// the email they submitted it with
+const portalEmail = z.string().trim().email();
+
+export const supportTicketLookupSchema = z.object({
+  ticketId: z.string().trim().min(1).max(50),
+  email: portalEmail,
+});
+
+export const supportTicketPortalReplySchema = z.object({
+  email: portalEmail,
+  body: z.string().trim().min(1).max(10000),
+  attachments: z.array(supportTicketAttachmentSchema).max(10).default([]),
+});
+
+export const supportTicketPortalCloseSchema = z.object({
+  email: portalEmail,
+});
+
+// Timeline entries the customer sees; internal notes stay with the staff
+export const PUBLIC_SUPPORT_TICKET_MESSAGE_TYPES = ['customer_reply', 'agent_reply', 'status_change'] as const;
+
+export type SupportTicketLookup = z.infer<typeof supportTicketLookupSchema>;
+export type SupportTicketPortalReply = z.infer<typeof supportTicketPortalReplySchema>;
+
+export type PublicSupportTicketMessage = Omit<SupportTicketMessageWithAttachments, 'authorId'>;
+
+export type PublicSupportTicket = Pick<SupportTicket,
+  'ticketId' | 'name' | 'subject' | 'category' | 'priority' | 'message' | 'status' | 'createdAt' | 'updatedAt' | 'resolvedAt'> & {
+  messages: PublicSupportTicketMessage[];
 };
 
 // Accounting table
@@ -312,12 +1026,14 @@ export const accounting = pgTable("accounting", {
   date: timestamp("date").notNull(),
   type: varchar("type", { length: 10 }).notNull(), // 'receives' or 'expenses'
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  customerPlanId: integer("customer_plan_id").references(() => customerPlans.id, { onDelete: "set null" }), // Set on entries generated from a paid plan
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertAccountingSchema = createInsertSchema(accounting).omit({
   id: true,
+  customerPlanId: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -326,6 +1042,7 @@ export const insertAccountingSchema = createInsertSchema(accounting).omit({
 
 export const updateAccountingSchema = createInsertSchema(accounting).omit({
   id: true,
+  customerPlanId: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -335,3 +1052,98 @@ export const updateAccountingSchema = createInsertSchema(accounting).omit({
 export type InsertAccounting = z.infer<typeof insertAccountingSchema>;
 export type UpdateAccounting = z.infer<typeof updateAccountingSchema>;
 export type Accounting = typeof accounting.$inferSelect;
+
+// Audit log for sensitive actions (e.g. revealing gateway credentials)
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  entrepreneurId: integer("entrepreneur_id").references(() => users.id),
+  action: varchar("action", { length: 100 }).notNull(), // e.g. 'payment_gateway.reveal'
+  resourceType: varchar("resource_type", { length: 50 }).notNull(),
+  resourceId: integer("resource_id"),
+  ipAddress: varchar("ip_address", { length: 100 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+
+// Emails the platform sends; preferences are kept per type
+export const EMAIL_NOTIFICATION_TYPES = [
+  'ticket_created',
+  'ticket_replied',
+  'ticket_resolved',
+  'plan_paid',
+  'plan_expiring',
+  'user_invited',
+  'password_reset',
+] as const;
+
+export type EmailNotificationType = typeof EMAIL_NOTIFICATION_TYPES[number];
+
+// Account emails carry password links, so users cannot turn them off
+export const OPTIONAL_EMAIL_NOTIFICATION_TYPES = [
+  'ticket_created',
+  'ticket_replied',
+  'ticket_resolved',
+  'plan_paid',
+  'plan_expiring',
+] as const satisfies readonly EmailNotificationType[];
+
+export type OptionalEmailNotificationType = typeof OPTIONAL_EMAIL_NOTIFICATION_TYPES[number];
+
+// Per-user email preferences; a type without a row is sent
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 50 }).notNull(),
+  email: boolean("email").default(true).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userTypeUnique: unique().on(table.userId, table.type),
+}));
+
+export const updateNotificationPreferencesSchema = z.array(z.object({
+  type: z.enum(OPTIONAL_EMAIL_NOTIFICATION_TYPES),
+  email: z.boolean(),
+})).max(OPTIONAL_EMAIL_NOTIFICATION_TYPES.length);
+
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+// Outgoing email queue; messages are rendered when queued and delivered by a
+// background job so request handlers never wait on the mail server
+export const emailNotifications = pgTable("email_notifications", {
+  id: serial("id").primaryKey(),
+  type: varchar("type", { length: 50 }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // Set when the recipient has an account
+  to: varchar("to_email", { length: 255 }).notNull(),
+  subject: varchar("subject", { length: 255 }).notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, sent, failed, skipped
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  reason: text("reason"), // Last delivery error, or why the email was skipped
+  transportMessageId: varchar("transport_message_id", { length: 255 }),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertEmailNotificationSchema = createInsertSchema(emailNotifications).omit({
+  id: true,
+  attempts: true,
+  nextAttemptAt: true,
+  transportMessageId: true,
+  sentAt: true,
+  createdAt: true,
+});
+
+export type InsertEmailNotification = z.infer<typeof insertEmailNotificationSchema>;
+export type EmailNotification = typeof emailNotifications.$inferSelect;
@@ -0,0 +1,74 @@
+// Support SLA helpers shared by the server and the client. A ticket's targets
+// are copied from its policy when it is created, so editing a policy only
+// affects new tickets.
+
+// on_track and at_risk targets are still running; met and missed ones were
+// reached on time or late; overdue ones are past due and still running
+export type SupportSlaStatus = 'on_track' | 'at_risk' | 'overdue' | 'met' | 'missed';
+
+export interface SupportSlaTarget {
+  dueAt: Date;
+  status: SupportSlaStatus;
+}
+
+export interface SupportTicketSla {
+  firstResponse: SupportSlaTarget | null;
+  resolution: SupportSlaTarget | null;
+  breached: boolean; // Some target is overdue or was missed
+}
+
+// The ticket fields the SLA is computed from
+export interface SupportSlaFields {
+  status: string;
+  firstResponseDueAt: Date | null;
+  resolutionDueAt: Date | null;
+  firstRespondedAt: Date | null;
+  resolvedAt: Date | null;
+}
+
+export const DEFAULT_SLA_WARNING_MINUTES = 60;
+
+export function formatSlaDuration(minutes: number): string {
+  const [value, unit] = minutes % (24 * 60) === 0 ? [minutes / (24 * 60), 'day']
+    : minutes % 60 === 0 ? [minutes / 60, 'hour']
+    : [minutes, 'minute'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+function targetStatus(dueAt: Date, reachedAt: Date | null, now: Date, warningMinutes: number): SupportSlaStatus {
+  if (reachedAt) {
+    return reachedAt <= dueAt ? 'met' : 'missed';
+  }
+  if (now > dueAt) {
+    return 'overdue';
+  }
+  return dueAt.getTime() - now.getTime() <= warningMinutes * 60 * 1000 ? 'at_risk' : 'on_track';
+}
+
+// Where a ticket stands against its targets; null for tickets without a
+// policy. Resolving or closing a ticket without a reply also answers it.
+export function getSupportTicketSla(
+  ticket: SupportSlaFields,
+  now: Date = new Date(),
+  warningMinutes: number = DEFAULT_SLA_WARNING_MINUTES,
+): SupportTicketSla | null {
+  if (!ticket.firstResponseDueAt && !ticket.resolutionDueAt) {
+    return null;
+  }
+
+  const resolvedAt = ticket.status === 'resolved' || ticket.status === 'closed' ? ticket.resolvedAt : null;
+  const firstResponse = ticket.firstResponseDueAt ? {
+    dueAt: ticket.firstResponseDueAt,
+    status: targetStatus(ticket.firstResponseDueAt, ticket.firstRespondedAt ?? resolvedAt, now, warningMinutes),
+  } : null;
+  const resolution = ticket.resolutionDueAt ? {
+    dueAt: ticket.resolutionDueAt,
+    status: targetStatus(ticket.resolutionDueAt, resolvedAt, now, warningMinutes),
+  } : null;
+
+  return {
+    firstResponse,
+    resolution,
+    breached: [firstResponse, resolution].some((target) => target?.status === 'overdue' || target?.status === 'missed'),
+  };
+}